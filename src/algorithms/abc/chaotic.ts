@@ -0,0 +1,59 @@
+/**
+ * Chapter 7.2.2: Chaotic ABC
+ *
+ * Draws the search factor φ and the positions of scouted sources from a
+ * chaotic map instead of a uniform random number generator. The chaotic
+ * sequence covers the range without repeating, which helps the colony
+ * leave local optima.
+ *
+ * Reference: Hassanien & Emary, Section 7.2.2
+ */
+
+import { ArtificialBeeColony, ABCConfig } from './standard';
+import { ChaosGenerator, ChaosMapType, ContinuousSolution } from '../../core';
+
+/**
+ * Chaotic ABC configuration
+ */
+export interface ChaoticABCConfig extends ABCConfig {
+    chaosMap: ChaosMapType;
+}
+
+/**
+ * Chaotic Artificial Bee Colony (Section 7.2.2)
+ */
+export class ChaoticABC extends ArtificialBeeColony {
+    private chaoticConfig: ChaoticABCConfig;
+    private chaos: ChaosGenerator;
+
+    constructor(config: ChaoticABCConfig) {
+        super(config);
+        this.chaoticConfig = config;
+        this.chaos = new ChaosGenerator(config.chaosMap, undefined, this.random);
+    }
+
+    /**
+     * Reset including the chaos sequence
+     */
+    public reset(): void {
+        super.reset();
+        // chaoticConfig may not be set during parent constructor call
+        if (this.chaoticConfig) {
+            this.chaos = new ChaosGenerator(this.chaoticConfig.chaosMap, undefined, this.random);
+        }
+    }
+
+    /**
+     * Chaotic φ = 2c_t - 1 ∈ [-1, 1]
+     */
+    protected phi(): number {
+        return 2 * this.chaos.next() - 1;
+    }
+
+    /**
+     * Scout source placed by the chaotic sequence
+     */
+    protected scoutPosition(): ContinuousSolution {
+        return this.dimensionBounds.map(({ min, max }) => this.chaos.nextInRange(min, max));
+    }
+}
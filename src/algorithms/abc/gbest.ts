@@ -0,0 +1,40 @@
+/**
+ * Chapter 7.2.1: Gbest-Guided ABC (GABC)
+ *
+ * Adds the global best food source to the search equation, in the
+ * manner of PSO's social term:
+ *
+ *   v_ij = x_ij + φ_ij (x_ij - x_kj) + ψ_ij (g_j - x_ij),   ψ_ij ∈ U(0, C)
+ *
+ * The extra term improves exploitation, which is the weak point of the
+ * standard search equation.
+ *
+ * Reference: Hassanien & Emary, Section 7.2.1
+ */
+
+import { ArtificialBeeColony, ABCConfig } from './standard';
+import { ContinuousSolution } from '../../core';
+
+/**
+ * Gbest-guided ABC configuration
+ */
+export interface GbestABCConfig extends ABCConfig {
+    c: number;  // Upper bound of ψ (C = 1.5 recommended)
+}
+
+/**
+ * Gbest-Guided Artificial Bee Colony (Section 7.2.1)
+ */
+export class GbestGuidedABC extends ArtificialBeeColony {
+    constructor(config: GbestABCConfig) {
+        super(config);
+    }
+
+    /**
+     * ψ (g_j - x_ij): pull towards the best source found so far
+     */
+    protected guidance(x: ContinuousSolution, d: number): number {
+        const { c } = this.abcConfig as GbestABCConfig;
+        return this.random() * c * (this.globalBest.position[d] - x[d]);
+    }
+}
@@ -0,0 +1,12 @@
+/**
+ * Artificial Bee Colony Family
+ */
+
+export { ArtificialBeeColony, createDefaultABCConfig } from './standard';
+export type { ABCConfig, BeeRole, FoodSourceMetadata } from './standard';
+export { GbestGuidedABC } from './gbest';
+export type { GbestABCConfig } from './gbest';
+export { ChaoticABC } from './chaotic';
+export type { ChaoticABCConfig } from './chaotic';
+export { ModifiedABC } from './modified';
+export type { ModifiedABCConfig } from './modified';
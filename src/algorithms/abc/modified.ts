@@ -0,0 +1,50 @@
+/**
+ * Chapter 7.2.3: Modified ABC (MABC)
+ *
+ * Perturbs several dimensions per trial instead of one. Each dimension is
+ * changed with the modification rate MR (at least one always is), and φ
+ * is drawn from [-SF, SF] with a scaling factor SF. Larger MR speeds up
+ * convergence on separable functions; the original ABC is MR → 1/D, SF = 1.
+ *
+ * Reference: Hassanien & Emary, Section 7.2.3
+ */
+
+import { ArtificialBeeColony, ABCConfig } from './standard';
+
+/**
+ * Modified ABC configuration
+ */
+export interface ModifiedABCConfig extends ABCConfig {
+    mr: number;  // Modification rate: probability of perturbing each dimension
+    sf: number;  // Scaling factor: φ ∈ [-SF, SF]
+}
+
+/**
+ * Modified Artificial Bee Colony (Section 7.2.3)
+ */
+export class ModifiedABC extends ArtificialBeeColony {
+    constructor(config: ModifiedABCConfig) {
+        super(config);
+    }
+
+    /**
+     * Each dimension with probability MR, and at least one
+     */
+    protected perturbedDimensions(): number[] {
+        const { mr } = this.abcConfig as ModifiedABCConfig;
+        const dims: number[] = [];
+        for (let d = 0; d < this.dimensions; d++) {
+            if (this.random() < mr) dims.push(d);
+        }
+        if (dims.length === 0) dims.push(Math.floor(this.random() * this.dimensions));
+        return dims;
+    }
+
+    /**
+     * φ ∈ [-SF, SF]
+     */
+    protected phi(): number {
+        const { sf } = this.abcConfig as ModifiedABCConfig;
+        return (this.random() * 2 - 1) * sf;
+    }
+}
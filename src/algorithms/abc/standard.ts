@@ -0,0 +1,231 @@
+/**
+ * Chapter 7.1.2: Standard Artificial Bee Colony (ABC)
+ *
+ * Based on the foraging behaviour of honey bee colonies. Each food
+ * source is a candidate solution and is exploited by one employed bee.
+ *
+ * One cycle has three phases:
+ * - Employed bees search near their own food source
+ * - Onlooker bees pick sources with probability proportional to their
+ *   nectar (fitness) and search near them
+ * - A source that has not improved for `limit` trials is abandoned and
+ *   its bee becomes a scout that finds a new random source
+ *
+ * Reference: Hassanien & Emary, "Swarm Intelligence: Principles, Advances, and Applications"
+ */
+
+import {
+    BaseContinuousNDOptimizer,
+    ContinuousNDConfig,
+    ContinuousSolution,
+    ObjectiveFunction
+} from '../../core';
+
+/**
+ * Artificial Bee Colony configuration
+ */
+export interface ABCConfig extends ContinuousNDConfig {
+    limit: number;  // Trials without improvement before a source is abandoned
+}
+
+/**
+ * Bee role that last worked a food source (Agent.metadata.role)
+ */
+export type BeeRole = 'employed' | 'onlooker' | 'scout';
+
+/**
+ * Per-source metadata, recorded for visualization
+ */
+export interface FoodSourceMetadata {
+    [key: string]: unknown;  // Index signature for Record compatibility
+    role: BeeRole;
+    trial: number;  // Consecutive trials without improvement
+}
+
+function sourceMetadata(role: BeeRole, trial: number): FoodSourceMetadata {
+    return { role, trial };
+}
+
+/**
+ * Standard Artificial Bee Colony (Section 7.1.2)
+ *
+ * The population is the set of food sources (one employed bee each).
+ */
+export class ArtificialBeeColony extends BaseContinuousNDOptimizer {
+    protected abcConfig: ABCConfig;
+
+    constructor(config: ABCConfig) {
+        super(config);
+        this.abcConfig = config;
+        this.reset();
+    }
+
+    /**
+     * Random food sources, each worked by an employed bee
+     */
+    protected initializePopulation(): void {
+        super.initializePopulation();
+        for (const source of this.population) {
+            source.metadata = sourceMetadata('employed', 0);
+        }
+    }
+
+    /**
+     * One ABC cycle: employed, onlooker and scout phases
+     */
+    protected updatePopulation(): void {
+        this.employedPhase();
+        this.onlookerPhase();
+        this.scoutPhase();
+    }
+
+    /**
+     * Each employed bee searches near its own source
+     */
+    protected employedPhase(): void {
+        for (let i = 0; i < this.population.length; i++) {
+            this.exploit(i, 'employed');
+        }
+    }
+
+    /**
+     * Onlookers choose sources by roulette wheel on nectar amount (Eq. 7.2)
+     */
+    protected onlookerPhase(): void {
+        const n = this.population.length;
+        const nectar = this.population.map(source => this.nectar(source.fitness));
+        const total = nectar.reduce((sum, value) => sum + value, 0);
+
+        for (let onlooker = 0; onlooker < n; onlooker++) {
+            let r = this.random() * total;
+            let i = 0;
+            while (i < n - 1 && r >= nectar[i]) {
+                r -= nectar[i];
+                i++;
+            }
+            this.exploit(i, 'onlooker');
+        }
+    }
+
+    /**
+     * The most-tried source past the limit is abandoned; its bee scouts a new one
+     */
+    protected scoutPhase(): void {
+        let worst = -1;
+        let maxTrial = this.abcConfig.limit;
+        this.population.forEach((source, i) => {
+            const { trial } = source.metadata as FoodSourceMetadata;
+            if (trial > maxTrial) {
+                maxTrial = trial;
+                worst = i;
+            }
+        });
+        if (worst < 0) return;
+
+        const position = this.scoutPosition();
+        this.population[worst] = {
+            position,
+            fitness: this.evaluate(position),
+            metadata: sourceMetadata('scout', 0)
+        };
+        this.updateGlobalBest(this.population[worst]);
+    }
+
+    /**
+     * Search near source i and keep the better of the two (greedy selection)
+     */
+    protected exploit(i: number, role: BeeRole): void {
+        const source = this.population[i];
+        const meta = source.metadata as FoodSourceMetadata;
+        const candidate = this.handleBounds(this.produceCandidate(i), source.position);
+        const fitness = this.evaluate(candidate);
+
+        if (fitness < source.fitness) {
+            this.population[i] = {
+                position: candidate,
+                fitness,
+                metadata: sourceMetadata(role, 0)
+            };
+            this.updateGlobalBest(this.population[i]);
+        } else {
+            source.metadata = sourceMetadata(role, meta.trial + 1);
+        }
+    }
+
+    /**
+     * Eq. 7.1: v_ij = x_ij + φ_ij (x_ij - x_kj) for the perturbed dimensions j,
+     * with k ≠ i a random source
+     */
+    protected produceCandidate(i: number): ContinuousSolution {
+        const x = this.population[i].position;
+        const xk = this.population[this.randomPartner(i)].position;
+        const candidate = [...x];
+
+        for (const d of this.perturbedDimensions()) {
+            candidate[d] = x[d] + this.phi() * (x[d] - xk[d]) + this.guidance(x, d);
+        }
+        return candidate;
+    }
+
+    /**
+     * Dimensions changed per trial: one at random
+     */
+    protected perturbedDimensions(): number[] {
+        return [Math.floor(this.random() * this.dimensions)];
+    }
+
+    /**
+     * Random factor φ ∈ [-1, 1]
+     */
+    protected phi(): number {
+        return this.random() * 2 - 1;
+    }
+
+    /**
+     * Extra term added to dimension d of a candidate (none in standard ABC)
+     */
+    protected guidance(_x: ContinuousSolution, _d: number): number {
+        return 0;
+    }
+
+    /**
+     * Position of a newly scouted source
+     */
+    protected scoutPosition(): ContinuousSolution {
+        return this.randomPosition();
+    }
+
+    /**
+     * Random source index other than i
+     */
+    protected randomPartner(i: number): number {
+        const n = this.population.length;
+        if (n < 2) return i;
+        const k = Math.floor(this.random() * (n - 1));
+        return k >= i ? k + 1 : k;
+    }
+
+    /**
+     * Nectar amount of a source: 1/(1+f) for f ≥ 0, 1+|f| otherwise
+     */
+    protected nectar(fitness: number): number {
+        return fitness >= 0 ? 1 / (1 + fitness) : 1 + Math.abs(fitness);
+    }
+}
+
+/**
+ * Default Artificial Bee Colony configuration
+ */
+export function createDefaultABCConfig(
+    objectiveFunction: ObjectiveFunction<ContinuousSolution>,
+    dimensions: number = 2
+): ABCConfig {
+    return {
+        populationSize: 25,
+        type: 'continuous',
+        dimensions,
+        bounds: { min: -5.12, max: 5.12 },
+        objectiveFunction,
+        limit: 25 * dimensions
+    };
+}
@@ -1,12 +1,201 @@
-import { ObjectiveFunction } from '../../core/optimizer';
-import { StandardAFSA, AFSAConfig } from './standard';
+/**
+ * Chapter 3.2.1: Simplified Binary AFSA
+ *
+ * The AFSA behaviors carried over to bit strings. Distance is the Hamming
+ * distance, so the continuous Visual and Step parameters disappear:
+ * - Neighbors are the fish within a Hamming radius (a fraction of the bit length)
+ * - Moving towards a target copies each differing bit with probability 1/2
+ * - Swarming targets the bitwise majority of the neighbors
+ * - Following targets the best neighbor
+ * - Preying samples bit strings within the radius and moves towards the first improvement
+ * - Random behavior flips a single bit
+ *
+ * A fish only takes its new bit string if it is no worse (ties are
+ * accepted so the school can drift across plateaus).
+ *
+ * Reference: Hassanien & Emary, Section 3.2.1
+ */
 
-export class SimplifiedBinaryAFSA extends StandardAFSA {
-    constructor(config: AFSAConfig, func: ObjectiveFunction) {
-        super(config, func);
+import {
+    BaseBinaryOptimizer,
+    BinaryConfig,
+    BinarySolution,
+    ObjectiveFunction,
+    Agent
+} from '../../core';
+
+/** Behavior that produced a fish's move this iteration */
+export type FishBehavior = 'swarm' | 'follow' | 'prey' | 'random';
+
+/**
+ * Binary AFSA configuration
+ */
+export interface BinaryAFSAConfig extends BinaryConfig {
+    visual: number;     // Neighborhood radius as a fraction of the bit length (0 < visual ≤ 1)
+    delta: number;      // Crowding factor (0 < delta < 1)
+    tryNumber: number;  // Max attempts in preying behavior
+}
+
+/**
+ * Simplified Binary AFSA (Section 3.2.1)
+ */
+export class SimplifiedBinaryAFSA extends BaseBinaryOptimizer {
+    protected afsaConfig: BinaryAFSAConfig;
+
+    constructor(config: BinaryAFSAConfig) {
+        super(config);
+        this.afsaConfig = config;
+        this.reset();
     }
+
+    /**
+     * Core Binary AFSA update logic (synchronous, as in standard AFSA)
+     */
+    protected updatePopulation(): void {
+        const { delta, tryNumber } = this.afsaConfig;
+        const radius = this.visualRadius();
+        const n = this.population.length;
+
+        const moves: { position: BinarySolution; behavior: FishBehavior }[] = [];
+
+        for (const fish of this.population) {
+            const neighbors = this.getNeighbors(fish, radius);
+            const nf = neighbors.length;
+            const uncrowded = nf > 0 && nf / n < delta;
+
+            let position: BinarySolution | null = null;
+            let behavior: FishBehavior = 'random';
+
+            // 1. SWARMING: move towards the majority bit string of the neighbors
+            if (uncrowded) {
+                const center = this.getMajority(neighbors);
+                if (this.evaluate(center) < fish.fitness) {
+                    position = this.moveTowards(fish.position, center);
+                    behavior = 'swarm';
+                }
+            }
+
+            // 2. FOLLOWING: move towards the best neighbor
+            if (!position && uncrowded) {
+                const bestNeighbor = neighbors.reduce((best, neighbor) =>
+                    neighbor.fitness < best.fitness ? neighbor : best
+                );
+                if (bestNeighbor.fitness < fish.fitness) {
+                    position = this.moveTowards(fish.position, bestNeighbor.position);
+                    behavior = 'follow';
+                }
+            }
+
+            // 3. PREYING: try random points within the visual range
+            if (!position) {
+                for (let j = 0; j < tryNumber; j++) {
+                    const candidate = this.flipBits(fish.position, 1 + Math.floor(this.random() * radius));
+                    if (this.evaluate(candidate) < fish.fitness) {
+                        position = this.moveTowards(fish.position, candidate);
+                        behavior = 'prey';
+                        break;
+                    }
+                }
+            }
+
+            // 4. RANDOM: flip a single bit
+            if (!position) {
+                position = this.flipBits(fish.position, 1);
+            }
+
+            moves.push({ position, behavior });
+        }
+
+        // Apply updates (synchronous); a move is kept only if it is no worse
+        for (let i = 0; i < n; i++) {
+            const fish = this.population[i];
+            const fitness = this.evaluate(moves[i].position);
+            if (fitness <= fish.fitness) {
+                fish.position = moves[i].position;
+                fish.fitness = fitness;
+            }
+            fish.metadata = { behavior: moves[i].behavior };
+            this.updateGlobalBest(fish);
+        }
+    }
+
+    /**
+     * Hamming radius of the visual range (at least one bit)
+     */
+    protected visualRadius(): number {
+        return Math.max(1, Math.round(this.afsaConfig.visual * this.dimensions));
+    }
+
+    /**
+     * Fish within the Hamming radius
+     */
+    private getNeighbors(fish: Agent<BinarySolution>, radius: number): Agent<BinarySolution>[] {
+        return this.population.filter(other =>
+            other !== fish && this.hamming(fish.position, other.position) <= radius
+        );
+    }
+
+    /**
+     * Bitwise majority vote (ties broken at random)
+     */
+    private getMajority(agents: Agent<BinarySolution>[]): BinarySolution {
+        return Array.from({ length: this.dimensions }, (_, d) => {
+            let ones = 0;
+            for (const agent of agents) ones += agent.position[d];
+            const zeros = agents.length - ones;
+            if (ones === zeros) return this.random() < 0.5 ? 1 : 0;
+            return ones > zeros ? 1 : 0;
+        });
+    }
+
+    /**
+     * Copy each bit that differs from the target with probability 1/2
+     * (at least one, so the fish always moves when it can)
+     */
+    private moveTowards(from: BinarySolution, to: BinarySolution): BinarySolution {
+        const differing: number[] = [];
+        for (let d = 0; d < this.dimensions; d++) {
+            if (from[d] !== to[d]) differing.push(d);
+        }
+        if (differing.length === 0) return [...from];
+
+        const result = [...from];
+        const forced = differing[Math.floor(this.random() * differing.length)];
+        for (const d of differing) {
+            if (d === forced || this.random() < 0.5) result[d] = to[d];
+        }
+        return result;
+    }
+
+    /**
+     * Flip `count` distinct random bits
+     */
+    private flipBits(bits: BinarySolution, count: number): BinarySolution {
+        const result = [...bits];
+        const indices = Array.from({ length: this.dimensions }, (_, d) => d);
+        for (let k = 0; k < Math.min(count, this.dimensions); k++) {
+            const j = k + Math.floor(this.random() * (this.dimensions - k));
+            [indices[k], indices[j]] = [indices[j], indices[k]];
+            result[indices[k]] = result[indices[k]] === 1 ? 0 : 1;
+        }
+        return result;
+    }
+}
+
+/**
+ * Default Binary AFSA configuration
+ */
+export function createDefaultBinaryAFSAConfig(
+    objectiveFunction: ObjectiveFunction<BinarySolution>,
+    dimensions: number = 64
+): BinaryAFSAConfig {
+    return {
+        populationSize: 30,
+        type: 'binary',
+        dimensions,
+        objectiveFunction,
+        visual: 0.25,
+        delta: 0.618,
+        tryNumber: 5
+    };
 }
-// Note: This is currently a stub inheriting from StandardAFSA.
-// True binary implementation requires discrete/binary optimization support in the core.
-// For now, we register it but it will behave like standard continuous AFSA until we add binary support.
-// The book (3.2.1) describes removing Visual and Step parameters for binary optimization.
@@ -4,10 +4,14 @@
  * Re-exports the refactored AFSA using the new framework.
  */
 
-export { AFSAAlgorithm, AFSAConfig, createDefaultAFSAConfig } from './standard';
+export { AFSAAlgorithm, createDefaultAFSAConfig } from './standard';
+export type { AFSAConfig } from './standard';
+export { SimplifiedBinaryAFSA, createDefaultBinaryAFSAConfig } from './binary';
+export type { BinaryAFSAConfig, FishBehavior } from './binary';
+export { MultiObjectiveAFSA, createDefaultMultiObjectiveAFSAConfig } from './multi-objective';
+export type { MultiObjectiveAFSAConfig } from './multi-objective';
 
 // TODO: Refactor these variants to use new framework:
-// - SimplifiedBinaryAFSA
 // - FastAFSA
 // - ModifiedAFSA
 // - etc.
@@ -0,0 +1,174 @@
+/**
+ * Chapter 3.2.4: Multi-Objective Artificial Fish Swarm Algorithm
+ *
+ * Adapts the fish behaviors to problems with several conflicting
+ * objectives by replacing "better fitness" with Pareto dominance:
+ * - Swarming: move towards the neighbors' center if it dominates the fish
+ *   and the area is not crowded
+ * - Following: move towards a neighbor that dominates the fish
+ * - Preying: move towards a random point in sight that dominates the fish
+ * - Leaping: otherwise move towards a leader from the external archive
+ *   of non-dominated solutions, which pulls stuck fish onto the front
+ *
+ * Visual range and step are fractions of the search range, so the same
+ * settings suit every benchmark. Every new position is offered to the archive.
+ *
+ * Reference: Hassanien & Emary, Section 3.2.4
+ */
+
+import {
+    BaseMultiObjectiveOptimizer,
+    MultiObjectiveConfig,
+    MultiObjectiveFunction,
+    ContinuousSolution,
+    Agent,
+    dominates
+} from '../../core';
+
+/**
+ * Multi-objective AFSA configuration
+ */
+export interface MultiObjectiveAFSAConfig extends MultiObjectiveConfig {
+    visual: number;     // Visual distance as a fraction of the search range
+    step: number;       // Step size as a fraction of the search range
+    delta: number;      // Crowding factor (0 < delta < 1)
+    tryNumber: number;  // Max attempts in preying behavior
+}
+
+/**
+ * Multi-Objective AFSA (Section 3.2.4)
+ */
+export class MultiObjectiveAFSA extends BaseMultiObjectiveOptimizer {
+    protected afsaConfig: MultiObjectiveAFSAConfig;
+
+    constructor(config: MultiObjectiveAFSAConfig) {
+        super(config);
+        this.afsaConfig = config;
+        this.reset();
+    }
+
+    /**
+     * Core MO-AFSA update logic
+     */
+    protected updatePopulation(): void {
+        const { visual, step, delta, tryNumber } = this.afsaConfig;
+        const n = this.population.length;
+
+        // Store new positions (synchronous update)
+        const moved: Agent<ContinuousSolution>[] = [];
+
+        for (const fish of this.population) {
+            const neighbors = this.population.filter(other =>
+                other !== fish && this.scaledDistance(fish.position, other.position) <= visual
+            );
+            const crowded = neighbors.length / n >= delta;
+
+            let target: ContinuousSolution | null = null;
+
+            // 1. SWARMING: center of the neighbors
+            if (neighbors.length > 0 && !crowded) {
+                const center = this.getCenter(neighbors);
+                const centerObjectives = this.evaluateObjectives(center);
+                this.offerToArchive(center, centerObjectives);
+                if (dominates(centerObjectives, fish.objectives!)) target = center;
+            }
+
+            // 2. FOLLOWING: a random dominating neighbor
+            if (!target && neighbors.length > 0 && !crowded) {
+                const dominating = neighbors.filter(other => dominates(other.objectives!, fish.objectives!));
+                if (dominating.length > 0) {
+                    target = dominating[Math.floor(this.random() * dominating.length)].position;
+                }
+            }
+
+            // 3. PREYING: a dominating point in sight
+            for (let j = 0; !target && j < tryNumber; j++) {
+                const candidate = this.handleBounds(
+                    fish.position.map((x, d) => x + (this.random() * 2 - 1) * visual * this.range(d))
+                );
+                const candidateObjectives = this.evaluateObjectives(candidate);
+                this.offerToArchive(candidate, candidateObjectives);
+                if (dominates(candidateObjectives, fish.objectives!)) target = candidate;
+            }
+
+            // 4. LEAPING: an archive leader
+            if (!target) target = this.selectLeader();
+
+            const newPosition = this.handleBounds(this.moveTowards(fish.position, target, step), fish.position);
+            moved.push(this.createAgent(newPosition));
+        }
+
+        // Apply updates (synchronous)
+        for (let i = 0; i < n; i++) {
+            const fish = this.population[i];
+            fish.position = moved[i].position;
+            fish.objectives = moved[i].objectives;
+            fish.fitness = moved[i].fitness;
+        }
+    }
+
+    /**
+     * Distance in units of the search range, so visual and step apply
+     * alike to every dimension
+     */
+    private scaledDistance(a: ContinuousSolution, b: ContinuousSolution): number {
+        let sum = 0;
+        for (let d = 0; d < this.dimensions; d++) {
+            const diff = (a[d] - b[d]) / this.range(d);
+            sum += diff * diff;
+        }
+        return Math.sqrt(sum);
+    }
+
+    /**
+     * Calculate center of a group
+     */
+    private getCenter(agents: Agent<ContinuousSolution>[]): ContinuousSolution {
+        const center: ContinuousSolution = new Array(this.dimensions).fill(0);
+
+        for (const agent of agents) {
+            for (let d = 0; d < this.dimensions; d++) {
+                center[d] += agent.position[d];
+            }
+        }
+
+        return center.map(c => c / agents.length);
+    }
+
+    /**
+     * Move a random part of the step towards a target
+     */
+    private moveTowards(from: ContinuousSolution, to: ContinuousSolution, step: number): ContinuousSolution {
+        const dist = this.scaledDistance(from, to);
+        if (dist === 0) return [...from];
+
+        const ratio = Math.min(1, (step * this.random()) / dist);
+        return from.map((x, d) => x + ratio * (to[d] - x));
+    }
+}
+
+/**
+ * Default multi-objective AFSA configuration
+ */
+export function createDefaultMultiObjectiveAFSAConfig(
+    objectiveFunction: MultiObjectiveFunction,
+    dimensions: number,
+    objectives: number,
+    referencePoint: number[]
+): MultiObjectiveAFSAConfig {
+    return {
+        populationSize: 30,
+        type: 'multiobjective',
+        dimensions,
+        bounds: { min: 0, max: 1 },
+        objectiveFunction,
+        objectives,
+        referencePoint,
+        archiveSize: 100,
+        archivePruning: 'crowding',
+        visual: 0.3,
+        step: 0.1,
+        delta: 0.618,
+        tryNumber: 5
+    };
+}
@@ -11,9 +11,10 @@
  */
 
 import {
-    BaseContinuous2DOptimizer,
-    Continuous2DConfig,
+    BaseContinuousNDOptimizer,
+    ContinuousNDConfig,
     ContinuousSolution,
+    ObjectiveFunction,
     Agent
 } from '../../core';
 
@@ -28,7 +29,7 @@ export interface FishMetadata {
 /**
  * AFSA configuration
  */
-export interface AFSAConfig extends Continuous2DConfig {
+export interface AFSAConfig extends ContinuousNDConfig {
     visual: number;     // Visual distance (perception range)
     step: number;       // Step size for movement
     delta: number;      // Crowding factor (0 < delta < 1)
@@ -38,7 +39,7 @@ export interface AFSAConfig extends Continuous2DConfig {
 /**
  * Standard Artificial Fish Swarm Algorithm (Section 3.1.2)
  */
-export class AFSAAlgorithm extends BaseContinuous2DOptimizer {
+export class AFSAAlgorithm extends BaseContinuousNDOptimizer {
     protected afsaConfig: AFSAConfig;
 
     constructor(config: AFSAConfig) {
@@ -127,7 +128,7 @@ export class AFSAAlgorithm extends BaseContinuous2DOptimizer {
             }
 
             // Apply boundary constraints
-            newPosition = this.clamp(newPosition);
+            newPosition = this.handleBounds(newPosition, fish.position);
             const newFitness = this.evaluate(newPosition);
 
             newPositions.push({ position: newPosition, fitness: newFitness });
@@ -160,14 +161,15 @@ export class AFSAAlgorithm extends BaseContinuous2DOptimizer {
      */
     private getCenter(agents: Agent<ContinuousSolution>[]): ContinuousSolution {
         const n = agents.length;
-        const center: ContinuousSolution = [0, 0];
+        const center: ContinuousSolution = new Array(this.dimensions).fill(0);
 
         for (const agent of agents) {
-            center[0] += agent.position[0];
-            center[1] += agent.position[1];
+            for (let d = 0; d < this.dimensions; d++) {
+                center[d] += agent.position[d];
+            }
         }
 
-        return [center[0] / n, center[1] / n];
+        return center.map(c => c / n);
     }
 
     /**
@@ -181,31 +183,22 @@ export class AFSAAlgorithm extends BaseContinuous2DOptimizer {
         const dist = this.distance(from, to);
         if (dist === 0) return [...from];
 
-        const ratio = (step * Math.random()) / dist;
-        return [
-            from[0] + ratio * (to[0] - from[0]),
-            from[1] + ratio * (to[1] - from[1])
-        ];
+        const ratio = (step * this.random()) / dist;
+        return from.map((x, d) => x + ratio * (to[d] - x));
     }
 
     /**
      * Generate random position within visual range
      */
     private randomInVisual(center: ContinuousSolution, visual: number): ContinuousSolution {
-        return [
-            center[0] + (Math.random() * 2 - 1) * visual,
-            center[1] + (Math.random() * 2 - 1) * visual
-        ];
+        return center.map(x => x + (this.random() * 2 - 1) * visual);
     }
 
     /**
      * Take a random step
      */
     private randomStep(from: ContinuousSolution, step: number): ContinuousSolution {
-        return [
-            from[0] + (Math.random() * 2 - 1) * step,
-            from[1] + (Math.random() * 2 - 1) * step
-        ];
+        return from.map(x => x + (this.random() * 2 - 1) * step);
     }
 }
 
@@ -213,12 +206,13 @@ export class AFSAAlgorithm extends BaseContinuous2DOptimizer {
  * Default AFSA configuration
  */
 export function createDefaultAFSAConfig(
-    objectiveFunction: (x: number, y: number) => number
+    objectiveFunction: ObjectiveFunction<ContinuousSolution>,
+    dimensions: number = 2
 ): AFSAConfig {
     return {
         populationSize: 30,
         type: 'continuous',
-        dimensions: 2,
+        dimensions,
         bounds: { min: -5.12, max: 5.12 },
         objectiveFunction,
         visual: 2.5,
@@ -0,0 +1,297 @@
+/**
+ * Baseline: Covariance Matrix Adaptation Evolution Strategy (CMA-ES)
+ *
+ * (μ/μ_w, λ)-CMA-ES: offspring are sampled from N(m, σ²C); the weighted
+ * mean of the best μ moves m, the evolution paths p_c and p_σ adapt the
+ * covariance C (rank-one and rank-μ updates) and the step size σ
+ * (cumulative step-size adaptation).
+ *
+ * The population shown is the current generation of offspring; each
+ * iteration first adapts the distribution to it and then samples the next.
+ * Offspring outside the bounds go through the boundary handling before evaluation.
+ *
+ * Reference: Hansen, "The CMA Evolution Strategy: A Tutorial" (2016)
+ */
+
+import {
+    BaseContinuousNDOptimizer,
+    ContinuousNDConfig,
+    ContinuousSolution,
+    Agent,
+    ObjectiveFunction
+} from '../../core';
+
+/**
+ * CMA-ES configuration
+ */
+export interface CMAESConfig extends ContinuousNDConfig {
+    sigma0: number;  // Initial step size as a fraction of the mean search range
+}
+
+/**
+ * Strategy parameters derived from λ and N (Hansen's defaults)
+ */
+interface StrategyParameters {
+    mu: number;
+    weights: number[];
+    muEff: number;
+    cc: number;
+    cs: number;
+    c1: number;
+    cmu: number;
+    damps: number;
+    chiN: number;
+}
+
+function identity(n: number): number[][] {
+    return Array.from({ length: n }, (_, i) => Array.from({ length: n }, (_, j) => (i === j ? 1 : 0)));
+}
+
+/**
+ * Eigendecomposition of a symmetric matrix by cyclic Jacobi rotations.
+ * Returns the eigenvalues and the eigenvectors as the columns of `vectors`.
+ */
+function symmetricEigen(matrix: number[][]): { values: number[]; vectors: number[][] } {
+    const n = matrix.length;
+    const a = matrix.map(row => [...row]);
+    const v = identity(n);
+
+    for (let sweep = 0; sweep < 50; sweep++) {
+        let off = 0;
+        for (let p = 0; p < n; p++) {
+            for (let q = p + 1; q < n; q++) off += a[p][q] * a[p][q];
+        }
+        if (off < 1e-20) break;
+
+        for (let p = 0; p < n; p++) {
+            for (let q = p + 1; q < n; q++) {
+                if (Math.abs(a[p][q]) < 1e-300) continue;
+                const theta = (a[q][q] - a[p][p]) / (2 * a[p][q]);
+                const t = Math.sign(theta || 1) / (Math.abs(theta) + Math.sqrt(theta * theta + 1));
+                const c = 1 / Math.sqrt(t * t + 1);
+                const s = t * c;
+
+                for (let k = 0; k < n; k++) {
+                    const akp = a[k][p];
+                    const akq = a[k][q];
+                    a[k][p] = c * akp - s * akq;
+                    a[k][q] = s * akp + c * akq;
+                }
+                for (let k = 0; k < n; k++) {
+                    const apk = a[p][k];
+                    const aqk = a[q][k];
+                    a[p][k] = c * apk - s * aqk;
+                    a[q][k] = s * apk + c * aqk;
+                }
+                for (let k = 0; k < n; k++) {
+                    const vkp = v[k][p];
+                    const vkq = v[k][q];
+                    v[k][p] = c * vkp - s * vkq;
+                    v[k][q] = s * vkp + c * vkq;
+                }
+            }
+        }
+    }
+
+    return { values: a.map((row, i) => row[i]), vectors: v };
+}
+
+/**
+ * CMA-ES
+ */
+export class CMAES extends BaseContinuousNDOptimizer {
+    private cmaConfig: CMAESConfig;
+    private params!: StrategyParameters;
+    private mean: number[] = [];
+    private sigma = 1;
+    private covariance: number[][] = [];
+    private pc: number[] = [];
+    private ps: number[] = [];
+    /** Eigenvectors (columns) and square roots of the eigenvalues of C */
+    private basis: number[][] = [];
+    private scales: number[] = [];
+    private generation = 0;
+
+    constructor(config: CMAESConfig) {
+        super(config);
+        this.cmaConfig = config;
+        this.reset();
+    }
+
+    /**
+     * Initial distribution at a random point; the population is its first generation
+     */
+    protected initializePopulation(): void {
+        const n = this.dimensions;
+        let meanRange = 0;
+        for (let d = 0; d < n; d++) meanRange += this.range(d) / n;
+
+        this.params = this.strategyParameters();
+        this.mean = this.randomPosition();
+        this.sigma = this.cmaConfig.sigma0 * meanRange;
+        this.covariance = identity(n);
+        this.basis = identity(n);
+        this.scales = new Array(n).fill(1);
+        this.pc = new Array(n).fill(0);
+        this.ps = new Array(n).fill(0);
+        this.generation = 0;
+
+        this.population = this.sampleGeneration();
+        this.globalBest = this.cloneAgent(
+            this.population.reduce((best, agent) =>
+                agent.fitness < best.fitness ? agent : best
+            )
+        );
+    }
+
+    /**
+     * Adapt the distribution to the current generation, then sample the next
+     */
+    protected updatePopulation(): void {
+        this.adapt();
+        this.population = this.sampleGeneration();
+        for (const agent of this.population) {
+            this.updateGlobalBest(agent);
+        }
+    }
+
+    /**
+     * λ offspring x = m + σ·B·D·z, z ~ N(0, I)
+     */
+    private sampleGeneration(): Agent<ContinuousSolution>[] {
+        const n = this.dimensions;
+        const offspring: Agent<ContinuousSolution>[] = [];
+
+        for (let k = 0; k < this.config.populationSize; k++) {
+            const scaled = Array.from({ length: n }, (_, j) => this.scales[j] * this.gaussian());
+            const position = this.handleBounds(this.mean.map((m, i) => {
+                let y = 0;
+                for (let j = 0; j < n; j++) y += this.basis[i][j] * scaled[j];
+                return m + this.sigma * y;
+            }), this.mean);
+            offspring.push({ position, fitness: this.evaluate(position) });
+        }
+        return offspring;
+    }
+
+    /**
+     * Mean, evolution path, covariance and step-size update
+     */
+    private adapt(): void {
+        const n = this.dimensions;
+        const { mu, weights, muEff, cc, cs, c1, cmu, damps, chiN } = this.params;
+        const selected = [...this.population].sort((a, b) => a.fitness - b.fitness).slice(0, mu);
+
+        const oldMean = this.mean;
+        this.mean = oldMean.map((_, i) => selected.reduce((sum, agent, k) => sum + weights[k] * agent.position[i], 0));
+        const step = this.mean.map((m, i) => (m - oldMean[i]) / this.sigma);
+
+        // p_σ ← (1 - c_σ) p_σ + sqrt(c_σ (2 - c_σ) μ_eff) C^{-1/2} (m - m_old) / σ
+        const whitened = this.invSqrtTimes(step);
+        const csFactor = Math.sqrt(cs * (2 - cs) * muEff);
+        this.ps = this.ps.map((p, i) => (1 - cs) * p + csFactor * whitened[i]);
+        const psNorm = Math.hypot(...this.ps);
+
+        this.generation++;
+        const hsig = psNorm / Math.sqrt(1 - Math.pow(1 - cs, 2 * this.generation)) / chiN < 1.4 + 2 / (n + 1) ? 1 : 0;
+
+        // p_c ← (1 - c_c) p_c + h_σ sqrt(c_c (2 - c_c) μ_eff) (m - m_old) / σ
+        const ccFactor = hsig * Math.sqrt(cc * (2 - cc) * muEff);
+        this.pc = this.pc.map((p, i) => (1 - cc) * p + ccFactor * step[i]);
+
+        // C ← (1 - c1 - c_μ) C + c1 (p_c p_c^T + δ(h_σ) C) + c_μ Σ w_k y_k y_k^T
+        const ys = selected.map(agent => agent.position.map((x, i) => (x - oldMean[i]) / this.sigma));
+        const deltaH = (1 - hsig) * cc * (2 - cc);
+        for (let i = 0; i < n; i++) {
+            for (let j = 0; j <= i; j++) {
+                let rankMu = 0;
+                for (let k = 0; k < mu; k++) rankMu += weights[k] * ys[k][i] * ys[k][j];
+                const value = (1 - c1 - cmu) * this.covariance[i][j]
+                    + c1 * (this.pc[i] * this.pc[j] + deltaH * this.covariance[i][j])
+                    + cmu * rankMu;
+                this.covariance[i][j] = value;
+                this.covariance[j][i] = value;
+            }
+        }
+
+        // σ ← σ exp((c_σ / d_σ)(|p_σ| / E|N(0, I)| - 1))
+        this.sigma *= Math.exp((cs / damps) * (psNorm / chiN - 1));
+
+        const { values, vectors } = symmetricEigen(this.covariance);
+        this.basis = vectors;
+        this.scales = values.map(value => Math.sqrt(Math.max(value, 1e-20)));
+    }
+
+    /**
+     * C^{-1/2} v = B D^{-1} B^T v
+     */
+    private invSqrtTimes(v: number[]): number[] {
+        const n = v.length;
+        const projected = Array.from({ length: n }, (_, j) => {
+            let sum = 0;
+            for (let i = 0; i < n; i++) sum += this.basis[i][j] * v[i];
+            return sum / this.scales[j];
+        });
+        return Array.from({ length: n }, (_, i) => {
+            let sum = 0;
+            for (let j = 0; j < n; j++) sum += this.basis[i][j] * projected[j];
+            return sum;
+        });
+    }
+
+    /**
+     * Default strategy parameters for λ = populationSize in N dimensions
+     */
+    private strategyParameters(): StrategyParameters {
+        const n = this.dimensions;
+        const lambda = this.config.populationSize;
+        const mu = Math.floor(lambda / 2);
+
+        const raw = Array.from({ length: mu }, (_, k) => Math.log(mu + 0.5) - Math.log(k + 1));
+        const total = raw.reduce((sum, w) => sum + w, 0);
+        const weights = raw.map(w => w / total);
+        const muEff = 1 / weights.reduce((sum, w) => sum + w * w, 0);
+
+        const cc = (4 + muEff / n) / (n + 4 + 2 * muEff / n);
+        const cs = (muEff + 2) / (n + muEff + 5);
+        const c1 = 2 / ((n + 1.3) ** 2 + muEff);
+        const cmu = Math.min(1 - c1, 2 * (muEff - 2 + 1 / muEff) / ((n + 2) ** 2 + muEff));
+        const damps = 1 + 2 * Math.max(0, Math.sqrt((muEff - 1) / (n + 1)) - 1) + cs;
+        const chiN = Math.sqrt(n) * (1 - 1 / (4 * n) + 1 / (21 * n * n));
+
+        return { mu, weights, muEff, cc, cs, c1, cmu, damps, chiN };
+    }
+
+    /**
+     * Standard normal sample (Box-Muller)
+     */
+    private gaussian(): number {
+        const u1 = this.random() || Number.MIN_VALUE;
+        const u2 = this.random();
+        return Math.sqrt(-2 * Math.log(u1)) * Math.cos(2 * Math.PI * u2);
+    }
+
+    /**
+     * Distribution mean and step size
+     */
+    protected getExtra(): Record<string, unknown> | undefined {
+        return { mean: [...this.mean], sigma: this.sigma };
+    }
+}
+
+/**
+ * Default CMA-ES configuration
+ */
+export function createDefaultCMAESConfig(
+    objectiveFunction: ObjectiveFunction<ContinuousSolution>,
+    dimensions: number = 2
+): CMAESConfig {
+    return {
+        populationSize: 4 + Math.floor(3 * Math.log(dimensions)),
+        type: 'continuous',
+        dimensions,
+        bounds: { min: -5.12, max: 5.12 },
+        objectiveFunction,
+        sigma0: 0.3
+    };
+}
@@ -0,0 +1,81 @@
+/**
+ * Baseline: Differential Evolution (DE)
+ *
+ * Classic DE/x/y/bin built from the operators in hybrids/de.ts. Each
+ * target vector competes with a trial vector made by mutation (any
+ * DEMutationStrategy) and binomial crossover; the better one survives.
+ *
+ * Reference: Storn & Price (1997)
+ */
+
+import {
+    BaseContinuousNDOptimizer,
+    ContinuousNDConfig,
+    ContinuousSolution,
+    ObjectiveFunction,
+    DEMutationStrategy,
+    deOperator
+} from '../../core';
+
+/**
+ * DE configuration
+ */
+export interface DifferentialEvolutionConfig extends ContinuousNDConfig {
+    F: number;                      // Mutation factor
+    CR: number;                     // Crossover rate
+    strategy: DEMutationStrategy;
+}
+
+/**
+ * Differential Evolution
+ */
+export class DifferentialEvolution extends BaseContinuousNDOptimizer {
+    private deConfig: DifferentialEvolutionConfig;
+
+    constructor(config: DifferentialEvolutionConfig) {
+        super(config);
+        this.deConfig = config;
+        this.reset();
+    }
+
+    /**
+     * One generation: every target against its trial vector
+     */
+    protected updatePopulation(): void {
+        const { F, CR, strategy } = this.deConfig;
+        const trials = this.population.map((_, i) =>
+            this.handleBounds(
+                deOperator(this.population, i, this.globalBest.position, { F, CR, strategy }, this.random),
+                this.population[i].position
+            )
+        );
+
+        // Selection after all trials are built (synchronous generations)
+        trials.forEach((trial, i) => {
+            const fitness = this.evaluate(trial);
+            if (fitness <= this.population[i].fitness) {
+                this.population[i] = { position: trial, fitness };
+                this.updateGlobalBest(this.population[i]);
+            }
+        });
+    }
+}
+
+/**
+ * Default DE configuration
+ */
+export function createDefaultDifferentialEvolutionConfig(
+    objectiveFunction: ObjectiveFunction<ContinuousSolution>,
+    dimensions: number = 2
+): DifferentialEvolutionConfig {
+    return {
+        populationSize: 30,
+        type: 'continuous',
+        dimensions,
+        bounds: { min: -5.12, max: 5.12 },
+        objectiveFunction,
+        F: 0.5,
+        CR: 0.9,
+        strategy: 'rand/1'
+    };
+}
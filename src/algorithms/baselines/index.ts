@@ -0,0 +1,17 @@
+/**
+ * Baseline Algorithms
+ *
+ * Reference optimizers from outside the swarm-intelligence book, used to
+ * judge the swarm variants and their hybrids.
+ */
+
+export { ParticleSwarm, createDefaultParticleSwarmConfig } from './pso';
+export type { ParticleSwarmConfig, PSOTopology } from './pso';
+export { DifferentialEvolution, createDefaultDifferentialEvolutionConfig } from './de';
+export type { DifferentialEvolutionConfig } from './de';
+export { GeneticAlgorithm, createDefaultGeneticAlgorithmConfig } from './ga';
+export type { GeneticAlgorithmConfig } from './ga';
+export { CMAES, createDefaultCMAESConfig } from './cmaes';
+export type { CMAESConfig } from './cmaes';
+export { RandomSearch, createDefaultRandomSearchConfig } from './random-search';
+export type { RandomSearchConfig } from './random-search';
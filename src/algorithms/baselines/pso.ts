@@ -0,0 +1,136 @@
+/**
+ * Baseline: Particle Swarm Optimization (PSO)
+ *
+ * Canonical inertia-weight PSO built from the operators in hybrids/pso.ts:
+ *
+ *   v = w·v + c1·r1·(pbest - x) + c2·r2·(nbest - x),   x = x + v
+ *
+ * nbest is the best personal best in the particle's neighbourhood:
+ * - global (gbest): the whole swarm, fast but prone to premature convergence
+ * - ring (lbest): the particle and its two index neighbours, slower
+ *   information flow that preserves diversity
+ *
+ * Reference: Kennedy & Eberhart (1995); Shi & Eberhart (1998)
+ */
+
+import {
+    BaseContinuousNDOptimizer,
+    ContinuousNDConfig,
+    ContinuousSolution,
+    ObjectiveFunction,
+    initializeVelocity,
+    updateVelocity,
+    updatePosition
+} from '../../core';
+
+/**
+ * Neighbourhood topology
+ */
+export type PSOTopology = 'global' | 'ring';
+
+/**
+ * PSO configuration
+ */
+export interface ParticleSwarmConfig extends ContinuousNDConfig {
+    w: number;              // Inertia weight
+    c1: number;             // Cognitive coefficient (personal best)
+    c2: number;             // Social coefficient (neighbourhood best)
+    topology: PSOTopology;
+    vMaxFraction: number;   // Velocity limit as a fraction of each dimension's range
+}
+
+/**
+ * Particle Swarm Optimization (global or ring topology)
+ */
+export class ParticleSwarm extends BaseContinuousNDOptimizer {
+    private psoConfig: ParticleSwarmConfig;
+
+    constructor(config: ParticleSwarmConfig) {
+        super(config);
+        this.psoConfig = config;
+        this.reset();
+    }
+
+    /**
+     * Random particles with small random velocities; each is its own personal best
+     */
+    protected initializePopulation(): void {
+        super.initializePopulation();
+
+        for (const particle of this.population) {
+            particle.velocity = initializeVelocity(this.dimensions, 1, this.random)
+                .map((v, d) => v * this.vMax(d));
+            particle.personalBest = [...particle.position];
+            particle.personalBestFitness = particle.fitness;
+        }
+    }
+
+    /**
+     * Velocity and position update, then personal and global bests
+     */
+    protected updatePopulation(): void {
+        const { w, c1, c2 } = this.psoConfig;
+        const socialBests = this.population.map((_, i) => this.neighbourhoodBest(i));
+
+        this.population.forEach((particle, i) => {
+            const velocity = updateVelocity(
+                particle.velocity!,
+                particle.position,
+                particle.personalBest!,
+                socialBests[i],
+                { w, c1, c2 },
+                this.random
+            ).map((v, d) => Math.max(-this.vMax(d), Math.min(this.vMax(d), v)));
+
+            particle.velocity = velocity;
+            particle.position = this.handleBounds(updatePosition(particle.position, velocity), particle.position, velocity);
+            particle.fitness = this.evaluate(particle.position);
+
+            if (particle.fitness < particle.personalBestFitness!) {
+                particle.personalBest = [...particle.position];
+                particle.personalBestFitness = particle.fitness;
+            }
+            this.updateGlobalBest(particle);
+        });
+    }
+
+    /**
+     * Best personal best in the neighbourhood of particle i
+     */
+    private neighbourhoodBest(i: number): ContinuousSolution {
+        if (this.psoConfig.topology === 'global') return this.globalBest.position;
+
+        const n = this.population.length;
+        let best = this.population[i];
+        for (const j of [(i - 1 + n) % n, (i + 1) % n]) {
+            const neighbour = this.population[j];
+            if (neighbour.personalBestFitness! < best.personalBestFitness!) best = neighbour;
+        }
+        return best.personalBest!;
+    }
+
+    private vMax(d: number): number {
+        return this.psoConfig.vMaxFraction * this.range(d);
+    }
+}
+
+/**
+ * Default PSO configuration
+ */
+export function createDefaultParticleSwarmConfig(
+    objectiveFunction: ObjectiveFunction<ContinuousSolution>,
+    dimensions: number = 2
+): ParticleSwarmConfig {
+    return {
+        populationSize: 30,
+        type: 'continuous',
+        dimensions,
+        bounds: { min: -5.12, max: 5.12 },
+        objectiveFunction,
+        w: 0.729,
+        c1: 1.49445,
+        c2: 1.49445,
+        topology: 'global',
+        vMaxFraction: 0.2
+    };
+}
@@ -0,0 +1,55 @@
+/**
+ * Baseline: Pure Random Search
+ *
+ * Every agent samples a fresh uniform point in the search space each
+ * iteration. No information is shared or kept apart from the best point
+ * seen, so any algorithm worth using should beat it.
+ */
+
+import {
+    BaseContinuousNDOptimizer,
+    ContinuousNDConfig,
+    ContinuousSolution,
+    ObjectiveFunction
+} from '../../core';
+
+/**
+ * Random search configuration (no parameters of its own)
+ */
+export type RandomSearchConfig = ContinuousNDConfig;
+
+/**
+ * Pure Random Search
+ */
+export class RandomSearch extends BaseContinuousNDOptimizer {
+    constructor(config: RandomSearchConfig) {
+        super(config);
+        this.reset();
+    }
+
+    /**
+     * Resample every agent uniformly
+     */
+    protected updatePopulation(): void {
+        for (let i = 0; i < this.population.length; i++) {
+            this.population[i] = this.createRandomAgent();
+            this.updateGlobalBest(this.population[i]);
+        }
+    }
+}
+
+/**
+ * Default random search configuration
+ */
+export function createDefaultRandomSearchConfig(
+    objectiveFunction: ObjectiveFunction<ContinuousSolution>,
+    dimensions: number = 2
+): RandomSearchConfig {
+    return {
+        populationSize: 30,
+        type: 'continuous',
+        dimensions,
+        bounds: { min: -5.12, max: 5.12 },
+        objectiveFunction
+    };
+}
@@ -26,29 +26,40 @@ export class AdaptiveBatAlgorithm extends BatAlgorithm {
      */
     private calculateDiversity(): number {
         const n = this.population.length;
-        const meanX = this.population.reduce((s, a) => s + a.position[0], 0) / n;
-        const meanY = this.population.reduce((s, a) => s + a.position[1], 0) / n;
+        const centroid = new Array(this.dimensions).fill(0);
+        for (const agent of this.population) {
+            for (let d = 0; d < this.dimensions; d++) {
+                centroid[d] += agent.position[d] / n;
+            }
+        }
 
         let diversity = 0;
         for (const agent of this.population) {
-            diversity += Math.sqrt(
-                (agent.position[0] - meanX) ** 2 +
-                (agent.position[1] - meanY) ** 2
-            );
+            diversity += this.distance(agent.position, centroid);
         }
 
         return diversity / n;
     }
 
+    /**
+     * Largest possible diversity: the diagonal of the search box
+     */
+    private maxDiversity(): number {
+        let sum = 0;
+        for (let d = 0; d < this.dimensions; d++) {
+            sum += this.range(d) ** 2;
+        }
+        return Math.sqrt(sum);
+    }
+
     /**
      * Adaptive frequency based on diversity
      * Low diversity -> higher frequency for exploration
      * High diversity -> lower frequency for exploitation
      */
     private adaptiveFrequency(diversity: number): number {
-        const { fMin, fMax, bounds } = this.batConfig;
-        const maxDiversity = (bounds.max - bounds.min) * Math.sqrt(2);
-        const normalizedDiversity = diversity / maxDiversity;
+        const { fMin, fMax } = this.batConfig;
+        const normalizedDiversity = diversity / this.maxDiversity();
 
         return fMin + (fMax - fMin) * (1 - normalizedDiversity);
     }
@@ -57,10 +68,10 @@ export class AdaptiveBatAlgorithm extends BatAlgorithm {
      * Override updatePopulation with adaptive frequency logic
      */
     protected updatePopulation(): void {
-        const { fMax, alpha, gamma } = this.batConfig;
+        const { alpha, gamma } = this.batConfig;
         const diversity = this.calculateDiversity();
         const adaptFreq = this.adaptiveFrequency(diversity);
-        const maxDiversity = (this.bounds.max - this.bounds.min) * Math.sqrt(2);
+        const maxDiversity = this.maxDiversity();
 
         for (const bat of this.population) {
             const meta = bat.metadata as BatMetadata;
@@ -68,33 +79,30 @@ export class AdaptiveBatAlgorithm extends BatAlgorithm {
             const iteration = this.getIteration();
 
             // Adaptive frequency per bat (with some randomness)
-            meta.frequency = adaptFreq * (0.8 + Math.random() * 0.4);
+            meta.frequency = adaptFreq * (0.8 + this.random() * 0.4);
 
             // Velocity update
-            velocity[0] += (bat.position[0] - this.globalBest.position[0]) * meta.frequency;
-            velocity[1] += (bat.position[1] - this.globalBest.position[1]) * meta.frequency;
+            for (let d = 0; d < this.dimensions; d++) {
+                velocity[d] += (bat.position[d] - this.globalBest.position[d]) * meta.frequency;
+            }
 
-            let newPosition: ContinuousSolution = [
-                bat.position[0] + velocity[0],
-                bat.position[1] + velocity[1]
-            ];
+            let newPosition: ContinuousSolution = this.applyVelocity(bat.position, velocity);
 
             // Adaptive local search with diversity-aware perturbation
-            if (Math.random() > meta.pulseRate) {
+            const localSearch = this.random() > meta.pulseRate;
+            if (localSearch) {
                 const perturbScale = Math.max(0.01, 0.1 * (1 - diversity / maxDiversity));
-                const range = this.bounds.max - this.bounds.min;
-                newPosition = [
-                    this.globalBest.position[0] + perturbScale * range * (Math.random() * 2 - 1),
-                    this.globalBest.position[1] + perturbScale * range * (Math.random() * 2 - 1)
-                ];
+                newPosition = this.globalBest.position.map((x, d) =>
+                    x + perturbScale * this.range(d) * (this.random() * 2 - 1)
+                );
             }
 
             // Boundary handling
-            newPosition = this.clamp(newPosition);
+            newPosition = this.boundMove(newPosition, bat, !localSearch);
             const newFitness = this.evaluate(newPosition);
 
             // Accept new solution
-            if (Math.random() < meta.loudness && newFitness < bat.fitness) {
+            if (this.random() < meta.loudness && newFitness < bat.fitness) {
                 bat.position = newPosition;
                 bat.fitness = newFitness;
                 meta.loudness *= alpha;
@@ -1,45 +1,44 @@
 /**
  * Chapter 2.2.2: Binary Bat Algorithm
- * 
+ *
  * Modified for binary/discrete optimization problems.
  * Uses sigmoid function to convert continuous velocity to binary position.
- * 
+ *
  * Key differences from Standard BA:
  * - Positions are binary (0 or 1)
  * - Transfer function converts velocity to probability
- * 
+ *
  * Reference: Hassanien & Emary, Section 2.2.2
  */
 
-export interface BinaryBat {
-    position: number[];        // Binary array
-    velocity: number[];        // Continuous velocity
-    frequency: number;
-    loudness: number;
-    pulseRate: number;
-    fitness: number;
+import {
+    BaseBinaryOptimizer,
+    BinaryConfig,
+    BinarySolution,
+    ObjectiveFunction,
+    Agent
+} from '../../core';
+import { BatMetadata } from './standard';
+
+/**
+ * Binary bat metadata: the real-valued velocity behind the bits
+ */
+export interface BinaryBatMetadata extends BatMetadata {
+    velocity: number[];
 }
 
-export interface BinaryBatConfig {
-    nBats: number;
-    nDimensions: number;
+/**
+ * Binary Bat Algorithm configuration
+ */
+export interface BinaryBatConfig extends BinaryConfig {
     fMin: number;
     fMax: number;
-    alpha: number;
-    gamma: number;
+    alpha: number;          // Loudness decrease rate (0 < α < 1)
+    gamma: number;          // Pulse rate increase rate (γ > 0)
     initialLoudness: number;
     initialPulseRate: number;
 }
 
-export interface BinaryBatState {
-    bats: BinaryBat[];
-    bestPosition: number[];
-    bestFitness: number;
-    iteration: number;
-}
-
-export type BinaryObjectiveFunction = (position: number[]) => number;
-
 /**
  * Sigmoid transfer function
  */
@@ -47,134 +46,109 @@ function sigmoid(x: number): number {
     return 1 / (1 + Math.exp(-x));
 }
 
-/**
- * OneMax problem - count number of 1s (for testing)
- */
-export const oneMax: BinaryObjectiveFunction = (pos) => {
-    return -pos.reduce((a, b) => a + b, 0);  // Negative for minimization
-};
-
 /**
  * Binary Bat Algorithm (Section 2.2.2)
  */
-export class BinaryBatAlgorithm {
-    private bats: BinaryBat[] = [];
-    private bestPosition: number[] = [];
-    private bestFitness = Infinity;
-    private config: BinaryBatConfig;
-    private func: BinaryObjectiveFunction;
-    private iteration = 0;
-
-    public history: BinaryBatState[] = [];
-
-    constructor(config: BinaryBatConfig, func: BinaryObjectiveFunction = oneMax) {
-        this.config = config;
-        this.func = func;
-        this.initialize();
-    }
+export class BinaryBatAlgorithm extends BaseBinaryOptimizer {
+    protected batConfig: BinaryBatConfig;
 
-    private initialize(): void {
-        const { nBats, nDimensions, fMin, fMax, initialLoudness, initialPulseRate } = this.config;
+    constructor(config: BinaryBatConfig) {
+        super(config);
+        this.batConfig = config;
+        this.reset();
+    }
 
-        this.bats = [];
-        this.bestFitness = Infinity;
-        this.bestPosition = [];
-        this.iteration = 0;
-        this.history = [];
+    /**
+     * Random bit strings with random velocities in [-1, 1]
+     */
+    protected initializePopulation(): void {
+        const { populationSize, fMin, fMax, initialLoudness, initialPulseRate } = this.batConfig;
 
-        for (let i = 0; i < nBats; i++) {
-            const position = Array(nDimensions).fill(0).map(() => Math.random() < 0.5 ? 0 : 1);
-            const velocity = Array(nDimensions).fill(0).map(() => (Math.random() - 0.5) * 2);
-            const fitness = this.func(position);
+        this.population = [];
 
-            const bat: BinaryBat = {
+        for (let i = 0; i < populationSize; i++) {
+            const position = this.randomBits();
+            const agent: Agent<BinarySolution> = {
                 position,
-                velocity,
-                frequency: fMin + Math.random() * (fMax - fMin),
-                loudness: initialLoudness,
-                pulseRate: initialPulseRate,
-                fitness
+                fitness: this.evaluate(position),
+                metadata: {
+                    frequency: fMin + this.random() * (fMax - fMin),
+                    loudness: initialLoudness,
+                    pulseRate: initialPulseRate,
+                    initialPulseRate,
+                    velocity: Array.from({ length: this.dimensions }, () => (this.random() - 0.5) * 2)
+                } as BinaryBatMetadata
             };
-
-            this.bats.push(bat);
-
-            if (fitness < this.bestFitness) {
-                this.bestFitness = fitness;
-                this.bestPosition = [...position];
-            }
+            this.population.push(agent);
         }
 
-        this.recordState();
+        this.globalBest = this.cloneAgent(
+            this.population.reduce((best, agent) =>
+                agent.fitness < best.fitness ? agent : best
+            )
+        );
     }
 
-    public step(): void {
-        const { fMin, fMax, alpha, gamma, nDimensions } = this.config;
-
-        for (const bat of this.bats) {
-            // Update frequency
-            bat.frequency = fMin + (fMax - fMin) * Math.random();
+    /**
+     * Core Binary Bat Algorithm update logic
+     */
+    protected updatePopulation(): void {
+        const { fMin, fMax, alpha, gamma } = this.batConfig;
 
-            // Update velocity
-            for (let d = 0; d < nDimensions; d++) {
-                bat.velocity[d] += (bat.position[d] - this.bestPosition[d]) * bat.frequency;
-            }
+        for (const bat of this.population) {
+            const meta = bat.metadata as BinaryBatMetadata;
 
-            // Generate new binary solution
-            const newPosition = [...bat.position];
+            meta.frequency = fMin + (fMax - fMin) * this.random();
+            // A new array each time: history snapshots share metadata values
+            meta.velocity = this.updateVelocity(bat.position, meta);
 
-            for (let d = 0; d < nDimensions; d++) {
-                // Transfer function: sigmoid
-                const probability = sigmoid(bat.velocity[d]);
+            const newPosition: BinarySolution = bat.position.map((_, d) => {
+                // Local search: copy the best bit
+                if (this.random() > meta.pulseRate) return this.globalBest.position[d];
+                return this.random() < sigmoid(meta.velocity[d]) ? 1 : 0;
+            });
 
-                // Local search
-                if (Math.random() > bat.pulseRate) {
-                    newPosition[d] = this.bestPosition[d];
-                } else {
-                    newPosition[d] = Math.random() < probability ? 1 : 0;
-                }
-            }
+            const newFitness = this.evaluate(newPosition);
 
-            const newFitness = this.func(newPosition);
-
-            // Accept new solution?
-            if (Math.random() < bat.loudness && newFitness < bat.fitness) {
+            if (this.random() < meta.loudness && newFitness < bat.fitness) {
                 bat.position = newPosition;
                 bat.fitness = newFitness;
 
-                bat.loudness *= alpha;
-                bat.pulseRate = bat.pulseRate * (1 - Math.exp(-gamma * this.iteration));
-            }
-
-            if (bat.fitness < this.bestFitness) {
-                this.bestFitness = bat.fitness;
-                this.bestPosition = [...bat.position];
+                meta.loudness *= alpha;
+                meta.pulseRate = meta.initialPulseRate * (1 - Math.exp(-gamma * this.iteration));
             }
-        }
-
-        this.iteration++;
-        this.recordState();
-    }
 
-    public run(iterations: number): void {
-        for (let i = 0; i < iterations; i++) {
-            this.step();
+            this.updateGlobalBest(bat);
         }
     }
 
-    private recordState(): void {
-        this.history.push({
-            bats: this.bats.map(b => ({
-                ...b,
-                position: [...b.position],
-                velocity: [...b.velocity]
-            })),
-            bestPosition: [...this.bestPosition],
-            bestFitness: this.bestFitness,
-            iteration: this.iteration
-        });
+    /**
+     * Eq. 3 on bits: v + (x - x*) f
+     */
+    protected updateVelocity(position: BinarySolution, meta: BinaryBatMetadata): number[] {
+        return meta.velocity.map((v, d) =>
+            v + (position[d] - this.globalBest.position[d]) * meta.frequency
+        );
     }
+}
 
-    public reset(): void {
-        this.initialize();
-    }
+/**
+ * Default Binary Bat Algorithm configuration
+ */
+export function createDefaultBinaryBatConfig(
+    objectiveFunction: ObjectiveFunction<BinarySolution>,
+    dimensions: number = 64
+): BinaryBatConfig {
+    return {
+        populationSize: 30,
+        type: 'binary',
+        dimensions,
+        objectiveFunction,
+        fMin: 0,
+        fMax: 2,
+        alpha: 0.9,
+        gamma: 0.9,
+        initialLoudness: 1.0,
+        initialPulseRate: 0.5
+    };
 }
@@ -12,7 +12,7 @@
  */
 
 import { BatAlgorithm, BatConfig, BatMetadata } from './standard';
-import { ContinuousSolution } from '../../core';
+import { ContinuousSolution, RandomSource } from '../../core';
 
 /**
  * Chaos map types
@@ -54,15 +54,15 @@ function getChaosValue(x: number, mapType: ChaosMap): number {
 /**
  * Lévy flight step using Mantegna's algorithm
  */
-function levyFlight(beta: number = 1.5): number {
+function levyFlight(random: RandomSource, beta: number = 1.5): number {
     const sigma = Math.pow(
         (gamma(1 + beta) * Math.sin(Math.PI * beta / 2)) /
         (gamma((1 + beta) / 2) * beta * Math.pow(2, (beta - 1) / 2)),
         1 / beta
     );
 
-    const u = randomNormal() * sigma;
-    const v = randomNormal();
+    const u = randomNormal(random) * sigma;
+    const v = randomNormal(random);
 
     return u / Math.pow(Math.abs(v), 1 / beta);
 }
@@ -93,9 +93,9 @@ function gamma(z: number): number {
 /**
  * Box-Muller for normal distribution
  */
-function randomNormal(): number {
-    const u1 = Math.random();
-    const u2 = Math.random();
+function randomNormal(random: RandomSource): number {
+    const u1 = random();
+    const u2 = random();
     return Math.sqrt(-2 * Math.log(u1)) * Math.cos(2 * Math.PI * u2);
 }
 
@@ -112,7 +112,7 @@ export interface ChaoticBatConfig extends BatConfig {
  */
 export class ChaoticLevyBatAlgorithm extends BatAlgorithm {
     private chaoticConfig: ChaoticBatConfig;
-    private chaosValue = Math.random();
+    private chaosValue = this.random();
 
     constructor(config: ChaoticBatConfig) {
         super(config);
@@ -124,7 +124,6 @@ export class ChaoticLevyBatAlgorithm extends BatAlgorithm {
      */
     protected updatePopulation(): void {
         const { fMin, fMax, alpha, gamma: gam, chaosMap, levyBeta } = this.chaoticConfig;
-        const range = this.bounds.max - this.bounds.min;
         const iteration = this.getIteration();
 
         // Update chaos value
@@ -138,33 +137,33 @@ export class ChaoticLevyBatAlgorithm extends BatAlgorithm {
             meta.frequency = fMin + (fMax - fMin) * this.chaosValue;
 
             // Update velocity with Lévy flight
-            const levy1 = levyFlight(levyBeta);
-            const levy2 = levyFlight(levyBeta);
+            const levy = Array.from({ length: this.dimensions }, () => levyFlight(this.random, levyBeta));
 
-            velocity[0] += (bat.position[0] - this.globalBest.position[0]) * meta.frequency + levy1 * 0.01 * range;
-            velocity[1] += (bat.position[1] - this.globalBest.position[1]) * meta.frequency + levy2 * 0.01 * range;
+            for (let d = 0; d < this.dimensions; d++) {
+                velocity[d] += (bat.position[d] - this.globalBest.position[d]) * meta.frequency
+                    + levy[d] * 0.01 * this.range(d);
+            }
 
-            let newPosition: ContinuousSolution = [
-                bat.position[0] + velocity[0],
-                bat.position[1] + velocity[1]
-            ];
+            let newPosition: ContinuousSolution = this.applyVelocity(bat.position, velocity);
 
-            // Local search with chaotic perturbation
-            if (Math.random() > meta.pulseRate) {
+            // Local search with chaotic perturbation (successive map values per dimension)
+            const localSearch = this.random() > meta.pulseRate;
+            if (localSearch) {
                 const avgLoudness = this.getAverageLoudness();
-                const nextChaos = getChaosValue(this.chaosValue, chaosMap);
-                newPosition = [
-                    this.globalBest.position[0] + avgLoudness * (this.chaosValue * 2 - 1),
-                    this.globalBest.position[1] + avgLoudness * (nextChaos * 2 - 1)
-                ];
+                let chaos = this.chaosValue;
+                newPosition = this.globalBest.position.map(x => {
+                    const offset = avgLoudness * (chaos * 2 - 1);
+                    chaos = getChaosValue(chaos, chaosMap);
+                    return x + offset;
+                });
             }
 
             // Boundary handling
-            newPosition = this.clamp(newPosition);
+            newPosition = this.boundMove(newPosition, bat, !localSearch);
             const newFitness = this.evaluate(newPosition);
 
             // Accept new solution
-            if (Math.random() < meta.loudness && newFitness < bat.fitness) {
+            if (this.random() < meta.loudness && newFitness < bat.fitness) {
                 bat.position = newPosition;
                 bat.fitness = newFitness;
                 meta.loudness *= alpha;
@@ -1,62 +1,52 @@
 /**
  * Chapter 2.2.1: Discrete Bat Algorithm
- * 
+ *
  * Modified for combinatorial optimization problems like TSP.
  * Uses permutation-based representation instead of continuous positions.
- * 
+ *
  * Key differences:
  * - Positions are permutations (e.g., city order for TSP)
- * - Velocity is a swap sequence
+ * - Velocity is a swap sequence whose length grows with the frequency
  * - Movement is position update via swap operations
- * 
+ *
  * Reference: Hassanien & Emary, Section 2.2.1
  */
 
-export interface DiscreteBat {
-    permutation: number[];
-    velocity: Array<[number, number]>;  // Swap sequence
-    frequency: number;
-    loudness: number;
-    pulseRate: number;
-    fitness: number;
-}
+import {
+    BaseDiscreteOptimizer,
+    DiscreteConfig,
+    DiscreteSolution,
+    ObjectiveFunction,
+    Agent
+} from '../../core';
+import { BatMetadata } from './standard';
 
-export interface DiscreteBatConfig {
-    nBats: number;
-    nElements: number;      // Size of permutation
-    fMin: number;
-    fMax: number;
-    alpha: number;
-    gamma: number;
-    initialLoudness: number;
-    initialPulseRate: number;
-}
+/** A transposition of two permutation indices */
+export type Swap = [number, number];
 
-export interface DiscreteBatState {
-    bats: DiscreteBat[];
-    bestPermutation: number[];
-    bestFitness: number;
-    iteration: number;
+/**
+ * Discrete bat metadata: the swap sequence applied last iteration
+ */
+export interface DiscreteBatMetadata extends BatMetadata {
+    swaps: Swap[];
 }
 
-export type PermutationObjectiveFunction = (permutation: number[]) => number;
-
 /**
- * Random permutation generator
+ * Discrete Bat Algorithm configuration
  */
-function randomPermutation(n: number): number[] {
-    const arr = Array.from({ length: n }, (_, i) => i);
-    for (let i = n - 1; i > 0; i--) {
-        const j = Math.floor(Math.random() * (i + 1));
-        [arr[i], arr[j]] = [arr[j], arr[i]];
-    }
-    return arr;
+export interface DiscreteBatConfig extends DiscreteConfig {
+    fMin: number;
+    fMax: number;
+    alpha: number;          // Loudness decrease rate (0 < α < 1)
+    gamma: number;          // Pulse rate increase rate (γ > 0)
+    initialLoudness: number;
+    initialPulseRate: number;
 }
 
 /**
- * Apply swap sequence to permutation
+ * Apply a swap sequence to a permutation
  */
-function applySwaps(perm: number[], swaps: Array<[number, number]>): number[] {
+function applySwaps(perm: DiscreteSolution, swaps: Swap[]): DiscreteSolution {
     const result = [...perm];
     for (const [i, j] of swaps) {
         [result[i], result[j]] = [result[j], result[i]];
@@ -64,150 +54,115 @@ function applySwaps(perm: number[], swaps: Array<[number, number]>): number[] {
     return result;
 }
 
-/**
- * Generate random swap sequence
- */
-function randomSwaps(n: number, count: number): Array<[number, number]> {
-    const swaps: Array<[number, number]> = [];
-    for (let i = 0; i < count; i++) {
-        const a = Math.floor(Math.random() * n);
-        let b = Math.floor(Math.random() * n);
-        while (b === a) b = Math.floor(Math.random() * n);
-        swaps.push([a, b]);
-    }
-    return swaps;
-}
-
-/**
- * Simple TSP fitness (for demo - uses indices as coordinates)
- */
-export const simpleTSP: PermutationObjectiveFunction = (perm) => {
-    let distance = 0;
-    for (let i = 0; i < perm.length; i++) {
-        const current = perm[i];
-        const next = perm[(i + 1) % perm.length];
-        distance += Math.abs(current - next);  // Simple distance
-    }
-    return distance;
-};
-
 /**
  * Discrete Bat Algorithm (Section 2.2.1)
  */
-export class DiscreteBatAlgorithm {
-    private bats: DiscreteBat[] = [];
-    private bestPermutation: number[] = [];
-    private bestFitness = Infinity;
-    private config: DiscreteBatConfig;
-    private func: PermutationObjectiveFunction;
-    private iteration = 0;
-
-    public history: DiscreteBatState[] = [];
-
-    constructor(config: DiscreteBatConfig, func: PermutationObjectiveFunction = simpleTSP) {
-        this.config = config;
-        this.func = func;
-        this.initialize();
+export class DiscreteBatAlgorithm extends BaseDiscreteOptimizer {
+    protected batConfig: DiscreteBatConfig;
+
+    constructor(config: DiscreteBatConfig) {
+        super(config);
+        this.batConfig = config;
+        this.reset();
     }
 
-    private initialize(): void {
-        const { nBats, nElements, fMin, fMax, initialLoudness, initialPulseRate } = this.config;
-
-        this.bats = [];
-        this.bestFitness = Infinity;
-        this.bestPermutation = [];
-        this.iteration = 0;
-        this.history = [];
-
-        for (let i = 0; i < nBats; i++) {
-            const permutation = randomPermutation(nElements);
-            const fitness = this.func(permutation);
-
-            const bat: DiscreteBat = {
-                permutation,
-                velocity: [],
-                frequency: fMin + Math.random() * (fMax - fMin),
-                loudness: initialLoudness,
-                pulseRate: initialPulseRate,
-                fitness
+    /**
+     * Random permutations with bat-specific properties
+     */
+    protected initializePopulation(): void {
+        const { populationSize, fMin, fMax, initialLoudness, initialPulseRate } = this.batConfig;
+
+        this.population = [];
+
+        for (let i = 0; i < populationSize; i++) {
+            const position = this.randomPermutation();
+            const agent: Agent<DiscreteSolution> = {
+                position,
+                fitness: this.evaluate(position),
+                metadata: {
+                    frequency: fMin + this.random() * (fMax - fMin),
+                    loudness: initialLoudness,
+                    pulseRate: initialPulseRate,
+                    initialPulseRate,
+                    swaps: []
+                } as DiscreteBatMetadata
             };
-
-            this.bats.push(bat);
-
-            if (fitness < this.bestFitness) {
-                this.bestFitness = fitness;
-                this.bestPermutation = [...permutation];
-            }
+            this.population.push(agent);
         }
 
-        this.recordState();
+        this.globalBest = this.cloneAgent(
+            this.population.reduce((best, agent) =>
+                agent.fitness < best.fitness ? agent : best
+            )
+        );
     }
 
-    public step(): void {
-        const { nElements, fMin, fMax, alpha, gamma } = this.config;
-
-        for (const bat of this.bats) {
-            // Update frequency
-            bat.frequency = fMin + (fMax - fMin) * Math.random();
+    /**
+     * Core Discrete Bat Algorithm update logic
+     */
+    protected updatePopulation(): void {
+        const { fMin, fMax, alpha, gamma } = this.batConfig;
 
-            // Number of swaps proportional to frequency
-            const nSwaps = Math.max(1, Math.floor(bat.frequency * 3));
+        for (const bat of this.population) {
+            const meta = bat.metadata as DiscreteBatMetadata;
 
-            // Generate velocity (swap sequence)
-            bat.velocity = randomSwaps(nElements, nSwaps);
+            meta.frequency = fMin + (fMax - fMin) * this.random();
 
-            // Generate new permutation
-            let newPerm: number[];
+            // Velocity: a swap sequence, longer for higher frequencies
+            meta.swaps = this.randomSwaps(Math.max(1, Math.floor(meta.frequency * 3)));
 
-            if (Math.random() > bat.pulseRate) {
-                // Local search around best
-                newPerm = applySwaps(this.bestPermutation, randomSwaps(nElements, 1));
-            } else {
-                // Apply velocity
-                newPerm = applySwaps(bat.permutation, bat.velocity);
-            }
+            const newPosition = this.random() > meta.pulseRate
+                // Local search: a single swap away from the best tour
+                ? applySwaps(this.globalBest.position, this.randomSwaps(1))
+                : applySwaps(bat.position, meta.swaps);
 
-            const newFitness = this.func(newPerm);
+            const newFitness = this.evaluate(newPosition);
 
-            // Accept?
-            if (Math.random() < bat.loudness && newFitness < bat.fitness) {
-                bat.permutation = newPerm;
+            if (this.random() < meta.loudness && newFitness < bat.fitness) {
+                bat.position = newPosition;
                 bat.fitness = newFitness;
 
-                bat.loudness *= alpha;
-                bat.pulseRate = bat.pulseRate * (1 - Math.exp(-gamma * this.iteration));
+                meta.loudness *= alpha;
+                meta.pulseRate = meta.initialPulseRate * (1 - Math.exp(-gamma * this.iteration));
             }
 
-            if (bat.fitness < this.bestFitness) {
-                this.bestFitness = bat.fitness;
-                this.bestPermutation = [...bat.permutation];
-            }
+            this.updateGlobalBest(bat);
         }
-
-        this.iteration++;
-        this.recordState();
     }
 
-    public run(iterations: number): void {
-        for (let i = 0; i < iterations; i++) {
-            this.step();
+    /**
+     * Random sequence of `count` transpositions of distinct indices
+     */
+    protected randomSwaps(count: number): Swap[] {
+        const n = this.dimensions;
+        const swaps: Swap[] = [];
+        for (let i = 0; i < count; i++) {
+            const a = Math.floor(this.random() * n);
+            let b = Math.floor(this.random() * n);
+            while (b === a) b = Math.floor(this.random() * n);
+            swaps.push([a, b]);
         }
+        return swaps;
     }
+}
 
-    private recordState(): void {
-        this.history.push({
-            bats: this.bats.map(b => ({
-                ...b,
-                permutation: [...b.permutation],
-                velocity: [...b.velocity]
-            })),
-            bestPermutation: [...this.bestPermutation],
-            bestFitness: this.bestFitness,
-            iteration: this.iteration
-        });
-    }
-
-    public reset(): void {
-        this.initialize();
-    }
+/**
+ * Default Discrete Bat Algorithm configuration
+ */
+export function createDefaultDiscreteBatConfig(
+    objectiveFunction: ObjectiveFunction<DiscreteSolution>,
+    dimensions: number = 20
+): DiscreteBatConfig {
+    return {
+        populationSize: 30,
+        type: 'discrete',
+        dimensions,
+        objectiveFunction,
+        fMin: 0,
+        fMax: 2,
+        alpha: 0.9,
+        gamma: 0.9,
+        initialLoudness: 1.0,
+        initialPulseRate: 0.5
+    };
 }
@@ -53,15 +53,14 @@ export class BatABCHybrid extends BatAlgorithm {
      */
     private employedBeePhase(bat: Agent<ContinuousSolution>): ContinuousSolution {
         // Select random neighbor
-        const k = Math.floor(Math.random() * this.population.length);
+        const k = Math.floor(this.random() * this.population.length);
         const neighbor = this.population[k];
 
         // Generate new position
-        const phi = Math.random() * 2 - 1;
-        const newX = bat.position[0] + phi * (bat.position[0] - neighbor.position[0]);
-        const newY = bat.position[1] + phi * (bat.position[1] - neighbor.position[1]);
+        const phi = this.random() * 2 - 1;
+        const newPosition = bat.position.map((x, d) => x + phi * (x - neighbor.position[d]));
 
-        return this.clamp([newX, newY]);
+        return this.handleBounds(newPosition, bat.position);
     }
 
     /**
@@ -76,30 +75,29 @@ export class BatABCHybrid extends BatAlgorithm {
             const velocity = bat.velocity!;
 
             // BA frequency update
-            meta.frequency = fMin + (fMax - fMin) * Math.random();
+            meta.frequency = fMin + (fMax - fMin) * this.random();
 
             // BA velocity update
-            velocity[0] += (bat.position[0] - this.globalBest.position[0]) * meta.frequency;
-            velocity[1] += (bat.position[1] - this.globalBest.position[1]) * meta.frequency;
+            for (let d = 0; d < this.dimensions; d++) {
+                velocity[d] += (bat.position[d] - this.globalBest.position[d]) * meta.frequency;
+            }
 
             let newPosition: ContinuousSolution;
 
-            if (Math.random() > meta.pulseRate) {
+            const localSearch = this.random() > meta.pulseRate;
+            if (localSearch) {
                 // Use ABC employed bee phase
                 newPosition = this.employedBeePhase(bat);
             } else {
-                newPosition = [
-                    bat.position[0] + velocity[0],
-                    bat.position[1] + velocity[1]
-                ];
+                newPosition = this.applyVelocity(bat.position, velocity);
             }
 
             // Boundary handling
-            newPosition = this.clamp(newPosition);
+            newPosition = this.boundMove(newPosition, bat, !localSearch);
             const newFitness = this.evaluate(newPosition);
 
             // Accept new solution
-            if (Math.random() < meta.loudness && newFitness < bat.fitness) {
+            if (this.random() < meta.loudness && newFitness < bat.fitness) {
                 bat.position = newPosition;
                 bat.fitness = newFitness;
                 meta.loudness *= alpha;
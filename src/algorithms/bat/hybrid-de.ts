@@ -35,7 +35,7 @@ export class BatDEHybrid extends BatAlgorithm {
     private selectThree(excludeIdx: number): [Agent<ContinuousSolution>, Agent<ContinuousSolution>, Agent<ContinuousSolution>] {
         const indices: number[] = [];
         while (indices.length < 3) {
-            const idx = Math.floor(Math.random() * this.population.length);
+            const idx = Math.floor(this.random() * this.population.length);
             if (idx !== excludeIdx && !indices.includes(idx)) {
                 indices.push(idx);
             }
@@ -56,41 +56,34 @@ export class BatDEHybrid extends BatAlgorithm {
             const velocity = bat.velocity!;
 
             // BA frequency update
-            meta.frequency = fMin + (fMax - fMin) * Math.random();
+            meta.frequency = fMin + (fMax - fMin) * this.random();
 
             // DE mutation: v = x_r1 + F * (x_r2 - x_r3)
             const [r1, r2, r3] = this.selectThree(i);
-            const mutantX = r1.position[0] + F * (r2.position[0] - r3.position[0]);
-            const mutantY = r1.position[1] + F * (r2.position[1] - r3.position[1]);
+            const mutant = r1.position.map((x, d) => x + F * (r2.position[d] - r3.position[d]));
 
             // DE crossover
-            const trialX = Math.random() < CR ? mutantX : bat.position[0];
-            const trialY = Math.random() < CR ? mutantY : bat.position[1];
+            const trial = bat.position.map((x, d) => this.random() < CR ? mutant[d] : x);
 
             // BA velocity update (blended with DE trial)
-            velocity[0] += (trialX - bat.position[0]) * meta.frequency;
-            velocity[1] += (trialY - bat.position[1]) * meta.frequency;
+            for (let d = 0; d < this.dimensions; d++) {
+                velocity[d] += (trial[d] - bat.position[d]) * meta.frequency;
+            }
 
-            let newPosition: ContinuousSolution = [
-                bat.position[0] + velocity[0],
-                bat.position[1] + velocity[1]
-            ];
+            let newPosition: ContinuousSolution = this.applyVelocity(bat.position, velocity);
 
             // BA local search
-            if (Math.random() > meta.pulseRate) {
-                const avgLoudness = this.getAverageLoudness();
-                newPosition = [
-                    this.globalBest.position[0] + avgLoudness * (Math.random() * 2 - 1),
-                    this.globalBest.position[1] + avgLoudness * (Math.random() * 2 - 1)
-                ];
+            const localSearch = this.random() > meta.pulseRate;
+            if (localSearch) {
+                newPosition = this.localWalk(this.getAverageLoudness());
             }
 
             // Boundary handling
-            newPosition = this.clamp(newPosition);
+            newPosition = this.boundMove(newPosition, bat, !localSearch);
             const newFitness = this.evaluate(newPosition);
 
             // Accept new solution
-            if (Math.random() < meta.loudness && newFitness < bat.fitness) {
+            if (this.random() < meta.loudness && newFitness < bat.fitness) {
                 bat.position = newPosition;
                 bat.fitness = newFitness;
                 meta.loudness *= alpha;
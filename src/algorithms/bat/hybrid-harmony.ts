@@ -33,27 +33,27 @@ export class BatHarmonyHybrid extends BatAlgorithm {
     /**
      * Generate new value using HS operators
      */
-    private harmonyValue(dimension: 0 | 1): number {
+    private harmonyValue(dimension: number): number {
         const { hmcr, par, bw } = this.hsConfig;
 
         let value: number;
 
-        if (Math.random() < hmcr) {
+        if (this.random() < hmcr) {
             // Memory consideration: pick from existing population
-            const idx = Math.floor(Math.random() * this.population.length);
+            const idx = Math.floor(this.random() * this.population.length);
             value = this.population[idx].position[dimension];
 
             // Pitch adjustment
-            if (Math.random() < par) {
-                value += (Math.random() * 2 - 1) * bw;
+            if (this.random() < par) {
+                value += (this.random() * 2 - 1) * bw;
             }
         } else {
             // Random initialization
-            const range = this.bounds.max - this.bounds.min;
-            value = this.bounds.min + Math.random() * range;
+            value = this.dimensionBounds[dimension].min + this.random() * this.range(dimension);
         }
 
-        return Math.max(this.bounds.min, Math.min(this.bounds.max, value));
+        const { min, max } = this.dimensionBounds[dimension];
+        return Math.max(min, Math.min(max, value));
     }
 
     /**
@@ -68,33 +68,29 @@ export class BatHarmonyHybrid extends BatAlgorithm {
             const velocity = bat.velocity!;
 
             // BA frequency update
-            meta.frequency = fMin + (fMax - fMin) * Math.random();
+            meta.frequency = fMin + (fMax - fMin) * this.random();
 
             // BA velocity update
-            velocity[0] += (bat.position[0] - this.globalBest.position[0]) * meta.frequency;
-            velocity[1] += (bat.position[1] - this.globalBest.position[1]) * meta.frequency;
+            for (let d = 0; d < this.dimensions; d++) {
+                velocity[d] += (bat.position[d] - this.globalBest.position[d]) * meta.frequency;
+            }
 
             let newPosition: ContinuousSolution;
 
             // Use HS for solution generation
-            if (Math.random() > meta.pulseRate) {
-                newPosition = [
-                    this.harmonyValue(0),
-                    this.harmonyValue(1)
-                ];
+            const fromHarmony = this.random() > meta.pulseRate;
+            if (fromHarmony) {
+                newPosition = Array.from({ length: this.dimensions }, (_, d) => this.harmonyValue(d));
             } else {
-                newPosition = [
-                    bat.position[0] + velocity[0],
-                    bat.position[1] + velocity[1]
-                ];
+                newPosition = this.applyVelocity(bat.position, velocity);
             }
 
             // Boundary handling
-            newPosition = this.clamp(newPosition);
+            newPosition = this.boundMove(newPosition, bat, !fromHarmony);
             const newFitness = this.evaluate(newPosition);
 
             // Accept new solution
-            if (Math.random() < meta.loudness && newFitness < bat.fitness) {
+            if (this.random() < meta.loudness && newFitness < bat.fitness) {
                 bat.position = newPosition;
                 bat.fitness = newFitness;
                 meta.loudness *= alpha;
@@ -10,15 +10,6 @@
 import { BatAlgorithm, BatConfig, BatMetadata } from './standard';
 import { ContinuousSolution } from '../../core';
 
-/**
- * Extended metadata with PSO personal best
- */
-interface PSOBatMetadata extends BatMetadata {
-    pbestX: number;
-    pbestY: number;
-    pbestFitness: number;
-}
-
 /**
  * Extended config with PSO parameters
  */
@@ -45,12 +36,10 @@ export class BatPSOHybrid extends BatAlgorithm {
     protected initializePopulation(): void {
         super.initializePopulation();
 
-        // Add personal best to each agent's metadata
+        // Each bat starts as its own personal best
         for (const agent of this.population) {
-            const meta = agent.metadata as PSOBatMetadata;
-            meta.pbestX = agent.position[0];
-            meta.pbestY = agent.position[1];
-            meta.pbestFitness = agent.fitness;
+            agent.personalBest = [...agent.position];
+            agent.personalBestFitness = agent.fitness;
         }
     }
 
@@ -62,47 +51,40 @@ export class BatPSOHybrid extends BatAlgorithm {
         const iteration = this.getIteration();
 
         for (const bat of this.population) {
-            const meta = bat.metadata as PSOBatMetadata;
+            const meta = bat.metadata as BatMetadata;
             const velocity = bat.velocity!;
+            const pbest = bat.personalBest!;
 
             // BA frequency
-            meta.frequency = fMin + (fMax - fMin) * Math.random();
+            meta.frequency = fMin + (fMax - fMin) * this.random();
 
-            const r1 = Math.random();
-            const r2 = Math.random();
+            const r1 = this.random();
+            const r2 = this.random();
 
-            // PSO-style velocity update
-            velocity[0] = w * velocity[0]
-                + c1 * r1 * (meta.pbestX - bat.position[0])
-                + c2 * r2 * (this.globalBest.position[0] - bat.position[0]);
-            velocity[1] = w * velocity[1]
-                + c1 * r1 * (meta.pbestY - bat.position[1])
-                + c2 * r2 * (this.globalBest.position[1] - bat.position[1]);
+            for (let d = 0; d < this.dimensions; d++) {
+                // PSO-style velocity update
+                velocity[d] = w * velocity[d]
+                    + c1 * r1 * (pbest[d] - bat.position[d])
+                    + c2 * r2 * (this.globalBest.position[d] - bat.position[d]);
 
-            // BA velocity component
-            velocity[0] += (bat.position[0] - this.globalBest.position[0]) * meta.frequency * 0.5;
-            velocity[1] += (bat.position[1] - this.globalBest.position[1]) * meta.frequency * 0.5;
+                // BA velocity component
+                velocity[d] += (bat.position[d] - this.globalBest.position[d]) * meta.frequency * 0.5;
+            }
 
-            let newPosition: ContinuousSolution = [
-                bat.position[0] + velocity[0],
-                bat.position[1] + velocity[1]
-            ];
+            let newPosition: ContinuousSolution = this.applyVelocity(bat.position, velocity);
 
             // BA local search
-            if (Math.random() > meta.pulseRate) {
-                const avgLoudness = this.getAverageLoudness();
-                newPosition = [
-                    this.globalBest.position[0] + avgLoudness * (Math.random() * 2 - 1),
-                    this.globalBest.position[1] + avgLoudness * (Math.random() * 2 - 1)
-                ];
+            const localSearch = this.random() > meta.pulseRate;
+            if (localSearch) {
+                newPosition = this.localWalk(this.getAverageLoudness());
             }
 
             // Boundary handling
-            newPosition = this.clamp(newPosition);
+            newPosition = this.boundMove(newPosition, bat, !localSearch);
             const newFitness = this.evaluate(newPosition);
 
             // Accept new solution
-            if (Math.random() < meta.loudness && newFitness < bat.fitness) {
+            if (this.random() < meta.loudness && newFitness < bat.fitness) {
                 bat.position = newPosition;
                 bat.fitness = newFitness;
                 meta.loudness *= alpha;
@@ -110,10 +92,9 @@ export class BatPSOHybrid extends BatAlgorithm {
             }
 
             // Update personal best
-            if (bat.fitness < meta.pbestFitness) {
-                meta.pbestX = bat.position[0];
-                meta.pbestY = bat.position[1];
-                meta.pbestFitness = bat.fitness;
+            if (bat.fitness < bat.personalBestFitness!) {
+                bat.personalBest = [...bat.position];
+                bat.personalBestFitness = bat.fitness;
             }
 
             // Update global best
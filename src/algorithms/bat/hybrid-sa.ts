@@ -55,35 +55,30 @@ export class BatSAHybrid extends BatAlgorithm {
             const velocity = bat.velocity!;
 
             // BA frequency update
-            meta.frequency = fMin + (fMax - fMin) * Math.random();
+            meta.frequency = fMin + (fMax - fMin) * this.random();
 
             // Velocity update
-            velocity[0] += (bat.position[0] - this.globalBest.position[0]) * meta.frequency;
-            velocity[1] += (bat.position[1] - this.globalBest.position[1]) * meta.frequency;
+            for (let d = 0; d < this.dimensions; d++) {
+                velocity[d] += (bat.position[d] - this.globalBest.position[d]) * meta.frequency;
+            }
 
-            let newPosition: ContinuousSolution = [
-                bat.position[0] + velocity[0],
-                bat.position[1] + velocity[1]
-            ];
+            let newPosition: ContinuousSolution = this.applyVelocity(bat.position, velocity);
 
             // Local search
-            if (Math.random() > meta.pulseRate) {
-                const avgLoudness = this.getAverageLoudness();
-                newPosition = [
-                    this.globalBest.position[0] + avgLoudness * (Math.random() * 2 - 1),
-                    this.globalBest.position[1] + avgLoudness * (Math.random() * 2 - 1)
-                ];
+            const localSearch = this.random() > meta.pulseRate;
+            if (localSearch) {
+                newPosition = this.localWalk(this.getAverageLoudness());
             }
 
             // Boundary handling
-            newPosition = this.clamp(newPosition);
+            newPosition = this.boundMove(newPosition, bat, !localSearch);
             const newFitness = this.evaluate(newPosition);
             const delta = newFitness - bat.fitness;
 
             // SA acceptance criterion: accept if better OR with probability exp(-delta/T)
             const acceptProb = delta < 0 ? 1 : Math.exp(-delta / this.temperature);
 
-            if (Math.random() < acceptProb && Math.random() < meta.loudness) {
+            if (this.random() < acceptProb && this.random() < meta.loudness) {
                 bat.position = newPosition;
                 bat.fitness = newFitness;
                 meta.loudness *= alpha;
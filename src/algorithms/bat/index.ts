@@ -1,11 +1,21 @@
 /**
  * Bat Algorithm Family
  * 
- * Re-exports the refactored BatAlgorithm using the new framework.
+ * Re-exports the refactored BatAlgorithm using the new framework, plus the
+ * permutation (2.2.1), bit-string (2.2.2, 2.2.4) and multi-objective (2.2.3)
+ * variants.
  */
 
 export { BatAlgorithm, createDefaultBatConfig } from './standard';
 export type { BatConfig, BatMetadata } from './standard';
+export { DiscreteBatAlgorithm, createDefaultDiscreteBatConfig } from './discrete';
+export type { DiscreteBatConfig, DiscreteBatMetadata, Swap } from './discrete';
+export { BinaryBatAlgorithm, createDefaultBinaryBatConfig } from './binary';
+export type { BinaryBatConfig, BinaryBatMetadata } from './binary';
+export { BinaryLevyBatAlgorithm } from './binary-levy';
+export type { BinaryLevyBatConfig } from './binary-levy';
+export { MultiObjectiveBatAlgorithm, createDefaultMOBAConfig } from './multi-objective';
+export type { MOBAConfig } from './multi-objective';
 
 // TODO: Refactor these variants to use new framework:
 // - ChaoticLevyBatAlgorithm
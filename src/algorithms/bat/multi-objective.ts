@@ -0,0 +1,182 @@
+/**
+ * Chapter 2.2.3: Multi-Objective Bat Algorithm (MOBA)
+ *
+ * Extends the bat algorithm to problems with several conflicting
+ * objectives. There is no single best bat to fly towards, so each bat
+ * picks a leader from an external archive of non-dominated solutions,
+ * favouring sparse parts of the front to keep it well spread.
+ *
+ * Key differences from Standard BA:
+ * - Velocity (Eq. 3) and local walk (Eq. 5) use an archive leader
+ *   instead of the global best
+ * - Each bat scores solutions with its own random weighting of the
+ *   objectives (Yang's weighted sum), so different bats settle on
+ *   different parts of the front
+ * - Every new solution is offered to the archive, which is the result
+ *
+ * Reference: Yang, "Bat algorithm for multi-objective optimisation" (2011);
+ * Hassanien & Emary, Section 2.2.3
+ */
+
+import {
+    BaseMultiObjectiveOptimizer,
+    MultiObjectiveConfig,
+    MultiObjectiveFunction,
+    ContinuousSolution,
+    Agent
+} from '../../core';
+import { BatMetadata } from './standard';
+
+/**
+ * MOBA configuration
+ */
+export interface MOBAConfig extends MultiObjectiveConfig {
+    fMin: number;
+    fMax: number;
+    alpha: number;          // Loudness decrease rate (0 < α < 1)
+    gamma: number;          // Pulse rate increase rate (γ > 0)
+    initialLoudness: number;
+    initialPulseRate: number;
+}
+
+/** Local walk step per unit of average loudness, as a fraction of each range */
+const WALK_SCALE = 0.2;
+
+/**
+ * Multi-Objective Bat Algorithm (Section 2.2.3)
+ */
+export class MultiObjectiveBatAlgorithm extends BaseMultiObjectiveOptimizer {
+    protected batConfig: MOBAConfig;
+    /** Objective weights of each bat (non-negative, summing to 1) */
+    private weights: number[][] = [];
+
+    constructor(config: MOBAConfig) {
+        super(config);
+        this.batConfig = config;
+        this.reset();
+    }
+
+    /**
+     * Random bats at rest, then the first archive
+     */
+    protected initializePopulation(): void {
+        const { populationSize, fMin, fMax, initialLoudness, initialPulseRate } = this.batConfig;
+
+        this.population = [];
+        this.weights = [];
+
+        for (let i = 0; i < populationSize; i++) {
+            this.weights.push(this.randomWeights());
+            const agent: Agent<ContinuousSolution> = {
+                ...this.createAgent(this.randomPosition()),
+                velocity: new Array(this.dimensions).fill(0),
+                metadata: {
+                    frequency: fMin + this.random() * (fMax - fMin),
+                    loudness: initialLoudness,
+                    pulseRate: initialPulseRate,
+                    initialPulseRate
+                } as BatMetadata
+            };
+            this.population.push(agent);
+        }
+
+        this.updateArchive();
+    }
+
+    /**
+     * Core MOBA update logic
+     */
+    protected updatePopulation(): void {
+        const { fMin, fMax, alpha, gamma } = this.batConfig;
+        const averageLoudness = this.getAverageLoudness();
+
+        this.population.forEach((bat, i) => {
+            const meta = bat.metadata as BatMetadata;
+            const leader = this.selectLeader();
+
+            // Eq. 2-4 with the leader in place of x*
+            meta.frequency = fMin + (fMax - fMin) * this.random();
+            const velocity = bat.velocity!;
+            for (let d = 0; d < this.dimensions; d++) {
+                velocity[d] += (bat.position[d] - leader[d]) * meta.frequency;
+            }
+
+            let newPosition = bat.position.map((x, d) => x + velocity[d]);
+
+            // Eq. 5: local walk around the leader
+            const localSearch = this.random() > meta.pulseRate;
+            if (localSearch) {
+                newPosition = leader.map((x, d) =>
+                    x + WALK_SCALE * this.range(d) * averageLoudness * (this.random() * 2 - 1)
+                );
+            }
+
+            // The velocity only moved the bat without the local walk
+            newPosition = this.handleBounds(newPosition, bat.position, localSearch ? undefined : velocity);
+            const newObjectives = this.evaluateObjectives(newPosition);
+            this.offerToArchive(newPosition, newObjectives);
+
+            const weights = this.weights[i];
+            if (this.random() < meta.loudness && weightedSum(newObjectives, weights) < weightedSum(bat.objectives!, weights)) {
+                bat.position = newPosition;
+                bat.objectives = newObjectives;
+                bat.fitness = newObjectives.reduce((sum, f) => sum + f, 0);
+
+                meta.loudness *= alpha;
+                meta.pulseRate = meta.initialPulseRate * (1 - Math.exp(-gamma * this.iteration));
+            }
+        });
+    }
+
+    /**
+     * Uniform random point of the weight simplex
+     */
+    private randomWeights(): number[] {
+        const raw = Array.from({ length: this.objectiveCount }, () => -Math.log(1 - this.random()));
+        const total = raw.reduce((sum, w) => sum + w, 0);
+        return raw.map(w => w / total);
+    }
+
+    /**
+     * Calculate average loudness across population
+     */
+    protected getAverageLoudness(): number {
+        let sum = 0;
+        for (const bat of this.population) {
+            sum += (bat.metadata as BatMetadata).loudness;
+        }
+        return sum / this.population.length;
+    }
+}
+
+function weightedSum(objectives: number[], weights: number[]): number {
+    return objectives.reduce((sum, f, m) => sum + weights[m] * f, 0);
+}
+
+/**
+ * Default MOBA configuration
+ */
+export function createDefaultMOBAConfig(
+    objectiveFunction: MultiObjectiveFunction,
+    dimensions: number,
+    objectives: number,
+    referencePoint: number[]
+): MOBAConfig {
+    return {
+        populationSize: 30,
+        type: 'multiobjective',
+        dimensions,
+        bounds: { min: 0, max: 1 },
+        objectiveFunction,
+        objectives,
+        referencePoint,
+        archiveSize: 100,
+        archivePruning: 'crowding',
+        fMin: 0,
+        fMax: 2,
+        alpha: 0.9,
+        gamma: 0.9,
+        initialLoudness: 1.0,
+        initialPulseRate: 0.5
+    };
+}
@@ -70,33 +70,28 @@ export class SelfAdaptiveBatAlgorithm extends BatAlgorithm {
             const velocity = bat.velocity!;
 
             // Self-adaptive frequency
-            meta.frequency = adaptFreq * (0.5 + Math.random());
+            meta.frequency = adaptFreq * (0.5 + this.random());
 
             // Velocity update
-            velocity[0] += (bat.position[0] - this.globalBest.position[0]) * meta.frequency;
-            velocity[1] += (bat.position[1] - this.globalBest.position[1]) * meta.frequency;
+            for (let d = 0; d < this.dimensions; d++) {
+                velocity[d] += (bat.position[d] - this.globalBest.position[d]) * meta.frequency;
+            }
 
-            let newPosition: ContinuousSolution = [
-                bat.position[0] + velocity[0],
-                bat.position[1] + velocity[1]
-            ];
+            let newPosition: ContinuousSolution = this.applyVelocity(bat.position, velocity);
 
             // Adaptive local search
-            if (Math.random() > adaptPulse) {
-                const adaptLoud = this.adaptiveLoudness(meta.loudness);
-                newPosition = [
-                    this.globalBest.position[0] + adaptLoud * (Math.random() * 2 - 1),
-                    this.globalBest.position[1] + adaptLoud * (Math.random() * 2 - 1)
-                ];
+            const localSearch = this.random() > adaptPulse;
+            if (localSearch) {
+                newPosition = this.localWalk(this.adaptiveLoudness(meta.loudness));
             }
 
             // Boundary handling
-            newPosition = this.clamp(newPosition);
+            newPosition = this.boundMove(newPosition, bat, !localSearch);
             const newFitness = this.evaluate(newPosition);
 
             // Adaptive acceptance
             const adaptLoud = this.adaptiveLoudness(meta.loudness);
-            if (Math.random() < adaptLoud && newFitness < bat.fitness) {
+            if (this.random() < adaptLoud && newFitness < bat.fitness) {
                 bat.position = newPosition;
                 bat.fitness = newFitness;
                 meta.loudness = adaptLoud;
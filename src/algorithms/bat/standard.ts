@@ -13,9 +13,10 @@
  */
 
 import {
-    BaseContinuous2DOptimizer,
-    Continuous2DConfig,
+    BaseContinuousNDOptimizer,
+    ContinuousNDConfig,
     ContinuousSolution,
+    ObjectiveFunction,
     Agent
 } from '../../core';
 
@@ -33,7 +34,7 @@ export interface BatMetadata {
 /**
  * Bat Algorithm configuration
  */
-export interface BatConfig extends Continuous2DConfig {
+export interface BatConfig extends ContinuousNDConfig {
     fMin: number;           // Minimum frequency
     fMax: number;           // Maximum frequency
     alpha: number;          // Loudness decrease rate (0 < α < 1)
@@ -44,10 +45,8 @@ export interface BatConfig extends Continuous2DConfig {
 
 /**
  * Standard Bat Algorithm (Section 2.1.2)
- * 
- * Now extends BaseContinuous2DOptimizer for framework compatibility.
  */
-export class BatAlgorithm extends BaseContinuous2DOptimizer {
+export class BatAlgorithm extends BaseContinuousNDOptimizer {
     protected batConfig: BatConfig;
 
     constructor(config: BatConfig) {
@@ -71,9 +70,9 @@ export class BatAlgorithm extends BaseContinuous2DOptimizer {
             const agent: Agent<ContinuousSolution> = {
                 position,
                 fitness,
-                velocity: [0, 0],  // Bats start with zero velocity
+                velocity: new Array(this.dimensions).fill(0),  // Bats start with zero velocity
                 metadata: {
-                    frequency: fMin + Math.random() * (fMax - fMin),
+                    frequency: fMin + this.random() * (fMax - fMin),
                     loudness: initialLoudness,
                     pulseRate: initialPulseRate,
                     initialPulseRate: initialPulseRate
@@ -103,39 +102,34 @@ export class BatAlgorithm extends BaseContinuous2DOptimizer {
 
             // Eq. 2: Update frequency
             // fi = fmin + (fmax - fmin) * beta, where beta ∈ [0, 1]
-            meta.frequency = fMin + (fMax - fMin) * Math.random();
+            meta.frequency = fMin + (fMax - fMin) * this.random();
 
             // Eq. 3: Update velocity
             // vi^t = vi^{t-1} + (xi^{t-1} - x*) * fi
-            velocity[0] += (bat.position[0] - this.globalBest.position[0]) * meta.frequency;
-            velocity[1] += (bat.position[1] - this.globalBest.position[1]) * meta.frequency;
+            for (let d = 0; d < this.dimensions; d++) {
+                velocity[d] += (bat.position[d] - this.globalBest.position[d]) * meta.frequency;
+            }
 
             // Eq. 4: Generate new solution
             // xi^t = xi^{t-1} + vi^t
-            let newPosition: ContinuousSolution = [
-                bat.position[0] + velocity[0],
-                bat.position[1] + velocity[1]
-            ];
+            let newPosition = this.applyVelocity(bat.position, velocity);
 
             // Eq. 5: Local search (if random > pulse rate)
             // x_new = x_old + epsilon * A^t
-            if (Math.random() > meta.pulseRate) {
+            const localSearch = this.random() > meta.pulseRate;
+            if (localSearch) {
                 // Random walk around current best
-                const avgLoudness = this.getAverageLoudness();
-                newPosition = [
-                    this.globalBest.position[0] + avgLoudness * (Math.random() * 2 - 1),
-                    this.globalBest.position[1] + avgLoudness * (Math.random() * 2 - 1)
-                ];
+                newPosition = this.localWalk(this.getAverageLoudness());
             }
 
             // Boundary handling
-            newPosition = this.clamp(newPosition);
+            newPosition = this.boundMove(newPosition, bat, !localSearch);
 
             const newFitness = this.evaluate(newPosition);
 
             // Accept new solution?
             // If random < loudness AND new solution is better
-            if (Math.random() < meta.loudness && newFitness < bat.fitness) {
+            if (this.random() < meta.loudness && newFitness < bat.fitness) {
                 bat.position = newPosition;
                 bat.fitness = newFitness;
 
@@ -151,6 +145,29 @@ export class BatAlgorithm extends BaseContinuous2DOptimizer {
         }
     }
 
+    /**
+     * Random walk around the global best: x* + scale * U(-1, 1) per dimension
+     */
+    protected localWalk(scale: number): ContinuousSolution {
+        return this.globalBest.position.map(x => x + scale * (this.random() * 2 - 1));
+    }
+
+    /**
+     * Boundary handling of a bat's new position. The velocity is passed on
+     * (for absorb/damping) only when it produced the move: after a local
+     * search or another operator it played no part in the new position.
+     */
+    protected boundMove(position: ContinuousSolution, bat: Agent<ContinuousSolution>, byVelocity: boolean): ContinuousSolution {
+        return this.handleBounds(position, bat.position, byVelocity ? bat.velocity : undefined);
+    }
+
+    /**
+     * Move a bat by its velocity: x + v
+     */
+    protected applyVelocity(position: ContinuousSolution, velocity: ContinuousSolution): ContinuousSolution {
+        return position.map((x, d) => x + velocity[d]);
+    }
+
     /**
      * Calculate average loudness across population
      */
@@ -167,12 +184,13 @@ export class BatAlgorithm extends BaseContinuous2DOptimizer {
  * Default Bat Algorithm configuration
  */
 export function createDefaultBatConfig(
-    objectiveFunction: (x: number, y: number) => number
+    objectiveFunction: ObjectiveFunction<ContinuousSolution>,
+    dimensions: number = 2
 ): BatConfig {
     return {
         populationSize: 30,
         type: 'continuous',
-        dimensions: 2,
+        dimensions,
         bounds: { min: -5.12, max: 5.12 },
         objectiveFunction,
         fMin: 0,
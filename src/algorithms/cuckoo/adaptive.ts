@@ -0,0 +1,68 @@
+/**
+ * Chapter 4.2.3: Discovery-Rate-Adaptive Cuckoo Search
+ *
+ * The discovery rate pa and the Lévy step size α follow schedules over
+ * the run instead of staying fixed (Valian et al.):
+ * - pa decreases linearly from paMax to paMin (fewer nests rebuilt late on)
+ * - α decays exponentially from alphaMax to alphaMin (shorter flights late on)
+ *
+ * Reference: Hassanien & Emary, Section 4.2.3
+ */
+
+import { CuckooSearch, CuckooConfig } from './standard';
+import { getAdaptiveValue } from '../../core';
+
+/**
+ * Adaptive CS configuration
+ */
+export interface AdaptiveCuckooConfig extends CuckooConfig {
+    paMax: number;
+    paMin: number;
+    alphaMax: number;
+    alphaMin: number;
+}
+
+/**
+ * Discovery-Rate-Adaptive Cuckoo Search (Section 4.2.3)
+ */
+export class AdaptiveCuckooSearch extends CuckooSearch {
+    constructor(config: AdaptiveCuckooConfig) {
+        super(config);
+    }
+
+    /** Set by the parent constructor, so available during the initial reset() */
+    private get adaptiveConfig(): AdaptiveCuckooConfig {
+        return this.cuckooConfig as AdaptiveCuckooConfig;
+    }
+
+    /**
+     * α(t) = alphaMax × (alphaMin / alphaMax)^(t / T)
+     */
+    protected stepSize(): number {
+        const { alphaMax, alphaMin } = this.adaptiveConfig;
+        return getAdaptiveValue(
+            { type: 'exponential', startValue: alphaMax, endValue: alphaMin },
+            this.iteration,
+            this.getMaxIterations()
+        );
+    }
+
+    /**
+     * pa(t) = paMax - (paMax - paMin) × t / T
+     */
+    protected discoveryRate(): number {
+        const { paMax, paMin } = this.adaptiveConfig;
+        return getAdaptiveValue(
+            { type: 'linear', startValue: paMax, endValue: paMin },
+            this.iteration,
+            this.getMaxIterations()
+        );
+    }
+
+    /**
+     * Abandoned nests plus the current discovery rate
+     */
+    protected getExtra(): Record<string, unknown> | undefined {
+        return { ...super.getExtra(), discoveryRate: this.discoveryRate() };
+    }
+}
@@ -0,0 +1,58 @@
+/**
+ * Chapter 4.2.2: Chaotic Cuckoo Search (CCS)
+ *
+ * Replaces the fixed Lévy step size and the uniform random factor of the
+ * nest-rebuilding walk with values from a chaotic map, giving a
+ * non-repeating but deterministic variation of step lengths.
+ *
+ * Reference: Hassanien & Emary, Section 4.2.2
+ */
+
+import { CuckooSearch, CuckooConfig } from './standard';
+import { ChaosGenerator, ChaosMapType } from '../../core';
+
+/**
+ * Chaotic CS configuration
+ */
+export interface ChaoticCuckooConfig extends CuckooConfig {
+    chaosMap: ChaosMapType;
+}
+
+/**
+ * Chaotic Cuckoo Search (Section 4.2.2)
+ */
+export class ChaoticCuckooSearch extends CuckooSearch {
+    private chaoticConfig: ChaoticCuckooConfig;
+    private chaos: ChaosGenerator;
+
+    constructor(config: ChaoticCuckooConfig) {
+        super(config);
+        this.chaoticConfig = config;
+        this.chaos = new ChaosGenerator(config.chaosMap, undefined, this.random);
+    }
+
+    /**
+     * Reset including the chaos sequence
+     */
+    public reset(): void {
+        super.reset();
+        // chaoticConfig may not be set during parent constructor call
+        if (this.chaoticConfig) {
+            this.chaos = new ChaosGenerator(this.chaoticConfig.chaosMap, undefined, this.random);
+        }
+    }
+
+    /**
+     * Chaotic step size: α × c_t
+     */
+    protected stepSize(): number {
+        return this.chaoticConfig.alpha * this.chaos.next();
+    }
+
+    /**
+     * Chaotic factor for the biased random walk
+     */
+    protected walkFactor(): number {
+        return this.chaos.next();
+    }
+}
@@ -0,0 +1,12 @@
+/**
+ * Cuckoo Search Family
+ */
+
+export { CuckooSearch, createDefaultCuckooConfig } from './standard';
+export type { CuckooConfig, AbandonedNest } from './standard';
+export { ModifiedCuckooSearch } from './modified';
+export type { ModifiedCuckooConfig } from './modified';
+export { ChaoticCuckooSearch } from './chaotic';
+export type { ChaoticCuckooConfig } from './chaotic';
+export { AdaptiveCuckooSearch } from './adaptive';
+export type { AdaptiveCuckooConfig } from './adaptive';
@@ -0,0 +1,93 @@
+/**
+ * Chapter 4.2.1: Modified Cuckoo Search (MCS)
+ *
+ * Two changes to standard CS (Walton et al.):
+ * - The Lévy step size of abandoned nests shrinks with the generation: α = A / √G
+ * - The top nests exchange information: a new egg is placed on the line
+ *   between two top nests, at 1/φ of the way from the worse to the better
+ *
+ * Reference: Hassanien & Emary, Section 4.2.1
+ */
+
+import { CuckooSearch, CuckooConfig } from './standard';
+import { ContinuousSolution, levyFlightND } from '../../core';
+
+/** Golden ratio */
+const PHI = (1 + Math.sqrt(5)) / 2;
+
+/**
+ * Modified CS configuration
+ */
+export interface ModifiedCuckooConfig extends CuckooConfig {
+    maxStep: number;        // A: initial Lévy step, as a fraction of the search range
+    topFraction: number;    // Fraction of nests that exchange information
+}
+
+/**
+ * Modified Cuckoo Search (Section 4.2.1)
+ */
+export class ModifiedCuckooSearch extends CuckooSearch {
+    private modifiedConfig: ModifiedCuckooConfig;
+
+    constructor(config: ModifiedCuckooConfig) {
+        super(config);
+        this.modifiedConfig = config;
+    }
+
+    /**
+     * Override updatePopulation with generation-scaled steps and top-nest crossover
+     */
+    protected updatePopulation(): void {
+        const { pa, maxStep, topFraction } = this.modifiedConfig;
+        const n = this.population.length;
+        const generation = this.iteration + 1;
+        this.abandoned = [];
+
+        // Rank nests, best first
+        const order = this.population
+            .map((nest, i) => ({ i, fitness: nest.fitness }))
+            .sort((a, b) => a.fitness - b.fitness)
+            .map(entry => entry.i);
+
+        // Worst fraction pa: abandoned and rebuilt by a Lévy flight with α = A / √G
+        const abandonCount = Math.round(pa * n);
+        for (const i of order.slice(n - abandonCount)) {
+            const position = this.levyFrom(this.population[i].position, maxStep / Math.sqrt(generation));
+            this.replaceNest(i, position);
+        }
+
+        // Top nests: exchange information
+        const top = order.slice(0, Math.max(2, Math.round(topFraction * n)));
+        for (const i of top) {
+            const j = top[Math.floor(this.random() * top.length)];
+            const xi = this.population[i];
+            const xj = this.population[j];
+
+            let egg: ContinuousSolution;
+            if (i === j) {
+                // Same nest picked: small Lévy flight, α = A / G²
+                egg = this.levyFrom(xi.position, maxStep / (generation * generation));
+            } else {
+                // Move from the worse towards the better nest by 1/φ of the distance
+                const [better, worse] = xi.fitness < xj.fitness ? [xi, xj] : [xj, xi];
+                egg = this.handleBounds(worse.position.map((x, d) => x + (better.position[d] - x) / PHI), worse.position);
+            }
+
+            // Drop the egg into a random nest
+            const eggFitness = this.evaluate(egg);
+            const k = Math.floor(this.random() * n);
+            if (eggFitness < this.population[k].fitness) {
+                this.population[k] = { position: egg, fitness: eggFitness };
+                this.updateGlobalBest(this.population[k]);
+            }
+        }
+    }
+
+    /**
+     * Lévy flight from a position with step `scale` × search range per dimension
+     */
+    private levyFrom(position: ContinuousSolution, scale: number): ContinuousSolution {
+        const step = levyFlightND(this.dimensions, this.modifiedConfig.levyBeta, scale, this.random);
+        return this.handleBounds(position.map((x, d) => x + step[d] * this.range(d)), position);
+    }
+}
@@ -0,0 +1,182 @@
+/**
+ * Chapter 4.1.2: Standard Cuckoo Search (CS)
+ *
+ * Based on the brood parasitism of cuckoo species, which lay their
+ * eggs in the nests of host birds.
+ *
+ * Idealized rules:
+ * - Each cuckoo lays one egg at a time in a nest
+ * - The best nests (high-quality eggs) carry over to the next generation
+ * - A host discovers an alien egg with probability pa and abandons the nest
+ *
+ * New eggs are generated by Lévy flights; abandoned nests are rebuilt
+ * by a biased random walk between two random nests.
+ *
+ * Reference: Hassanien & Emary, "Swarm Intelligence: Principles, Advances, and Applications"
+ */
+
+import {
+    BaseContinuousNDOptimizer,
+    ContinuousNDConfig,
+    ContinuousSolution,
+    ObjectiveFunction,
+    applyLevyFlight
+} from '../../core';
+
+/**
+ * Cuckoo Search configuration
+ */
+export interface CuckooConfig extends ContinuousNDConfig {
+    pa: number;         // Discovery rate of alien eggs (0 < pa < 1)
+    alpha: number;      // Lévy flight step size scale
+    levyBeta: number;   // Lévy exponent (1 < β ≤ 2)
+}
+
+/**
+ * A nest abandoned this iteration (recorded in IterationState.extra)
+ */
+export interface AbandonedNest {
+    index: number;
+    from: ContinuousSolution;   // Position of the abandoned nest
+    to: ContinuousSolution;     // Position of the nest built to replace it
+}
+
+/**
+ * Standard Cuckoo Search (Section 4.1.2)
+ */
+export class CuckooSearch extends BaseContinuousNDOptimizer {
+    protected cuckooConfig: CuckooConfig;
+    protected abandoned: AbandonedNest[] = [];
+
+    constructor(config: CuckooConfig) {
+        super(config);
+        this.cuckooConfig = config;
+        this.reset();
+    }
+
+    /**
+     * Random nests; no abandoned nests yet
+     */
+    protected initializePopulation(): void {
+        this.abandoned = [];
+        super.initializePopulation();
+    }
+
+    /**
+     * Core Cuckoo Search update logic
+     */
+    protected updatePopulation(): void {
+        this.abandoned = [];
+        this.layEggs(this.stepSize());
+        this.abandonNests(this.discoveryRate());
+    }
+
+    /**
+     * Lévy flight step size scale for this iteration
+     */
+    protected stepSize(): number {
+        return this.cuckooConfig.alpha;
+    }
+
+    /**
+     * Probability that a host discovers an alien egg this iteration
+     */
+    protected discoveryRate(): number {
+        return this.cuckooConfig.pa;
+    }
+
+    /**
+     * Random factor in [0, 1] for the biased random walk
+     */
+    protected walkFactor(): number {
+        return this.random();
+    }
+
+    /**
+     * Phase 1: each cuckoo lays an egg via Lévy flight, replacing the
+     * host egg if it is better
+     */
+    protected layEggs(alpha: number): void {
+        const { levyBeta } = this.cuckooConfig;
+        const n = this.population.length;
+
+        for (let i = 0; i < n; i++) {
+            // Eq. 4.1: x_i^{t+1} = x_i^t + α ⊕ Lévy(β), scaled by distance to the best
+            const egg = this.handleBounds(applyLevyFlight(
+                this.population[i].position,
+                this.globalBest.position,
+                alpha,
+                levyBeta,
+                this.random
+            ));
+            const eggFitness = this.evaluate(egg);
+
+            // The egg competes with the host egg of nest i (as in Yang & Deb's
+            // reference implementation; a random nest j converges much slower)
+            if (eggFitness < this.population[i].fitness) {
+                this.population[i] = { position: egg, fitness: eggFitness };
+                this.updateGlobalBest(this.population[i]);
+            }
+        }
+    }
+
+    /**
+     * Phase 2: a fraction pa of nests is discovered; each is rebuilt by a
+     * biased random walk x + r(x_p - x_q) and abandoned if the new nest is better
+     */
+    protected abandonNests(pa: number): void {
+        const n = this.population.length;
+
+        for (let i = 0; i < n; i++) {
+            if (this.random() >= pa) continue;
+
+            const nest = this.population[i];
+            const p = this.population[Math.floor(this.random() * n)].position;
+            const q = this.population[Math.floor(this.random() * n)].position;
+            const r = this.walkFactor();
+
+            const position = this.handleBounds(nest.position.map((x, d) => x + r * (p[d] - q[d])), nest.position);
+            this.replaceNest(i, position);
+        }
+    }
+
+    /**
+     * Replace nest i with a new position if it is better, recording the event
+     */
+    protected replaceNest(index: number, position: ContinuousSolution): boolean {
+        const fitness = this.evaluate(position);
+        const nest = this.population[index];
+        if (fitness >= nest.fitness) return false;
+
+        this.abandoned.push({ index, from: nest.position, to: position });
+        this.population[index] = { position, fitness };
+        this.updateGlobalBest(this.population[index]);
+        return true;
+    }
+
+    /**
+     * Nests abandoned during the last iteration
+     */
+    protected getExtra(): Record<string, unknown> | undefined {
+        return { abandonedNests: this.abandoned };
+    }
+}
+
+/**
+ * Default Cuckoo Search configuration
+ */
+export function createDefaultCuckooConfig(
+    objectiveFunction: ObjectiveFunction<ContinuousSolution>,
+    dimensions: number = 2
+): CuckooConfig {
+    return {
+        populationSize: 25,
+        type: 'continuous',
+        dimensions,
+        bounds: { min: -5.12, max: 5.12 },
+        objectiveFunction,
+        pa: 0.25,
+        alpha: 0.01,
+        levyBeta: 1.5
+    };
+}
@@ -0,0 +1,59 @@
+/**
+ * Chapter 5.2.3: Adaptive Firefly Algorithm
+ *
+ * The randomization parameter α follows a schedule from alphaStart to
+ * alphaEnd, managed by an AdaptiveParameterManager. Large random moves
+ * early keep the swarm exploring; small ones late let it settle on the
+ * brightest fireflies.
+ *
+ * Reference: Hassanien & Emary, Section 5.2.3
+ */
+
+import { FireflyAlgorithm, FireflyConfig } from './standard';
+import { AdaptiveParameterManager, AdaptiveScheduleType } from '../../core';
+
+/**
+ * Adaptive FA configuration
+ */
+export interface AdaptiveFireflyConfig extends FireflyConfig {
+    alphaStart: number;
+    alphaEnd: number;
+    alphaSchedule: AdaptiveScheduleType;
+}
+
+/**
+ * Adaptive-α Firefly Algorithm (Section 5.2.3)
+ */
+export class AdaptiveFireflyAlgorithm extends FireflyAlgorithm {
+    private parameters?: AdaptiveParameterManager;
+
+    constructor(config: AdaptiveFireflyConfig) {
+        super(config);
+    }
+
+    /**
+     * Schedule manager, built on first use (also during the parent constructor's reset)
+     */
+    private getParameters(): AdaptiveParameterManager {
+        if (!this.parameters) {
+            const { alphaSchedule, alphaStart, alphaEnd } = this.fireflyConfig as AdaptiveFireflyConfig;
+            this.parameters = new AdaptiveParameterManager(this.getMaxIterations())
+                .addParameter('alpha', { type: alphaSchedule, startValue: alphaStart, endValue: alphaEnd });
+        }
+        return this.parameters;
+    }
+
+    /**
+     * Scheduled randomization parameter
+     */
+    protected currentAlpha(): number {
+        return this.getParameters().getValue('alpha', this.iteration);
+    }
+
+    /**
+     * Attraction links plus the current α
+     */
+    protected getExtra(): Record<string, unknown> | undefined {
+        return { ...super.getExtra(), alpha: this.currentAlpha() };
+    }
+}
@@ -0,0 +1,52 @@
+/**
+ * Chapter 5.2.2: Chaotic Firefly Algorithm (CFA)
+ *
+ * Tunes the attractiveness β0 with a chaotic map each iteration
+ * (Gandomi et al.): β0(t) = β0 · c_t, where c_t ∈ [0, 1] follows the map.
+ * The varying attraction strength alternates between strong convergence
+ * and looser, more exploratory moves.
+ *
+ * Reference: Hassanien & Emary, Section 5.2.2
+ */
+
+import { FireflyAlgorithm, FireflyConfig } from './standard';
+import { ChaosGenerator, ChaosMapType } from '../../core';
+
+/**
+ * Chaotic FA configuration
+ */
+export interface ChaoticFireflyConfig extends FireflyConfig {
+    chaosMap: ChaosMapType;
+}
+
+/**
+ * Chaotic Firefly Algorithm (Section 5.2.2)
+ */
+export class ChaoticFireflyAlgorithm extends FireflyAlgorithm {
+    private chaoticConfig: ChaoticFireflyConfig;
+    private chaos: ChaosGenerator;
+
+    constructor(config: ChaoticFireflyConfig) {
+        super(config);
+        this.chaoticConfig = config;
+        this.chaos = new ChaosGenerator(config.chaosMap, undefined, this.random);
+    }
+
+    /**
+     * Reset including the chaos sequence
+     */
+    public reset(): void {
+        super.reset();
+        // chaoticConfig may not be set during parent constructor call
+        if (this.chaoticConfig) {
+            this.chaos = new ChaosGenerator(this.chaoticConfig.chaosMap, undefined, this.random);
+        }
+    }
+
+    /**
+     * Chaotic attractiveness: β0 × c_t
+     */
+    protected currentBeta0(): number {
+        return this.chaoticConfig.beta0 * this.chaos.next();
+    }
+}
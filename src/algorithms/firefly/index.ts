@@ -0,0 +1,12 @@
+/**
+ * Firefly Algorithm Family
+ */
+
+export { FireflyAlgorithm, createDefaultFireflyConfig } from './standard';
+export type { FireflyConfig } from './standard';
+export { LevyFireflyAlgorithm } from './levy';
+export type { LevyFireflyConfig } from './levy';
+export { ChaoticFireflyAlgorithm } from './chaotic';
+export type { ChaoticFireflyConfig } from './chaotic';
+export { AdaptiveFireflyAlgorithm } from './adaptive';
+export type { AdaptiveFireflyConfig } from './adaptive';
@@ -0,0 +1,37 @@
+/**
+ * Chapter 5.2.1: Lévy-Flight Firefly Algorithm (LFA)
+ *
+ * Replaces the uniform random move with a Lévy flight, so fireflies
+ * occasionally make long jumps that help escape local optima:
+ * x_i = x_i + β (x_j - x_i) + α · sign(rand - 0.5) ⊕ Lévy(λ)
+ *
+ * Reference: Hassanien & Emary, Section 5.2.1
+ */
+
+import { FireflyAlgorithm, FireflyConfig } from './standard';
+import { levyStep } from '../../core';
+
+/**
+ * Lévy-flight FA configuration
+ */
+export interface LevyFireflyConfig extends FireflyConfig {
+    levyBeta: number;   // Lévy exponent
+}
+
+/**
+ * Lévy-Flight Firefly Algorithm (Section 5.2.1)
+ */
+export class LevyFireflyAlgorithm extends FireflyAlgorithm {
+    constructor(config: LevyFireflyConfig) {
+        super(config);
+    }
+
+    /**
+     * Lévy-distributed random move: α · sign(rand - 0.5) · |Lévy| × range
+     */
+    protected randomStep(alpha: number, d: number): number {
+        const { levyBeta } = this.fireflyConfig as LevyFireflyConfig;
+        const sign = this.random() < 0.5 ? -1 : 1;
+        return alpha * sign * Math.abs(levyStep(levyBeta, this.random)) * this.range(d);
+    }
+}
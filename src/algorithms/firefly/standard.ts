@@ -0,0 +1,166 @@
+/**
+ * Chapter 5.1.2: Standard Firefly Algorithm (FA)
+ *
+ * Based on the flashing behavior of fireflies.
+ * Every firefly is attracted to every brighter one; attractiveness
+ * fades with distance as light is absorbed by the air.
+ *
+ * Key parameters:
+ * - Attractiveness (β0): Attraction at distance r = 0
+ * - Light absorption (γ): How quickly attraction fades, β = β0·e^(-γr²)
+ * - Randomization (α): Scale of the random move
+ *
+ * Distances are measured relative to the mean search range, so γ does not
+ * depend on the size of the search space.
+ *
+ * Reference: Hassanien & Emary, "Swarm Intelligence: Principles, Advances, and Applications"
+ */
+
+import {
+    BaseContinuousNDOptimizer,
+    ContinuousNDConfig,
+    ContinuousSolution,
+    ObjectiveFunction
+} from '../../core';
+
+/**
+ * Firefly Algorithm configuration
+ */
+export interface FireflyConfig extends ContinuousNDConfig {
+    beta0: number;      // Attractiveness at r = 0
+    gamma: number;      // Light absorption coefficient
+    alpha: number;      // Randomization parameter (fraction of the search range)
+}
+
+/**
+ * Standard Firefly Algorithm (Section 5.1.2)
+ */
+export class FireflyAlgorithm extends BaseContinuousNDOptimizer {
+    protected fireflyConfig: FireflyConfig;
+    /**
+     * Attraction pairs of the last pass, flattened: [i0, j0, i1, j1, ...] (i moved towards j).
+     * O(n²) entries, so only kept when the agents they link are recorded
+     */
+    protected attractionLinks: number[] = [];
+
+    constructor(config: FireflyConfig) {
+        super(config);
+        this.fireflyConfig = config;
+        this.reset();
+    }
+
+    /**
+     * Random fireflies; no attractions yet
+     */
+    protected initializePopulation(): void {
+        this.attractionLinks = [];
+        super.initializePopulation();
+    }
+
+    /**
+     * Core Firefly update: the O(n²) pairwise attraction pass
+     */
+    protected updatePopulation(): void {
+        const n = this.population.length;
+        const beta0 = this.currentBeta0();
+        const { gamma } = this.fireflyConfig;
+        const alpha = this.currentAlpha();
+        const scale = this.meanRange();
+
+        // Light intensity at the start of the pass
+        const light = this.population.map(f => f.fitness);
+        const keepLinks = this.recordsAgents();
+        this.attractionLinks = [];
+
+        for (let i = 0; i < n; i++) {
+            const xi = [...this.population[i].position];
+            let moved = false;
+
+            for (let j = 0; j < n; j++) {
+                if (light[j] >= light[i]) continue;  // Only brighter fireflies attract
+
+                // Eq. 5.2: β = β0 · e^(-γ r²)
+                const r = this.distance(xi, this.population[j].position) / scale;
+                const beta = beta0 * Math.exp(-gamma * r * r);
+
+                // Eq. 5.3: x_i = x_i + β (x_j - x_i) + α ε_i
+                const xj = this.population[j].position;
+                for (let d = 0; d < this.dimensions; d++) {
+                    xi[d] += beta * (xj[d] - xi[d]) + this.randomStep(alpha, d);
+                }
+
+                if (keepLinks) this.attractionLinks.push(i, j);
+                moved = true;
+            }
+
+            // The brightest firefly moves randomly
+            if (!moved) {
+                for (let d = 0; d < this.dimensions; d++) {
+                    xi[d] += this.randomStep(alpha, d);
+                }
+            }
+
+            const position = this.handleBounds(xi, this.population[i].position);
+            this.population[i] = { position, fitness: this.evaluate(position) };
+            this.updateGlobalBest(this.population[i]);
+        }
+    }
+
+    /**
+     * Attractiveness at r = 0 for this iteration
+     */
+    protected currentBeta0(): number {
+        return this.fireflyConfig.beta0;
+    }
+
+    /**
+     * Randomization parameter for this iteration
+     */
+    protected currentAlpha(): number {
+        return this.fireflyConfig.alpha;
+    }
+
+    /**
+     * Random move along dimension d: α (rand - 0.5) × range
+     */
+    protected randomStep(alpha: number, d: number): number {
+        return alpha * (this.random() - 0.5) * this.range(d);
+    }
+
+    /**
+     * Mean width of the search range (distance normalization)
+     */
+    protected meanRange(): number {
+        let sum = 0;
+        for (let d = 0; d < this.dimensions; d++) {
+            sum += this.range(d);
+        }
+        return sum / this.dimensions;
+    }
+
+    /**
+     * Attraction links of the last pass (none without recorded agents)
+     */
+    protected getExtra(): Record<string, unknown> | undefined {
+        return this.recordsAgents() ? { attractionLinks: this.attractionLinks } : undefined;
+    }
+}
+
+/**
+ * Default Firefly Algorithm configuration
+ */
+export function createDefaultFireflyConfig(
+    objectiveFunction: ObjectiveFunction<ContinuousSolution>,
+    dimensions: number = 2
+): FireflyConfig {
+    return {
+        populationSize: 25,
+        type: 'continuous',
+        dimensions,
+        bounds: { min: -5.12, max: 5.12 },
+        objectiveFunction,
+        beta0: 1.0,
+        gamma: 1.0,
+        alpha: 0.05
+    };
+}
@@ -0,0 +1,135 @@
+/**
+ * Chapter 6.2.1: Binary Flower Pollination Algorithm (BFPA)
+ *
+ * Each flower keeps a real-valued pollen vector that is updated with the
+ * standard global/local pollination rules (towards the best flower's
+ * pollen, or by the difference of two random flowers' pollen). A sigmoid
+ * transfer function turns the pollen into bits:
+ *
+ *   x_i^d = 1 if rand < S(pollen_i^d), else 0,   S(v) = 1 / (1 + e^(-v))
+ *
+ * Reference: Hassanien & Emary, Section 6.2.1
+ */
+
+import {
+    BaseBinaryOptimizer,
+    BinaryConfig,
+    BinarySolution,
+    ObjectiveFunction,
+    levyFlightND
+} from '../../core';
+import { PollinationMode } from './standard';
+
+/**
+ * Binary FPA configuration
+ */
+export interface BinaryFlowerConfig extends BinaryConfig {
+    p: number;          // Switch probability (global pollination if rand < p)
+    gamma: number;      // Lévy step scaling factor
+    levyBeta: number;   // Lévy exponent (1 < β ≤ 2)
+    maxPollen: number;  // Pollen is clamped to [-maxPollen, maxPollen] to keep S(v) from saturating
+}
+
+function sigmoid(x: number): number {
+    return 1 / (1 + Math.exp(-x));
+}
+
+/**
+ * Binary Flower Pollination Algorithm (Section 6.2.1)
+ */
+export class BinaryFlowerPollination extends BaseBinaryOptimizer {
+    private flowerConfig: BinaryFlowerConfig;
+    private pollen: number[][] = [];
+    private bestPollen: number[] = [];
+
+    constructor(config: BinaryFlowerConfig) {
+        super(config);
+        this.flowerConfig = config;
+        this.reset();
+    }
+
+    /**
+     * Random pollen; bits sampled from it
+     */
+    protected initializePopulation(): void {
+        const { maxPollen } = this.flowerConfig;
+        this.pollen = [];
+        this.population = [];
+
+        for (let i = 0; i < this.config.populationSize; i++) {
+            const pollen = Array.from({ length: this.dimensions }, () => (this.random() * 2 - 1) * maxPollen);
+            const position = this.transfer(pollen);
+            this.pollen.push(pollen);
+            this.population.push({ position, fitness: this.evaluate(position) });
+        }
+
+        let bestIndex = 0;
+        for (let i = 1; i < this.population.length; i++) {
+            if (this.population[i].fitness < this.population[bestIndex].fitness) bestIndex = i;
+        }
+        this.globalBest = this.cloneAgent(this.population[bestIndex]);
+        this.bestPollen = [...this.pollen[bestIndex]];
+    }
+
+    /**
+     * Global or local pollination of each flower's pollen, then greedy selection
+     */
+    protected updatePopulation(): void {
+        const { p, gamma, levyBeta, maxPollen } = this.flowerConfig;
+        const n = this.population.length;
+
+        for (let i = 0; i < n; i++) {
+            const flower = this.population[i];
+            const mode: PollinationMode = this.random() < p ? 'global' : 'local';
+
+            let pollen: number[];
+            if (mode === 'global') {
+                const step = levyFlightND(this.dimensions, levyBeta, gamma, this.random);
+                pollen = this.pollen[i].map((v, d) => v + step[d] * (this.bestPollen[d] - v));
+            } else {
+                const xj = this.pollen[Math.floor(this.random() * n)];
+                const xk = this.pollen[Math.floor(this.random() * n)];
+                const epsilon = this.random();
+                pollen = this.pollen[i].map((v, d) => v + epsilon * (xj[d] - xk[d]));
+            }
+            pollen = pollen.map(v => Math.max(-maxPollen, Math.min(maxPollen, v)));
+
+            const position = this.transfer(pollen);
+            const fitness = this.evaluate(position);
+
+            if (fitness < flower.fitness) {
+                this.pollen[i] = pollen;
+                this.population[i] = { position, fitness, metadata: { pollination: mode } };
+                if (this.updateGlobalBest(this.population[i])) this.bestPollen = [...pollen];
+            } else {
+                this.population[i] = { ...flower, metadata: { pollination: mode } };
+            }
+        }
+    }
+
+    /**
+     * Sigmoid transfer from pollen to bits
+     */
+    private transfer(pollen: number[]): BinarySolution {
+        return pollen.map(v => (this.random() < sigmoid(v) ? 1 : 0));
+    }
+}
+
+/**
+ * Default Binary FPA configuration
+ */
+export function createDefaultBinaryFlowerConfig(
+    objectiveFunction: ObjectiveFunction<BinarySolution>,
+    dimensions: number = 32
+): BinaryFlowerConfig {
+    return {
+        populationSize: 25,
+        type: 'binary',
+        dimensions,
+        objectiveFunction,
+        p: 0.8,
+        gamma: 1,
+        levyBeta: 1.5,
+        maxPollen: 6
+    };
+}
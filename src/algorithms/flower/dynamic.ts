@@ -0,0 +1,43 @@
+/**
+ * Chapter 6.2.2: FPA with Dynamic Switch Probability
+ *
+ * The switch probability p follows a schedule from pStart to pEnd via
+ * getAdaptiveValue. Starting high favours global (Lévy) pollination
+ * while the garden is explored; ending low shifts the effort to local
+ * pollination around the flowers already found.
+ *
+ * Reference: Hassanien & Emary, Section 6.2.2
+ */
+
+import { FlowerPollination, FlowerConfig } from './standard';
+import { AdaptiveScheduleType, getAdaptiveValue } from '../../core';
+
+/**
+ * Dynamic-switch FPA configuration
+ */
+export interface DynamicFlowerConfig extends FlowerConfig {
+    pStart: number;
+    pEnd: number;
+    pSchedule: AdaptiveScheduleType;
+}
+
+/**
+ * Dynamic Switch Probability FPA (Section 6.2.2)
+ */
+export class DynamicFlowerPollination extends FlowerPollination {
+    constructor(config: DynamicFlowerConfig) {
+        super(config);
+    }
+
+    /**
+     * Scheduled switch probability
+     */
+    protected switchProbability(): number {
+        const { pSchedule, pStart, pEnd } = this.flowerConfig as DynamicFlowerConfig;
+        return getAdaptiveValue(
+            { type: pSchedule, startValue: pStart, endValue: pEnd },
+            this.iteration,
+            this.getMaxIterations()
+        );
+    }
+}
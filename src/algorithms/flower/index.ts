@@ -0,0 +1,10 @@
+/**
+ * Flower Pollination Algorithm Family
+ */
+
+export { FlowerPollination, createDefaultFlowerConfig } from './standard';
+export type { FlowerConfig, PollinationMode } from './standard';
+export { DynamicFlowerPollination } from './dynamic';
+export type { DynamicFlowerConfig } from './dynamic';
+export { BinaryFlowerPollination, createDefaultBinaryFlowerConfig } from './binary';
+export type { BinaryFlowerConfig } from './binary';
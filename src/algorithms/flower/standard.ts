@@ -0,0 +1,136 @@
+/**
+ * Chapter 6.1.2: Standard Flower Pollination Algorithm (FPA)
+ *
+ * Based on the pollination process of flowering plants.
+ *
+ * Idealized rules:
+ * - Biotic, cross-pollination is global pollination: pollinators carry
+ *   pollen over long distances by Lévy flights
+ * - Abiotic, self-pollination is local pollination
+ * - Flower constancy acts as a reproduction probability proportional to
+ *   the similarity of the two flowers involved
+ * - A switch probability p ∈ [0, 1] chooses between global and local pollination
+ *
+ * Reference: Hassanien & Emary, "Swarm Intelligence: Principles, Advances, and Applications"
+ */
+
+import {
+    BaseContinuousNDOptimizer,
+    ContinuousNDConfig,
+    ContinuousSolution,
+    ObjectiveFunction,
+    levyFlight2D,
+    levyFlightND
+} from '../../core';
+
+/**
+ * Flower Pollination Algorithm configuration
+ */
+export interface FlowerConfig extends ContinuousNDConfig {
+    p: number;          // Switch probability (global pollination if rand < p)
+    gamma: number;      // Lévy step scaling factor
+    levyBeta: number;   // Lévy exponent (1 < β ≤ 2)
+}
+
+/**
+ * Pollination mode chosen by a flower in an iteration (Agent.metadata.pollination)
+ */
+export type PollinationMode = 'global' | 'local';
+
+/**
+ * Standard Flower Pollination Algorithm (Section 6.1.2)
+ */
+export class FlowerPollination extends BaseContinuousNDOptimizer {
+    protected flowerConfig: FlowerConfig;
+
+    constructor(config: FlowerConfig) {
+        super(config);
+        this.flowerConfig = config;
+        this.reset();
+    }
+
+    /**
+     * Core FPA update logic
+     */
+    protected updatePopulation(): void {
+        const p = this.switchProbability();
+        const n = this.population.length;
+
+        for (let i = 0; i < n; i++) {
+            const flower = this.population[i];
+            const mode: PollinationMode = this.random() < p ? 'global' : 'local';
+            const candidate = this.handleBounds(
+                mode === 'global' ? this.globalPollination(flower.position) : this.localPollination(flower.position),
+                flower.position
+            );
+            const fitness = this.evaluate(candidate);
+
+            // Greedy selection: keep the new flower only if it is better
+            if (fitness < flower.fitness) {
+                this.population[i] = { position: candidate, fitness, metadata: { pollination: mode } };
+                this.updateGlobalBest(this.population[i]);
+            } else {
+                this.population[i] = { ...flower, metadata: { pollination: mode } };
+            }
+        }
+    }
+
+    /**
+     * Switch probability p for this iteration
+     */
+    protected switchProbability(): number {
+        return this.flowerConfig.p;
+    }
+
+    /**
+     * Eq. 6.1: x_i^{t+1} = x_i^t + γ L(λ) (g* - x_i^t)
+     */
+    protected globalPollination(position: ContinuousSolution): ContinuousSolution {
+        const { gamma, levyBeta } = this.flowerConfig;
+        const best = this.globalBest.position;
+        const step = this.dimensions === 2
+            ? levyFlight2D(levyBeta, gamma, this.random)
+            : levyFlightND(this.dimensions, levyBeta, gamma, this.random);
+
+        return position.map((x, d) => x + step[d] * (best[d] - x));
+    }
+
+    /**
+     * Eq. 6.2: x_i^{t+1} = x_i^t + ε (x_j^t - x_k^t), with j, k random flowers
+     * of the same species and ε ~ U(0, 1)
+     */
+    protected localPollination(position: ContinuousSolution): ContinuousSolution {
+        const n = this.population.length;
+        const xj = this.population[Math.floor(this.random() * n)].position;
+        const xk = this.population[Math.floor(this.random() * n)].position;
+        const epsilon = this.random();
+
+        return position.map((x, d) => x + epsilon * (xj[d] - xk[d]));
+    }
+
+    /**
+     * Current switch probability
+     */
+    protected getExtra(): Record<string, unknown> | undefined {
+        return { switchProbability: this.switchProbability() };
+    }
+}
+
+/**
+ * Default Flower Pollination configuration
+ */
+export function createDefaultFlowerConfig(
+    objectiveFunction: ObjectiveFunction<ContinuousSolution>,
+    dimensions: number = 2
+): FlowerConfig {
+    return {
+        populationSize: 25,
+        type: 'continuous',
+        dimensions,
+        bounds: { min: -5.12, max: 5.12 },
+        objectiveFunction,
+        p: 0.8,
+        gamma: 0.1,
+        levyBeta: 1.5
+    };
+}
@@ -0,0 +1,113 @@
+/**
+ * Chapter 8.2.2: Binary Grey Wolf Optimizer (bGWO)
+ *
+ * The encircling step of standard GWO is applied to bit strings: each
+ * leader proposes X_L - A·|C·X_L - X| and the average of the three
+ * proposals is squashed into a bit with a steep sigmoid:
+ *
+ *   x_d = 1 if rand < S(10 (X_d - 0.5)), else 0,   S(v) = 1 / (1 + e^(-v))
+ *
+ * Reference: Hassanien & Emary, Section 8.2.2
+ */
+
+import {
+    BaseBinaryOptimizer,
+    BinaryConfig,
+    BinarySolution,
+    Agent,
+    ObjectiveFunction,
+    getAdaptiveValue
+} from '../../core';
+import { rankLeader } from './standard';
+
+/**
+ * Binary GWO configuration
+ */
+export interface BinaryGWOConfig extends BinaryConfig {
+    aStart: number;  // Initial value of the control parameter a
+}
+
+function sigmoid(x: number): number {
+    return 1 / (1 + Math.exp(-x));
+}
+
+/**
+ * Binary Grey Wolf Optimizer (Section 8.2.2)
+ */
+export class BinaryGreyWolfOptimizer extends BaseBinaryOptimizer {
+    private gwoConfig: BinaryGWOConfig;
+    /** α, β and δ wolves (best three bit strings found so far) */
+    private leaders: Agent<BinarySolution>[] = [];
+
+    constructor(config: BinaryGWOConfig) {
+        super(config);
+        this.gwoConfig = config;
+        this.reset();
+    }
+
+    /**
+     * Random pack; the three best wolves lead
+     */
+    protected initializePopulation(): void {
+        super.initializePopulation();
+        this.leaders = [...this.population]
+            .sort((a, b) => a.fitness - b.fitness)
+            .slice(0, 3)
+            .map(wolf => this.cloneAgent(wolf));
+    }
+
+    /**
+     * Encircle the leaders' bit strings, then binarize
+     */
+    protected updatePopulation(): void {
+        const a = getAdaptiveValue(
+            { type: 'linear', startValue: this.gwoConfig.aStart, endValue: 0 },
+            this.iteration,
+            this.getMaxIterations()
+        );
+
+        for (let i = 0; i < this.population.length; i++) {
+            const bits = this.population[i].position;
+            const position: BinarySolution = bits.map((x, d) => {
+                let sum = 0;
+                for (const leader of this.leaders) {
+                    const A = 2 * a * this.random() - a;
+                    const C = 2 * this.random();
+                    sum += leader.position[d] - A * Math.abs(C * leader.position[d] - x);
+                }
+                const mean = sum / this.leaders.length;
+                return this.random() < sigmoid(10 * (mean - 0.5)) ? 1 : 0;
+            });
+            this.population[i] = { position, fitness: this.evaluate(position) };
+        }
+
+        for (const wolf of this.population) {
+            rankLeader(this.leaders, wolf, agent => this.cloneAgent(agent));
+            this.updateGlobalBest(wolf);
+        }
+    }
+
+    /**
+     * Leader bit strings
+     */
+    protected getExtra(): Record<string, unknown> | undefined {
+        const [alpha, beta, delta] = this.leaders.map(leader => leader.position);
+        return { alpha, beta, delta };
+    }
+}
+
+/**
+ * Default Binary GWO configuration
+ */
+export function createDefaultBinaryGWOConfig(
+    objectiveFunction: ObjectiveFunction<BinarySolution>,
+    dimensions: number = 32
+): BinaryGWOConfig {
+    return {
+        populationSize: 25,
+        type: 'binary',
+        dimensions,
+        objectiveFunction,
+        aStart: 2
+    };
+}
@@ -0,0 +1,85 @@
+/**
+ * Chapter 8.3.1: Grey Wolf with Particle Swarm Optimization (GWO+PSO)
+ *
+ * Each wolf keeps a velocity and a personal best. The point proposed by
+ * α, β and δ takes the place of PSO's global best in the velocity update,
+ * so wolves keep momentum and their own memory while hunting.
+ *
+ * Reference: Hassanien & Emary, Section 8.3.1
+ */
+
+import { GreyWolfOptimizer, GWOConfig } from './standard';
+import {
+    Agent,
+    ContinuousSolution,
+    PSOConfig,
+    initializeVelocity,
+    updateVelocity,
+    updatePosition
+} from '../../core';
+
+/**
+ * Extended config with PSO parameters
+ */
+export interface GWOPSOConfig extends GWOConfig {
+    w: number;   // PSO inertia
+    c1: number;  // Cognitive coefficient (personal best)
+    c2: number;  // Social coefficient (hunting target)
+}
+
+/**
+ * GWO + PSO Hybrid (Section 8.3.1)
+ */
+export class GWOPSOHybrid extends GreyWolfOptimizer {
+    constructor(config: GWOPSOConfig) {
+        super(config);
+    }
+
+    /**
+     * Add velocities and personal bests to the pack
+     */
+    protected initializePopulation(): void {
+        super.initializePopulation();
+
+        for (const wolf of this.population) {
+            wolf.velocity = initializeVelocity(this.dimensions, undefined, this.random)
+                .map((v, d) => v * 0.1 * this.range(d));
+            wolf.personalBest = [...wolf.position];
+            wolf.personalBestFitness = wolf.fitness;
+        }
+    }
+
+    /**
+     * Velocity update towards the personal best and the hunting target
+     */
+    protected moveWolf(wolf: Agent<ContinuousSolution>, target: ContinuousSolution): ContinuousSolution {
+        const { w, c1, c2 } = this.gwoConfig as GWOPSOConfig;
+        const pso: PSOConfig = { w, c1, c2, vMax: this.maxVelocity() };
+
+        wolf.velocity = updateVelocity(wolf.velocity!, wolf.position, wolf.personalBest!, target, pso, this.random);
+        return updatePosition(wolf.position, wolf.velocity);
+    }
+
+    /**
+     * Move the pack, then update personal bests
+     */
+    protected updatePopulation(): void {
+        super.updatePopulation();
+
+        for (const wolf of this.population) {
+            if (wolf.fitness < wolf.personalBestFitness!) {
+                wolf.personalBest = [...wolf.position];
+                wolf.personalBestFitness = wolf.fitness;
+            }
+        }
+    }
+
+    /**
+     * Velocity limit: 20% of the mean search range
+     */
+    private maxVelocity(): number {
+        let sum = 0;
+        for (let d = 0; d < this.dimensions; d++) sum += this.range(d);
+        return 0.2 * sum / this.dimensions;
+    }
+}
@@ -0,0 +1,39 @@
+/**
+ * Chapter 8.2.1: Improved GWO with Nonlinear Control Parameter
+ *
+ * The linear decay of a spends equal time exploring and exploiting. Here
+ * a follows an AdaptiveSchedule instead: a cosine schedule keeps a near
+ * its start value for longer (more exploration) before dropping quickly,
+ * and an exponential one does the opposite.
+ *
+ * Reference: Hassanien & Emary, Section 8.2.1
+ */
+
+import { GreyWolfOptimizer, GWOConfig } from './standard';
+import { AdaptiveSchedule, AdaptiveScheduleType, getAdaptiveValue } from '../../core';
+
+/**
+ * Improved GWO configuration
+ */
+export interface ImprovedGWOConfig extends GWOConfig {
+    aEnd: number;
+    aSchedule: AdaptiveScheduleType;
+}
+
+/**
+ * Improved Grey Wolf Optimizer (Section 8.2.1)
+ */
+export class ImprovedGreyWolfOptimizer extends GreyWolfOptimizer {
+    constructor(config: ImprovedGWOConfig) {
+        super(config);
+    }
+
+    /**
+     * Scheduled control parameter a
+     */
+    protected controlParameter(): number {
+        const { aSchedule, aStart, aEnd } = this.gwoConfig as ImprovedGWOConfig;
+        const schedule: AdaptiveSchedule = { type: aSchedule, startValue: aStart, endValue: aEnd };
+        return getAdaptiveValue(schedule, this.iteration, this.getMaxIterations());
+    }
+}
@@ -0,0 +1,12 @@
+/**
+ * Grey Wolf Optimizer Family
+ */
+
+export { GreyWolfOptimizer, createDefaultGWOConfig, rankLeader } from './standard';
+export type { GWOConfig } from './standard';
+export { ImprovedGreyWolfOptimizer } from './improved';
+export type { ImprovedGWOConfig } from './improved';
+export { BinaryGreyWolfOptimizer, createDefaultBinaryGWOConfig } from './binary';
+export type { BinaryGWOConfig } from './binary';
+export { GWOPSOHybrid } from './hybrid-pso';
+export type { GWOPSOConfig } from './hybrid-pso';
@@ -0,0 +1,176 @@
+/**
+ * Chapter 8.1.2: Standard Grey Wolf Optimizer (GWO)
+ *
+ * Based on the leadership hierarchy and hunting of grey wolves. The three
+ * best solutions found so far are the alpha (α), beta (β) and delta (δ)
+ * wolves; the rest of the pack (ω) encircles the prey under their guidance.
+ *
+ * Encircling (Eq. 8.1-8.2), for each leader L ∈ {α, β, δ}:
+ *   D_L = |C · X_L - X|,   X_L' = X_L - A · D_L
+ *   A = 2a·r1 - a,   C = 2·r2
+ *
+ * Hunting (Eq. 8.3): X(t+1) = (X_α' + X_β' + X_δ') / 3
+ *
+ * a decreases linearly from 2 to 0: |A| > 1 makes wolves search for prey
+ * (exploration), |A| < 1 makes them attack (exploitation).
+ *
+ * Reference: Hassanien & Emary, "Swarm Intelligence: Principles, Advances, and Applications"
+ */
+
+import {
+    BaseContinuousNDOptimizer,
+    ContinuousNDConfig,
+    ContinuousSolution,
+    Solution,
+    Agent,
+    ObjectiveFunction,
+    getAdaptiveValue
+} from '../../core';
+
+/**
+ * Grey Wolf Optimizer configuration
+ */
+export interface GWOConfig extends ContinuousNDConfig {
+    aStart: number;  // Initial value of the control parameter a (2 in the original GWO)
+}
+
+/**
+ * Insert a wolf into the α, β, δ ranking if it beats one of the leaders.
+ * Leaders are ordered best first; lower leaders shift down when displaced.
+ */
+export function rankLeader<T extends Solution>(
+    leaders: Agent<T>[],
+    wolf: Agent<T>,
+    clone: (agent: Agent<T>) => Agent<T>
+): void {
+    for (let rank = 0; rank < leaders.length; rank++) {
+        if (wolf.fitness < leaders[rank].fitness) {
+            leaders.splice(rank, 0, clone(wolf));
+            leaders.pop();
+            return;
+        }
+    }
+}
+
+/**
+ * Standard Grey Wolf Optimizer (Section 8.1.2)
+ */
+export class GreyWolfOptimizer extends BaseContinuousNDOptimizer {
+    protected gwoConfig: GWOConfig;
+    /** α, β and δ wolves (best three solutions found so far) */
+    protected leaders: Agent<ContinuousSolution>[] = [];
+
+    constructor(config: GWOConfig) {
+        super(config);
+        this.gwoConfig = config;
+        this.reset();
+    }
+
+    /**
+     * Random pack; the three best wolves lead
+     */
+    protected initializePopulation(): void {
+        super.initializePopulation();
+        this.leaders = [...this.population]
+            .sort((a, b) => a.fitness - b.fitness)
+            .slice(0, 3)
+            .map(wolf => this.cloneAgent(wolf));
+    }
+
+    /**
+     * Core GWO update logic
+     */
+    protected updatePopulation(): void {
+        const a = this.controlParameter();
+
+        for (let i = 0; i < this.population.length; i++) {
+            const wolf = this.population[i];
+            const moved = this.moveWolf(wolf, this.hunt(wolf.position, a));
+            // Velocity-based variants (GWO+PSO) let absorb/damping act on the velocity
+            const position = this.handleBounds(moved, wolf.position, wolf.velocity);
+            this.population[i] = { ...wolf, position, fitness: this.evaluate(position) };
+        }
+
+        for (const wolf of this.population) {
+            rankLeader(this.leaders, wolf, agent => this.cloneAgent(agent));
+            this.updateGlobalBest(wolf);
+        }
+    }
+
+    /**
+     * After a change of a dynamic objective the leaders' fitness values are
+     * stale too: re-evaluate them, then rank them against the refreshed pack
+     */
+    protected respondToChange(): void {
+        super.respondToChange();
+
+        this.leaders = this.leaders
+            .map(leader => ({ ...leader, fitness: this.evaluate(leader.position) }))
+            .sort((a, b) => a.fitness - b.fitness);
+        for (const wolf of this.population) {
+            rankLeader(this.leaders, wolf, agent => this.cloneAgent(agent));
+        }
+        this.updateGlobalBest(this.leaders[0]);
+    }
+
+    /**
+     * Control parameter a for this iteration: linear decrease from aStart to 0
+     */
+    protected controlParameter(): number {
+        return getAdaptiveValue(
+            { type: 'linear', startValue: this.gwoConfig.aStart, endValue: 0 },
+            this.iteration,
+            this.getMaxIterations()
+        );
+    }
+
+    /**
+     * Eq. 8.1-8.3: average of the positions proposed by α, β and δ
+     */
+    protected hunt(position: ContinuousSolution, a: number): ContinuousSolution {
+        const target = new Array(position.length).fill(0);
+
+        for (const leader of this.leaders) {
+            for (let d = 0; d < position.length; d++) {
+                const A = 2 * a * this.random() - a;
+                const C = 2 * this.random();
+                const D = Math.abs(C * leader.position[d] - position[d]);
+                target[d] += (leader.position[d] - A * D) / this.leaders.length;
+            }
+        }
+        return target;
+    }
+
+    /**
+     * New position of a wolf given its hunting target (the target itself in standard GWO).
+     * Variants that move by velocity keep it in wolf.velocity for the boundary handling
+     */
+    protected moveWolf(_wolf: Agent<ContinuousSolution>, target: ContinuousSolution): ContinuousSolution {
+        return target;
+    }
+
+    /**
+     * Leader positions and the control parameter
+     */
+    protected getExtra(): Record<string, unknown> | undefined {
+        const [alpha, beta, delta] = this.leaders.map(leader => leader.position);
+        return { alpha, beta, delta, a: this.controlParameter() };
+    }
+}
+
+/**
+ * Default Grey Wolf Optimizer configuration
+ */
+export function createDefaultGWOConfig(
+    objectiveFunction: ObjectiveFunction<ContinuousSolution>,
+    dimensions: number = 2
+): GWOConfig {
+    return {
+        populationSize: 25,
+        type: 'continuous',
+        dimensions,
+        bounds: { min: -5.12, max: 5.12 },
+        objectiveFunction,
+        aStart: 2
+    };
+}
@@ -0,0 +1,177 @@
+/**
+ * Benchmark CLI
+ *
+ * Usage:
+ *   npm run benchmark -- [options]
+ *
+ * Options:
+ *   --algorithms <ids|all>   Comma-separated registry ids (default: all continuous)
+ *   --functions <ids|all>    Comma-separated test function ids (default: all)
+ *   --runs <n>               Independent runs per pair (default: 30)
+ *   --iterations <n>         Iterations per run (default: 200)
+ *   --evaluations <n>        Evaluation budget per run (default: none)
+ *   --population <n>         Population size (default: 30)
+ *   --dimensions <n>         Problem dimensions (default: 2)
+ *   --tolerance <x>          Success tolerance around globalMinimum.f (default: 1e-4;
+ *                            dynamic functions report offline error, no success)
+ *   --seed <n>               Seed of the first run (default: 1)
+ *   --boundary <method>      Boundary handling: clamp, reflect, wrap, random,
+ *                            midpoint, absorb or damping (default: clamp)
+ *   --noise <model>:<level>  Noisy objective: gaussian, multiplicative or cauchy
+ *                            with level σ, e.g. gaussian:0.5 (default: none)
+ *   --noise-handling <method>[:<samples>]
+ *                            none, resampling, reevaluate-best or averaging;
+ *                            samples per evaluation for resampling (default: none)
+ *   --json                   Print raw results as JSON instead of a table
+ */
+
+import { getAlgorithmsByType } from '../core/registry';
+import { testFunctions } from '../core/test-functions';
+import { boundaryHandlingMethods } from '../core/boundary';
+import { noiseModels, noiseHandlingMethods } from '../core/noise';
+import { BoundaryHandling, NoiseConfig } from '../core/types';
+import { runBenchmark, BenchmarkConfig, BenchmarkResult } from './runner';
+
+/** Parse --key value pairs (and bare --flags) */
+function parseArgs(argv: string[]): Record<string, string> {
+    const args: Record<string, string> = {};
+    for (let i = 0; i < argv.length; i++) {
+        const arg = argv[i];
+        if (!arg.startsWith('--')) continue;
+        const next = argv[i + 1];
+        if (next === undefined || next.startsWith('--')) {
+            args[arg.slice(2)] = 'true';
+        } else {
+            args[arg.slice(2)] = next;
+            i++;
+        }
+    }
+    return args;
+}
+
+function parseList(value: string | undefined, all: string[]): string[] {
+    if (!value || value === 'all') return all;
+    return value.split(',').map(s => s.trim()).filter(Boolean);
+}
+
+function parseNumber(value: string | undefined, fallback: number, name: string): number {
+    if (value === undefined) return fallback;
+    const n = Number(value);
+    if (!Number.isFinite(n)) throw new Error(`--${name} expects a number, got "${value}"`);
+    return n;
+}
+
+function parseBoundary(value: string | undefined): BoundaryHandling | undefined {
+    if (value === undefined) return undefined;
+    const method = boundaryHandlingMethods.find(m => m.value === value);
+    if (!method) {
+        throw new Error(`--boundary expects one of ${boundaryHandlingMethods.map(m => m.value).join(', ')}, got "${value}"`);
+    }
+    return method.value;
+}
+
+function parseNoise(value: string | undefined, handlingValue: string | undefined): NoiseConfig | undefined {
+    if (value === undefined) {
+        if (handlingValue !== undefined) throw new Error('--noise-handling requires --noise');
+        return undefined;
+    }
+    const [modelName, levelText] = value.split(':');
+    const model = noiseModels.find(m => m.value === modelName);
+    if (!model) {
+        throw new Error(`--noise expects one of ${noiseModels.map(m => m.value).join(', ')}, got "${modelName}"`);
+    }
+    const noise: NoiseConfig = { model: model.value, level: parseNumber(levelText ?? '1', 1, 'noise') };
+
+    if (handlingValue !== undefined) {
+        const [methodName, samplesText] = handlingValue.split(':');
+        const method = noiseHandlingMethods.find(m => m.value === methodName);
+        if (!method) {
+            throw new Error(`--noise-handling expects one of ${noiseHandlingMethods.map(m => m.value).join(', ')}, got "${methodName}"`);
+        }
+        noise.handling = method.value;
+        if (samplesText !== undefined) noise.samples = parseNumber(samplesText, 1, 'noise-handling');
+    }
+    return noise;
+}
+
+function formatNumber(n: number | null): string {
+    if (n === null || Number.isNaN(n)) return '-';
+    return Math.abs(n) < 0.0001 || Math.abs(n) > 9999 ? n.toExponential(3) : n.toFixed(4);
+}
+
+function printTable(results: BenchmarkResult[]): void {
+    const header = ['Algorithm', 'Function', 'Mean', 'Median', 'Std', 'Best', 'Worst', 'Success', 'Evals→Target'];
+    const rows = results.map(r => [
+        r.algorithmId,
+        r.functionId,
+        formatNumber(r.fitness.mean),
+        formatNumber(r.fitness.median),
+        formatNumber(r.fitness.std),
+        formatNumber(r.fitness.best),
+        formatNumber(r.fitness.worst),
+        r.successRate === null ? '-' : `${(r.successRate * 100).toFixed(0)}%`,
+        r.meanEvaluationsToTarget === null ? '-' : r.meanEvaluationsToTarget.toFixed(0)
+    ]);
+
+    const widths = header.map((h, c) => Math.max(h.length, ...rows.map(row => row[c].length)));
+    const line = (cells: string[]) => cells.map((cell, c) => cell.padEnd(widths[c])).join('  ').trimEnd();
+
+    console.log(line(header));
+    console.log(widths.map(w => '-'.repeat(w)).join('  '));
+    rows.forEach(row => console.log(line(row)));
+}
+
+function main(): void {
+    const args = parseArgs(process.argv.slice(2));
+
+    const config: BenchmarkConfig = {
+        algorithmIds: parseList(args.algorithms, getAlgorithmsByType('continuous').map(a => a.id)),
+        functionIds: parseList(args.functions, Object.keys(testFunctions)),
+        runs: parseNumber(args.runs, 30, 'runs'),
+        maxIterations: parseNumber(args.iterations, 200, 'iterations'),
+        maxEvaluations: args.evaluations === undefined
+            ? undefined
+            : parseNumber(args.evaluations, 0, 'evaluations'),
+        populationSize: parseNumber(args.population, 30, 'population'),
+        dimensions: parseNumber(args.dimensions, 2, 'dimensions'),
+        tolerance: parseNumber(args.tolerance, 1e-4, 'tolerance'),
+        baseSeed: parseNumber(args.seed, 1, 'seed'),
+        boundaryHandling: parseBoundary(args.boundary),
+        noise: parseNoise(args.noise, args['noise-handling'])
+    };
+
+    const json = args.json === 'true';
+    const { results, skipped } = runBenchmark(config, (done, total, result) => {
+        if (!json) {
+            process.stderr.write(`[${done}/${total}] ${result.algorithmId} on ${result.functionId}\n`);
+        }
+    });
+
+    if (json) {
+        console.log(JSON.stringify({ config, results, skipped }, null, 2));
+        return;
+    }
+
+    console.log(
+        `\n${config.runs} runs × ${config.maxIterations} iterations` +
+        (config.maxEvaluations !== undefined ? ` (max ${config.maxEvaluations} evaluations), ` : ', ') +
+        `population ${config.populationSize}, ${config.dimensions}D, tolerance ${config.tolerance}` +
+        `, ${config.boundaryHandling ?? 'clamp'} boundaries` +
+        (config.noise
+            ? `, ${config.noise.model} noise σ=${config.noise.level} (${config.noise.handling ?? 'none'} handling)`
+            : '') +
+        '\n'
+    );
+    printTable(results);
+
+    for (const s of skipped) {
+        console.log(`skipped ${s.algorithmId} on ${s.functionId}: ${s.reason}`);
+    }
+}
+
+try {
+    main();
+} catch (err) {
+    console.error(err instanceof Error ? err.message : err);
+    process.exit(1);
+}
@@ -0,0 +1,11 @@
+/**
+ * Benchmark Module Index
+ * 
+ * Headless multi-run experiments and their statistics.
+ */
+
+export { runOnce, runBenchmarkPair, planBenchmark, runBenchmark } from './runner';
+export type { BenchmarkConfig, RunResult, BenchmarkResult, SkippedPair, BenchmarkProgress } from './runner';
+
+export { mean, median, standardDeviation, summarize } from './statistics';
+export type { FitnessSummary } from './statistics';
@@ -0,0 +1,57 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { runOnce, BenchmarkConfig } from './runner';
+import { createOptimizer } from '../core/factory';
+import { getAlgorithm, getAlgorithmsByType, getDefaultHyperparams } from '../core/registry';
+
+const config: BenchmarkConfig = {
+    algorithmIds: [],
+    functionIds: [],
+    runs: 1,
+    populationSize: 20,
+    maxIterations: 30,
+    tolerance: 1e-4
+};
+
+test('runs with default hyperparameters improve on the initial population', () => {
+    for (const algo of getAlgorithmsByType('continuous')) {
+        const initial = createOptimizer({
+            algorithmId: algo.id,
+            functionId: 'sphere',
+            populationSize: config.populationSize,
+            maxIterations: config.maxIterations,
+            seed: 1,
+            hyperparams: getDefaultHyperparams(algo.hyperparameters ?? [])
+        }).getGlobalBest().fitness;
+
+        const { finalFitness } = runOnce(config, algo.id, 'sphere', 1);
+        assert.ok(finalFitness < initial, `${algo.id}: ${finalFitness} does not improve on ${initial}`);
+    }
+});
+
+test('a target first reached on the last iteration of the budget counts', () => {
+    const reference = createOptimizer({
+        algorithmId: 'bat-standard',
+        functionId: 'sphere',
+        populationSize: config.populationSize,
+        maxIterations: config.maxIterations,
+        seed: 1,
+        hyperparams: getDefaultHyperparams(getAlgorithm('bat-standard')?.hyperparameters ?? [])
+    });
+    reference.run(config.maxIterations);
+    const history = reference.getHistory();
+
+    // Last improvement: the state where a target at that fitness is first reached
+    let k = history.length - 1;
+    while (k > 0 && history[k - 1].globalBestFitness === history[k].globalBestFitness) k--;
+    const budget = history[k].evaluations!;
+
+    const result = runOnce(
+        { ...config, maxEvaluations: budget, tolerance: history[k].globalBestFitness },
+        'bat-standard',
+        'sphere',
+        1
+    );
+    assert.equal(result.stopReason, 'max-evaluations');
+    assert.equal(result.evaluationsToTarget, budget);
+});
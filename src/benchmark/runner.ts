@@ -0,0 +1,233 @@
+/**
+ * Headless Benchmark Runner
+ *
+ * Runs algorithms × test functions × seeds without any rendering and
+ * summarizes the final fitness across independent runs.
+ * Dynamic problems have no fixed optimum to reach: their runs report the
+ * offline error instead and are left out of the success statistics.
+ * Used by the Node CLI (cli.ts) and the Benchmark view.
+ */
+
+import { createOptimizer, supportsND } from '../core/factory';
+import { getAlgorithm, getDefaultHyperparams } from '../core/registry';
+import { testFunctions, minimumND } from '../core/test-functions';
+import { StopReason, StoppingCriterion, BoundaryHandling, NoiseConfig } from '../core/types';
+import { summarize, mean, FitnessSummary } from './statistics';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/** Benchmark experiment definition */
+export interface BenchmarkConfig {
+    algorithmIds: string[];
+    functionIds: string[];
+    /** Independent runs per (algorithm, function) pair */
+    runs: number;
+    populationSize: number;
+    maxIterations: number;
+    /** Optional evaluation budget; runs stop at whichever limit comes first */
+    maxEvaluations?: number;
+    /** Number of dimensions (default 2) */
+    dimensions?: number;
+    /** Seed of the first run; run i uses baseSeed + i (default 1) */
+    baseSeed?: number;
+    /**
+     * A run succeeds when best - minimum <= tolerance (minimum in the run's
+     * dimensions); not judged on dynamic problems
+     */
+    tolerance: number;
+    /** Optional hyperparameters per algorithm id, over the algorithm's defaults */
+    hyperparams?: Record<string, Record<string, string | number>>;
+    /** Boundary handling for every run (default: clamp) */
+    boundaryHandling?: BoundaryHandling;
+    /**
+     * Noise on every objective evaluation (default: none). Final fitness is
+     * then the noiseless value of the returned best; the target is still
+     * judged on observed values, as the optimizer sees them.
+     */
+    noise?: NoiseConfig;
+}
+
+/** Outcome of a single run */
+export interface RunResult {
+    seed: number;
+    /**
+     * Fitness of the returned best (noiseless on noisy runs); the offline
+     * error on dynamic problems
+     */
+    finalFitness: number;
+    /** Total objective evaluations performed */
+    evaluations: number;
+    /** Evaluations spent when the target was first reached (null if never, or dynamic) */
+    evaluationsToTarget: number | null;
+    stopReason: StopReason | null;
+}
+
+/** Aggregated results for one (algorithm, function) pair */
+export interface BenchmarkResult {
+    algorithmId: string;
+    functionId: string;
+    dimensions: number;
+    runs: RunResult[];
+    fitness: FitnessSummary;
+    /** Fraction of runs that reached the target (0-1; null on dynamic problems) */
+    successRate: number | null;
+    /** Mean evaluations-to-target over successful runs (null if none succeeded) */
+    meanEvaluationsToTarget: number | null;
+}
+
+/** A pair that could not be benchmarked (e.g. 2D-only algorithm at 30D) */
+export interface SkippedPair {
+    algorithmId: string;
+    functionId: string;
+    reason: string;
+}
+
+/** Progress callback: called after each finished pair */
+export type BenchmarkProgress = (done: number, total: number, result: BenchmarkResult) => void;
+
+// ============================================================================
+// RUNNER
+// ============================================================================
+
+/**
+ * Execute one independent run and track evaluations-to-target
+ */
+export function runOnce(
+    config: BenchmarkConfig,
+    algorithmId: string,
+    functionId: string,
+    seed: number
+): RunResult {
+    const func = testFunctions[functionId];
+    if (!func) throw new Error(`Unknown test function: ${functionId}`);
+
+    // Observer criterion: never stops the run, only notes when the target is first hit.
+    // The minimum of a dynamic problem is that of its first environment only,
+    // so its runs get no target
+    const target = func.dynamic
+        ? -Infinity
+        : minimumND(func, config.dimensions ?? 2).f + config.tolerance;
+    let evaluationsToTarget: number | null = null;
+    const targetWatch: StoppingCriterion = {
+        reason: 'custom',
+        shouldStop: (ctx) => {
+            if (evaluationsToTarget === null && ctx.bestFitness <= target) {
+                evaluationsToTarget = ctx.evaluations;
+            }
+            return false;
+        },
+        reset: () => { evaluationsToTarget = null; }
+    };
+
+    const optimizer = createOptimizer({
+        algorithmId,
+        functionId,
+        populationSize: config.populationSize,
+        maxIterations: config.maxIterations,
+        dimensions: config.dimensions,
+        seed,
+        // Overrides on top of the declared defaults, as in the single view
+        hyperparams: {
+            ...getDefaultHyperparams(getAlgorithm(algorithmId)?.hyperparameters ?? []),
+            ...config.hyperparams?.[algorithmId]
+        },
+        boundaryHandling: config.boundaryHandling,
+        noise: config.noise,
+        stopping: config.maxEvaluations !== undefined
+            ? { maxEvaluations: config.maxEvaluations }
+            : undefined,
+        stoppingCriteria: [targetWatch],
+        // Only the final fitness matters here; skip storing agents
+        recording: { mode: 'best-only' }
+    });
+    optimizer.run(config.maxIterations);
+
+    const history = optimizer.getHistory();
+    const last = history[history.length - 1];
+    return {
+        seed,
+        finalFitness: last?.offlineError ?? last?.globalBestTrueFitness ?? optimizer.getGlobalBest().fitness,
+        evaluations: optimizer.getEvaluations(),
+        evaluationsToTarget,
+        stopReason: optimizer.getStopReason()
+    };
+}
+
+/**
+ * Run every seed for one (algorithm, function) pair and summarize
+ */
+export function runBenchmarkPair(
+    config: BenchmarkConfig,
+    algorithmId: string,
+    functionId: string
+): BenchmarkResult {
+    const baseSeed = config.baseSeed ?? 1;
+    const runs: RunResult[] = [];
+    for (let i = 0; i < config.runs; i++) {
+        runs.push(runOnce(config, algorithmId, functionId, baseSeed + i));
+    }
+
+    const successes = runs
+        .map(r => r.evaluationsToTarget)
+        .filter((e): e is number => e !== null);
+
+    return {
+        algorithmId,
+        functionId,
+        dimensions: config.dimensions ?? 2,
+        runs,
+        fitness: summarize(runs.map(r => r.finalFitness)),
+        successRate: testFunctions[functionId].dynamic
+            ? null
+            : runs.length > 0 ? successes.length / runs.length : 0,
+        meanEvaluationsToTarget: successes.length > 0 ? mean(successes) : null
+    };
+}
+
+/**
+ * Split a benchmark into runnable pairs, setting aside unsupported ones
+ */
+export function planBenchmark(config: BenchmarkConfig): {
+    pairs: Array<{ algorithmId: string; functionId: string }>;
+    skipped: SkippedPair[];
+} {
+    const dimensions = config.dimensions ?? 2;
+    const pairs: Array<{ algorithmId: string; functionId: string }> = [];
+    const skipped: SkippedPair[] = [];
+
+    for (const algorithmId of config.algorithmIds) {
+        const type = getAlgorithm(algorithmId)?.optimizationType;
+        for (const functionId of config.functionIds) {
+            if (type !== 'continuous') {
+                skipped.push({ algorithmId, functionId, reason: `${type ?? 'unknown'} algorithm` });
+            } else if (dimensions !== 2 && !supportsND(algorithmId, functionId)) {
+                skipped.push({ algorithmId, functionId, reason: `no ${dimensions}-D form` });
+            } else {
+                pairs.push({ algorithmId, functionId });
+            }
+        }
+    }
+
+    return { pairs, skipped };
+}
+
+/**
+ * Run the full benchmark synchronously
+ */
+export function runBenchmark(
+    config: BenchmarkConfig,
+    onProgress?: BenchmarkProgress
+): { results: BenchmarkResult[]; skipped: SkippedPair[] } {
+    const { pairs, skipped } = planBenchmark(config);
+    const results: BenchmarkResult[] = [];
+
+    pairs.forEach(({ algorithmId, functionId }, i) => {
+        const result = runBenchmarkPair(config, algorithmId, functionId);
+        results.push(result);
+        onProgress?.(i + 1, pairs.length, result);
+    });
+
+    return { results, skipped };
+}
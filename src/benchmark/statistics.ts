@@ -0,0 +1,52 @@
+/**
+ * Descriptive Statistics
+ *
+ * Summaries used to compare algorithms across independent runs.
+ */
+
+/** Summary of a sample of final fitness values */
+export interface FitnessSummary {
+    mean: number;
+    median: number;
+    /** Sample standard deviation (n - 1) */
+    std: number;
+    best: number;
+    worst: number;
+}
+
+/** Arithmetic mean (NaN for an empty sample) */
+export function mean(values: number[]): number {
+    if (values.length === 0) return NaN;
+    return values.reduce((sum, v) => sum + v, 0) / values.length;
+}
+
+/** Median (NaN for an empty sample) */
+export function median(values: number[]): number {
+    if (values.length === 0) return NaN;
+    const sorted = [...values].sort((a, b) => a - b);
+    const mid = Math.floor(sorted.length / 2);
+    return sorted.length % 2 === 0
+        ? (sorted[mid - 1] + sorted[mid]) / 2
+        : sorted[mid];
+}
+
+/** Sample standard deviation (0 for fewer than two values) */
+export function standardDeviation(values: number[]): number {
+    if (values.length < 2) return 0;
+    const m = mean(values);
+    const sumSq = values.reduce((sum, v) => sum + (v - m) * (v - m), 0);
+    return Math.sqrt(sumSq / (values.length - 1));
+}
+
+/**
+ * Summarize a sample of fitness values (minimization: best = smallest)
+ */
+export function summarize(values: number[]): FitnessSummary {
+    return {
+        mean: mean(values),
+        median: median(values),
+        std: standardDeviation(values),
+        best: values.length > 0 ? Math.min(...values) : NaN,
+        worst: values.length > 0 ? Math.max(...values) : NaN
+    };
+}
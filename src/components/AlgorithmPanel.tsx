@@ -1,16 +1,20 @@
-import { useState, useRef, useCallback, useEffect, useMemo } from 'react';
+import { useState, useCallback, useEffect, useMemo, useRef } from 'react';
 import { Canvas } from './Canvas';
 import { ConvergenceChart } from './ConvergenceChart';
 import { HyperparameterPanel } from './HyperparameterPanel';
-import { getAlgorithm, registry } from '../core/registry';
+import { getAlgorithm, getAlgorithmsByType } from '../core/registry';
 import { testFunctions } from '../core/test-functions';
-import { Optimizer, IterationState, ContinuousSolution, HyperparameterDef, Continuous2DConfig } from '../core/types';
+import { getCustomFunctionDefinition } from '../core/custom-functions';
+import { IterationState, ContinuousSolution, HyperparameterDef } from '../core/types';
+import { ComparePanelUrlState } from '../io/url-state';
+import { useStreamedRun } from '../hooks/useStreamedRun';
 
 interface AlgorithmPanelProps {
     // Shared settings
     functionId: string;
     populationSize: number;
     maxIterations: number;
+    seed: number;
     // Playback state (shared)
     currentFrame: number;
     tweenProgress: number;
@@ -18,8 +22,12 @@ interface AlgorithmPanelProps {
     yMin?: number;
     yMax?: number;
     onHistoryChange?: (history: IterationState<ContinuousSolution>[]) => void;
+    onRunningChange?: (isRunning: boolean) => void;
     // Run trigger
     runTrigger: number;
+    // Algorithm selection to start from, and reporting for URL sync
+    initial?: ComparePanelUrlState;
+    onSettingsChange?: (settings: ComparePanelUrlState) => void;
 }
 
 function getDefaultHyperparams(defs: HyperparameterDef[]): Record<string, string | number> {
@@ -34,17 +42,25 @@ export function AlgorithmPanel({
     functionId,
     populationSize,
     maxIterations,
+    seed,
     currentFrame,
     tweenProgress,
     yMin,
     yMax,
     onHistoryChange,
-    runTrigger
+    onRunningChange,
+    runTrigger,
+    initial,
+    onSettingsChange
 }: AlgorithmPanelProps) {
-    const [algoId, setAlgoId] = useState('bat-standard');
-    const [history, setHistory] = useState<IterationState<ContinuousSolution>[]>([]);
-    const [hyperparamValues, setHyperparamValues] = useState<Record<string, string | number>>({});
-    const optimizerRef = useRef<Optimizer<ContinuousSolution> | null>(null);
+    const [algoId, setAlgoId] = useState(initial?.algorithmId ?? 'bat-standard');
+    const [hyperparamValues, setHyperparamValues] = useState<Record<string, string | number>>(() => ({
+        ...getDefaultHyperparams(getAlgorithm(algoId)?.hyperparameters ?? []),
+        ...initial?.hyperparams
+    }));
+    // Initial hyperparameters apply until the algorithm is changed
+    const initialRef = useRef(initial);
+    const { history, isRunning, start } = useStreamedRun();
 
     const currentAlgorithm = getAlgorithm(algoId);
 
@@ -55,31 +71,42 @@ export function AlgorithmPanel({
     // Initialize hyperparams when algorithm changes
     useEffect(() => {
         const defaults = getDefaultHyperparams(hyperparameters);
-        setHyperparamValues(defaults);
+        if (algoId === initialRef.current?.algorithmId) {
+            setHyperparamValues({ ...defaults, ...initialRef.current.hyperparams });
+        } else {
+            initialRef.current = undefined;
+            setHyperparamValues(defaults);
+        }
     }, [algoId, hyperparameters]);
 
     // Run optimization
     const runOptimization = useCallback(() => {
         const algo = getAlgorithm(algoId);
         const func = testFunctions[functionId];
-        if (!algo || !func) return;
+        if (algo?.optimizationType !== 'continuous' || !func) return;
 
-        const config: Continuous2DConfig = {
+        start({
+            algorithmId: algoId,
+            functionId,
             populationSize,
-            type: 'continuous',
-            dimensions: 2,
-            bounds: func.bounds,
-            objectiveFunction: func.func2D
-        };
+            seed,
+            hyperparams: hyperparamValues,
+            customFunction: getCustomFunctionDefinition(functionId)
+        }, maxIterations);
+    }, [algoId, functionId, populationSize, maxIterations, seed, hyperparamValues, start]);
+
+    // Report streamed history and run status to the parent
+    useEffect(() => {
+        onHistoryChange?.(history);
+    }, [history, onHistoryChange]);
 
-        const optimizer = algo.create(config, hyperparamValues as Record<string, any>);
-        optimizer.run(maxIterations);
+    useEffect(() => {
+        onRunningChange?.(isRunning);
+    }, [isRunning, onRunningChange]);
 
-        optimizerRef.current = optimizer;
-        const newHistory = optimizer.getHistory();
-        setHistory(newHistory);
-        onHistoryChange?.(newHistory);
-    }, [algoId, functionId, populationSize, maxIterations, hyperparamValues, onHistoryChange]);
+    useEffect(() => {
+        onSettingsChange?.({ algorithmId: algoId, hyperparams: hyperparamValues });
+    }, [algoId, hyperparamValues, onSettingsChange]);
 
     // Run when trigger changes
     useEffect(() => {
@@ -97,11 +124,8 @@ export function AlgorithmPanel({
         setHyperparamValues(defaults);
     }, [hyperparameters]);
 
-    // Flatten all algorithms for dropdown
-    const allAlgorithms = registry.flatMap(chapter => [
-        ...chapter.variants,
-        ...(chapter.hybridizations || [])
-    ]);
+    // Both panels share one test function, so only continuous algorithms are offered
+    const allAlgorithms = getAlgorithmsByType('continuous');
 
     const safeFrame = Math.min(currentFrame, Math.max(0, history.length - 1));
 
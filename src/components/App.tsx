@@ -1,4 +1,4 @@
-import { useState } from 'react';
+import { useState, useEffect } from 'react';
 import '../styles.css';
 import { Sidebar } from './Sidebar';
 import { Controls } from './Controls';
@@ -10,18 +10,42 @@ import { TestFunctionSelector } from './TestFunctionSelector';
 import { ConvergenceChart } from './ConvergenceChart';
 import { ViewModeToggle, ViewMode } from './ViewModeToggle';
 import { CompareView } from './CompareView';
+import { BenchmarkView } from './BenchmarkView';
+import { RunFilePanel } from './RunFilePanel';
+import { SolutionView } from './SolutionView';
+import { TourView } from './TourView';
+import { BitMatrixView } from './BitMatrixView';
+import { ParetoView } from './ParetoView';
+import { ConstraintPanel } from './ConstraintPanel';
+import { NoisePanel } from './NoisePanel';
 import { useOptimizer } from '../hooks/useOptimizer';
 import { usePlayback } from '../hooks/usePlayback';
+import { useCustomFunctions } from '../hooks/useCustomFunctions';
 import { testFunctions } from '../core/test-functions';
+import { discreteProblems, binaryProblems } from '../core/combinatorial-problems';
+import { multiObjectiveProblems } from '../core/multi-objective-problems';
+import { tspInstances } from '../core/tsp-instances';
+import { defaultProblemIds } from '../core/factory';
+import { readUrlState, writeUrlState, CompareUrlState } from '../io/url-state';
+import { RunFile } from '../io/run-file';
 
 export function App() {
-    const [viewMode, setViewMode] = useState<ViewMode>('single');
+    // Registers saved custom functions, so it must run before the URL is validated
+    const customFunctions = useCustomFunctions();
+
+    // Settings are mirrored into the URL so a view can be shared as a link
+    const [urlState] = useState(readUrlState);
+    const [viewMode, setViewMode] = useState<ViewMode>(urlState.view);
+    const [compareState, setCompareState] = useState<CompareUrlState>(urlState.compare);
 
     const {
         history,
         currentAlgoId,
         selectAlgorithm,
         runOptimization,
+        isRunning,
+        cancelOptimization,
+        runError,
         currentAlgorithm,
         hyperparameters,
         hyperparamValues,
@@ -32,8 +56,47 @@ export function App() {
         populationSize,
         setPopulationSize,
         maxIterations,
-        setMaxIterations
-    } = useOptimizer();
+        setMaxIterations,
+        seed,
+        setSeed,
+        dimensions,
+        setDimensions,
+        ndAvailable,
+        projection,
+        setProjection,
+        recording,
+        setRecording,
+        constraintHandling,
+        setConstraintHandling,
+        boundaryHandling,
+        setBoundaryHandling,
+        noise,
+        setNoise,
+        exportRun,
+        importRun
+    } = useOptimizer(urlState.single);
+
+    useEffect(() => {
+        if (viewMode === 'single') {
+            writeUrlState('single', {
+                algorithmId: currentAlgoId,
+                functionId: currentFunctionId,
+                populationSize,
+                maxIterations,
+                seed,
+                dimensions,
+                hyperparams: hyperparamValues,
+                boundaryHandling,
+                constraintHandling,
+                recording,
+                noise: noise ?? undefined
+            });
+        } else if (viewMode === 'compare') {
+            writeUrlState('compare', compareState);
+        } else {
+            writeUrlState('benchmark');
+        }
+    }, [viewMode, currentAlgoId, currentFunctionId, populationSize, maxIterations, seed, dimensions, hyperparamValues, boundaryHandling, constraintHandling, recording, noise, compareState]);
 
     const {
         currentFrame,
@@ -45,11 +108,36 @@ export function App() {
         nextFrame,
         setFrame,
         setSpeed
-    } = usePlayback(history);
+    } = usePlayback(history, isRunning);
 
     const currentState = history[currentFrame];
     const maxFrame = Math.max(0, history.length - 1);
+    const optimizationType = currentAlgorithm?.optimizationType ?? 'continuous';
+    const isContinuous = optimizationType === 'continuous';
+    const tspInstance = optimizationType === 'discrete' ? tspInstances[currentFunctionId] : undefined;
+    const moProblem = optimizationType === 'multiobjective' ? multiObjectiveProblems[currentFunctionId] : undefined;
     const currentFunc = testFunctions[currentFunctionId];
+    const constraints = isContinuous ? currentFunc?.constraints : undefined;
+    // Dynamic problems: the optimum of the environment shown
+    const optimum = currentFunc?.dynamic
+        ? currentFunc.dynamic(dimensions).optimum(currentState?.environment ?? 0)
+        : currentFunc?.globalMinimum;
+    const problemName = isContinuous
+        ? currentFunc?.name || 'Rastrigin'
+        : moProblem
+            ? moProblem.name
+            : (optimizationType === 'discrete' ? discreteProblems : binaryProblems)[currentFunctionId]?.name ?? currentFunctionId;
+
+    const deleteCustomFunction = (id: string) => {
+        customFunctions.remove(id);
+        if (id === currentFunctionId) setFunction(defaultProblemIds.continuous);
+    };
+
+    // A run on a custom function carries its definition; keep it like a saved one
+    const importRunFile = (file: RunFile) => {
+        if (file.settings.customFunction) customFunctions.save(file.settings.customFunction);
+        importRun(file);
+    };
 
     return (
         <div className="app-container">
@@ -73,35 +161,89 @@ export function App() {
                 {viewMode === 'single' ? (
                     <div className="visualization-area">
                         <div className="canvas-container">
-                            <Canvas
-                                history={history}
-                                currentFrame={currentFrame}
-                                tweenProgress={tweenProgress}
-                                functionId={currentFunctionId}
-                            />
+                            {isContinuous ? (
+                                <Canvas
+                                    history={history}
+                                    currentFrame={currentFrame}
+                                    tweenProgress={tweenProgress}
+                                    functionId={currentFunctionId}
+                                    dimensions={dimensions}
+                                    projection={projection}
+                                />
+                            ) : moProblem ? (
+                                <ParetoView
+                                    history={history}
+                                    currentFrame={currentFrame}
+                                    problem={moProblem}
+                                />
+                            ) : optimizationType === 'binary' ? (
+                                <BitMatrixView
+                                    history={history}
+                                    currentFrame={currentFrame}
+                                />
+                            ) : tspInstance ? (
+                                <TourView
+                                    history={history}
+                                    currentFrame={currentFrame}
+                                    instance={tspInstance}
+                                />
+                            ) : (
+                                <SolutionView
+                                    history={history}
+                                    currentFrame={currentFrame}
+                                    optimizationType={optimizationType}
+                                    problemName={problemName}
+                                />
+                            )}
                             <div className="legend">
                                 <div className="legend-item">
                                     <span className="legend-dot agent"></span>
                                     <span>{currentAlgorithm?.agentName || 'Agent'}</span>
                                     <span className="legend-desc">Population members searching</span>
                                 </div>
-                                <div className="legend-item">
-                                    <span className="legend-dot gbest"></span>
-                                    <span>Global Best</span>
-                                    <span className="legend-desc">Best solution found so far</span>
-                                </div>
-                                <div className="legend-item">
-                                    <span className="legend-dot optimal"></span>
-                                    <span>Optimal</span>
-                                    <span className="legend-desc">
-                                        ({currentFunc?.globalMinimum.x.join(', ')}) = {currentFunc?.globalMinimum.f}
-                                    </span>
-                                </div>
-                                <div className="legend-item legend-heatmap">
-                                    <span className="legend-gradient"></span>
-                                    <span>{currentFunc?.name || 'Function'}</span>
-                                    <span className="legend-desc">Blue = low (better), Red = high (worse)</span>
-                                </div>
+                                {moProblem ? (
+                                    <>
+                                        <div className="legend-item">
+                                            <span className="legend-dot gbest"></span>
+                                            <span>Pareto Archive</span>
+                                            <span className="legend-desc">Non-dominated solutions found so far</span>
+                                        </div>
+                                        <div className="legend-item">
+                                            <span className="legend-dot pareto-front"></span>
+                                            <span>True Front</span>
+                                            <span className="legend-desc">Shaded: area dominated by the archive (hypervolume)</span>
+                                        </div>
+                                    </>
+                                ) : (
+                                    <div className="legend-item">
+                                        <span className="legend-dot gbest"></span>
+                                        <span>Global Best</span>
+                                        <span className="legend-desc">Best solution found so far</span>
+                                    </div>
+                                )}
+                                {isContinuous && (
+                                    <>
+                                        <div className="legend-item">
+                                            <span className="legend-dot optimal"></span>
+                                            <span>Optimal</span>
+                                            <span className="legend-desc">
+                                                ({optimum?.x.map(v => +v.toFixed(4)).join(', ')}) = {optimum && +optimum.f.toFixed(4)}
+                                            </span>
+                                        </div>
+                                        {constraints && (
+                                            <div className="legend-item">
+                                                <span className="legend-dot infeasible"></span>
+                                                <span>Infeasible</span>
+                                                <span className="legend-desc">Region violating the constraints</span>
+                                            </div>
+                                        )}
+                                        <div className="legend-item legend-heatmap">
+                                            <span className="legend-gradient"></span>
+                                            <span>{currentFunc?.name || 'Function'}</span>
+                                            <span className="legend-desc">Blue = low (better), Red = high (worse)</span>
+                                        </div>
+                                    </>
+                                )}
                             </div>
                         </div>
 
@@ -109,22 +251,60 @@ export function App() {
                             <TestFunctionSelector
                                 currentFunction={currentFunctionId}
                                 onChange={setFunction}
+                                optimizationType={optimizationType}
+                                onSaveCustom={customFunctions.save}
+                                onDeleteCustom={deleteCustomFunction}
+                                exportCustom={customFunctions.exportAll}
+                                onImportCustom={customFunctions.importText}
                             />
 
+                            {runError && <div className="run-error">{runError}</div>}
+
                             {currentState && (
                                 <Stats
                                     iteration={currentState.iteration}
                                     bestFitness={currentState.globalBestFitness}
-                                    bestPosition={[currentState.globalBest[0], currentState.globalBest[1]]}
-                                    functionName={currentFunc?.name || 'Rastrigin'}
+                                    bestTrueFitness={currentState.globalBestTrueFitness}
+                                    bestPosition={isContinuous
+                                        ? [currentState.globalBest[projection[0]], currentState.globalBest[projection[1]]]
+                                        : undefined}
+                                    functionName={problemName}
+                                    evaluations={currentState.evaluations}
+                                    stopReason={currentState.stopReason}
+                                    feasibleAgents={constraints && currentState.agents.length > 0
+                                        ? {
+                                            feasible: currentState.agents.filter(a => a.violation === 0).length,
+                                            total: currentState.agents.length
+                                        }
+                                        : undefined}
+                                    environment={currentState.environment}
+                                    offlineError={currentState.offlineError}
+                                    pareto={currentState.pareto && {
+                                        archiveSize: currentState.pareto.front.length,
+                                        hypervolume: currentState.pareto.hypervolume,
+                                        igd: currentState.pareto.igd,
+                                        spread: currentState.pareto.spread
+                                    }}
                                 />
                             )}
 
+                            {constraints && (
+                                <ConstraintPanel
+                                    method={constraintHandling}
+                                    onChange={setConstraintHandling}
+                                    constraintCount={constraints.length}
+                                />
+                            )}
+
+                            {isContinuous && <NoisePanel noise={noise} onChange={setNoise} />}
+
                             <HyperparameterPanel
                                 hyperparameters={hyperparameters}
                                 values={hyperparamValues}
                                 onChange={setHyperparam}
                                 onReset={resetHyperparams}
+                                boundaryHandling={isContinuous || moProblem ? boundaryHandling : undefined}
+                                onBoundaryHandlingChange={setBoundaryHandling}
                             />
 
                             <Controls
@@ -138,20 +318,39 @@ export function App() {
                                 onFrameChange={setFrame}
                                 onSpeedChange={setSpeed}
                                 onRunOptimization={runOptimization}
+                                isRunning={isRunning}
+                                onCancelOptimization={cancelOptimization}
                                 populationSize={populationSize}
                                 onPopulationSizeChange={setPopulationSize}
                                 maxIterations={maxIterations}
                                 onMaxIterationsChange={setMaxIterations}
+                                seed={seed}
+                                onSeedChange={setSeed}
+                                dimensions={dimensions}
+                                onDimensionsChange={setDimensions}
+                                ndAvailable={ndAvailable}
+                                projection={projection}
+                                onProjectionChange={setProjection}
+                                recording={recording}
+                                onRecordingChange={setRecording}
                             />
 
                             <ConvergenceChart
                                 history={history}
                                 currentFrame={currentFrame}
                             />
+
+                            <RunFilePanel
+                                exportRun={exportRun}
+                                onImport={importRunFile}
+                                disabled={isRunning || history.length === 0}
+                            />
                         </aside>
                     </div>
+                ) : viewMode === 'compare' ? (
+                    <CompareView initial={compareState} onStateChange={setCompareState} />
                 ) : (
-                    <CompareView />
+                    <BenchmarkView />
                 )}
             </main>
         </div>
@@ -0,0 +1,236 @@
+import { useState } from 'react';
+import { Play, Square } from 'lucide-react';
+import { registry } from '../core/registry';
+import { testFunctions } from '../core/test-functions';
+import { useBenchmark } from '../hooks/useBenchmark';
+import { BenchmarkResult } from '../benchmark';
+
+const formatNumber = (n: number) =>
+    Number.isNaN(n) ? '-' : Math.abs(n) < 0.0001 || Math.abs(n) > 9999 ? n.toExponential(2) : n.toFixed(4);
+
+/** Toggle an id in a selection list */
+function toggle(list: string[], id: string): string[] {
+    return list.includes(id) ? list.filter(x => x !== id) : [...list, id];
+}
+
+/** Lowest mean fitness per function, used to highlight the winner */
+function bestMeans(results: BenchmarkResult[]): Record<string, number> {
+    const best: Record<string, number> = {};
+    for (const r of results) {
+        if (best[r.functionId] === undefined || r.fitness.mean < best[r.functionId]) {
+            best[r.functionId] = r.fitness.mean;
+        }
+    }
+    return best;
+}
+
+export function BenchmarkView() {
+    const [algorithmIds, setAlgorithmIds] = useState<string[]>(['bat-standard', 'afsa-standard']);
+    const [functionIds, setFunctionIds] = useState<string[]>(['sphere', 'rastrigin']);
+    const [runs, setRuns] = useState(10);
+    const [maxIterations, setMaxIterations] = useState(100);
+    const [maxEvaluations, setMaxEvaluations] = useState(0);
+    const [populationSize, setPopulationSize] = useState(30);
+    const [dimensions, setDimensions] = useState(2);
+    const [tolerance, setTolerance] = useState(1e-4);
+    const [baseSeed, setBaseSeed] = useState(1);
+
+    const { results, skipped, isRunning, progress, error, runBenchmark, cancel } = useBenchmark();
+    const winners = bestMeans(results);
+
+    const handleRun = () => {
+        runBenchmark({
+            algorithmIds,
+            functionIds,
+            runs,
+            maxIterations,
+            maxEvaluations: maxEvaluations > 0 ? maxEvaluations : undefined,
+            populationSize,
+            dimensions,
+            tolerance,
+            baseSeed
+        });
+    };
+
+    return (
+        <div className="benchmark-view">
+            <div className="compare-settings-bar">
+                <div className="setting-group">
+                    <label>Runs</label>
+                    <input
+                        type="number"
+                        value={runs}
+                        onChange={e => setRuns(parseInt(e.target.value) || 1)}
+                        min={1} max={100}
+                    />
+                </div>
+
+                <div className="setting-group">
+                    <label>Iterations</label>
+                    <input
+                        type="number"
+                        value={maxIterations}
+                        onChange={e => setMaxIterations(parseInt(e.target.value) || 100)}
+                        min={10} max={2000} step={10}
+                    />
+                </div>
+
+                <div className="setting-group">
+                    <label title="0 = no evaluation budget">Max Evals</label>
+                    <input
+                        type="number"
+                        value={maxEvaluations}
+                        onChange={e => setMaxEvaluations(Math.max(0, parseInt(e.target.value) || 0))}
+                        min={0} step={500}
+                    />
+                </div>
+
+                <div className="setting-group">
+                    <label>Population</label>
+                    <input
+                        type="number"
+                        value={populationSize}
+                        onChange={e => setPopulationSize(parseInt(e.target.value) || 30)}
+                        min={5} max={200} step={5}
+                    />
+                </div>
+
+                <div className="setting-group">
+                    <label>Dimensions</label>
+                    <input
+                        type="number"
+                        value={dimensions}
+                        onChange={e => setDimensions(Math.max(2, parseInt(e.target.value) || 2))}
+                        min={2} max={100}
+                    />
+                </div>
+
+                <div className="setting-group">
+                    <label>Tolerance</label>
+                    <input
+                        type="number"
+                        value={tolerance}
+                        onChange={e => setTolerance(parseFloat(e.target.value) || 0)}
+                        min={0} step={0.0001}
+                    />
+                </div>
+
+                <div className="setting-group">
+                    <label>First Seed</label>
+                    <input
+                        type="number"
+                        value={baseSeed}
+                        onChange={e => setBaseSeed(parseInt(e.target.value) || 0)}
+                        min={0} step={1}
+                    />
+                </div>
+
+                {isRunning ? (
+                    <button className="btn-run" onClick={cancel}>
+                        <Square size={14} />
+                        Cancel ({progress.done}/{progress.total})
+                    </button>
+                ) : (
+                    <button
+                        className="btn-run"
+                        onClick={handleRun}
+                        disabled={algorithmIds.length === 0 || functionIds.length === 0}
+                    >
+                        <Play size={14} />
+                        Run Benchmark
+                    </button>
+                )}
+            </div>
+
+            <div className="benchmark-selection">
+                <div className="benchmark-list">
+                    <div className="benchmark-list-header">Algorithms</div>
+                    {registry.map(chapter => (
+                        <div key={chapter.id} className="benchmark-chapter">
+                            <div className="benchmark-chapter-name">{chapter.name}</div>
+                            {[...chapter.variants, ...(chapter.hybridizations ?? [])]
+                                .filter(algo => algo.optimizationType === 'continuous')
+                                .map(algo => (
+                                    <label key={algo.id} className="benchmark-option">
+                                        <input
+                                            type="checkbox"
+                                            checked={algorithmIds.includes(algo.id)}
+                                            onChange={() => setAlgorithmIds(ids => toggle(ids, algo.id))}
+                                        />
+                                        {algo.name}
+                                    </label>
+                                ))}
+                        </div>
+                    ))}
+                </div>
+
+                <div className="benchmark-list">
+                    <div className="benchmark-list-header">Test Functions</div>
+                    {Object.entries(testFunctions).map(([id, func]) => (
+                        <label key={id} className="benchmark-option">
+                            <input
+                                type="checkbox"
+                                checked={functionIds.includes(id)}
+                                onChange={() => setFunctionIds(ids => toggle(ids, id))}
+                            />
+                            {func.name}
+                            {!func.funcND && <span className="benchmark-note">2D only</span>}
+                        </label>
+                    ))}
+                </div>
+            </div>
+
+            {error && <div className="benchmark-error">{error}</div>}
+
+            {results.length > 0 && (
+                <table className="benchmark-table">
+                    <thead>
+                        <tr>
+                            <th>Algorithm</th>
+                            <th>Function</th>
+                            <th>Mean</th>
+                            <th>Median</th>
+                            <th>Std</th>
+                            <th>Best</th>
+                            <th>Worst</th>
+                            <th>Success</th>
+                            <th>Evals → Target</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {results.map(r => (
+                            <tr
+                                key={`${r.algorithmId}-${r.functionId}`}
+                                className={winners[r.functionId] === r.fitness.mean ? 'winner' : ''}
+                            >
+                                <td>{r.algorithmId}</td>
+                                <td>{testFunctions[r.functionId]?.name ?? r.functionId}</td>
+                                <td>{formatNumber(r.fitness.mean)}</td>
+                                <td>{formatNumber(r.fitness.median)}</td>
+                                <td>{formatNumber(r.fitness.std)}</td>
+                                <td>{formatNumber(r.fitness.best)}</td>
+                                <td>{formatNumber(r.fitness.worst)}</td>
+                                <td>
+                                    {r.successRate === null
+                                        ? '-'
+                                        : `${(r.successRate * 100).toFixed(0)}%`}
+                                </td>
+                                <td>
+                                    {r.meanEvaluationsToTarget === null
+                                        ? '-'
+                                        : r.meanEvaluationsToTarget.toFixed(0)}
+                                </td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            )}
+
+            {skipped.length > 0 && (
+                <div className="benchmark-skipped">
+                    Skipped: {skipped.map(s => `${s.algorithmId} on ${s.functionId} (${s.reason})`).join(', ')}
+                </div>
+            )}
+        </div>
+    );
+}
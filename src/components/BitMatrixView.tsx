@@ -0,0 +1,49 @@
+import { useEffect, useRef } from 'react';
+import { BitMatrixCanvas } from '../visualization/BitMatrixCanvas';
+import { IterationState, Solution } from '../core/types';
+
+interface BitMatrixViewProps {
+    history: IterationState<Solution>[];
+    currentFrame: number;
+}
+
+/**
+ * Population bit matrix for bit-string runs: one row per agent, with the
+ * global best on top
+ */
+export function BitMatrixView({ history, currentFrame }: BitMatrixViewProps) {
+    const canvasRef = useRef<HTMLCanvasElement>(null);
+    const matrixCanvasRef = useRef<BitMatrixCanvas | null>(null);
+
+    // Initialize BitMatrixCanvas
+    useEffect(() => {
+        if (canvasRef.current && !matrixCanvasRef.current) {
+            matrixCanvasRef.current = new BitMatrixCanvas(canvasRef.current);
+        }
+    }, []);
+
+    // Render current state
+    useEffect(() => {
+        const canvas = matrixCanvasRef.current;
+        if (!canvas) return;
+
+        const state = history[currentFrame];
+        if (!state) return;
+
+        canvas.render({
+            best: state.globalBest,
+            bestFitness: state.globalBestFitness,
+            rows: state.agents.map(agent => agent.position),
+            fitnesses: state.agents.map(agent => agent.fitness),
+            iteration: state.iteration
+        });
+    }, [history, currentFrame]);
+
+    return (
+        <canvas
+            ref={canvasRef}
+            id="bit-matrix-canvas"
+            className="swarm-canvas"
+        />
+    );
+}
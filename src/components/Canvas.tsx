@@ -1,17 +1,32 @@
 import { useEffect, useRef } from 'react';
 import { SwarmCanvas } from '../visualization/SwarmCanvas';
-import { IterationState, ContinuousSolution } from '../core/types';
-import { testFunctions } from '../core/test-functions';
+import { IterationState, ContinuousSolution, Agent } from '../core/types';
+import { testFunctions, sliceND } from '../core/test-functions';
+import { environmentSlice } from '../core/dynamic';
 
 interface CanvasProps {
     history: IterationState<ContinuousSolution>[];
     currentFrame: number;
     tweenProgress: number;
     functionId: string;
+    /** Dimensionality of the run (default 2) */
+    dimensions?: number;
+    /** Dimension indices drawn on the x and y axes */
+    projection?: [number, number];
     onCanvasReady?: (canvas: SwarmCanvas) => void;
 }
 
-export function Canvas({ history, currentFrame, tweenProgress, functionId, onCanvasReady }: CanvasProps) {
+export function Canvas({
+    history,
+    currentFrame,
+    tweenProgress,
+    functionId,
+    dimensions = 2,
+    projection = [0, 1],
+    onCanvasReady
+}: CanvasProps) {
+    const [px, py] = projection;
+
     const canvasRef = useRef<HTMLCanvasElement>(null);
     const swarmCanvasRef = useRef<SwarmCanvas | null>(null);
 
@@ -23,13 +38,24 @@ export function Canvas({ history, currentFrame, tweenProgress, functionId, onCan
         }
     }, [onCanvasReady]);
 
-    // Update function when it changes
+    // Update function when it changes (N-D runs show a slice through the optimum).
+    // Keyed on the function object, so an edited custom function redraws under the same id.
+    const func = testFunctions[functionId];
     useEffect(() => {
-        if (swarmCanvasRef.current && testFunctions[functionId]) {
-            const func = testFunctions[functionId];
-            swarmCanvasRef.current.setFunction(func.func2D, func.bounds);
+        if (!swarmCanvasRef.current || !func) return;
+        if (func.dynamic) {
+            swarmCanvasRef.current.setDynamicFunction(environmentSlice(func.dynamic(dimensions), [px, py]), func.bounds);
+            return;
         }
-    }, [functionId]);
+        const landscape = dimensions > 2 ? sliceND(func, dimensions, [px, py]) : func.func2D;
+        swarmCanvasRef.current.setFunction(landscape, func.bounds, func.constraints);
+    }, [func, dimensions, px, py]);
+
+    // Dynamic functions: show the landscape the current frame was evaluated on
+    const environment = history[currentFrame]?.environment ?? 0;
+    useEffect(() => {
+        swarmCanvasRef.current?.setEnvironment(environment);
+    }, [environment, func, dimensions, px, py]);
 
     // Render current state
     useEffect(() => {
@@ -44,26 +70,30 @@ export function Canvas({ history, currentFrame, tweenProgress, functionId, onCan
 
             state = {
                 particles: current.agents.map(a => ({
-                    x: a.position[0],
-                    y: a.position[1],
-                    vx: a.velocity?.[0] || 0,
-                    vy: a.velocity?.[1] || 0
+                    x: a.position[px],
+                    y: a.position[py],
+                    vx: a.velocity?.[px] || 0,
+                    vy: a.velocity?.[py] || 0,
+                    color: agentColor(a)
                 })),
-                gbestX: current.globalBest[0],
-                gbestY: current.globalBest[1],
+                gbestX: current.globalBest[px],
+                gbestY: current.globalBest[py],
                 gbestFitness: current.globalBestFitness,
-                iteration: current.iteration
+                iteration: current.iteration,
+                markers: extraMarkers(current, px, py),
+                links: extraLinks(current),
+                highlights: extraHighlights(current, px, py)
             };
         } else {
             const from = history[Math.max(0, currentFrame - 1)];
             const to = history[currentFrame];
             if (!from || !to) return;
 
-            state = interpolateState(from, to, tweenProgress);
+            state = interpolateState(from, to, tweenProgress, [px, py]);
         }
 
         canvas.renderTweened(state, true);
-    }, [history, currentFrame, tweenProgress]);
+    }, [history, currentFrame, tweenProgress, px, py]);
 
     // Clear trail when history changes
     useEffect(() => {
@@ -84,25 +114,92 @@ export function Canvas({ history, currentFrame, tweenProgress, functionId, onCan
 function interpolateState(
     from: IterationState<ContinuousSolution>,
     to: IterationState<ContinuousSolution>,
-    t: number
+    t: number,
+    projection: [number, number] = [0, 1]
 ): any {
     const eased = 1 - Math.pow(1 - t, 3);
+    const [px, py] = projection;
 
     const particles = from.agents.map((a, i) => {
         const target = to.agents[i];
         return {
-            x: a.position[0] + (target.position[0] - a.position[0]) * eased,
-            y: a.position[1] + (target.position[1] - a.position[1]) * eased,
-            vx: (a.velocity?.[0] || 0) + ((target.velocity?.[0] || 0) - (a.velocity?.[0] || 0)) * eased,
-            vy: (a.velocity?.[1] || 0) + ((target.velocity?.[1] || 0) - (a.velocity?.[1] || 0)) * eased,
+            x: a.position[px] + (target.position[px] - a.position[px]) * eased,
+            y: a.position[py] + (target.position[py] - a.position[py]) * eased,
+            vx: (a.velocity?.[px] || 0) + ((target.velocity?.[px] || 0) - (a.velocity?.[px] || 0)) * eased,
+            vy: (a.velocity?.[py] || 0) + ((target.velocity?.[py] || 0) - (a.velocity?.[py] || 0)) * eased,
+            color: agentColor(target)
         };
     });
 
     return {
         particles,
-        gbestX: from.globalBest[0] + (to.globalBest[0] - from.globalBest[0]) * eased,
-        gbestY: from.globalBest[1] + (to.globalBest[1] - from.globalBest[1]) * eased,
+        gbestX: from.globalBest[px] + (to.globalBest[px] - from.globalBest[px]) * eased,
+        gbestY: from.globalBest[py] + (to.globalBest[py] - from.globalBest[py]) * eased,
         gbestFitness: to.globalBestFitness,
-        iteration: to.iteration
+        iteration: to.iteration,
+        markers: extraMarkers(to, px, py),
+        links: extraLinks(to),
+        highlights: extraHighlights(to, px, py)
     };
 }
+
+/**
+ * Event positions to mark from algorithm extras (abandoned cuckoo nests)
+ */
+function extraMarkers(
+    state: IterationState<ContinuousSolution>,
+    px: number,
+    py: number
+): Array<{ x: number; y: number }> {
+    const nests = state.extra?.abandonedNests as Array<{ from: ContinuousSolution }> | undefined;
+    return nests?.map(nest => ({ x: nest.from[px], y: nest.from[py] })) ?? [];
+}
+
+/**
+ * Agent index pairs to connect from algorithm extras (firefly attractions)
+ */
+function extraLinks(state: IterationState<ContinuousSolution>): number[] | undefined {
+    return state.extra?.attractionLinks as number[] | undefined;
+}
+
+/** Leader positions in algorithm extras, with their labels */
+const LEADER_LABELS: Array<[string, string]> = [['alpha', 'α'], ['beta', 'β'], ['delta', 'δ']];
+
+/**
+ * Labelled positions to highlight from algorithm extras (grey wolf leaders)
+ */
+function extraHighlights(
+    state: IterationState<ContinuousSolution>,
+    px: number,
+    py: number
+): Array<{ x: number; y: number; label: string }> {
+    const result: Array<{ x: number; y: number; label: string }> = [];
+    for (const [key, label] of LEADER_LABELS) {
+        const position = state.extra?.[key];
+        if (Array.isArray(position)) result.push({ x: position[px], y: position[py], label });
+    }
+    return result;
+}
+
+/** Particle colors for per-agent modes recorded in Agent.metadata */
+const MODE_COLORS: Record<string, [number, number, number]> = {
+    // Flower pollination
+    global: [56, 189, 248],
+    local: [132, 204, 22],
+    // Bee roles
+    employed: [251, 191, 36],
+    onlooker: [167, 139, 250],
+    scout: [244, 114, 182]
+};
+
+/** Particle color for agents outside the feasible region of a constrained problem */
+const INFEASIBLE_COLOR: [number, number, number] = [148, 163, 184];
+
+/**
+ * Particle color from the agent's feasibility or recorded mode (flower pollination, bee role), if any
+ */
+function agentColor(agent: Agent<ContinuousSolution>): [number, number, number] | undefined {
+    if (agent.violation !== undefined && agent.violation > 0) return INFEASIBLE_COLOR;
+    const mode = agent.metadata?.pollination ?? agent.metadata?.role;
+    return typeof mode === 'string' ? MODE_COLORS[mode] : undefined;
+}
@@ -1,20 +1,36 @@
-import { useState, useMemo } from 'react';
-import { Play, Pause, SkipBack, Rewind, FastForward, RotateCcw } from 'lucide-react';
+import { useState, useMemo, useEffect } from 'react';
+import { Play, Pause, SkipBack, Rewind, FastForward, RotateCcw, Dices } from 'lucide-react';
 import { AlgorithmPanel } from './AlgorithmPanel';
 import { TestFunctionSelector } from './TestFunctionSelector';
 import { usePlayback } from '../hooks/usePlayback';
 import { IterationState, ContinuousSolution } from '../core/types';
+import { randomSeed } from '../core/random';
+import { CompareUrlState, ComparePanelUrlState, SETTING_LIMITS, clampToLimit } from '../io/url-state';
 
-export function CompareView() {
+/** Placeholder frame: only the length of the shared playback history matters */
+const PLACEHOLDER_FRAME = { iteration: 0 } as IterationState<ContinuousSolution>;
+
+interface CompareViewProps {
+    /** Settings to start from (e.g. restored from the URL) */
+    initial?: CompareUrlState;
+    onStateChange?: (state: CompareUrlState) => void;
+}
+
+export function CompareView({ initial = {}, onStateChange }: CompareViewProps) {
     // Shared settings
-    const [functionId, setFunctionId] = useState('rastrigin');
-    const [populationSize, setPopulationSize] = useState(30);
-    const [maxIterations, setMaxIterations] = useState(100);
+    const [functionId, setFunctionId] = useState(initial.functionId ?? 'rastrigin');
+    const [populationSize, setPopulationSize] = useState(initial.populationSize ?? 30);
+    const [maxIterations, setMaxIterations] = useState(initial.maxIterations ?? 100);
+    const [seed, setSeed] = useState(() => initial.seed ?? randomSeed());
+    const [leftSettings, setLeftSettings] = useState<ComparePanelUrlState>(initial.left ?? {});
+    const [rightSettings, setRightSettings] = useState<ComparePanelUrlState>(initial.right ?? {});
     const [runTrigger, setRunTrigger] = useState(0);
 
     // Track histories for synchronized axes
     const [leftHistory, setLeftHistory] = useState<IterationState<ContinuousSolution>[]>([]);
     const [rightHistory, setRightHistory] = useState<IterationState<ContinuousSolution>[]>([]);
+    const [leftRunning, setLeftRunning] = useState(false);
+    const [rightRunning, setRightRunning] = useState(false);
 
     // Compute shared Y-axis bounds
     const allFitness = useMemo(() => [
@@ -28,7 +44,7 @@ export function CompareView() {
     // Shared playback
     const maxLength = Math.max(leftHistory.length, rightHistory.length);
     const dummyHistory = useMemo(() =>
-        Array(maxLength).fill({ iteration: 0 }),
+        Array(maxLength).fill(PLACEHOLDER_FRAME),
         [maxLength]
     );
 
@@ -41,7 +57,11 @@ export function CompareView() {
         prevFrame,
         nextFrame,
         setSpeed
-    } = usePlayback(dummyHistory);
+    } = usePlayback(dummyHistory, leftRunning || rightRunning);
+
+    useEffect(() => {
+        onStateChange?.({ functionId, populationSize, maxIterations, seed, left: leftSettings, right: rightSettings });
+    }, [functionId, populationSize, maxIterations, seed, leftSettings, rightSettings, onStateChange]);
 
     const handleRun = () => {
         setRunTrigger(t => t + 1);
@@ -75,6 +95,25 @@ export function CompareView() {
                     />
                 </div>
 
+                <div className="setting-group">
+                    <label>Seed</label>
+                    <div className="seed-control">
+                        <input
+                            type="number"
+                            value={seed}
+                            onChange={e => setSeed(clampToLimit(parseInt(e.target.value) || 0, SETTING_LIMITS.seed))}
+                            min={SETTING_LIMITS.seed.min} max={SETTING_LIMITS.seed.max} step={1}
+                        />
+                        <button
+                            className="btn-seed"
+                            onClick={() => setSeed(randomSeed())}
+                            title="New random seed"
+                        >
+                            <Dices size={14} />
+                        </button>
+                    </div>
+                </div>
+
                 <button className="btn-run" onClick={handleRun}>
                     <RotateCcw size={14} />
                     Run Both
@@ -86,12 +125,16 @@ export function CompareView() {
                     functionId={functionId}
                     populationSize={populationSize}
                     maxIterations={maxIterations}
+                    seed={seed}
                     currentFrame={currentFrame}
                     tweenProgress={tweenProgress}
                     yMin={sharedYMin}
                     yMax={sharedYMax}
                     onHistoryChange={setLeftHistory}
+                    onRunningChange={setLeftRunning}
                     runTrigger={runTrigger}
+                    initial={initial.left}
+                    onSettingsChange={setLeftSettings}
                 />
 
                 <div className="compare-divider">VS</div>
@@ -100,12 +143,16 @@ export function CompareView() {
                     functionId={functionId}
                     populationSize={populationSize}
                     maxIterations={maxIterations}
+                    seed={seed}
                     currentFrame={currentFrame}
                     tweenProgress={tweenProgress}
                     yMin={sharedYMin}
                     yMax={sharedYMax}
                     onHistoryChange={setRightHistory}
+                    onRunningChange={setRightRunning}
                     runTrigger={runTrigger}
+                    initial={initial.right}
+                    onSettingsChange={setRightSettings}
                 />
             </div>
 
@@ -0,0 +1,46 @@
+import { ShieldAlert } from 'lucide-react';
+import { ConstraintHandlingMethod } from '../core/types';
+import { constraintHandlingMethods } from '../core/constraints';
+
+interface ConstraintPanelProps {
+    method: ConstraintHandlingMethod;
+    onChange: (method: ConstraintHandlingMethod) => void;
+    /** Number of constraints of the current problem */
+    constraintCount: number;
+}
+
+/**
+ * Constraint handling selector, shown for constrained problems
+ */
+export function ConstraintPanel({ method, onChange, constraintCount }: ConstraintPanelProps) {
+    const current = constraintHandlingMethods.find(m => m.value === method);
+
+    return (
+        <div className="hyperparameter-panel">
+            <div className="hyperparameter-header">
+                <ShieldAlert size={16} />
+                <span>Constraints</span>
+                <span className="expand-icon">{constraintCount}</span>
+            </div>
+            <div className="hyperparameter-content">
+                <div className="hyperparam-control">
+                    <div className="hyperparam-label">
+                        <span className="hyperparam-name">Handling</span>
+                    </div>
+                    <select
+                        className="hyperparam-select"
+                        value={method}
+                        onChange={(e) => onChange(e.target.value as ConstraintHandlingMethod)}
+                    >
+                        {constraintHandlingMethods.map(m => (
+                            <option key={m.value} value={m.value}>
+                                {m.label}
+                            </option>
+                        ))}
+                    </select>
+                    <div className="constraint-method-desc">{current?.description}</div>
+                </div>
+            </div>
+        </div>
+    );
+}
@@ -1,4 +1,8 @@
-import { SkipBack, Rewind, Pause, Play, FastForward, Users, Hash } from 'lucide-react';
+import { SkipBack, Rewind, Pause, Play, FastForward, Users, Hash, Dices, Layers, Database } from 'lucide-react';
+import { RecordingConfig, RecordingMode } from '../core/types';
+import { randomSeed } from '../core/random';
+import { recordingModes } from '../core/history-store';
+import { SETTING_LIMITS, clampToLimit } from '../io/url-state';
 
 interface ControlsProps {
     isPlaying: boolean;
@@ -11,10 +15,23 @@ interface ControlsProps {
     onFrameChange: (frame: number) => void;
     onSpeedChange: (speed: number) => void;
     onRunOptimization: () => void;
+    /** True while a run is still streaming in */
+    isRunning: boolean;
+    onCancelOptimization: () => void;
     populationSize: number;
     onPopulationSizeChange: (size: number) => void;
     maxIterations: number;
     onMaxIterationsChange: (count: number) => void;
+    seed: number;
+    onSeedChange: (seed: number) => void;
+    dimensions: number;
+    onDimensionsChange: (dimensions: number) => void;
+    /** Whether the current algorithm and function support more than 2 dimensions */
+    ndAvailable: boolean;
+    projection: [number, number];
+    onProjectionChange: (projection: [number, number]) => void;
+    recording: RecordingConfig;
+    onRecordingChange: (recording: RecordingConfig) => void;
 }
 
 export function Controls({
@@ -28,11 +45,26 @@ export function Controls({
     onFrameChange,
     onSpeedChange,
     onRunOptimization,
+    isRunning,
+    onCancelOptimization,
     populationSize,
     onPopulationSizeChange,
     maxIterations,
-    onMaxIterationsChange
+    onMaxIterationsChange,
+    seed,
+    onSeedChange,
+    dimensions,
+    onDimensionsChange,
+    ndAvailable,
+    projection,
+    onProjectionChange,
+    recording,
+    onRecordingChange
 }: ControlsProps) {
+    const axisOptions = Array.from({ length: dimensions }, (_, d) => (
+        <option key={d} value={d}>x{d + 1}</option>
+    ));
+
     return (
         <div className="controls-panel">
             <div className="control-group">
@@ -70,9 +102,107 @@ export function Controls({
             </div>
 
             <div className="control-group">
-                <button id="btn-run" className="btn-run" onClick={onRunOptimization}>
-                    Run Optimization
-                </button>
+                <label className="control-label">
+                    <Layers size={12} /> DIMENSIONS
+                </label>
+                <div className="frame-control">
+                    <input
+                        type="range"
+                        min={2}
+                        max={50}
+                        step={1}
+                        value={dimensions}
+                        disabled={!ndAvailable}
+                        title={ndAvailable ? undefined : 'This algorithm/function pair is 2D only'}
+                        onChange={(e) => onDimensionsChange(parseInt(e.target.value))}
+                    />
+                    <span className="control-value">{dimensions}</span>
+                </div>
+                {dimensions > 2 && (
+                    <div className="projection-control">
+                        <select
+                            value={projection[0]}
+                            onChange={(e) => onProjectionChange([parseInt(e.target.value), projection[1]])}
+                        >
+                            {axisOptions}
+                        </select>
+                        <span>vs</span>
+                        <select
+                            value={projection[1]}
+                            onChange={(e) => onProjectionChange([projection[0], parseInt(e.target.value)])}
+                        >
+                            {axisOptions}
+                        </select>
+                    </div>
+                )}
+            </div>
+
+            <div className="control-group">
+                <label className="control-label">
+                    <Database size={12} /> RECORDING
+                </label>
+                <div className="projection-control">
+                    <select
+                        value={recording.mode}
+                        onChange={(e) => onRecordingChange({ ...recording, mode: e.target.value as RecordingMode })}
+                    >
+                        {recordingModes.map(m => (
+                            <option key={m.value} value={m.value}>{m.label}</option>
+                        ))}
+                    </select>
+                    {recording.mode === 'interval' && (
+                        <>
+                            <span>k</span>
+                            <input
+                                type="number"
+                                min={SETTING_LIMITS.recordingInterval.min}
+                                max={SETTING_LIMITS.recordingInterval.max}
+                                step={1}
+                                value={recording.interval ?? 10}
+                                onChange={(e) => onRecordingChange({
+                                    ...recording,
+                                    interval: clampToLimit(parseInt(e.target.value) || 1, SETTING_LIMITS.recordingInterval)
+                                })}
+                            />
+                        </>
+                    )}
+                </div>
+            </div>
+
+            <div className="control-group">
+                <label className="control-label">
+                    <Dices size={12} /> SEED
+                </label>
+                <div className="seed-control">
+                    <input
+                        type="number"
+                        id="seed-input"
+                        min={SETTING_LIMITS.seed.min}
+                        max={SETTING_LIMITS.seed.max}
+                        step={1}
+                        value={seed}
+                        onChange={(e) => onSeedChange(clampToLimit(parseInt(e.target.value) || 0, SETTING_LIMITS.seed))}
+                    />
+                    <button
+                        className="btn-seed"
+                        onClick={() => onSeedChange(randomSeed())}
+                        title="New random seed"
+                    >
+                        <Dices size={14} />
+                    </button>
+                </div>
+            </div>
+
+            <div className="control-group">
+                {isRunning ? (
+                    <button id="btn-run" className="btn-run" onClick={onCancelOptimization}>
+                        Cancel ({maxFrame} iterations so far)
+                    </button>
+                ) : (
+                    <button id="btn-run" className="btn-run" onClick={onRunOptimization}>
+                        Run Optimization
+                    </button>
+                )}
             </div>
 
             <div className="control-group">
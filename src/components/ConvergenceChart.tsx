@@ -29,11 +29,18 @@ export function ConvergenceChart({ history, currentFrame, yMin, yMax }: Converge
         ctx.fillStyle = '#252542';
         ctx.fillRect(0, 0, width, height);
 
-        // Extract fitness data
-        // Extract fitness data
-        const fitnessData = history.map(h => h.globalBestFitness);
-        const dataMax = Math.max(...fitnessData);
-        const dataMin = Math.min(...fitnessData);
+        // Extract fitness data (the archive's hypervolume for multi-objective runs)
+        const pareto = history[0].pareto !== undefined;
+        const fitnessData = pareto
+            ? history.map(h => h.pareto?.hypervolume ?? NaN)
+            : history.map(h => h.globalBestFitness);
+        // Noiseless value of the best, for noisy problems
+        const trueData = history[0].globalBestTrueFitness !== undefined
+            ? history.map(h => h.globalBestTrueFitness ?? NaN)
+            : null;
+        const allData = trueData ? [...fitnessData, ...trueData.filter(f => !Number.isNaN(f))] : fitnessData;
+        const dataMax = Math.max(...allData);
+        const dataMin = Math.min(...allData);
 
         // Use props overrides if available, else local data range
         const maxFitness = yMax !== undefined ? yMax : dataMax;
@@ -87,6 +94,21 @@ export function ConvergenceChart({ history, currentFrame, yMin, yMax }: Converge
         });
         ctx.stroke();
 
+        if (trueData) {
+            ctx.strokeStyle = '#f59e0b';
+            ctx.lineWidth = 1.5;
+            ctx.setLineDash([4, 3]);
+            ctx.beginPath();
+            trueData.forEach((fitness, i) => {
+                const x = padding.left + (chartWidth * i) / (history.length - 1 || 1);
+                const y = padding.top + chartHeight * (1 - (maxFitness - fitness) / range);
+                if (i === 0) ctx.moveTo(x, y);
+                else ctx.lineTo(x, y);
+            });
+            ctx.stroke();
+            ctx.setLineDash([]);
+        }
+
         // Draw current frame marker
         if (currentFrame < history.length) {
             const x = padding.left + (chartWidth * currentFrame) / (history.length - 1 || 1);
@@ -121,7 +143,11 @@ export function ConvergenceChart({ history, currentFrame, yMin, yMax }: Converge
         ctx.fillStyle = '#f0f0f0';
         ctx.font = '12px system-ui';
         ctx.textAlign = 'left';
-        ctx.fillText('Best Fitness', padding.left, 14);
+        ctx.fillText(pareto ? 'Hypervolume' : 'Best Fitness', padding.left, 14);
+        if (trueData) {
+            ctx.fillStyle = '#f59e0b';
+            ctx.fillText('- - true', padding.left + 80, 14);
+        }
 
     }, [history, currentFrame, yMin, yMax]);
 
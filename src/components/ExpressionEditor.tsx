@@ -0,0 +1,157 @@
+import { useMemo, useState } from 'react';
+import { Check, X } from 'lucide-react';
+import { CustomFunctionDefinition, compileCustomFunction, newCustomFunctionId } from '../core/custom-functions';
+import { expressionConstants, expressionFunctions } from '../core/expression';
+
+interface ExpressionEditorProps {
+    /** Definition being edited; a new function is created when omitted */
+    initial?: CustomFunctionDefinition;
+    onSave: (definition: CustomFunctionDefinition) => void;
+    onCancel: () => void;
+}
+
+/** Form fields, kept as text so partial input can be typed */
+interface EditorFields {
+    name: string;
+    expression: string;
+    min: string;
+    max: string;
+    /** Known minimum; left blank to estimate it */
+    minX: string;
+    minY: string;
+    minF: string;
+}
+
+const NEW_FUNCTION: EditorFields = {
+    name: 'My Function',
+    expression: 'sin(x)*cos(y) + 0.1*(x^2+y^2)',
+    min: '-5',
+    max: '5',
+    minX: '',
+    minY: '',
+    minF: ''
+};
+
+function toFields(definition: CustomFunctionDefinition): EditorFields {
+    const known = definition.globalMinimum;
+    return {
+        name: definition.name,
+        expression: definition.expression,
+        min: String(definition.bounds.min),
+        max: String(definition.bounds.max),
+        minX: known ? String(known.x[0]) : '',
+        minY: known ? String(known.x[1]) : '',
+        minF: known ? String(known.f) : ''
+    };
+}
+
+/**
+ * Build a definition from the form
+ *
+ * @throws Error describing the first invalid field
+ */
+function toDefinition(fields: EditorFields, id: string): CustomFunctionDefinition {
+    const number = (text: string, label: string) => {
+        const value = Number(text);
+        if (text.trim() === '' || !Number.isFinite(value)) throw new Error(`${label} must be a number`);
+        return value;
+    };
+
+    const definition: CustomFunctionDefinition = {
+        id,
+        name: fields.name.trim() || 'Custom Function',
+        expression: fields.expression,
+        bounds: { min: number(fields.min, 'Min bound'), max: number(fields.max, 'Max bound') }
+    };
+
+    const minimumFields = [fields.minX, fields.minY, fields.minF];
+    if (minimumFields.some(text => text.trim() !== '')) {
+        definition.globalMinimum = {
+            x: [number(fields.minX, 'Minimum x'), number(fields.minY, 'Minimum y')],
+            f: number(fields.minF, 'Minimum value')
+        };
+    }
+
+    // Surface expression and bounds errors while typing
+    compileCustomFunction(definition);
+    return definition;
+}
+
+/**
+ * Form for writing a test function as an expression in x and y
+ */
+export function ExpressionEditor({ initial, onSave, onCancel }: ExpressionEditorProps) {
+    const [id] = useState(() => initial?.id ?? newCustomFunctionId());
+    const [fields, setFields] = useState<EditorFields>(() => (initial ? toFields(initial) : NEW_FUNCTION));
+
+    const result = useMemo(() => {
+        try {
+            return { definition: toDefinition(fields, id), error: null };
+        } catch (err) {
+            return { definition: null, error: err instanceof Error ? err.message : String(err) };
+        }
+    }, [fields, id]);
+
+    const field = (key: keyof EditorFields) => ({
+        value: fields[key],
+        onChange: (e: React.ChangeEvent<HTMLInputElement>) => setFields(prev => ({ ...prev, [key]: e.target.value }))
+    });
+
+    return (
+        <div className="expression-editor">
+            <label className="expression-field">
+                <span>Name</span>
+                <input type="text" {...field('name')} />
+            </label>
+            <label className="expression-field">
+                <span>f(x, y) =</span>
+                <input type="text" className="expression-input" spellCheck={false} {...field('expression')} />
+            </label>
+
+            <div className="expression-row">
+                <label className="expression-field">
+                    <span>Min</span>
+                    <input type="text" inputMode="decimal" {...field('min')} />
+                </label>
+                <label className="expression-field">
+                    <span>Max</span>
+                    <input type="text" inputMode="decimal" {...field('max')} />
+                </label>
+            </div>
+
+            <div className="expression-row">
+                <label className="expression-field">
+                    <span>Min at x</span>
+                    <input type="text" inputMode="decimal" placeholder="auto" {...field('minX')} />
+                </label>
+                <label className="expression-field">
+                    <span>y</span>
+                    <input type="text" inputMode="decimal" placeholder="auto" {...field('minY')} />
+                </label>
+                <label className="expression-field">
+                    <span>f</span>
+                    <input type="text" inputMode="decimal" placeholder="auto" {...field('minF')} />
+                </label>
+            </div>
+
+            {result.error
+                ? <div className="run-error">{result.error}</div>
+                : !result.definition?.globalMinimum && (
+                    <div className="expression-note">Known minimum left blank: it is estimated on a grid.</div>
+                )}
+
+            <div className="expression-help">
+                Operators + − * / % ^, functions {expressionFunctions.join(', ')}; constants {expressionConstants.join(', ')}
+            </div>
+
+            <div className="run-file-buttons">
+                <button onClick={() => result.definition && onSave(result.definition)} disabled={!result.definition}>
+                    <Check size={14} /> Save
+                </button>
+                <button onClick={onCancel}>
+                    <X size={14} /> Cancel
+                </button>
+            </div>
+        </div>
+    );
+}
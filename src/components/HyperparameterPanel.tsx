@@ -1,14 +1,28 @@
 import { useState } from 'react';
 import { Settings, HelpCircle, RotateCcw } from 'lucide-react';
-import { HyperparameterDef, NumericHyperparameterDef, EnumHyperparameterDef } from '../core/types';
+import { HyperparameterDef, NumericHyperparameterDef, EnumHyperparameterDef, BoundaryHandling } from '../core/types';
+import { boundaryHandlingMethods } from '../core/boundary';
 
 interface HyperparameterPanelProps {
     hyperparameters: HyperparameterDef[];
     values: Record<string, string | number>;
     onChange: (key: string, value: string | number) => void;
     onReset: () => void;
+    /** Shared boundary handling setting; shown only for continuous algorithms */
+    boundaryHandling?: BoundaryHandling;
+    onBoundaryHandlingChange?: (method: BoundaryHandling) => void;
 }
 
+/** Boundary handling, presented like an enum hyperparameter of every continuous algorithm */
+const boundaryParam: EnumHyperparameterDef = {
+    type: 'enum',
+    key: 'boundaryHandling',
+    name: 'Boundary Handling',
+    description: 'What happens to agents that leave the search box. Shared by all continuous algorithms.',
+    options: boundaryHandlingMethods,
+    defaultValue: 'clamp'
+};
+
 interface TooltipProps {
     content: string;
     children: React.ReactNode;
@@ -114,11 +128,14 @@ export function HyperparameterPanel({
     hyperparameters,
     values,
     onChange,
-    onReset
+    onReset,
+    boundaryHandling,
+    onBoundaryHandlingChange
 }: HyperparameterPanelProps) {
     const [isExpanded, setIsExpanded] = useState(true);
+    const showBoundary = boundaryHandling !== undefined && onBoundaryHandlingChange !== undefined;
 
-    if (hyperparameters.length === 0) {
+    if (hyperparameters.length === 0 && !showBoundary) {
         return null;
     }
 
@@ -135,6 +152,15 @@ export function HyperparameterPanel({
 
             {isExpanded && (
                 <div className="hyperparameter-content">
+                    {showBoundary && (
+                        <div className="hyperparam-control hyperparam-shared">
+                            <EnumControl
+                                param={boundaryParam}
+                                value={boundaryHandling}
+                                onChange={(val) => onBoundaryHandlingChange(val as BoundaryHandling)}
+                            />
+                        </div>
+                    )}
                     {hyperparameters.map(param => (
                         <div key={param.key} className="hyperparam-control">
                             {isEnumParam(param) ? (
@@ -152,10 +178,12 @@ export function HyperparameterPanel({
                             )}
                         </div>
                     ))}
-                    <button className="btn-reset-params" onClick={onReset}>
-                        <RotateCcw size={14} />
-                        Reset to Defaults
-                    </button>
+                    {hyperparameters.length > 0 && (
+                        <button className="btn-reset-params" onClick={onReset}>
+                            <RotateCcw size={14} />
+                            Reset to Defaults
+                        </button>
+                    )}
                 </div>
             )}
         </div>
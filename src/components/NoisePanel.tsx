@@ -0,0 +1,110 @@
+import { Waves } from 'lucide-react';
+import { NoiseConfig, NoiseHandling, NoiseModel } from '../core/types';
+import { noiseModels, noiseHandlingMethods } from '../core/noise';
+
+interface NoisePanelProps {
+    /** Current noise settings; null for a noiseless objective */
+    noise: NoiseConfig | null;
+    onChange: (noise: NoiseConfig | null) => void;
+}
+
+const DEFAULT_NOISE: NoiseConfig = { model: 'gaussian', level: 1, handling: 'none', samples: 5 };
+
+/**
+ * Noise model and noise handling selector, shown for continuous problems
+ */
+export function NoisePanel({ noise, onChange }: NoisePanelProps) {
+    const handling = noise?.handling ?? 'none';
+    const currentModel = noiseModels.find(m => m.value === noise?.model);
+    const currentHandling = noiseHandlingMethods.find(m => m.value === handling);
+
+    const update = (change: Partial<NoiseConfig>) => onChange({ ...DEFAULT_NOISE, ...noise, ...change });
+
+    return (
+        <div className="hyperparameter-panel">
+            <div className="hyperparameter-header">
+                <Waves size={16} />
+                <span>Noise</span>
+                <span className="expand-icon">{currentModel ? `σ ${noise!.level}` : 'off'}</span>
+            </div>
+            <div className="hyperparameter-content">
+                <div className="hyperparam-control">
+                    <div className="hyperparam-label">
+                        <span className="hyperparam-name">Model</span>
+                    </div>
+                    <select
+                        className="hyperparam-select"
+                        value={noise?.model ?? 'off'}
+                        onChange={(e) => e.target.value === 'off'
+                            ? onChange(null)
+                            : update({ model: e.target.value as NoiseModel })}
+                    >
+                        <option value="off">Off</option>
+                        {noiseModels.map(m => (
+                            <option key={m.value} value={m.value}>
+                                {m.label}
+                            </option>
+                        ))}
+                    </select>
+                    {currentModel && <div className="constraint-method-desc">{currentModel.description}</div>}
+                </div>
+
+                {noise && (
+                    <>
+                        <div className="hyperparam-control">
+                            <div className="hyperparam-label">
+                                <span className="hyperparam-name">Level σ</span>
+                                <span className="hyperparam-value">{noise.level.toFixed(2)}</span>
+                            </div>
+                            <input
+                                type="range"
+                                min={0}
+                                max={10}
+                                step={0.05}
+                                value={noise.level}
+                                onChange={(e) => update({ level: parseFloat(e.target.value) })}
+                                className="hyperparam-slider"
+                            />
+                        </div>
+
+                        <div className="hyperparam-control">
+                            <div className="hyperparam-label">
+                                <span className="hyperparam-name">Handling</span>
+                            </div>
+                            <select
+                                className="hyperparam-select"
+                                value={handling}
+                                onChange={(e) => update({ handling: e.target.value as NoiseHandling })}
+                            >
+                                {noiseHandlingMethods.map(m => (
+                                    <option key={m.value} value={m.value}>
+                                        {m.label}
+                                    </option>
+                                ))}
+                            </select>
+                            <div className="constraint-method-desc">{currentHandling?.description}</div>
+                        </div>
+
+                        {handling === 'resampling' && (
+                            <div className="hyperparam-control">
+                                <div className="hyperparam-label">
+                                    <span className="hyperparam-name">Samples</span>
+                                    <span className="hyperparam-value">{noise.samples ?? DEFAULT_NOISE.samples}</span>
+                                </div>
+                                <input
+                                    type="range"
+                                    min={2}
+                                    max={20}
+                                    step={1}
+                                    value={noise.samples ?? DEFAULT_NOISE.samples}
+                                    onChange={(e) => update({ samples: parseInt(e.target.value) })}
+                                    className="hyperparam-slider"
+                                />
+                            </div>
+                        )}
+                    </>
+                )}
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,59 @@
+import { useEffect, useMemo, useRef } from 'react';
+import { ParetoCanvas } from '../visualization/ParetoCanvas';
+import { IterationState, Solution } from '../core/types';
+import { MultiObjectiveProblemInfo } from '../core/multi-objective-problems';
+
+interface ParetoViewProps {
+    history: IterationState<Solution>[];
+    currentFrame: number;
+    problem: MultiObjectiveProblemInfo;
+}
+
+/**
+ * Objective space for multi-objective runs: agents and the Pareto archive
+ * over the true front, frame by frame
+ */
+export function ParetoView({ history, currentFrame, problem }: ParetoViewProps) {
+    const canvasRef = useRef<HTMLCanvasElement>(null);
+    const paretoCanvasRef = useRef<ParetoCanvas | null>(null);
+    const trueFront = useMemo(() => problem.paretoFront(), [problem]);
+
+    // Initialize ParetoCanvas
+    useEffect(() => {
+        if (canvasRef.current && !paretoCanvasRef.current) {
+            paretoCanvasRef.current = new ParetoCanvas(canvasRef.current);
+        }
+    }, []);
+
+    // Fix the axes when the problem changes
+    useEffect(() => {
+        paretoCanvasRef.current?.setProblem(trueFront, problem.referencePoint);
+    }, [trueFront, problem]);
+
+    // Render current state
+    useEffect(() => {
+        const canvas = paretoCanvasRef.current;
+        if (!canvas) return;
+
+        const state = history[currentFrame];
+        if (!state?.pareto) return;
+
+        // Ignore frames from a run on a different problem
+        if (state.globalBest.length !== problem.dimensions) return;
+
+        canvas.render({
+            agents: state.agents.flatMap(agent => (agent.objectives ? [agent.objectives] : [])),
+            front: state.pareto.front.map(solution => solution.objectives),
+            iteration: state.iteration,
+            hypervolume: state.pareto.hypervolume
+        });
+    }, [history, currentFrame, problem, trueFront]);
+
+    return (
+        <canvas
+            ref={canvasRef}
+            id="pareto-canvas"
+            className="swarm-canvas"
+        />
+    );
+}
@@ -0,0 +1,81 @@
+import { useRef, useState } from 'react';
+import { Download, Upload, FileJson, FileSpreadsheet } from 'lucide-react';
+import { RunFile, serializeRunFile, parseRunFile } from '../io/run-file';
+import { convergenceCsv, agentsCsv } from '../io/csv';
+import { downloadText, readFileText } from '../io/browser';
+
+interface RunFilePanelProps {
+    /** Build a run file for the current history (null when there is nothing to export) */
+    exportRun: () => RunFile | null;
+    /** Load a parsed run file for replay; may throw if it cannot be replayed */
+    onImport: (file: RunFile) => void;
+    disabled?: boolean;
+}
+
+type ExportKind = 'json' | 'convergence' | 'agents';
+
+/**
+ * Save the current run as JSON/CSV, or load a saved run for replay
+ */
+export function RunFilePanel({ exportRun, onImport, disabled = false }: RunFilePanelProps) {
+    const inputRef = useRef<HTMLInputElement>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    const handleExport = (kind: ExportKind) => {
+        const file = exportRun();
+        if (!file) return;
+
+        const { algorithmId, functionId, seed } = file.settings;
+        const base = `${algorithmId}_${functionId}_${seed ?? 'unseeded'}`;
+        if (kind === 'json') {
+            downloadText(`${base}.json`, serializeRunFile(file), 'application/json');
+        } else if (kind === 'convergence') {
+            downloadText(`${base}_convergence.csv`, convergenceCsv(file.history), 'text/csv');
+        } else {
+            downloadText(`${base}_agents.csv`, agentsCsv(file.history), 'text/csv');
+        }
+    };
+
+    const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const selected = e.target.files?.[0];
+        e.target.value = '';
+        if (!selected) return;
+
+        try {
+            onImport(parseRunFile(await readFileText(selected)));
+            setError(null);
+        } catch (err) {
+            setError(`${selected.name}: ${err instanceof Error ? err.message : String(err)}`);
+        }
+    };
+
+    return (
+        <div className="controls-panel run-file-panel">
+            <label className="control-label">
+                <Download size={12} /> EXPORT / IMPORT
+            </label>
+            <div className="run-file-buttons">
+                <button onClick={() => handleExport('json')} disabled={disabled} title="Full run as JSON">
+                    <FileJson size={14} /> JSON
+                </button>
+                <button onClick={() => handleExport('convergence')} disabled={disabled} title="Best fitness per iteration">
+                    <FileSpreadsheet size={14} /> Convergence
+                </button>
+                <button onClick={() => handleExport('agents')} disabled={disabled} title="Every agent at every recorded iteration">
+                    <FileSpreadsheet size={14} /> Agents
+                </button>
+                <button onClick={() => inputRef.current?.click()} title="Load a run file and replay it">
+                    <Upload size={14} /> Import
+                </button>
+            </div>
+            <input
+                ref={inputRef}
+                type="file"
+                accept=".json,application/json"
+                hidden
+                onChange={handleImport}
+            />
+            {error && <div className="run-error">{error}</div>}
+        </div>
+    );
+}
@@ -0,0 +1,32 @@
+import { IterationState, Solution, OptimizationType } from '../core/types';
+
+interface SolutionViewProps {
+    history: IterationState<Solution>[];
+    currentFrame: number;
+    optimizationType: OptimizationType;
+    problemName: string;
+}
+
+/**
+ * Text view of the best permutation or bit string, shown in place of the
+ * landscape canvas for problems that have no 2D landscape
+ */
+export function SolutionView({ history, currentFrame, optimizationType, problemName }: SolutionViewProps) {
+    const state = history[currentFrame];
+    const best = state?.globalBest ?? [];
+    const text = optimizationType === 'binary' ? best.join('') : best.join(' → ');
+
+    return (
+        <div className="solution-view">
+            <div className="solution-view-header">
+                Best {optimizationType === 'binary' ? 'bit string' : 'permutation'} · {problemName}
+            </div>
+            <div className="solution-view-body">{state ? text : 'Run the optimization to see a solution'}</div>
+            {state && (
+                <div className="solution-view-footer">
+                    {state.agents.length} agents · fitness {state.globalBestFitness}
+                </div>
+            )}
+        </div>
+    );
+}
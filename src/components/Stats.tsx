@@ -1,13 +1,40 @@
 interface StatsProps {
     iteration: number;
     bestFitness: number;
-    bestPosition: [number, number];
+    /** Noiseless value of the best; only for noisy problems */
+    bestTrueFitness?: number;
+    /** Projected best position; omitted for permutation and bit-string problems */
+    bestPosition?: [number, number];
     functionName: string;
+    evaluations?: number;
+    stopReason?: string;
+    /** Agents inside the feasible region; only for constrained problems */
+    feasibleAgents?: { feasible: number; total: number };
+    /** Environment shown; only for dynamic problems */
+    environment?: number;
+    /** Offline error so far; only for dynamic problems */
+    offlineError?: number;
+    /** Archive size and front metrics; only for multi-objective problems */
+    pareto?: { archiveSize: number; hypervolume: number; igd: number; spread: number };
 }
 
-export function Stats({ iteration, bestFitness, bestPosition, functionName }: StatsProps) {
+export function Stats({
+    iteration,
+    bestFitness,
+    bestTrueFitness,
+    bestPosition,
+    functionName,
+    evaluations,
+    stopReason,
+    feasibleAgents,
+    environment,
+    offlineError,
+    pareto
+}: StatsProps) {
     const formatFitness = (f: number) =>
         f < 0.0001 || f > 9999 ? f.toExponential(2) : f.toFixed(4);
+    // Front metrics are NaN when undefined (e.g. spread of a single point)
+    const formatMetric = (f: number) => (Number.isFinite(f) ? formatFitness(f) : '—');
 
     return (
         <div className="stats-panel">
@@ -16,20 +43,80 @@ export function Stats({ iteration, bestFitness, bestPosition, functionName }: St
                 <span className="stat-label">Iteration:</span>
                 <span className="stat-value" id="stat-iteration">{iteration}</span>
             </div>
+            {evaluations !== undefined && (
+                <div className="stat-row">
+                    <span className="stat-label">Evaluations:</span>
+                    <span className="stat-value" id="stat-evaluations">{evaluations}</span>
+                </div>
+            )}
             <div className="stat-row">
                 <span className="stat-label">Best Fitness:</span>
                 <span className="stat-value" id="stat-fitness">{formatFitness(bestFitness)}</span>
             </div>
-            <div className="stat-row">
-                <span className="stat-label">Best Position:</span>
-                <span className="stat-value" id="stat-position">
-                    ({bestPosition[0].toFixed(3)}, {bestPosition[1].toFixed(3)})
-                </span>
-            </div>
+            {bestTrueFitness !== undefined && (
+                <div className="stat-row">
+                    <span className="stat-label">True Fitness:</span>
+                    <span className="stat-value" id="stat-true-fitness">{formatFitness(bestTrueFitness)}</span>
+                </div>
+            )}
+            {bestPosition && (
+                <div className="stat-row">
+                    <span className="stat-label">Best Position:</span>
+                    <span className="stat-value" id="stat-position">
+                        ({bestPosition[0].toFixed(3)}, {bestPosition[1].toFixed(3)})
+                    </span>
+                </div>
+            )}
+            {feasibleAgents && (
+                <div className="stat-row">
+                    <span className="stat-label">Feasible:</span>
+                    <span className="stat-value" id="stat-feasible">
+                        {feasibleAgents.feasible} / {feasibleAgents.total}
+                    </span>
+                </div>
+            )}
+            {environment !== undefined && (
+                <div className="stat-row">
+                    <span className="stat-label">Environment:</span>
+                    <span className="stat-value" id="stat-environment">{environment}</span>
+                </div>
+            )}
+            {offlineError !== undefined && (
+                <div className="stat-row">
+                    <span className="stat-label">Offline Error:</span>
+                    <span className="stat-value" id="stat-offline-error">{formatFitness(offlineError)}</span>
+                </div>
+            )}
+            {pareto && (
+                <>
+                    <div className="stat-row">
+                        <span className="stat-label">Archive:</span>
+                        <span className="stat-value" id="stat-archive">{pareto.archiveSize}</span>
+                    </div>
+                    <div className="stat-row">
+                        <span className="stat-label">Hypervolume:</span>
+                        <span className="stat-value" id="stat-hypervolume">{formatMetric(pareto.hypervolume)}</span>
+                    </div>
+                    <div className="stat-row">
+                        <span className="stat-label">IGD:</span>
+                        <span className="stat-value" id="stat-igd">{formatMetric(pareto.igd)}</span>
+                    </div>
+                    <div className="stat-row">
+                        <span className="stat-label">Spread Δ:</span>
+                        <span className="stat-value" id="stat-spread">{formatMetric(pareto.spread)}</span>
+                    </div>
+                </>
+            )}
             <div className="stat-row">
                 <span className="stat-label">Function:</span>
                 <span className="stat-value" id="stat-function">{functionName}</span>
             </div>
+            {stopReason && (
+                <div className="stat-row">
+                    <span className="stat-label">Stopped:</span>
+                    <span className="stat-value" id="stat-stop-reason">{stopReason}</span>
+                </div>
+            )}
         </div>
     );
 }
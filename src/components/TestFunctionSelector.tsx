@@ -1,17 +1,119 @@
-import { useState } from 'react';
-import { FlaskConical, ChevronDown } from 'lucide-react';
-import { testFunctions } from '../core/test-functions';
+import { Fragment, useRef, useState } from 'react';
+import { FlaskConical, ChevronDown, Plus, Pencil, Trash2, Download, Upload } from 'lucide-react';
+import { testFunctions, testFunctionGroups } from '../core/test-functions';
+import { discreteProblems, binaryProblems } from '../core/combinatorial-problems';
+import { multiObjectiveProblems } from '../core/multi-objective-problems';
+import { CustomFunctionDefinition, getCustomFunctionDefinition } from '../core/custom-functions';
+import { OptimizationType } from '../core/types';
+import { downloadText, readFileText } from '../io/browser';
+import { ExpressionEditor } from './ExpressionEditor';
 
 interface TestFunctionSelectorProps {
     currentFunction: string;
     onChange: (functionId: string) => void;
+    /** Which problems to list: test functions, permutation/bit-string or multi-objective problems */
+    optimizationType?: OptimizationType;
+    /** Store a new or edited custom function; enables the expression editor */
+    onSaveCustom?: (definition: CustomFunctionDefinition) => void;
+    onDeleteCustom?: (id: string) => void;
+    /** All custom functions as a JSON document */
+    exportCustom?: () => string;
+    /** Add the custom functions of a JSON document; may throw */
+    onImportCustom?: (text: string) => CustomFunctionDefinition[];
 }
 
-export function TestFunctionSelector({ currentFunction, onChange }: TestFunctionSelectorProps) {
+interface ProblemOption {
+    id: string;
+    name: string;
+    description: string;
+    /** Search space summary shown next to the name */
+    domain: string;
+    optimal: string;
+    /** Section heading in the dropdown */
+    group?: string;
+}
+
+function formatPoint(x: number[]): string {
+    return x.map(v => +v.toFixed(4)).join(', ');
+}
+
+function problemOptions(type: OptimizationType): ProblemOption[] {
+    if (type === 'continuous') {
+        // Listed by group, in catalogue order
+        return testFunctionGroups.flatMap(group =>
+            Object.entries(testFunctions)
+                .filter(([, func]) => (func.group ?? 'multimodal') === group.value)
+                .map(([id, func]) => ({
+                    id,
+                    name: func.name,
+                    description: func.description,
+                    domain: `[${+func.bounds.min.toFixed(4)}, ${+func.bounds.max.toFixed(4)}]`,
+                    optimal: `${func.minimumEstimated ? '≈ ' : ''}(${formatPoint(func.globalMinimum.x)}) = ${+func.globalMinimum.f.toFixed(4)}`,
+                    group: group.label
+                }))
+        );
+    }
+
+    if (type === 'multiobjective') {
+        return Object.entries(multiObjectiveProblems).map(([id, problem]) => ({
+            id,
+            name: problem.name,
+            description: problem.description,
+            domain: `${problem.dimensions}D → ${problem.objectives} objectives`,
+            optimal: 'Pareto front'
+        }));
+    }
+
+    const problems = type === 'discrete' ? discreteProblems : binaryProblems;
+    const unit = type === 'discrete' ? 'elements' : 'bits';
+    return Object.entries(problems).map(([id, problem]) => ({
+        id,
+        name: problem.name,
+        description: problem.description,
+        domain: `${problem.dimensions} ${unit}`,
+        optimal: problem.globalMinimum !== undefined ? String(problem.globalMinimum) : 'unknown'
+    }));
+}
+
+export function TestFunctionSelector({
+    currentFunction,
+    onChange,
+    optimizationType = 'continuous',
+    onSaveCustom,
+    onDeleteCustom,
+    exportCustom,
+    onImportCustom
+}: TestFunctionSelectorProps) {
     const [isOpen, setIsOpen] = useState(false);
+    /** Definition in the expression editor ('new' for a blank one) */
+    const [editing, setEditing] = useState<CustomFunctionDefinition | 'new' | null>(null);
+    const [importError, setImportError] = useState<string | null>(null);
+    const inputRef = useRef<HTMLInputElement>(null);
+
+    const functionList = problemOptions(optimizationType);
+    const currentFunc = functionList.find(func => func.id === currentFunction);
+    const canEdit = optimizationType === 'continuous' && onSaveCustom !== undefined;
+    const currentCustom = canEdit ? getCustomFunctionDefinition(currentFunction) : undefined;
+
+    const handleSave = (definition: CustomFunctionDefinition) => {
+        onSaveCustom?.(definition);
+        onChange(definition.id);
+        setEditing(null);
+    };
 
-    const currentFunc = testFunctions[currentFunction];
-    const functionList = Object.entries(testFunctions);
+    const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const selected = e.target.files?.[0];
+        e.target.value = '';
+        if (!selected || !onImportCustom) return;
+
+        try {
+            const imported = onImportCustom(await readFileText(selected));
+            if (imported.length > 0) onChange(imported[0].id);
+            setImportError(null);
+        } catch (err) {
+            setImportError(`${selected.name}: ${err instanceof Error ? err.message : String(err)}`);
+        }
+    };
 
     return (
         <div className="function-selector">
@@ -29,29 +131,78 @@ export function TestFunctionSelector({ currentFunction, onChange }: TestFunction
 
             {isOpen && (
                 <div className="function-dropdown">
-                    {functionList.map(([id, func]) => (
-                        <button
-                            key={id}
-                            className={`function-option ${id === currentFunction ? 'active' : ''}`}
-                            onClick={() => {
-                                onChange(id);
-                                setIsOpen(false);
-                            }}
-                        >
-                            <div className="function-option-header">
-                                <span className="function-option-name">{func.name}</span>
-                                <span className="function-bounds">
-                                    [{func.bounds.min}, {func.bounds.max}]
-                                </span>
-                            </div>
-                            <div className="function-option-desc">{func.description}</div>
-                            <div className="function-optimal">
-                                Optimal: ({func.globalMinimum.x.join(', ')}) = {func.globalMinimum.f}
-                            </div>
-                        </button>
+                    {functionList.map((func, i) => (
+                        <Fragment key={func.id}>
+                            {func.group && func.group !== functionList[i - 1]?.group && (
+                                <div className="function-group-label">{func.group}</div>
+                            )}
+                            <button
+                                className={`function-option ${func.id === currentFunction ? 'active' : ''}`}
+                                onClick={() => {
+                                    onChange(func.id);
+                                    setIsOpen(false);
+                                }}
+                            >
+                                <div className="function-option-header">
+                                    <span className="function-option-name">{func.name}</span>
+                                    <span className="function-bounds">{func.domain}</span>
+                                </div>
+                                <div className="function-option-desc">{func.description}</div>
+                                <div className="function-optimal">Optimal: {func.optimal}</div>
+                            </button>
+                        </Fragment>
                     ))}
+                    {canEdit && (
+                        <div className="function-dropdown-actions">
+                            <button onClick={() => { setEditing('new'); setIsOpen(false); }}>
+                                <Plus size={14} /> New function
+                            </button>
+                            {exportCustom && (
+                                <button onClick={() => downloadText('custom-functions.json', exportCustom(), 'application/json')}>
+                                    <Download size={14} /> Export
+                                </button>
+                            )}
+                            {onImportCustom && (
+                                <button onClick={() => inputRef.current?.click()}>
+                                    <Upload size={14} /> Import
+                                </button>
+                            )}
+                        </div>
+                    )}
+                </div>
+            )}
+
+            {currentCustom && !editing && (
+                <div className="function-custom-actions">
+                    <button onClick={() => setEditing(currentCustom)} title="Edit this function">
+                        <Pencil size={12} /> Edit
+                    </button>
+                    {onDeleteCustom && (
+                        <button onClick={() => onDeleteCustom(currentCustom.id)} title="Delete this function">
+                            <Trash2 size={12} /> Delete
+                        </button>
+                    )}
                 </div>
             )}
+
+            {editing && (
+                <ExpressionEditor
+                    key={editing === 'new' ? 'new' : editing.id}
+                    initial={editing === 'new' ? undefined : editing}
+                    onSave={handleSave}
+                    onCancel={() => setEditing(null)}
+                />
+            )}
+
+            {importError && <div className="run-error">{importError}</div>}
+
+            <input
+                ref={inputRef}
+                type="file"
+                accept=".json,application/json"
+                hidden
+                onChange={handleImport}
+            />
         </div>
     );
 }
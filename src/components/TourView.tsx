@@ -0,0 +1,57 @@
+import { useEffect, useRef } from 'react';
+import { TourCanvas } from '../visualization/TourCanvas';
+import { IterationState, Solution } from '../core/types';
+import { TSPInstance } from '../core/tsp';
+
+interface TourViewProps {
+    history: IterationState<Solution>[];
+    currentFrame: number;
+    instance: TSPInstance;
+}
+
+/**
+ * City map for TSP runs: global-best tour over a faint overlay of agent tours
+ */
+export function TourView({ history, currentFrame, instance }: TourViewProps) {
+    const canvasRef = useRef<HTMLCanvasElement>(null);
+    const tourCanvasRef = useRef<TourCanvas | null>(null);
+
+    // Initialize TourCanvas
+    useEffect(() => {
+        if (canvasRef.current && !tourCanvasRef.current) {
+            tourCanvasRef.current = new TourCanvas(canvasRef.current);
+        }
+    }, []);
+
+    // Lay out the cities when the instance changes
+    useEffect(() => {
+        tourCanvasRef.current?.setInstance(instance);
+    }, [instance]);
+
+    // Render current state
+    useEffect(() => {
+        const canvas = tourCanvasRef.current;
+        if (!canvas) return;
+
+        const state = history[currentFrame];
+        if (!state) return;
+
+        // Ignore frames from a run on a different instance
+        if (state.globalBest.length !== instance.cities.length) return;
+
+        canvas.render({
+            best: state.globalBest,
+            bestLength: state.globalBestFitness,
+            tours: state.agents.map(agent => agent.position),
+            iteration: state.iteration
+        });
+    }, [history, currentFrame, instance]);
+
+    return (
+        <canvas
+            ref={canvasRef}
+            id="tour-canvas"
+            className="swarm-canvas"
+        />
+    );
+}
@@ -1,6 +1,6 @@
-import { Monitor, Columns } from 'lucide-react';
+import { Monitor, Columns, BarChart3 } from 'lucide-react';
 
-export type ViewMode = 'single' | 'compare';
+export type ViewMode = 'single' | 'compare' | 'benchmark';
 
 interface ViewModeToggleProps {
     mode: ViewMode;
@@ -26,6 +26,14 @@ export function ViewModeToggle({ mode, onChange }: ViewModeToggleProps) {
                 <Columns size={16} />
                 <span>Compare</span>
             </button>
+            <button
+                className={`toggle-btn ${mode === 'benchmark' ? 'active' : ''}`}
+                onClick={() => onChange('benchmark')}
+                title="Benchmark Across Independent Runs"
+            >
+                <BarChart3 size={16} />
+                <span>Benchmark</span>
+            </button>
         </div>
     );
 }
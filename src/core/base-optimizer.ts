@@ -8,23 +8,56 @@
 import {
     Solution,
     ContinuousSolution,
+    DiscreteSolution,
+    BinarySolution,
     Agent,
     IterationState,
     BaseOptimizerConfig,
     Continuous2DConfig,
+    ContinuousNDConfig,
+    DiscreteConfig,
+    BinaryConfig,
+    MultiObjectiveConfig,
+    MultiObjectiveFunction,
     Optimizer,
     Bounds,
-    ObjectiveFunction2D
+    ObjectiveFunction,
+    ObjectiveFunction2D,
+    RandomSource,
+    StopReason,
+    StoppingCriterion
 } from './types';
+import { resolveRandom } from './random';
+import { createStoppingCriteria } from './stopping';
+import { HistoryStore } from './history-store';
+import { ConstraintHandler } from './constraints';
+import { BoundaryHandler, createBoundaryHandler } from './boundary';
+import { DynamicTracker } from './dynamic';
+import { NoiseHandler } from './noise';
+import { ParetoArchive } from './pareto';
+import { paretoMetrics } from './pareto-metrics';
+
+/** Iteration horizon assumed by schedules when config.maxIterations is not set */
+const DEFAULT_MAX_ITERATIONS = 100;
+
+/** State fields describing the problem rather than the search */
+type ProblemState<T extends Solution> = Pick<
+    IterationState<T>,
+    'environment' | 'offlineError' | 'globalBestTrueFitness' | 'pareto'
+>;
 
 /**
  * Abstract base class for all swarm optimization algorithms.
  * 
  * Provides common functionality:
  * - Population management
- * - History recording
+ * - History recording (columnar, see HistoryStore)
  * - Boundary handling
  * - Global best tracking
+ * - Seeded randomness (use this.random() instead of Math.random())
+ * - Evaluation counting and stopping criteria
+ * - Change detection and response for dynamic problems
+ * - Noise handling for noisy problems
  * 
  * Subclasses implement: updatePopulation()
  */
@@ -34,11 +67,21 @@ export abstract class BaseOptimizer<T extends Solution = ContinuousSolution>
     protected population: Agent<T>[] = [];
     protected globalBest!: Agent<T>;
     protected iteration: number = 0;
-    protected history: IterationState<T>[] = [];
+    protected history: HistoryStore<T> = new HistoryStore<T>();
     protected config: BaseOptimizerConfig;
+    protected random: RandomSource;
+    protected evaluations: number = 0;
+    protected stopReason: StopReason | null = null;
+    private stoppingCriteria: StoppingCriterion[];
+    private startTime: number = Date.now();
 
     constructor(config: BaseOptimizerConfig) {
         this.config = config;
+        this.random = resolveRandom(config);
+        this.stoppingCriteria = [
+            ...createStoppingCriteria(config.stopping),
+            ...(config.stoppingCriteria ?? [])
+        ];
     }
 
     // ========================================================================
@@ -47,6 +90,7 @@ export abstract class BaseOptimizer<T extends Solution = ContinuousSolution>
 
     /** Execute a single iteration using template method pattern */
     public step(): void {
+        if (this.detectChange()) this.respondToChange();
         this.preStep();
         this.updatePopulation();
         this.postStep();
@@ -54,17 +98,40 @@ export abstract class BaseOptimizer<T extends Solution = ContinuousSolution>
         this.recordState();
     }
 
-    /** Run for N iterations */
+    /** Run for up to N iterations, or until a stopping criterion fires */
     public run(iterations: number): void {
-        for (let i = 0; i < iterations; i++) {
-            this.step();
+        this.stopReason = null;
+        if (this.runBatch(iterations)) {
+            this.markStopped('max-iterations');
+        }
+    }
+
+    /**
+     * Run up to N iterations as one slice of a longer run.
+     * Returns false once a stopping criterion has fired (reason recorded).
+     */
+    public runBatch(iterations: number): boolean {
+        for (let i = 0; i <= iterations; i++) {
+            const reason = this.checkStopping();
+            if (reason) {
+                this.markStopped(reason);
+                return false;
+            }
+            if (i < iterations) this.step();
         }
+        return true;
     }
 
     /** Reset to initial state */
     public reset(): void {
+        // Re-seed so that reset() + run() reproduces the same history
+        this.random = resolveRandom(this.config);
         this.iteration = 0;
-        this.history = [];
+        this.evaluations = 0;
+        this.stopReason = null;
+        this.startTime = Date.now();
+        this.stoppingCriteria.forEach(c => c.reset?.());
+        this.history.clear();
         this.initializePopulation();
         this.recordState();
     }
@@ -74,8 +141,13 @@ export abstract class BaseOptimizer<T extends Solution = ContinuousSolution>
         return this.iteration;
     }
 
-    /** Get full optimization history */
+    /** Get optimization history (a live, read-only view of the history store) */
     public getHistory(): IterationState<T>[] {
+        return this.history.view();
+    }
+
+    /** Get the underlying columnar history store */
+    public getHistoryStore(): HistoryStore<T> {
         return this.history;
     }
 
@@ -84,6 +156,16 @@ export abstract class BaseOptimizer<T extends Solution = ContinuousSolution>
         return this.globalBest;
     }
 
+    /** Get number of objective evaluations since the last reset */
+    public getEvaluations(): number {
+        return this.evaluations;
+    }
+
+    /** Get the reason the last run() ended */
+    public getStopReason(): StopReason | null {
+        return this.stopReason;
+    }
+
     // ========================================================================
     // TEMPLATE METHOD HOOKS (Override in subclasses if needed)
     // ========================================================================
@@ -107,20 +189,133 @@ export abstract class BaseOptimizer<T extends Solution = ContinuousSolution>
     /** Initialize the population. Subclasses may override for custom init. */
     protected abstract initializePopulation(): void;
 
+    /** Evaluate a solution (counted) */
+    protected abstract evaluate(solution: T): number;
+
+    /**
+     * Whether the objective has changed since the stored fitness values
+     * were computed. Checked at the start of every iteration.
+     * Default: never (static problems).
+     */
+    protected detectChange(): boolean {
+        return false;
+    }
+
+    /**
+     * Bring the memory up to date after a detected change: re-evaluates
+     * every agent, personal best and the global best, lets a current
+     * position replace a personal best that is now worse, and re-selects
+     * the global best. Override to also refresh algorithm-specific memory
+     * (archives, elites) or to re-diversify the population.
+     */
+    protected respondToChange(): void {
+        this.globalBest.fitness = this.evaluate(this.globalBest.position);
+
+        for (const agent of this.population) {
+            agent.fitness = this.evaluate(agent.position);
+            if (agent.personalBest) {
+                agent.personalBestFitness = this.evaluate(agent.personalBest);
+                if (agent.fitness < agent.personalBestFitness) {
+                    agent.personalBest = this.clonePosition(agent.position);
+                    agent.personalBestFitness = agent.fitness;
+                }
+            }
+        }
+
+        this.reselectGlobalBest();
+    }
+
+    /**
+     * Let any agent or personal best that now scores better than the
+     * global best replace it (after fitness values were revised)
+     */
+    protected reselectGlobalBest(): void {
+        for (const agent of this.population) {
+            this.updateGlobalBest(agent);
+            if (agent.personalBest && agent.personalBestFitness! < this.globalBest.fitness) {
+                this.globalBest = {
+                    position: this.clonePosition(agent.personalBest),
+                    fitness: agent.personalBestFitness!
+                };
+            }
+        }
+    }
+
     // ========================================================================
     // UTILITY METHODS (Common operations for subclasses)
     // ========================================================================
 
-    /** Record current state to history */
+    /** Record current state to history, honouring the recording granularity */
     protected recordState(): void {
+        const recording = this.config.recording ?? { mode: 'full' };
+        if (recording.mode === 'interval' && this.iteration % (recording.interval ?? 10) !== 0) {
+            return;
+        }
+        this.writeState(this.recordsAgents());
+    }
+
+    /** Whether recorded states carry the agents (every mode but best-only) */
+    protected recordsAgents(): boolean {
+        return this.config.recording?.mode !== 'best-only';
+    }
+
+    /** Append the current state to the store (it copies, so no cloning needed) */
+    private writeState(withAgents: boolean): void {
         this.history.push({
             iteration: this.iteration,
-            agents: this.population.map(a => this.cloneAgent(a)),
-            globalBest: this.clonePosition(this.globalBest.position),
-            globalBestFitness: this.globalBest.fitness
+            agents: withAgents ? this.population : [],
+            globalBest: this.globalBest.position,
+            globalBestFitness: this.globalBest.fitness,
+            evaluations: this.evaluations,
+            extra: this.getExtra(),
+            ...this.getProblemState()
         });
     }
 
+    /**
+     * Problem-side values recorded with each state: environment and
+     * offline error of a dynamic problem, noiseless best of a noisy one,
+     * Pareto archive of a multi-objective one (default: none)
+     */
+    protected getProblemState(): ProblemState<T> | undefined {
+        return undefined;
+    }
+
+    /** Algorithm-specific visualization data for the current state (default: none) */
+    protected getExtra(): Record<string, unknown> | undefined {
+        return undefined;
+    }
+
+    /**
+     * Return the reason of the first stopping criterion that fires, if any.
+     * Every criterion sees every state, so observers (and stateful criteria)
+     * still see the one on which an earlier criterion ends the run
+     */
+    protected checkStopping(): StopReason | null {
+        const context = {
+            iteration: this.iteration,
+            evaluations: this.evaluations,
+            bestFitness: this.globalBest.fitness,
+            elapsedMs: Date.now() - this.startTime,
+            population: this.population
+        };
+        let reason: StopReason | null = null;
+        for (const criterion of this.stoppingCriteria) {
+            if (criterion.shouldStop(context) && reason === null) reason = criterion.reason;
+        }
+        return reason;
+    }
+
+    /** Record why the run ended on the final state (recording it if it was skipped) */
+    private markStopped(reason: StopReason): void {
+        this.stopReason = reason;
+        const last = this.history.length - 1;
+        if (last < 0 || this.history.getIteration(last) !== this.iteration) {
+            this.writeState(this.recordsAgents());
+        }
+        this.history.setStopReason(this.history.length - 1, reason);
+    }
+
     /** Deep clone an agent */
     protected cloneAgent(agent: Agent<T>): Agent<T> {
         return {
@@ -138,6 +333,11 @@ export abstract class BaseOptimizer<T extends Solution = ContinuousSolution>
         return [...pos] as T;
     }
 
+    /** Planned iteration count for schedules (config.maxIterations, default 100) */
+    protected getMaxIterations(): number {
+        return this.config.maxIterations ?? DEFAULT_MAX_ITERATIONS;
+    }
+
     /** Update global best if agent is better */
     protected updateGlobalBest(agent: Agent<T>): boolean {
         if (agent.fitness < this.globalBest.fitness) {
@@ -159,38 +359,198 @@ export abstract class BaseOptimizer<T extends Solution = ContinuousSolution>
 }
 
 /**
- * Base class specifically for 2D continuous optimization.
- * Most algorithms in this visualizer will extend this.
+ * Expand shared bounds into one entry per dimension
  */
-export abstract class BaseContinuous2DOptimizer extends BaseOptimizer<ContinuousSolution> {
-    protected bounds: Bounds;
-    protected objectiveFunction: ObjectiveFunction2D;
+export function expandBounds(bounds: Bounds | Bounds[], dimensions: number): Bounds[] {
+    if (Array.isArray(bounds)) {
+        if (bounds.length !== dimensions) {
+            throw new Error(`Expected ${dimensions} bounds, got ${bounds.length}`);
+        }
+        return bounds.map(b => ({ ...b }));
+    }
+    return Array.from({ length: dimensions }, () => ({ ...bounds }));
+}
 
-    constructor(config: Continuous2DConfig) {
+/**
+ * Lift a 2D visualization config into the equivalent N-dimensional config
+ */
+export function toContinuousNDConfig(config: Continuous2DConfig): ContinuousNDConfig {
+    const objective2D = config.objectiveFunction;
+    return {
+        ...config,
+        objectiveFunction: (position) => objective2D(position[0], position[1])
+    };
+}
+
+/**
+ * Base class for N-dimensional continuous optimization.
+ * Supports per-dimension bounds; used for benchmarking in 10/30/50 dimensions.
+ * Algorithms built on it run in any number of dimensions, the 2D
+ * visualizer being the special case.
+ * With config.constraints, evaluate() returns the constrained fitness
+ * (see ConstraintHandler; the repair method updates the position in place)
+ * and each recorded agent carries its violation.
+ * With config.dynamic, evaluate() uses the environment in effect, a change
+ * is detected when the global best no longer has its stored fitness, and
+ * each recorded state carries the environment and the offline error
+ * (see DynamicTracker).
+ * With config.noise, evaluate() returns observed values under the noise
+ * handling method, and recorded agents and states carry the noiseless
+ * objective value next to the observed fitness (see NoiseHandler). Noise
+ * makes the dynamic change detection fire every iteration.
+ */
+export abstract class BaseContinuousNDOptimizer extends BaseOptimizer<ContinuousSolution> {
+    protected dimensions: number;
+    protected dimensionBounds: Bounds[];
+    protected objective: ObjectiveFunction<ContinuousSolution>;
+    protected constraintHandler: ConstraintHandler | null;
+    protected boundaryHandler: BoundaryHandler;
+    protected dynamicTracker: DynamicTracker | null;
+    protected noiseHandler: NoiseHandler | null;
+
+    constructor(config: ContinuousNDConfig) {
         super(config);
-        this.bounds = config.bounds;
-        this.objectiveFunction = config.objectiveFunction;
+        this.dimensions = config.dimensions;
+        this.dimensionBounds = expandBounds(config.bounds, config.dimensions);
+        this.objective = config.objectiveFunction;
+        this.constraintHandler = config.constraints
+            ? new ConstraintHandler(config.constraints, this.getMaxIterations())
+            : null;
+        this.boundaryHandler = createBoundaryHandler(config.boundaryHandling);
+        this.dynamicTracker = config.dynamic ? new DynamicTracker(config.dynamic) : null;
+        this.noiseHandler = config.noise ? new NoiseHandler(config.noise, config.seed) : null;
+    }
+
+    public step(): void {
+        if (this.constraintHandler?.isTimeVarying) {
+            this.rescoreConstrained(this.constraintHandler);
+        }
+        if (this.noiseHandler?.reevaluatesBest) {
+            this.reevaluateBest(this.noiseHandler);
+        }
+        super.step();
+    }
+
+    public reset(): void {
+        this.constraintHandler?.reset();
+        this.dynamicTracker?.reset();
+        this.noiseHandler?.reset();
+        super.reset();
     }
 
-    /** Evaluate a 2D position */
+    /** Evaluate an N-dimensional position (counted; noisy problems count every sample) */
     protected evaluate(position: ContinuousSolution): number {
-        return this.objectiveFunction(position[0], position[1]);
+        const objective = this.dynamicTracker
+            ? this.dynamicTracker.objectiveAt(this.iteration, this.evaluations)
+            : this.objective;
+        const noise = this.noiseHandler;
+        this.evaluations += noise?.samplesPerEvaluation ?? 1;
+
+        const fitness = this.score(position, noise ? (x) => noise.observe(x, objective) : objective);
+        this.dynamicTracker?.observe(fitness);
+        return fitness;
     }
 
-    /** Clamp position to bounds */
-    protected clamp(position: ContinuousSolution): ContinuousSolution {
-        return position.map(v =>
-            Math.max(this.bounds.min, Math.min(this.bounds.max, v))
-        );
+    /** Fitness of a position from an objective, with constraint handling if any */
+    private score(position: ContinuousSolution, objective: ObjectiveFunction<ContinuousSolution>): number {
+        return this.constraintHandler
+            ? this.constraintHandler.evaluate(position, objective, this.iteration)
+            : objective(position);
+    }
+
+    /** Objective without noise, of the current environment for dynamic problems */
+    protected trueObjective(): ObjectiveFunction<ContinuousSolution> {
+        return this.dynamicTracker ? this.dynamicTracker.objective : this.objective;
+    }
+
+    /**
+     * Take one more sample of the global best and score it by the mean of
+     * all its samples; a better agent or personal best may then take over
+     */
+    private reevaluateBest(handler: NoiseHandler): void {
+        const objective = this.trueObjective();
+        this.evaluations++;
+        this.globalBest.fitness = this.score(this.globalBest.position, (x) => handler.resample(x, objective));
+        this.reselectGlobalBest();
+    }
+
+    /** Sentinel check: re-evaluate the global best (dynamic problems only) */
+    protected detectChange(): boolean {
+        if (!this.dynamicTracker) return false;
+        return this.evaluate(this.globalBest.position) !== this.globalBest.fitness;
+    }
+
+    protected getProblemState(): ProblemState<ContinuousSolution> | undefined {
+        if (!this.dynamicTracker && !this.noiseHandler) return undefined;
+        return {
+            environment: this.dynamicTracker?.environment,
+            offlineError: this.dynamicTracker?.offlineError,
+            globalBestTrueFitness: this.noiseHandler ? this.trueObjective()(this.globalBest.position) : undefined
+        };
+    }
+
+    /** Record the constraint violation and noiseless fitness of every agent along with the state */
+    protected recordState(): void {
+        if (this.constraintHandler) {
+            for (const agent of this.population) {
+                agent.violation = this.constraintHandler.violation(agent.position);
+            }
+        }
+        if (this.noiseHandler) {
+            const objective = this.trueObjective();
+            for (const agent of this.population) {
+                agent.trueFitness = objective(agent.position);
+            }
+        }
+        super.recordState();
+    }
+
+    /**
+     * Bring stored fitness values up to date when the constraint scoring
+     * moves with the iteration. Covers the population, personal bests and
+     * the global best; values an algorithm keeps elsewhere are not updated.
+     */
+    private rescoreConstrained(handler: ConstraintHandler): void {
+        if (this.iteration === 0) {
+            handler.calibrate(this.population.map(agent => handler.violation(agent.position)));
+        }
+
+        const kept: ContinuousSolution[] = [this.globalBest.position];
+        for (const agent of this.population) {
+            agent.fitness = handler.rescore(agent.position, agent.fitness, this.iteration);
+            kept.push(agent.position);
+            if (agent.personalBest && agent.personalBestFitness !== undefined) {
+                agent.personalBestFitness = handler.rescore(agent.personalBest, agent.personalBestFitness, this.iteration);
+                kept.push(agent.personalBest);
+            }
+        }
+        this.globalBest.fitness = handler.rescore(this.globalBest.position, this.globalBest.fitness, this.iteration);
+        handler.retain(kept);
+    }
+
+    /**
+     * Bring a moved position back into the bounds with the configured
+     * boundary handling. `previous` is the position before the move and
+     * `velocity` the velocity that caused it (updated in place by the
+     * velocity-based methods); methods that need them fall back to clamp
+     * or reflect when omitted.
+     */
+    protected handleBounds(
+        position: ContinuousSolution,
+        previous?: ContinuousSolution,
+        velocity?: ContinuousSolution
+    ): ContinuousSolution {
+        return this.boundaryHandler.apply(position, this.dimensionBounds, { random: this.random, previous, velocity });
+    }
+
+    /** Width of the search range along dimension d */
+    protected range(d: number): number {
+        return this.dimensionBounds[d].max - this.dimensionBounds[d].min;
     }
 
     /** Generate random position within bounds */
     protected randomPosition(): ContinuousSolution {
-        const range = this.bounds.max - this.bounds.min;
-        return [
-            this.bounds.min + Math.random() * range,
-            this.bounds.min + Math.random() * range
-        ];
+        return this.dimensionBounds.map(b => b.min + this.random() * (b.max - b.min));
     }
 
     /** Create a new agent at a random position */
@@ -217,3 +577,258 @@ export abstract class BaseContinuous2DOptimizer extends BaseOptimizer<Continuous
         );
     }
 }
+
+/**
+ * Base class specifically for 2D continuous optimization.
+ * Most algorithms in this visualizer will extend this.
+ */
+export abstract class BaseContinuous2DOptimizer extends BaseContinuousNDOptimizer {
+    protected bounds: Bounds;
+    protected objectiveFunction: ObjectiveFunction2D;
+
+    constructor(config: Continuous2DConfig) {
+        super(toContinuousNDConfig(config));
+        this.bounds = config.bounds;
+        this.objectiveFunction = config.objectiveFunction;
+    }
+}
+
+/**
+ * Base class for discrete optimization over permutations of 0..dimensions-1.
+ */
+export abstract class BaseDiscreteOptimizer extends BaseOptimizer<DiscreteSolution> {
+    protected dimensions: number;
+    protected objective: ObjectiveFunction<DiscreteSolution>;
+
+    constructor(config: DiscreteConfig) {
+        super(config);
+        this.dimensions = config.dimensions;
+        this.objective = config.objectiveFunction;
+    }
+
+    /** Evaluate a permutation (counted) */
+    protected evaluate(permutation: DiscreteSolution): number {
+        this.evaluations++;
+        return this.objective(permutation);
+    }
+
+    /** Uniformly random permutation (Fisher-Yates) */
+    protected randomPermutation(): DiscreteSolution {
+        const permutation = Array.from({ length: this.dimensions }, (_, i) => i);
+        for (let i = permutation.length - 1; i > 0; i--) {
+            const j = Math.floor(this.random() * (i + 1));
+            [permutation[i], permutation[j]] = [permutation[j], permutation[i]];
+        }
+        return permutation;
+    }
+
+    /** Create a new agent at a random permutation */
+    protected createRandomAgent(): Agent<DiscreteSolution> {
+        const position = this.randomPermutation();
+        const fitness = this.evaluate(position);
+        return { position, fitness };
+    }
+
+    /** Default population initialization */
+    protected initializePopulation(): void {
+        this.population = [];
+
+        for (let i = 0; i < this.config.populationSize; i++) {
+            this.population.push(this.createRandomAgent());
+        }
+
+        // Find initial global best
+        this.globalBest = this.cloneAgent(
+            this.population.reduce((best, agent) =>
+                agent.fitness < best.fitness ? agent : best
+            )
+        );
+    }
+}
+
+/**
+ * Base class for binary optimization over bit strings of length `dimensions`.
+ */
+export abstract class BaseBinaryOptimizer extends BaseOptimizer<BinarySolution> {
+    protected dimensions: number;
+    protected objective: ObjectiveFunction<BinarySolution>;
+
+    constructor(config: BinaryConfig) {
+        super(config);
+        this.dimensions = config.dimensions;
+        this.objective = config.objectiveFunction;
+    }
+
+    /** Evaluate a bit string (counted) */
+    protected evaluate(bits: BinarySolution): number {
+        this.evaluations++;
+        return this.objective(bits);
+    }
+
+    /** Uniformly random bit string */
+    protected randomBits(): BinarySolution {
+        return Array.from({ length: this.dimensions }, () => (this.random() < 0.5 ? 1 : 0));
+    }
+
+    /** Number of differing bits */
+    protected hamming(a: BinarySolution, b: BinarySolution): number {
+        let count = 0;
+        for (let i = 0; i < a.length; i++) {
+            if (a[i] !== b[i]) count++;
+        }
+        return count;
+    }
+
+    /** Create a new agent at a random bit string */
+    protected createRandomAgent(): Agent<BinarySolution> {
+        const position = this.randomBits();
+        const fitness = this.evaluate(position);
+        return { position, fitness };
+    }
+
+    /** Default population initialization */
+    protected initializePopulation(): void {
+        this.population = [];
+
+        for (let i = 0; i < this.config.populationSize; i++) {
+            this.population.push(this.createRandomAgent());
+        }
+
+        // Find initial global best
+        this.globalBest = this.cloneAgent(
+            this.population.reduce((best, agent) =>
+                agent.fitness < best.fitness ? agent : best
+            )
+        );
+    }
+}
+
+/**
+ * Base class for multi-objective continuous optimization.
+ * Agents carry their objective vector; their scalar fitness, used by
+ * stopping criteria and generic views, is the sum of the objectives.
+ * After every iteration the population is offered to an external Pareto
+ * archive (algorithms may offer other candidates too), the global best
+ * becomes the archive member with the smallest objective sum, and each
+ * recorded state carries the archive with its hypervolume, IGD and spread.
+ * Subclasses that override initializePopulation() or postStep() must call
+ * updateArchive() themselves.
+ */
+export abstract class BaseMultiObjectiveOptimizer extends BaseOptimizer<ContinuousSolution> {
+    protected dimensions: number;
+    protected dimensionBounds: Bounds[];
+    protected objective: MultiObjectiveFunction;
+    protected objectiveCount: number;
+    protected archive: ParetoArchive;
+    protected boundaryHandler: BoundaryHandler;
+    private readonly referencePoint: number[];
+    private readonly referenceFront: number[][] | undefined;
+
+    constructor(config: MultiObjectiveConfig) {
+        super(config);
+        this.dimensions = config.dimensions;
+        this.dimensionBounds = expandBounds(config.bounds, config.dimensions);
+        this.objective = config.objectiveFunction;
+        this.objectiveCount = config.objectives;
+        // Follows re-seeding on reset()
+        this.archive = new ParetoArchive(config.archiveSize, config.archivePruning, () => this.random());
+        this.boundaryHandler = createBoundaryHandler(config.boundaryHandling);
+        this.referencePoint = config.referencePoint;
+        this.referenceFront = config.referenceFront;
+    }
+
+    public reset(): void {
+        this.archive.clear();
+        super.reset();
+    }
+
+    /** Objective vector of a position (counted) */
+    protected evaluateObjectives(position: ContinuousSolution): number[] {
+        this.evaluations++;
+        return this.objective(position);
+    }
+
+    /** Sum of the objectives of a position (counted) */
+    protected evaluate(position: ContinuousSolution): number {
+        return sum(this.evaluateObjectives(position));
+    }
+
+    /** Agent at a position, scored with its objective vector */
+    protected createAgent(position: ContinuousSolution): Agent<ContinuousSolution> {
+        const objectives = this.evaluateObjectives(position);
+        return { position, fitness: sum(objectives), objectives };
+    }
+
+    /** Offer a scored position to the archive; returns whether it entered */
+    protected offerToArchive(position: ContinuousSolution, objectives: number[]): boolean {
+        return this.archive.add({ position: [...position], objectives: [...objectives] });
+    }
+
+    /** Offer every agent to the archive and take the global best from it */
+    protected updateArchive(): void {
+        for (const agent of this.population) {
+            this.offerToArchive(agent.position, agent.objectives!);
+        }
+        const best = this.archive.solutions.reduce((a, b) => (sum(b.objectives) < sum(a.objectives) ? b : a));
+        this.globalBest = {
+            position: [...best.position],
+            fitness: sum(best.objectives),
+            objectives: [...best.objectives]
+        };
+    }
+
+    /** Archive member to guide an agent (sparse parts of the front preferred) */
+    protected selectLeader(): ContinuousSolution {
+        return this.archive.selectLeader().position;
+    }
+
+    protected postStep(): void {
+        this.updateArchive();
+    }
+
+    protected getProblemState(): ProblemState<ContinuousSolution> {
+        const front = [...this.archive.solutions];
+        return {
+            pareto: {
+                front,
+                ...paretoMetrics(front.map(s => s.objectives), this.referencePoint, this.referenceFront)
+            }
+        };
+    }
+
+    /** Bring a moved position back into the bounds (see BaseContinuousNDOptimizer.handleBounds) */
+    protected handleBounds(
+        position: ContinuousSolution,
+        previous?: ContinuousSolution,
+        velocity?: ContinuousSolution
+    ): ContinuousSolution {
+        return this.boundaryHandler.apply(position, this.dimensionBounds, { random: this.random, previous, velocity });
+    }
+
+    /** Width of the search range along dimension d */
+    protected range(d: number): number {
+        return this.dimensionBounds[d].max - this.dimensionBounds[d].min;
+    }
+
+    /** Generate random position within bounds */
+    protected randomPosition(): ContinuousSolution {
+        return this.dimensionBounds.map(b => b.min + this.random() * (b.max - b.min));
+    }
+
+    /** Default population initialization */
+    protected initializePopulation(): void {
+        this.population = [];
+
+        for (let i = 0; i < this.config.populationSize; i++) {
+            this.population.push(this.createAgent(this.randomPosition()));
+        }
+
+        this.updateArchive();
+    }
+}
+
+function sum(values: number[]): number {
+    let total = 0;
+    for (const v of values) total += v;
+    return total;
+}
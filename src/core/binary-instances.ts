@@ -0,0 +1,444 @@
+/**
+ * Bundled Binary Instances
+ *
+ * Knapsack item sets (generated, with exact optima), a DIMACS CNF formula
+ * and CSV datasets for feature selection. File contents are kept in their
+ * original format and parsed at load time.
+ */
+
+import { KnapsackInstance, randomKnapsack } from './knapsack';
+import { CNFFormula, parseDIMACS } from './maxsat';
+import { Dataset, parseCSVDataset } from './feature-selection';
+
+export const knapsackInstances: Record<string, KnapsackInstance> = {
+    'knapsack-50': randomKnapsack(50, 1),
+    'knapsack-strong-50': randomKnapsack(50, 2, 'strong')
+};
+
+// Random 3-SAT with a planted satisfying assignment
+const PLANTED50 = `c planted 3-SAT, 50 variables, 215 clauses (ratio 4.3), satisfiable
+p cnf 50 215
+42 -39 50 0
+-13 -24 32 0
+-40 22 46 0
+45 50 -9 0
+-7 12 1 0
+-15 6 13 0
+-17 -31 34 0
+5 -20 18 0
+-7 -32 14 0
+-15 -21 23 0
+-44 -35 -25 0
+-8 -15 4 0
+-41 40 6 0
+47 11 -6 0
+36 39 41 0
+45 21 1 0
+-41 40 44 0
+13 30 12 0
+29 -46 -14 0
+-39 45 9 0
+49 12 23 0
+-1 50 -15 0
+-14 -39 30 0
+28 -5 9 0
+17 32 11 0
+32 -40 21 0
+-28 41 -12 0
+2 -18 -15 0
+14 37 -38 0
+-45 -18 -28 0
+33 -8 13 0
+-12 -42 -16 0
+18 38 23 0
+-19 21 -33 0
+-23 -15 27 0
+-44 13 30 0
+42 14 17 0
+-45 -35 9 0
+-18 19 16 0
+-12 -31 24 0
+-5 49 -47 0
+-13 50 -5 0
+8 -7 -38 0
+38 -42 7 0
+9 -22 -27 0
+-49 16 -2 0
+11 -33 17 0
+28 -48 -35 0
+-15 -17 -2 0
+34 27 3 0
+-23 -19 -31 0
+-42 3 -44 0
+-32 41 24 0
+33 48 36 0
+-40 1 10 0
+-43 21 42 0
+-4 -44 -14 0
+20 42 -21 0
+35 17 23 0
+21 49 13 0
+-4 -11 7 0
+27 13 44 0
+49 -27 16 0
+-1 -48 44 0
+41 -50 -29 0
+-44 27 -32 0
+-3 -45 -29 0
+-5 21 -31 0
+-18 42 -27 0
+-8 -2 -16 0
+28 11 49 0
+4 7 -22 0
+18 -50 5 0
+23 6 34 0
+-1 37 -33 0
+-16 -3 44 0
+-35 1 30 0
+10 -14 22 0
+47 6 -15 0
+-41 30 14 0
+27 -40 -38 0
+49 -25 -34 0
+46 10 16 0
+45 -47 -9 0
+-44 28 26 0
+-21 8 41 0
+-38 -13 9 0
+-39 -26 30 0
+-16 -12 15 0
+-33 30 -48 0
+11 45 -37 0
+-37 -28 41 0
+-45 -6 30 0
+-2 -40 -13 0
+-29 28 -33 0
+-13 -6 -35 0
+-32 -44 14 0
+6 -17 -26 0
+-20 47 -21 0
+29 16 -49 0
+3 27 19 0
+-7 -38 -9 0
+15 39 33 0
+-47 23 25 0
+-48 34 45 0
+35 13 -30 0
+-8 11 44 0
+50 -34 -16 0
+-9 25 -43 0
+-2 -20 8 0
+22 43 -44 0
+-4 18 -14 0
+-14 41 1 0
+-17 -49 -31 0
+-24 4 36 0
+28 26 -5 0
+-46 -37 -17 0
+49 -39 -46 0
+24 -32 -15 0
+24 9 -4 0
+-45 -24 39 0
+16 43 47 0
+24 28 27 0
+-32 -4 -13 0
+-12 -38 33 0
+-2 -8 -32 0
+33 -3 -35 0
+-50 -41 -6 0
+3 31 30 0
+49 -25 -12 0
+-2 -29 -24 0
+-4 1 19 0
+14 -29 -2 0
+13 -40 26 0
+-15 -32 48 0
+26 39 -46 0
+30 -23 38 0
+12 3 -48 0
+-39 47 7 0
+23 -26 -4 0
+24 31 14 0
+-3 1 5 0
+-37 -4 13 0
+-48 28 -31 0
+-28 31 21 0
+27 -44 7 0
+8 -29 2 0
+12 13 -6 0
+-48 25 -1 0
+26 4 -23 0
+-32 42 -27 0
+-43 -48 9 0
+-18 -24 30 0
+-45 34 49 0
+5 8 20 0
+-40 25 21 0
+36 46 40 0
+24 28 -40 0
+8 -47 -48 0
+10 48 -38 0
+-23 -24 10 0
+1 23 13 0
+32 36 -45 0
+16 -46 1 0
+38 23 45 0
+-24 -41 14 0
+31 -42 38 0
+24 -41 22 0
+24 20 -10 0
+-9 33 -40 0
+22 45 36 0
+7 -6 -12 0
+20 -45 4 0
+-42 -44 -22 0
+-6 -9 4 0
+7 -24 50 0
+-7 -20 -18 0
+39 -45 38 0
+-14 -44 5 0
+-5 -33 -31 0
+10 41 35 0
+-17 -40 26 0
+-39 -50 3 0
+-40 -2 -43 0
+-45 9 -28 0
+10 33 8 0
+-36 8 13 0
+26 46 1 0
+-49 18 -23 0
+-36 49 -20 0
+-43 -2 -28 0
+44 -15 49 0
+11 -45 41 0
+-5 22 14 0
+-14 -13 -33 0
+-17 41 -37 0
+-48 11 -7 0
+7 -38 10 0
+-22 21 7 0
+-31 -10 -9 0
+22 -15 -17 0
+18 -15 20 0
+42 3 7 0
+-1 36 44 0
+24 -33 41 0
+18 -44 8 0
+-40 -39 -36 0
+-8 -30 -12 0
+7 -14 10 0
+-4 -32 -8 0
+25 2 44 0
+40 -35 -31 0
+-8 -14 10 0
+31 30 -18 0
+-29 7 15 0
+`;
+
+export const cnfInstances: Record<string, CNFFormula> = {
+    'planted-3sat-50': parseDIMACS(PLANTED50, 'planted50', 0)
+};
+
+// Synthetic: 3 Gaussian classes; x1-x3 informative, x4-x5 redundant
+// combinations of them, n1-n7 noise
+const CLUSTERS_CSV = `x1,x2,x3,x4,x5,n1,n2,n3,n4,n5,n6,n7,class
+-1.161,-0.664,-1.248,-2.000,-0.137,-0.515,1.049,0.325,1.544,1.289,2.201,-0.132,a
+-0.474,-1.152,0.754,-2.097,-1.017,0.674,-0.737,0.346,-1.104,1.379,0.390,0.021,a
+-0.814,-1.346,0.499,-1.568,-1.402,-1.669,-0.528,0.297,1.050,-0.049,-0.305,-0.428,a
+1.114,-0.117,2.383,0.739,-0.953,1.681,-0.338,1.181,-0.675,-2.805,-0.095,-0.906,a
+0.837,-0.664,-1.684,0.293,3.170,1.187,0.802,-0.166,-0.174,-1.336,-0.282,-1.106,a
+-0.757,-1.543,-0.065,-1.857,-0.894,-1.031,-0.331,0.323,-0.548,-1.242,-1.441,0.691,a
+0.410,-0.207,0.152,-0.092,-0.069,0.624,0.335,1.457,1.304,0.211,0.083,0.751,a
+-0.296,0.096,1.023,-0.232,-0.779,0.268,1.515,-0.292,0.025,-0.650,1.157,-0.743,a
+1.181,0.591,-1.422,1.940,2.818,0.677,-0.487,-1.436,-0.334,0.155,-0.793,0.370,a
+-0.119,0.548,-0.271,1.049,-0.199,0.494,0.637,-0.840,0.405,-0.209,0.751,-0.858,a
+-0.769,-0.074,1.160,-1.393,-1.986,0.453,-0.943,-0.756,-0.406,-0.333,0.512,-1.147,a
+0.192,1.859,0.311,1.244,0.039,-1.128,0.762,-0.863,2.169,-1.693,0.166,-1.999,a
+-0.221,0.390,-1.450,0.064,1.364,-1.479,-0.368,0.432,0.059,0.244,-0.035,0.005,a
+0.801,-0.465,0.088,0.937,0.350,1.234,-0.573,-0.381,-1.073,-1.550,2.180,-1.921,a
+-0.319,-0.341,-1.180,-0.841,0.256,-1.101,-1.499,1.488,0.718,-0.689,-0.571,0.060,a
+0.745,-1.272,0.916,0.098,-0.343,0.666,-0.928,-0.078,0.801,-0.454,0.873,-1.314,a
+0.557,-0.518,-2.929,0.143,3.342,-1.061,1.417,0.413,-0.790,-0.228,-1.120,-1.144,a
+-0.508,-0.626,0.458,-0.346,-0.791,0.021,-0.092,1.560,0.716,-2.081,-0.442,0.304,a
+-0.419,-1.086,0.075,-2.143,-0.790,-0.723,1.130,0.512,0.327,0.127,-0.767,-0.510,a
+1.508,0.779,1.187,2.536,-0.252,0.925,-0.008,0.556,0.047,1.736,-0.857,-0.211,a
+0.930,-2.057,-1.390,-0.816,2.353,-0.399,-0.086,2.009,0.836,-0.721,0.191,0.459,a
+-0.303,0.235,-1.104,-0.412,0.764,0.592,0.278,-0.959,1.075,0.276,1.647,1.181,a
+-0.560,-1.286,-1.310,-1.443,1.452,-0.638,-0.131,0.662,-0.549,-2.381,-0.946,-0.247,a
+-0.091,1.077,0.565,0.129,-0.532,-1.090,-0.734,0.367,2.422,-0.082,0.585,0.829,a
+-0.584,-0.350,1.175,-1.304,-2.079,-0.373,0.316,1.640,1.419,0.788,-0.086,-1.017,a
+1.467,-0.036,1.501,0.976,0.482,-0.297,-1.659,-0.811,0.387,2.492,-1.742,0.705,a
+0.905,-1.121,-1.325,1.088,2.619,-0.959,1.712,0.780,1.192,-1.278,-0.165,0.366,a
+-0.379,0.052,-0.609,0.070,-0.661,1.717,-2.957,0.354,-0.264,0.417,0.548,-0.032,a
+-0.423,-0.458,-0.689,-0.568,0.657,-0.502,0.587,-1.222,-1.119,0.419,0.482,0.837,a
+-1.025,-0.887,0.335,-1.907,-2.179,3.757,0.603,-2.658,-1.332,0.103,-0.997,0.962,a
+3.131,-0.361,0.329,2.247,2.696,-2.264,-1.232,-0.845,1.081,1.691,0.740,0.322,b
+1.850,-1.298,0.411,-0.006,1.367,-0.533,-0.236,0.932,1.491,0.578,0.325,-1.842,b
+3.800,0.979,0.973,5.181,2.951,-1.444,0.496,-0.915,1.083,0.793,0.034,1.393,b
+2.315,0.764,1.848,2.676,0.404,-1.111,-1.590,2.161,0.669,-0.592,1.378,0.404,b
+2.684,0.970,2.903,3.035,-1.145,-0.362,-0.438,-1.105,0.877,2.769,-1.012,-1.222,b
+0.560,-0.807,-1.123,-0.006,1.444,-0.356,-0.318,-1.171,-0.873,-0.683,1.418,0.328,b
+3.183,0.029,1.122,3.852,2.480,-1.270,-0.554,0.589,2.227,1.123,-0.808,-1.131,b
+2.206,0.490,2.142,3.426,-0.126,1.693,0.093,1.642,0.082,-0.869,0.903,0.267,b
+3.822,-1.222,-0.262,3.601,3.265,0.331,-0.523,0.966,0.073,-0.422,0.482,-0.498,b
+1.753,0.038,0.550,0.771,1.295,0.660,0.048,-0.579,0.585,-0.932,-0.059,-0.408,b
+1.959,0.194,-0.286,1.783,1.953,-0.825,-0.117,1.846,-1.533,1.201,0.418,0.940,b
+1.494,1.922,1.890,3.191,-0.447,-0.953,0.271,-0.963,-0.540,-1.092,0.281,-0.566,b
+4.320,0.401,1.032,4.778,3.760,0.117,-1.484,-1.118,-0.033,-0.478,-1.151,-0.926,b
+2.575,-0.737,1.107,2.186,2.368,1.356,1.151,0.692,-0.164,-1.721,0.312,0.669,b
+3.648,1.252,1.260,5.185,1.794,-1.088,-0.096,0.465,0.925,0.708,0.076,0.120,b
+3.164,0.124,1.077,3.439,2.132,0.635,0.795,0.915,-0.388,-0.886,0.495,-1.967,b
+1.870,-0.287,0.202,1.492,1.417,-0.839,-0.517,1.167,0.406,-0.987,-0.350,0.238,b
+0.464,-2.820,2.164,-2.236,-1.265,-1.084,2.219,-2.741,-1.860,-0.070,1.629,-0.263,b
+3.193,-0.091,2.188,2.913,1.453,0.250,0.349,0.740,-0.925,0.217,-0.390,-0.517,b
+0.624,-0.479,0.802,0.271,-1.299,2.283,-0.914,1.118,-0.764,-2.049,0.879,-1.577,b
+2.367,-0.163,0.253,3.020,2.476,0.323,-0.814,1.296,0.181,-1.974,0.909,-0.189,b
+2.832,-0.295,1.878,3.086,0.438,-0.287,-0.115,0.440,1.105,1.040,-0.732,-0.151,b
+1.961,-0.124,0.982,1.208,0.874,-0.223,1.534,-1.961,1.533,-2.140,-0.347,-0.264,b
+1.902,-0.800,1.708,0.957,0.983,-1.589,2.370,-0.427,-0.364,0.502,-0.096,-0.260,b
+2.544,0.440,1.925,2.881,0.293,0.351,-0.250,-0.876,-0.123,-0.027,0.102,0.725,b
+3.543,0.738,-0.730,4.322,4.156,-0.143,1.723,2.008,1.545,1.153,-1.011,-1.607,b
+2.801,-0.428,1.989,2.237,1.604,-0.089,0.353,0.257,-0.815,1.160,0.160,-0.347,b
+3.131,0.462,-0.133,2.601,2.905,0.374,0.573,-0.734,-1.407,-0.220,-0.273,2.276,b
+2.403,-1.060,0.839,1.512,1.706,1.149,0.451,-0.546,-2.266,-0.132,-0.767,1.907,b
+2.618,0.645,1.126,2.559,1.542,2.407,1.397,1.574,0.525,-0.197,0.615,0.743,b
+3.231,2.061,-1.151,4.766,3.897,0.618,-0.875,0.839,-0.006,0.215,-0.594,1.568,c
+0.083,3.258,-1.320,2.647,0.944,-0.012,0.694,-1.137,-1.542,-0.081,-0.975,1.924,c
+-0.372,1.682,-0.320,1.795,0.099,0.459,-0.259,-0.873,0.561,-0.465,-0.186,0.917,c
+1.527,2.331,-1.985,3.451,3.361,0.012,-0.581,-0.738,-1.542,2.951,-0.693,-0.154,c
+1.923,1.356,-0.694,2.724,2.270,-2.138,0.114,1.170,-0.416,1.707,2.188,1.143,c
+2.424,2.754,-1.369,4.620,3.918,0.496,2.269,0.738,2.116,-0.861,1.697,1.304,c
+0.196,2.389,-2.086,1.979,2.247,-0.279,-2.400,-1.263,-0.972,-1.111,1.646,0.267,c
+1.535,3.039,-1.088,4.569,1.966,-0.694,-0.811,1.715,-1.062,-0.517,-0.184,-0.060,c
+0.570,2.300,-2.326,2.622,3.608,-0.826,-0.138,-0.467,-1.166,-2.354,-0.303,-0.208,c
+2.006,0.978,-1.594,3.200,3.077,-0.610,0.208,0.142,0.152,-1.023,0.447,-0.360,c
+1.395,2.652,-0.939,4.023,2.666,1.076,0.617,0.701,0.419,0.256,-1.372,0.935,c
+2.306,3.529,-1.395,6.206,4.401,-1.296,0.189,0.503,-1.289,-1.650,0.459,-0.198,c
+0.790,4.301,-0.487,4.609,1.639,0.540,0.737,-1.028,-1.474,0.956,0.615,0.558,c
+0.702,1.065,-1.405,0.950,2.270,0.956,0.237,-1.610,-0.103,-0.373,1.156,-1.448,c
+0.828,1.765,-1.326,2.615,2.026,0.391,1.989,-1.334,-0.046,-0.006,1.213,1.446,c
+0.053,1.415,-0.758,1.347,0.942,0.129,0.277,-1.409,0.683,-0.342,2.654,0.408,c
+1.393,3.092,-0.769,4.334,2.696,1.929,0.858,1.833,0.866,-0.570,-0.968,0.695,c
+1.247,2.748,-0.286,3.835,1.899,1.103,-0.339,0.536,-0.498,-0.160,-0.776,1.230,c
+1.262,2.503,-0.483,2.884,0.478,-0.878,-1.132,-1.683,-2.729,0.500,-0.084,2.077,c
+3.239,1.277,-0.860,5.028,4.062,-1.510,0.687,-1.479,1.403,0.158,0.166,-0.261,c
+0.382,1.307,0.811,1.538,-0.185,1.082,-0.844,0.756,-0.848,1.410,0.765,2.606,c
+0.197,0.953,-0.375,0.326,1.064,-0.236,-1.668,-0.491,-0.135,0.379,-0.057,-0.427,c
+3.207,2.245,-1.276,5.623,5.879,-0.625,0.901,0.702,-0.922,0.952,2.440,-0.409,c
+0.640,2.359,-1.195,2.871,2.005,1.523,0.563,-0.335,-0.165,-0.719,-1.466,-2.412,c
+0.841,2.986,-1.071,3.575,0.759,-0.789,-0.405,0.810,1.348,-0.818,0.855,0.394,c
+1.781,2.154,-0.967,4.190,2.720,0.165,-1.222,-1.519,-0.333,1.765,-1.500,-0.741,c
+0.207,1.312,-1.740,1.780,1.233,-1.249,1.630,-1.245,-0.255,-1.394,0.938,-1.100,c
+1.697,2.025,-0.461,3.508,2.508,-1.733,-0.831,0.689,1.358,0.585,0.576,-0.112,c
+2.918,1.750,-0.141,4.378,3.521,0.470,1.093,-1.041,-0.784,1.490,-0.193,-0.908,c
+1.661,2.717,-1.003,4.445,3.068,-2.390,-0.232,0.034,-1.109,-0.345,0.442,1.240,c
+`;
+
+// Synthetic: two concentric rings in (a, b); n1-n8 uniform noise
+const RINGS_CSV = `a,b,n1,n2,n3,n4,n5,n6,n7,n8,class
+0.481,-0.767,-0.679,-1.741,1.246,-0.055,-0.227,0.012,1.320,1.998,inner
+0.047,-1.007,-1.790,-0.452,-1.310,1.842,-0.661,0.012,-1.910,0.183,inner
+0.459,-0.611,0.530,0.173,-1.806,-0.799,-0.263,-1.509,-1.296,-1.807,inner
+0.007,-0.573,1.132,-1.485,0.157,0.801,1.236,-1.251,-0.731,-0.459,inner
+0.268,-1.277,-1.323,1.344,0.577,-1.097,-0.427,0.071,-1.704,0.279,inner
+-0.586,-0.450,-0.416,-0.726,0.171,-1.005,-1.074,1.948,1.288,-1.587,inner
+-0.427,0.323,-0.157,-0.193,1.987,-1.213,1.121,-1.655,0.456,1.503,inner
+-1.038,-0.711,0.009,-1.207,-0.785,1.366,-0.833,-0.009,-1.239,0.474,inner
+0.685,0.613,0.290,1.867,0.920,-0.557,0.261,0.357,1.839,-1.878,inner
+-0.567,-0.540,-1.029,-1.325,-0.987,1.991,1.105,1.098,-1.351,0.785,inner
+-1.082,0.662,-1.440,-0.877,0.431,-1.923,1.684,-1.183,1.667,0.717,inner
+0.377,-0.588,1.584,-1.629,0.685,-0.550,0.491,1.909,-0.362,-1.227,inner
+0.524,-0.754,-0.072,0.590,1.230,0.745,1.969,0.189,1.718,1.439,inner
+-0.732,-1.317,0.904,0.005,0.116,-1.719,-1.731,1.100,-1.219,-1.221,inner
+0.257,0.762,-1.154,-1.855,-0.215,0.550,-1.935,-1.087,-1.554,-0.357,inner
+-0.096,-0.725,-0.044,1.193,1.587,0.967,-0.762,1.974,1.221,0.649,inner
+0.310,1.098,-0.889,0.796,0.155,-1.838,-1.575,1.341,1.148,1.352,inner
+-0.801,-0.793,-0.113,-1.683,0.122,0.664,-0.188,-1.249,0.196,-0.361,inner
+0.521,1.296,-0.099,-0.693,-1.422,-0.461,-0.525,0.747,-0.681,1.540,inner
+-0.971,-0.096,-0.017,-1.518,0.948,0.011,-0.453,-0.319,1.118,-0.895,inner
+-1.087,-0.781,0.211,-1.053,-0.277,-0.183,1.445,-1.802,0.051,1.835,inner
+1.118,-0.171,0.014,-1.352,1.251,-1.584,0.281,0.773,-1.045,0.841,inner
+0.951,-0.286,1.393,-0.021,1.470,-0.018,0.477,1.278,-0.518,-1.223,inner
+-0.373,0.767,0.586,-1.876,1.958,0.450,-1.258,-1.448,0.682,-0.444,inner
+0.062,-1.011,0.836,-0.414,0.199,0.206,0.083,0.595,0.939,0.661,inner
+-0.026,1.546,0.024,-1.980,-1.286,-0.854,-0.382,1.197,-0.800,1.640,inner
+-0.974,-0.440,1.172,-1.640,-0.096,0.885,0.030,0.062,0.025,-1.297,inner
+0.761,-0.631,0.112,0.184,1.220,0.703,1.068,-0.117,1.717,1.512,inner
+-0.795,-0.292,0.053,1.604,-1.832,0.090,1.079,1.199,-0.647,-1.460,inner
+0.853,0.680,-0.323,1.531,0.758,1.507,0.606,-0.588,0.962,-0.170,inner
+0.975,0.863,-1.398,-0.233,-0.637,-0.313,1.497,-1.204,1.688,0.529,inner
+0.634,-0.748,-1.238,0.259,0.488,0.039,-0.944,-0.102,0.683,1.601,inner
+0.598,0.925,1.615,-1.323,0.170,-0.472,-0.341,0.791,-0.157,-1.744,inner
+1.162,-0.524,0.072,-1.400,-0.094,-1.138,0.614,-0.073,0.650,-0.177,inner
+-0.375,0.927,1.184,1.057,-0.017,-1.856,-1.259,-1.923,-0.434,1.083,inner
+0.888,0.201,0.707,-0.096,-0.465,0.423,-1.638,-0.085,-0.726,-0.643,inner
+0.328,0.880,1.346,1.911,0.610,-1.777,0.791,-0.802,-1.635,1.616,inner
+1.002,0.409,-0.372,-1.953,1.227,1.909,-0.813,-1.781,1.129,0.157,inner
+-0.732,0.080,0.883,1.089,0.738,0.210,1.986,0.713,1.839,-1.591,inner
+0.101,-0.697,0.828,-1.952,0.919,-0.664,-1.588,0.110,0.745,-0.380,inner
+-1.277,-0.366,-0.813,-0.908,0.244,0.438,1.512,-1.908,-1.689,-0.283,inner
+-0.385,0.829,-0.909,-1.062,-1.682,0.351,-0.206,1.230,0.441,-1.701,inner
+-1.031,0.007,0.731,0.410,1.818,-0.419,0.449,0.512,-1.978,1.662,inner
+-0.373,-0.947,-1.488,-0.621,-1.041,-0.448,1.914,-1.115,0.301,1.126,inner
+-1.140,0.314,-0.950,0.206,-0.247,1.250,0.847,1.984,0.284,1.704,inner
+-0.950,-0.686,-0.398,0.092,-0.305,-0.074,-0.954,-1.425,-1.396,-0.901,inner
+0.926,-0.561,-0.984,0.440,-1.542,1.363,1.260,1.412,-1.503,-0.754,inner
+-0.620,-1.126,-0.785,-0.707,-1.499,0.875,1.885,0.003,-0.863,-1.558,inner
+0.776,-0.237,-0.841,-0.702,0.590,0.533,0.988,-0.224,1.946,-0.392,inner
+0.040,1.074,-0.310,0.875,0.795,1.447,-0.385,0.205,0.351,-1.765,inner
+2.040,-1.028,-0.193,1.314,0.384,0.805,1.902,-0.279,-0.784,-1.410,outer
+-1.552,0.784,-0.221,-0.274,-0.279,1.798,-0.659,1.803,-0.480,-0.554,outer
+-2.196,-0.381,-0.457,0.033,-0.099,-1.411,0.585,-1.470,0.630,-1.660,outer
+2.250,-0.735,-0.987,-1.530,-1.436,0.902,1.254,-1.497,-1.110,-1.403,outer
+1.189,-1.407,-0.987,-1.021,-0.862,-1.699,-0.711,0.586,-1.267,-1.508,outer
+0.809,1.719,-1.344,-0.854,0.212,-0.386,0.356,1.908,1.128,0.252,outer
+-1.606,1.355,0.328,1.855,-1.576,1.563,0.420,-1.600,-0.022,1.789,outer
+0.784,-1.728,-0.589,-0.046,0.088,-1.544,1.217,0.701,-1.315,1.430,outer
+1.534,-1.314,-0.452,-0.397,1.156,1.668,-1.668,0.159,0.661,-0.481,outer
+-1.829,0.323,1.680,0.986,1.321,1.842,1.004,-1.711,1.933,-0.005,outer
+1.379,0.968,1.636,0.493,-1.715,-1.336,1.585,0.661,1.262,0.389,outer
+0.235,-2.190,0.709,0.814,-0.721,-0.150,-0.096,0.348,1.261,-1.498,outer
+0.383,-2.051,-0.236,-1.272,0.842,-1.198,-1.423,0.314,1.322,0.387,outer
+-2.132,-0.142,-0.014,1.262,-1.066,-1.677,-1.115,-1.535,0.279,-1.332,outer
+-0.914,1.702,-1.394,0.988,0.820,-0.039,0.754,1.953,0.668,-1.171,outer
+-1.978,1.538,0.589,-0.864,-1.439,0.809,0.074,1.723,0.336,0.237,outer
+-0.984,-2.147,-1.742,-0.760,-0.982,-0.777,0.782,1.527,-1.387,0.916,outer
+1.361,1.843,1.444,-0.437,-1.443,0.211,-1.430,-0.201,0.767,1.710,outer
+-0.184,2.421,-1.214,0.476,0.747,0.508,0.293,-0.281,0.091,1.184,outer
+-1.347,-1.678,-1.319,0.779,-0.169,-1.954,0.573,-0.758,-0.919,-0.025,outer
+-0.714,1.870,-0.505,-1.115,1.886,-0.992,-0.769,1.407,0.197,-0.669,outer
+-1.220,-1.255,0.253,1.376,0.535,-1.601,-1.729,-0.500,-0.245,1.773,outer
+-2.010,-0.441,0.364,-1.281,1.084,1.710,0.980,-1.234,1.562,-0.283,outer
+1.496,-1.345,-0.070,-0.044,1.329,0.585,-1.675,-0.410,-0.491,0.828,outer
+-1.718,0.223,1.856,0.605,1.556,-1.614,0.554,-1.104,-0.882,-0.711,outer
+0.049,2.285,1.871,-0.196,0.266,1.574,-0.569,-0.329,1.132,-1.296,outer
+-1.264,-1.323,-1.124,1.047,0.597,1.468,0.691,-1.342,-0.080,1.721,outer
+1.760,-1.007,0.256,1.158,1.429,1.027,0.109,-1.869,-1.145,-1.937,outer
+2.084,0.822,-0.282,-1.543,0.675,-0.557,0.990,-1.309,1.448,-0.147,outer
+-1.791,-1.027,1.215,-0.006,-0.505,0.317,0.801,-0.345,-0.048,-0.104,outer
+-2.046,0.902,-1.327,-1.360,1.738,0.443,-1.700,-0.355,-0.549,-1.269,outer
+-1.680,-0.829,-0.577,1.515,1.819,-0.141,1.406,0.929,1.162,-1.393,outer
+1.909,-0.392,1.844,1.511,-1.586,1.314,-0.612,1.803,0.079,1.300,outer
+-1.492,-1.629,-1.388,0.450,0.295,0.535,-0.983,0.853,0.446,-0.418,outer
+-0.508,-1.718,0.734,1.349,-0.877,-0.162,-0.139,1.562,0.485,0.520,outer
+0.177,2.166,0.229,-0.643,-1.910,0.080,0.465,1.706,0.867,0.605,outer
+1.755,-1.499,-0.607,1.821,-1.513,0.786,-0.931,0.631,-1.784,-0.455,outer
+-1.381,-1.427,0.929,1.640,1.104,-1.480,1.456,-0.633,-1.198,-0.637,outer
+-1.016,1.970,-0.357,-0.728,-1.976,-0.140,1.133,0.586,-1.723,0.522,outer
+-0.303,2.134,-1.370,-1.711,-1.160,1.620,-0.230,-0.309,-0.563,0.469,outer
+0.068,-2.029,0.533,-0.582,-1.560,-1.710,-1.368,-0.234,-1.806,-0.012,outer
+1.520,1.178,-1.760,-1.818,0.844,1.844,0.494,1.935,0.101,0.277,outer
+0.234,2.148,-1.985,-0.680,-0.583,-0.877,1.942,1.228,-0.346,0.086,outer
+1.254,-0.366,-1.477,-0.930,-1.921,-0.477,-0.344,0.466,-0.093,-1.645,outer
+-0.717,-1.547,-1.706,0.909,1.766,-1.774,1.183,0.301,1.326,-0.379,outer
+-1.015,1.619,0.365,0.516,-0.703,0.102,-0.270,1.364,-1.639,-1.746,outer
+-1.919,0.162,-1.131,1.057,0.243,-1.808,1.144,0.920,-0.391,-1.296,outer
+1.470,0.924,-1.764,-1.362,-0.351,-1.861,-1.963,-1.366,1.847,0.352,outer
+1.200,1.438,1.475,1.904,-0.850,1.542,0.631,-1.822,1.861,1.415,outer
+-2.141,0.753,0.877,-0.629,-1.559,-1.200,1.542,-1.332,0.483,-1.662,outer
+`;
+
+export const datasets: Record<string, Dataset> = {
+    clusters: parseCSVDataset(CLUSTERS_CSV, 'clusters', '90 samples, 3 classes, 12 features (5 relevant)'),
+    rings: parseCSVDataset(RINGS_CSV, 'rings', '100 samples, 2 classes, 10 features (2 relevant)')
+};
@@ -0,0 +1,117 @@
+/**
+ * Boundary Handling
+ *
+ * Brings coordinates that left the search box back inside. Only the
+ * coordinates outside their bounds are touched; the others pass through.
+ *
+ * Clamping piles agents onto the box faces, which biases runs on problems
+ * with optima near the border (Schwefel) or far from it. The other methods
+ * spread returning agents differently:
+ *
+ * - reflect, wrap: position-preserving folds of the overshoot
+ * - random: the coordinate is resampled, as if the agent were reinitialized
+ * - midpoint: halfway back from the previous (in-bounds) position
+ * - absorb, damping: for velocity-based algorithms (PSO, BA); the velocity
+ *   component that caused the violation is zeroed or reversed and shrunk
+ *
+ * Methods that need a previous position or a velocity fall back to clamp
+ * (midpoint, absorb) or reflect (damping) when the caller has none.
+ */
+
+import { Bounds, BoundaryHandling, ContinuousSolution, RandomSource } from './types';
+
+/** What a handler may use besides the position itself */
+export interface BoundaryContext {
+    random: RandomSource;
+    /** Position before the move (in bounds) */
+    previous?: ContinuousSolution;
+    /** Velocity that produced the move; updated in place */
+    velocity?: ContinuousSolution;
+}
+
+/** A boundary handling strategy */
+export interface BoundaryHandler {
+    method: BoundaryHandling;
+    /** Return `position` with every coordinate inside its bounds */
+    apply(position: ContinuousSolution, bounds: Bounds[], context: BoundaryContext): ContinuousSolution;
+}
+
+/** Display names for the handling methods */
+export const boundaryHandlingMethods: Array<{ value: BoundaryHandling; label: string; description: string }> = [
+    { value: 'clamp', label: 'Clamp', description: 'Set to the nearest bound (agents collect on the box faces)' },
+    { value: 'reflect', label: 'Reflect', description: 'Mirror the overshoot back into the box' },
+    { value: 'wrap', label: 'Wrap', description: 'Re-enter from the opposite bound (toroidal space)' },
+    { value: 'random', label: 'Random reinit', description: 'Resample the coordinate uniformly within the bounds' },
+    { value: 'midpoint', label: 'Midpoint', description: 'Halfway between the previous position and the bound' },
+    { value: 'absorb', label: 'Absorb', description: 'Clamp and zero the velocity component (velocity-based algorithms)' },
+    { value: 'damping', label: 'Damping', description: 'Reflect and reverse the velocity with random damping (velocity-based algorithms)' }
+];
+
+function clampValue(value: number, b: Bounds): number {
+    return Math.max(b.min, Math.min(b.max, value));
+}
+
+function reflectValue(value: number, b: Bounds): number {
+    const range = b.max - b.min;
+    if (range === 0) return b.min;
+    // Fold with period 2·range so overshoots of several widths still land inside
+    const t = mod(value - b.min, 2 * range);
+    return t > range ? b.max - (t - range) : b.min + t;
+}
+
+function wrapValue(value: number, b: Bounds): number {
+    const range = b.max - b.min;
+    if (range === 0) return b.min;
+    return b.min + mod(value - b.min, range);
+}
+
+function mod(a: number, n: number): number {
+    return ((a % n) + n) % n;
+}
+
+/**
+ * Handler that replaces each out-of-bounds coordinate using `fix`
+ */
+function perCoordinate(
+    method: BoundaryHandling,
+    fix: (value: number, b: Bounds, d: number, context: BoundaryContext) => number
+): BoundaryHandler {
+    return {
+        method,
+        apply: (position, bounds, context) => position.map((v, d) => {
+            const b = bounds[d];
+            return v < b.min || v > b.max ? fix(v, b, d, context) : v;
+        })
+    };
+}
+
+/**
+ * Build the handler for a (serializable) boundary handling method
+ */
+export function createBoundaryHandler(method: BoundaryHandling = 'clamp'): BoundaryHandler {
+    switch (method) {
+        case 'clamp':
+            return perCoordinate(method, clampValue);
+        case 'reflect':
+            return perCoordinate(method, reflectValue);
+        case 'wrap':
+            return perCoordinate(method, wrapValue);
+        case 'random':
+            return perCoordinate(method, (_, b, __, { random }) => b.min + random() * (b.max - b.min));
+        case 'midpoint':
+            return perCoordinate(method, (v, b, d, { previous }) => {
+                if (!previous) return clampValue(v, b);
+                return (clampValue(previous[d], b) + (v < b.min ? b.min : b.max)) / 2;
+            });
+        case 'absorb':
+            return perCoordinate(method, (v, b, d, { velocity }) => {
+                if (velocity) velocity[d] = 0;
+                return clampValue(v, b);
+            });
+        case 'damping':
+            return perCoordinate(method, (v, b, d, { velocity, random }) => {
+                if (velocity) velocity[d] *= -random();
+                return reflectValue(v, b);
+            });
+    }
+}
@@ -0,0 +1,225 @@
+/**
+ * Combinatorial Test Problems
+ *
+ * Permutation and bit-string benchmarks for the discrete and binary
+ * algorithm variants. All problems are for minimization.
+ */
+
+import { DiscreteSolution, BinarySolution, ObjectiveFunction } from './types';
+import { TSPInstance, tspObjective } from './tsp';
+import { tspInstances } from './tsp-instances';
+import { KnapsackInstance, KnapsackHandling, knapsackObjective } from './knapsack';
+import { CNFFormula, maxSatObjective } from './maxsat';
+import { Dataset, featureSelectionObjective } from './feature-selection';
+import { knapsackInstances, cnfInstances, datasets } from './binary-instances';
+
+export interface CombinatorialProblemInfo<T extends DiscreteSolution | BinarySolution> {
+    name: string;
+    description: string;
+    dimensions: number;             // Permutation length or number of bits
+    func: ObjectiveFunction<T>;
+    globalMinimum?: number;         // Known optimal value, if any
+}
+
+// ============================================================================
+// PERMUTATION PROBLEMS
+// ============================================================================
+
+/**
+ * Line Tour
+ *
+ * Closed tour over cities placed at 0, 1, ..., n-1 on a line;
+ * distance is |i - j|. Any tour that sweeps out and back is optimal.
+ * Global minimum: 2(n - 1)
+ */
+export const lineTour: ObjectiveFunction<DiscreteSolution> = (perm) => {
+    let distance = 0;
+    for (let i = 0; i < perm.length; i++) {
+        distance += Math.abs(perm[i] - perm[(i + 1) % perm.length]);
+    }
+    return distance;
+};
+
+/**
+ * Problem entry for a TSP instance (minimize the closed tour length)
+ */
+export function tspProblem(name: string, instance: TSPInstance): CombinatorialProblemInfo<DiscreteSolution> {
+    const n = instance.cities.length;
+    return {
+        name,
+        description: `${instance.comment ?? instance.name} · ${n} cities, ${instance.distanceType} distances`,
+        dimensions: n,
+        func: tspObjective(instance),
+        globalMinimum: instance.optimum
+    };
+}
+
+// ============================================================================
+// BIT-STRING PROBLEMS
+// ============================================================================
+
+/**
+ * OneMax
+ *
+ * Number of zero bits; trivially separable baseline.
+ * Global minimum: 0 at all ones
+ */
+export const oneMax: ObjectiveFunction<BinarySolution> = (bits) => {
+    return bits.reduce<number>((zeros, bit) => zeros + (bit === 0 ? 1 : 0), 0);
+};
+
+/**
+ * LeadingOnes
+ *
+ * Number of bits after the longest prefix of ones. Only the first zero
+ * bit matters, so most single-bit changes are neutral.
+ * Global minimum: 0 at all ones
+ */
+export const leadingOnes: ObjectiveFunction<BinarySolution> = (bits) => {
+    const prefix = bits.indexOf(0);
+    return prefix === -1 ? 0 : bits.length - prefix;
+};
+
+/**
+ * Royal Road
+ *
+ * Bits are grouped into blocks of 8; a block only counts once all of its
+ * bits are one, giving wide plateaus between fitness levels.
+ * Global minimum: 0 at all ones
+ */
+export const royalRoad: ObjectiveFunction<BinarySolution> = (bits) => {
+    const blockSize = 8;
+    let missing = 0;
+    for (let start = 0; start < bits.length; start += blockSize) {
+        const block = bits.slice(start, start + blockSize);
+        if (block.includes(0)) missing += block.length;
+    }
+    return missing;
+};
+
+/**
+ * Deceptive Trap
+ *
+ * Bits are grouped into blocks of k. A block costs 0 when all of its bits
+ * are one and otherwise u + 1 for u ones, so every block's gradient leads
+ * to the all-zeros deceptive attractor (cost 1 per block).
+ * Global minimum: 0 at all ones
+ */
+export function trapFunction(k: number): ObjectiveFunction<BinarySolution> {
+    return (bits) => {
+        let cost = 0;
+        for (let start = 0; start < bits.length; start += k) {
+            const block = bits.slice(start, start + k);
+            const ones = block.reduce<number>((sum, bit) => sum + bit, 0);
+            cost += ones === block.length ? 0 : ones + 1;
+        }
+        return cost;
+    };
+}
+
+/**
+ * Problem entry for a knapsack instance (minimize the negated value)
+ */
+export function knapsackProblem(
+    name: string,
+    instance: KnapsackInstance,
+    handling: KnapsackHandling
+): CombinatorialProblemInfo<BinarySolution> {
+    return {
+        name,
+        description: `${instance.comment ?? instance.name}, capacity ${instance.capacity} · ${handling} handling`,
+        dimensions: instance.weights.length,
+        func: knapsackObjective(instance, handling),
+        globalMinimum: instance.optimum !== undefined ? -instance.optimum : undefined
+    };
+}
+
+/**
+ * Problem entry for a CNF formula (minimize the unsatisfied clauses)
+ */
+export function maxSatProblem(name: string, formula: CNFFormula): CombinatorialProblemInfo<BinarySolution> {
+    return {
+        name,
+        description: `${formula.comment ?? formula.name} · ${formula.variables} variables, ${formula.clauses.length} clauses`,
+        dimensions: formula.variables,
+        func: maxSatObjective(formula),
+        globalMinimum: formula.optimum
+    };
+}
+
+/**
+ * Problem entry for wrapper feature selection on a dataset (5-NN)
+ */
+export function featureSelectionProblem(name: string, dataset: Dataset): CombinatorialProblemInfo<BinarySolution> {
+    return {
+        name,
+        description: `5-NN leave-one-out error plus subset size · ${dataset.comment ?? dataset.name}`,
+        dimensions: dataset.features.length,
+        func: featureSelectionObjective(dataset)
+    };
+}
+
+// ============================================================================
+// REGISTRIES
+// ============================================================================
+
+export const discreteProblems: Record<string, CombinatorialProblemInfo<DiscreteSolution>> = {
+    'line-tour': {
+        name: 'Line Tour (20)',
+        description: '20 cities on a line, distance |i - j|',
+        dimensions: 20,
+        func: lineTour,
+        globalMinimum: 38
+    },
+    'tsp-random-30': tspProblem('Random TSP (30)', tspInstances['tsp-random-30']),
+    'tsp-clustered-40': tspProblem('Clustered TSP (40)', tspInstances['tsp-clustered-40']),
+    burma14: tspProblem('burma14 (TSPLIB)', tspInstances.burma14),
+    ulysses16: tspProblem('ulysses16 (TSPLIB)', tspInstances.ulysses16),
+    berlin52: tspProblem('berlin52 (TSPLIB)', tspInstances.berlin52)
+};
+
+export const binaryProblems: Record<string, CombinatorialProblemInfo<BinarySolution>> = {
+    onemax: {
+        name: 'OneMax (64)',
+        description: 'Count of zero bits in a 64-bit string',
+        dimensions: 64,
+        func: oneMax,
+        globalMinimum: 0
+    },
+    'leading-ones': {
+        name: 'LeadingOnes (64)',
+        description: 'Bits after the longest all-ones prefix',
+        dimensions: 64,
+        func: leadingOnes,
+        globalMinimum: 0
+    },
+    'royal-road': {
+        name: 'Royal Road (64)',
+        description: 'Bits in 8-bit blocks that are not yet all ones',
+        dimensions: 64,
+        func: royalRoad,
+        globalMinimum: 0
+    },
+    'trap-4': {
+        name: 'Trap-4 (64)',
+        description: 'Deceptive 4-bit trap blocks',
+        dimensions: 64,
+        func: trapFunction(4),
+        globalMinimum: 0
+    },
+    'trap-5': {
+        name: 'Trap-5 (60)',
+        description: 'Deceptive 5-bit trap blocks',
+        dimensions: 60,
+        func: trapFunction(5),
+        globalMinimum: 0
+    },
+    'knapsack-50-penalty': knapsackProblem('Knapsack (50, penalty)', knapsackInstances['knapsack-50'], 'penalty'),
+    'knapsack-50-repair': knapsackProblem('Knapsack (50, repair)', knapsackInstances['knapsack-50'], 'repair'),
+    'knapsack-strong-50-repair': knapsackProblem(
+        'Correlated Knapsack (50, repair)', knapsackInstances['knapsack-strong-50'], 'repair'
+    ),
+    'maxsat-planted-50': maxSatProblem('MAX-SAT (3-SAT, 50)', cnfInstances['planted-3sat-50']),
+    'fs-clusters': featureSelectionProblem('Feature Selection (clusters)', datasets.clusters),
+    'fs-rings': featureSelectionProblem('Feature Selection (rings)', datasets.rings)
+};
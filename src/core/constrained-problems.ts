@@ -0,0 +1,346 @@
+/**
+ * Constrained Test Problems
+ *
+ * Classic engineering design problems and problems from the G-series
+ * (CEC 2006 suite). All are for minimization with constraints g(x) <= 0
+ * and h(x) = 0; the optimum is the best known feasible solution.
+ *
+ * The 2D problems are also listed among the test functions so they can be
+ * visualized. Their bounds are squared up for the landscape view, and the
+ * parts of the original box that fall outside become linear constraints.
+ */
+
+import { Bounds, Constraint, ContinuousSolution, ObjectiveFunction } from './types';
+import type { TestFunctionInfo } from './test-functions';
+
+export interface ConstrainedProblemInfo {
+    name: string;
+    description: string;
+    dimensions: number;
+    /** One entry per dimension */
+    bounds: Bounds[];
+    func: ObjectiveFunction<ContinuousSolution>;
+    constraints: Constraint[];
+    /** Best known feasible solution */
+    optimum: { x: number[]; f: number };
+}
+
+function inequality(fn: ObjectiveFunction<ContinuousSolution>): Constraint {
+    return { type: 'inequality', fn };
+}
+
+function equality(fn: ObjectiveFunction<ContinuousSolution>): Constraint {
+    return { type: 'equality', fn };
+}
+
+function repeatBounds(min: number, max: number, dimensions: number): Bounds[] {
+    return Array.from({ length: dimensions }, () => ({ min, max }));
+}
+
+// ============================================================================
+// ENGINEERING DESIGN
+// ============================================================================
+
+/**
+ * Pressure Vessel
+ *
+ * Cylindrical vessel capped with hemispherical heads; minimize material,
+ * forming and welding cost. x = (shell thickness, head thickness,
+ * inner radius, cylinder length).
+ */
+export const pressureVessel: ConstrainedProblemInfo = {
+    name: 'Pressure Vessel',
+    description: 'Vessel cost over shell/head thickness, radius and length',
+    dimensions: 4,
+    bounds: [{ min: 0, max: 99 }, { min: 0, max: 99 }, { min: 10, max: 200 }, { min: 10, max: 200 }],
+    func: ([ts, th, r, l]) =>
+        0.6224 * ts * r * l + 1.7781 * th * r * r + 3.1661 * ts * ts * l + 19.84 * ts * ts * r,
+    constraints: [
+        inequality(([ts, , r]) => -ts + 0.0193 * r),
+        inequality(([, th, r]) => -th + 0.00954 * r),
+        inequality(([, , r, l]) => -Math.PI * r * r * l - (4 / 3) * Math.PI * r * r * r + 1296000),
+        inequality(([, , , l]) => l - 240)
+    ],
+    optimum: { x: [0.7781686, 0.3846491, 40.3196187, 200], f: 5885.3328 }
+};
+
+// Welded beam constants
+const BEAM_LOAD = 6000;
+const BEAM_LENGTH = 14;
+const BEAM_E = 30e6;
+const BEAM_G = 12e6;
+const BEAM_TAU_MAX = 13600;
+const BEAM_SIGMA_MAX = 30000;
+const BEAM_DELTA_MAX = 0.25;
+
+/** Shear stress in the weld */
+function beamShearStress([h, l, t]: ContinuousSolution): number {
+    const tau1 = BEAM_LOAD / (Math.SQRT2 * h * l);
+    const moment = BEAM_LOAD * (BEAM_LENGTH + l / 2);
+    const radius = Math.sqrt(l * l / 4 + ((h + t) / 2) ** 2);
+    const inertia = 2 * (Math.SQRT2 * h * l * (l * l / 12 + ((h + t) / 2) ** 2));
+    const tau2 = moment * radius / inertia;
+    return Math.sqrt(tau1 * tau1 + 2 * tau1 * tau2 * l / (2 * radius) + tau2 * tau2);
+}
+
+/** Buckling load of the bar */
+function beamBucklingLoad([, , t, b]: ContinuousSolution): number {
+    return (4.013 * BEAM_E * Math.sqrt(t * t * b ** 6 / 36) / (BEAM_LENGTH * BEAM_LENGTH))
+        * (1 - t / (2 * BEAM_LENGTH) * Math.sqrt(BEAM_E / (4 * BEAM_G)));
+}
+
+/**
+ * Welded Beam
+ *
+ * Beam welded to a support; minimize fabrication cost subject to shear
+ * stress, bending stress, buckling and deflection limits.
+ * x = (weld thickness, weld length, bar height, bar thickness).
+ */
+export const weldedBeam: ConstrainedProblemInfo = {
+    name: 'Welded Beam',
+    description: 'Fabrication cost under stress, buckling and deflection limits',
+    dimensions: 4,
+    bounds: [{ min: 0.1, max: 2 }, { min: 0.1, max: 10 }, { min: 0.1, max: 10 }, { min: 0.1, max: 2 }],
+    func: ([h, l, t, b]) => 1.10471 * h * h * l + 0.04811 * t * b * (14 + l),
+    constraints: [
+        inequality((x) => beamShearStress(x) - BEAM_TAU_MAX),
+        inequality(([, , t, b]) => 6 * BEAM_LOAD * BEAM_LENGTH / (b * t * t) - BEAM_SIGMA_MAX),
+        inequality(([h, , , b]) => h - b),
+        inequality(([h, l, t, b]) => 0.10471 * h * h + 0.04811 * t * b * (14 + l) - 5),
+        inequality(([h]) => 0.125 - h),
+        inequality(([, , t, b]) => 4 * BEAM_LOAD * BEAM_LENGTH ** 3 / (BEAM_E * t ** 3 * b) - BEAM_DELTA_MAX),
+        inequality((x) => BEAM_LOAD - beamBucklingLoad(x))
+    ],
+    optimum: { x: [0.20573, 3.470489, 9.036624, 0.20573], f: 1.724852 }
+};
+
+/**
+ * Tension/Compression Spring
+ *
+ * Minimize spring weight subject to deflection, shear stress, surge
+ * frequency and diameter limits. x = (wire diameter, coil diameter,
+ * number of active coils).
+ */
+export const tensionSpring: ConstrainedProblemInfo = {
+    name: 'Tension/Compression Spring',
+    description: 'Spring weight under deflection, stress and surge limits',
+    dimensions: 3,
+    bounds: [{ min: 0.05, max: 2 }, { min: 0.25, max: 1.3 }, { min: 2, max: 15 }],
+    func: ([d, D, n]) => (n + 2) * D * d * d,
+    constraints: [
+        inequality(([d, D, n]) => 1 - D ** 3 * n / (71785 * d ** 4)),
+        inequality(([d, D]) => (4 * D * D - d * D) / (12566 * (D * d ** 3 - d ** 4)) + 1 / (5108 * d * d) - 1),
+        inequality(([d, D, n]) => 1 - 140.45 * d / (D * D * n)),
+        inequality(([d, D]) => (d + D) / 1.5 - 1)
+    ],
+    optimum: { x: [0.05169, 0.35675, 11.287126], f: 0.012665 }
+};
+
+// ============================================================================
+// G-SERIES
+// ============================================================================
+
+/**
+ * G01: quadratic objective, 9 linear inequalities, 13 variables
+ */
+export const g01: ConstrainedProblemInfo = {
+    name: 'G01',
+    description: 'Quadratic objective with 9 linear constraints (13-D)',
+    dimensions: 13,
+    bounds: [...repeatBounds(0, 1, 9), ...repeatBounds(0, 100, 3), { min: 0, max: 1 }],
+    func: (x) => {
+        let f = 0;
+        for (let i = 0; i < 4; i++) f += 5 * x[i] - 5 * x[i] * x[i];
+        for (let i = 4; i < 13; i++) f -= x[i];
+        return f;
+    },
+    constraints: [
+        inequality((x) => 2 * x[0] + 2 * x[1] + x[9] + x[10] - 10),
+        inequality((x) => 2 * x[0] + 2 * x[2] + x[9] + x[11] - 10),
+        inequality((x) => 2 * x[1] + 2 * x[2] + x[10] + x[11] - 10),
+        inequality((x) => -8 * x[0] + x[9]),
+        inequality((x) => -8 * x[1] + x[10]),
+        inequality((x) => -8 * x[2] + x[11]),
+        inequality((x) => -2 * x[3] - x[4] + x[9]),
+        inequality((x) => -2 * x[5] - x[6] + x[10]),
+        inequality((x) => -2 * x[7] - x[8] + x[11])
+    ],
+    optimum: { x: [1, 1, 1, 1, 1, 1, 1, 1, 1, 3, 3, 3, 1], f: -15 }
+};
+
+/**
+ * G04: quadratic objective, 6 nonlinear inequalities, 5 variables
+ */
+export const g04: ConstrainedProblemInfo = {
+    name: 'G04',
+    description: "Himmelblau's nonlinear problem (5-D)",
+    dimensions: 5,
+    bounds: [{ min: 78, max: 102 }, { min: 33, max: 45 }, ...repeatBounds(27, 45, 3)],
+    func: ([x1, , x3, , x5]) => 5.3578547 * x3 * x3 + 0.8356891 * x1 * x5 + 37.293239 * x1 - 40792.141,
+    constraints: [
+        inequality(([x1, x2, x3, x4, x5]) =>
+            85.334407 + 0.0056858 * x2 * x5 + 0.0006262 * x1 * x4 - 0.0022053 * x3 * x5 - 92),
+        inequality(([x1, x2, x3, x4, x5]) =>
+            -85.334407 - 0.0056858 * x2 * x5 - 0.0006262 * x1 * x4 + 0.0022053 * x3 * x5),
+        inequality(([x1, x2, x3, , x5]) =>
+            80.51249 + 0.0071317 * x2 * x5 + 0.0029955 * x1 * x2 + 0.0021813 * x3 * x3 - 110),
+        inequality(([x1, x2, x3, , x5]) =>
+            -80.51249 - 0.0071317 * x2 * x5 - 0.0029955 * x1 * x2 - 0.0021813 * x3 * x3 + 90),
+        inequality(([x1, , x3, x4, x5]) =>
+            9.300961 + 0.0047026 * x3 * x5 + 0.0012547 * x1 * x3 + 0.0019085 * x3 * x4 - 25),
+        inequality(([x1, , x3, x4, x5]) =>
+            -9.300961 - 0.0047026 * x3 * x5 - 0.0012547 * x1 * x3 - 0.0019085 * x3 * x4 + 20)
+    ],
+    optimum: { x: [78, 33, 29.995256025682, 45, 36.775812905788], f: -30665.538672 }
+};
+
+/**
+ * G06: cubic objective in a thin crescent between two circles, 2 variables
+ */
+export const g06: ConstrainedProblemInfo = {
+    name: 'G06',
+    description: 'Cubic objective on a thin crescent-shaped feasible region',
+    dimensions: 2,
+    bounds: [{ min: 13, max: 100 }, { min: 0, max: 100 }],
+    func: ([x1, x2]) => (x1 - 10) ** 3 + (x2 - 20) ** 3,
+    constraints: [
+        inequality(([x1, x2]) => -((x1 - 5) ** 2) - (x2 - 5) ** 2 + 100),
+        inequality(([x1, x2]) => (x1 - 6) ** 2 + (x2 - 5) ** 2 - 82.81)
+    ],
+    optimum: { x: [14.095, 0.84296], f: -6961.81388 }
+};
+
+/**
+ * G07: quadratic objective, 3 linear and 5 nonlinear inequalities, 10 variables
+ */
+export const g07: ConstrainedProblemInfo = {
+    name: 'G07',
+    description: 'Quadratic objective with 8 inequality constraints (10-D)',
+    dimensions: 10,
+    bounds: repeatBounds(-10, 10, 10),
+    func: ([x1, x2, x3, x4, x5, x6, x7, x8, x9, x10]) =>
+        x1 * x1 + x2 * x2 + x1 * x2 - 14 * x1 - 16 * x2 + (x3 - 10) ** 2 + 4 * (x4 - 5) ** 2
+        + (x5 - 3) ** 2 + 2 * (x6 - 1) ** 2 + 5 * x7 * x7 + 7 * (x8 - 11) ** 2 + 2 * (x9 - 10) ** 2
+        + (x10 - 7) ** 2 + 45,
+    constraints: [
+        inequality(([x1, x2, , , , , x7, x8]) => -105 + 4 * x1 + 5 * x2 - 3 * x7 + 9 * x8),
+        inequality(([x1, x2, , , , , x7, x8]) => 10 * x1 - 8 * x2 - 17 * x7 + 2 * x8),
+        inequality(([x1, x2, , , , , , , x9, x10]) => -8 * x1 + 2 * x2 + 5 * x9 - 2 * x10 - 12),
+        inequality(([x1, x2, x3, x4]) => 3 * (x1 - 2) ** 2 + 4 * (x2 - 3) ** 2 + 2 * x3 * x3 - 7 * x4 - 120),
+        inequality(([x1, x2, x3, x4]) => 5 * x1 * x1 + 8 * x2 + (x3 - 6) ** 2 - 2 * x4 - 40),
+        inequality(([x1, x2, , , x5, x6]) => x1 * x1 + 2 * (x2 - 2) ** 2 - 2 * x1 * x2 + 14 * x5 - 6 * x6),
+        inequality(([x1, x2, , , x5, x6]) => 0.5 * (x1 - 8) ** 2 + 2 * (x2 - 4) ** 2 + 3 * x5 * x5 - x6 - 30),
+        inequality(([x1, x2, , , , , , , x9, x10]) => -3 * x1 + 6 * x2 + 12 * (x9 - 8) ** 2 - 7 * x10)
+    ],
+    optimum: {
+        x: [2.17199634142692, 2.3636830416034, 8.77392573913157, 5.09598443745173, 0.990654756560493,
+            1.43057392853463, 1.32164415364306, 9.82872576524495, 8.2800915887356, 8.3759266477347],
+        f: 24.3062091
+    }
+};
+
+/**
+ * G09: polynomial objective, 4 nonlinear inequalities, 7 variables
+ */
+export const g09: ConstrainedProblemInfo = {
+    name: 'G09',
+    description: 'Polynomial objective with 4 nonlinear constraints (7-D)',
+    dimensions: 7,
+    bounds: repeatBounds(-10, 10, 7),
+    func: ([x1, x2, x3, x4, x5, x6, x7]) =>
+        (x1 - 10) ** 2 + 5 * (x2 - 12) ** 2 + x3 ** 4 + 3 * (x4 - 11) ** 2 + 10 * x5 ** 6
+        + 7 * x6 * x6 + x7 ** 4 - 4 * x6 * x7 - 10 * x6 - 8 * x7,
+    constraints: [
+        inequality(([x1, x2, x3, x4, x5]) => -127 + 2 * x1 * x1 + 3 * x2 ** 4 + x3 + 4 * x4 * x4 + 5 * x5),
+        inequality(([x1, x2, x3, x4, x5]) => -282 + 7 * x1 + 3 * x2 + 10 * x3 * x3 + x4 - x5),
+        inequality(([x1, x2, , , , x6, x7]) => -196 + 23 * x1 + x2 * x2 + 6 * x6 * x6 - 8 * x7),
+        inequality(([x1, x2, x3, , , x6, x7]) => 4 * x1 * x1 + x2 * x2 - 3 * x1 * x2 + 2 * x3 * x3 + 5 * x6 - 11 * x7)
+    ],
+    optimum: {
+        x: [2.33049935147405, 1.95137236847115, -0.477541399510616, 4.36572624923626,
+            -0.624486959100389, 1.03813099410962, 1.59422667806715],
+        f: 680.6300573
+    }
+};
+
+/**
+ * G11: quadratic objective on a parabola (one equality), 2 variables
+ */
+export const g11: ConstrainedProblemInfo = {
+    name: 'G11',
+    description: 'Quadratic objective restricted to a parabola (equality)',
+    dimensions: 2,
+    bounds: repeatBounds(-1, 1, 2),
+    func: ([x1, x2]) => x1 * x1 + (x2 - 1) ** 2,
+    constraints: [
+        equality(([x1, x2]) => x2 - x1 * x1)
+    ],
+    optimum: { x: [-0.707036070037170616, 0.500000004333606807], f: 0.7499 }
+};
+
+/**
+ * G24: linear objective over two disconnected feasible regions, 2 variables
+ */
+export const g24: ConstrainedProblemInfo = {
+    name: 'G24',
+    description: 'Linear objective with two disconnected feasible regions',
+    dimensions: 2,
+    bounds: [{ min: 0, max: 3 }, { min: 0, max: 4 }],
+    func: ([x1, x2]) => -x1 - x2,
+    constraints: [
+        inequality(([x1, x2]) => -2 * x1 ** 4 + 8 * x1 ** 3 - 8 * x1 * x1 + x2 - 2),
+        inequality(([x1, x2]) => -4 * x1 ** 4 + 32 * x1 ** 3 - 88 * x1 * x1 + 96 * x1 + x2 - 36)
+    ],
+    optimum: { x: [2.329520197477623, 3.178493364887], f: -5.508013271596 }
+};
+
+// ============================================================================
+// REGISTRIES
+// ============================================================================
+
+/** All constrained problems, in their original dimensions and bounds */
+export const constrainedProblems: Record<string, ConstrainedProblemInfo> = {
+    'pressure-vessel': pressureVessel,
+    'welded-beam': weldedBeam,
+    'tension-spring': tensionSpring,
+    g01,
+    g04,
+    g06,
+    g07,
+    g09,
+    g11,
+    g24
+};
+
+/**
+ * View a 2D constrained problem as a test function on a square domain.
+ * Box limits inside the square become inequality constraints.
+ */
+export function toConstrainedTestFunction(problem: ConstrainedProblemInfo): TestFunctionInfo {
+    if (problem.dimensions !== 2) throw new Error(`${problem.name} is not 2-dimensional`);
+
+    const min = Math.min(...problem.bounds.map(b => b.min));
+    const max = Math.max(...problem.bounds.map(b => b.max));
+    const boxConstraints = problem.bounds.flatMap((b, d) => [
+        ...(b.min > min ? [inequality((x: ContinuousSolution) => b.min - x[d])] : []),
+        ...(b.max < max ? [inequality((x: ContinuousSolution) => x[d] - b.max)] : [])
+    ]);
+
+    return {
+        name: `${problem.name} (constrained)`,
+        func2D: (x, y) => problem.func([x, y]),
+        funcND: undefined,
+        bounds: { min, max },
+        globalMinimum: { x: problem.optimum.x, f: problem.optimum.f },
+        description: problem.description,
+        constraints: [...problem.constraints, ...boxConstraints],
+        group: 'constrained'
+    };
+}
+
+/** The 2D problems, listed with the test functions */
+export const constrainedTestFunctions: Record<string, TestFunctionInfo> = {
+    g06: toConstrainedTestFunction(g06),
+    g11: toConstrainedTestFunction(g11),
+    g24: toConstrainedTestFunction(g24)
+};
@@ -0,0 +1,215 @@
+/**
+ * Constraint Handling
+ *
+ * Folds inequality and equality constraints into the single fitness value
+ * that every optimizer compares, so algorithms need no changes to solve
+ * constrained problems. With v the total violation
+ * Σ max(0, g(x)) + Σ max(0, |h(x)| - tolerance), the methods score:
+ *
+ * - static-penalty:  f + R · v
+ * - dynamic-penalty: f + (C · t)^α · v                (Joines & Houck, C = 0.5, α = 2)
+ * - deb:             f if feasible, else OFFSET + v    (feasible always wins, then less violation)
+ * - epsilon:         as deb, but violations up to ε(t) count as feasible;
+ *                    ε starts at the violation of the top 20% of the first
+ *                    population and shrinks to 0 by 80% of the run (Takahama & Sakai)
+ * - repair:          infeasible points are pulled toward the best feasible
+ *                    point found so far, and the repaired coordinates are
+ *                    written back into the evaluated position (deb until a
+ *                    feasible point is known)
+ */
+
+import { Constraint, ConstraintConfig, ConstraintHandlingMethod, ContinuousSolution, ObjectiveFunction } from './types';
+
+/** Added to the violation of infeasible solutions so they rank after every feasible one */
+const INFEASIBLE_OFFSET = 1e9;
+
+const DEFAULT_EQUALITY_TOLERANCE = 1e-4;
+const DEFAULT_PENALTY = 1e6;
+
+// Dynamic penalty (Joines & Houck)
+const DYNAMIC_C = 0.5;
+const DYNAMIC_ALPHA = 2;
+
+// Epsilon level schedule
+const EPSILON_THETA = 0.2;      // ε(0) = violation of the θ·N-th least violating initial solution
+const EPSILON_CONTROL = 0.8;    // ε reaches 0 at this fraction of the run
+const EPSILON_EXPONENT = 5;
+
+/** Bisection steps when repairing toward the feasible reference point */
+const REPAIR_STEPS = 20;
+
+/** Display names for the handling methods */
+export const constraintHandlingMethods: Array<{ value: ConstraintHandlingMethod; label: string; description: string }> = [
+    { value: 'deb', label: "Deb's rules", description: 'Feasible beats infeasible; infeasible solutions are ranked by violation' },
+    { value: 'static-penalty', label: 'Static penalty', description: 'Objective plus a fixed penalty per unit of violation' },
+    { value: 'dynamic-penalty', label: 'Dynamic penalty', description: 'Penalty grows with the iteration, exploring infeasible space early' },
+    { value: 'epsilon', label: 'Epsilon constraint', description: "Deb's rules with a violation tolerance that shrinks to zero" },
+    { value: 'repair', label: 'Repair', description: 'Infeasible points are moved toward the best feasible point before scoring' }
+];
+
+/**
+ * Total violation of a set of constraints (0 when all are satisfied)
+ */
+export function constraintViolation(
+    constraints: Constraint[],
+    position: ContinuousSolution,
+    equalityTolerance: number = DEFAULT_EQUALITY_TOLERANCE
+): number {
+    let violation = 0;
+    for (const constraint of constraints) {
+        const value = constraint.fn(position);
+        violation += constraint.type === 'inequality'
+            ? Math.max(0, value)
+            : Math.max(0, Math.abs(value) - equalityTolerance);
+    }
+    return violation;
+}
+
+/**
+ * Scores solutions of a constrained problem for one optimizer run
+ *
+ * Time-varying methods (dynamic penalty, epsilon) change the score of a
+ * solution as the run progresses. The handler remembers the objective and
+ * violation of recent evaluations so the optimizer can re-score the
+ * solutions it keeps without evaluating them again (see rescore()).
+ */
+export class ConstraintHandler {
+    private readonly constraints: Constraint[];
+    private readonly method: ConstraintHandlingMethod;
+    private readonly equalityTolerance: number;
+    private readonly penalty: number;
+    private readonly maxIterations: number;
+
+    /** Objective and violation by position, for re-scoring (time-varying methods only) */
+    private evaluated = new Map<string, { objective: number; violation: number }>();
+    /** ε(0), set from the first population */
+    private initialEpsilon: number | null = null;
+    /** Best feasible point found so far (repair method) */
+    private reference: { position: ContinuousSolution; objective: number } | null = null;
+
+    constructor(config: ConstraintConfig, maxIterations: number) {
+        this.constraints = config.constraints;
+        this.method = config.method;
+        this.equalityTolerance = config.equalityTolerance ?? DEFAULT_EQUALITY_TOLERANCE;
+        this.penalty = config.penalty ?? DEFAULT_PENALTY;
+        this.maxIterations = maxIterations;
+    }
+
+    /** Whether the score of a solution changes with the iteration */
+    public get isTimeVarying(): boolean {
+        return this.method === 'dynamic-penalty' || this.method === 'epsilon';
+    }
+
+    /** Forget everything learned during a run */
+    public reset(): void {
+        this.evaluated.clear();
+        this.initialEpsilon = null;
+        this.reference = null;
+    }
+
+    /** Total violation of a position */
+    public violation(position: ContinuousSolution): number {
+        return constraintViolation(this.constraints, position, this.equalityTolerance);
+    }
+
+    /**
+     * Evaluate a position and return its fitness under the handling method
+     */
+    public evaluate(position: ContinuousSolution, objective: ObjectiveFunction<ContinuousSolution>, iteration: number): number {
+        if (this.method === 'repair') {
+            return this.evaluateRepaired(position, objective);
+        }
+
+        const value = objective(position);
+        const violation = this.violation(position);
+        if (this.isTimeVarying) {
+            this.evaluated.set(positionKey(position), { objective: value, violation });
+        }
+        return this.score(value, violation, iteration);
+    }
+
+    /**
+     * Set ε(0) from the violations of the first population (epsilon method)
+     */
+    public calibrate(violations: number[]): void {
+        if (this.method !== 'epsilon' || this.initialEpsilon !== null) return;
+        const sorted = [...violations].sort((a, b) => a - b);
+        this.initialEpsilon = sorted[Math.floor(EPSILON_THETA * (sorted.length - 1))] ?? 0;
+    }
+
+    /**
+     * Current score of a previously evaluated position, or `fitness` if it
+     * is no longer remembered
+     */
+    public rescore(position: ContinuousSolution, fitness: number, iteration: number): number {
+        const known = this.evaluated.get(positionKey(position));
+        return known ? this.score(known.objective, known.violation, iteration) : fitness;
+    }
+
+    /**
+     * Keep only the remembered evaluations of the given positions
+     */
+    public retain(positions: ContinuousSolution[]): void {
+        const kept = new Map<string, { objective: number; violation: number }>();
+        for (const position of positions) {
+            const key = positionKey(position);
+            const known = this.evaluated.get(key);
+            if (known) kept.set(key, known);
+        }
+        this.evaluated = kept;
+    }
+
+    private score(objective: number, violation: number, iteration: number): number {
+        switch (this.method) {
+            case 'static-penalty':
+                return objective + this.penalty * violation;
+            case 'dynamic-penalty':
+                return objective + Math.pow(DYNAMIC_C * (iteration + 1), DYNAMIC_ALPHA) * violation;
+            case 'epsilon':
+                return violation <= this.epsilon(iteration) ? objective : INFEASIBLE_OFFSET + violation;
+            case 'deb':
+            case 'repair':
+                return violation === 0 ? objective : INFEASIBLE_OFFSET + violation;
+        }
+    }
+
+    /** ε(t): unbounded until calibrated, then shrinking to 0 */
+    private epsilon(iteration: number): number {
+        if (this.initialEpsilon === null) return Infinity;
+        const control = EPSILON_CONTROL * this.maxIterations;
+        if (iteration >= control) return 0;
+        return this.initialEpsilon * Math.pow(1 - iteration / control, EPSILON_EXPONENT);
+    }
+
+    /**
+     * Repair `position` in place to the feasible point closest to it on the
+     * segment from the reference point (found by bisection), then score it
+     */
+    private evaluateRepaired(position: ContinuousSolution, objective: ObjectiveFunction<ContinuousSolution>): number {
+        let violation = this.violation(position);
+
+        if (violation > 0 && this.reference) {
+            const origin = this.reference.position;
+            const pointAt = (t: number) => origin.map((o, d) => o + t * (position[d] - o));
+            let feasible = 0;
+            let infeasible = 1;
+            for (let i = 0; i < REPAIR_STEPS; i++) {
+                const mid = (feasible + infeasible) / 2;
+                if (this.violation(pointAt(mid)) === 0) feasible = mid;
+                else infeasible = mid;
+            }
+            pointAt(feasible).forEach((v, d) => { position[d] = v; });
+            violation = 0;
+        }
+
+        const value = objective(position);
+        if (violation === 0 && (!this.reference || value < this.reference.objective)) {
+            this.reference = { position: [...position], objective: value };
+        }
+        return this.score(value, violation, 0);
+    }
+}
+
+function positionKey(position: ContinuousSolution): string {
+    return position.join(',');
+}
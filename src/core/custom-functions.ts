@@ -0,0 +1,125 @@
+/**
+ * Custom Test Functions
+ *
+ * User-defined objective functions written as expressions in x and y
+ * (see expression.ts). A definition is plain data, so it can be stored,
+ * exported, posted to the optimizer worker and kept in run files. It is
+ * compiled into a TestFunctionInfo and registered in testFunctions under
+ * its id, where the rest of the app looks problems up.
+ */
+
+import { Bounds } from './types';
+import { compileExpression } from './expression';
+import { testFunctions, TestFunctionInfo } from './test-functions';
+
+/** A user-defined 2D test function */
+export interface CustomFunctionDefinition {
+    /** Unique id, starting with CUSTOM_FUNCTION_PREFIX */
+    id: string;
+    name: string;
+    /** Expression in x and y, e.g. `sin(x)*cos(y) + 0.1*(x^2+y^2)` */
+    expression: string;
+    bounds: Bounds;
+    /** Known global minimum; estimated on a grid when omitted */
+    globalMinimum?: { x: [number, number]; f: number };
+}
+
+/** Prefix of every custom function id */
+export const CUSTOM_FUNCTION_PREFIX = 'custom-';
+
+/** Grid resolution per axis for estimating an unknown minimum */
+const ESTIMATE_GRID = 100;
+
+/** Registered definitions by id */
+const definitions = new Map<string, CustomFunctionDefinition>();
+
+/** Whether a function id names a custom function */
+export function isCustomFunctionId(id: string): boolean {
+    return id.startsWith(CUSTOM_FUNCTION_PREFIX);
+}
+
+/** A fresh id for a new custom function */
+export function newCustomFunctionId(): string {
+    return `${CUSTOM_FUNCTION_PREFIX}${Date.now().toString(36)}${Math.floor(Math.random() * 1296).toString(36)}`;
+}
+
+/**
+ * Compile a definition into a test function
+ *
+ * Points where the expression is undefined (NaN, e.g. sqrt of a negative)
+ * evaluate to Infinity, so they always lose comparisons instead of
+ * poisoning them.
+ *
+ * @throws If the expression or the bounds are invalid
+ */
+export function compileCustomFunction(definition: CustomFunctionDefinition): TestFunctionInfo {
+    const { min, max } = definition.bounds;
+    if (!Number.isFinite(min) || !Number.isFinite(max) || min >= max) {
+        throw new Error('Bounds must be finite with min < max');
+    }
+
+    const evaluate = compileExpression(definition.expression, ['x', 'y']);
+    const point = [0, 0];
+    const func2D = (x: number, y: number) => {
+        point[0] = x;
+        point[1] = y;
+        const value = evaluate(point);
+        return Number.isNaN(value) ? Infinity : value;
+    };
+
+    const known = definition.globalMinimum;
+    return {
+        name: definition.name,
+        func2D,
+        bounds: { min, max },
+        globalMinimum: known ? { x: [...known.x], f: known.f } : estimateMinimum(func2D, definition.bounds),
+        minimumEstimated: !known,
+        description: definition.expression,
+        group: 'custom'
+    };
+}
+
+/**
+ * Compile a definition and make it available in testFunctions
+ * (replacing an earlier version with the same id)
+ *
+ * @throws If the definition does not compile; nothing is registered then
+ */
+export function registerCustomFunction(definition: CustomFunctionDefinition): TestFunctionInfo {
+    if (!isCustomFunctionId(definition.id)) {
+        throw new Error(`Custom function ids must start with '${CUSTOM_FUNCTION_PREFIX}'`);
+    }
+    const info = compileCustomFunction(definition);
+    definitions.set(definition.id, definition);
+    testFunctions[definition.id] = info;
+    return info;
+}
+
+/** Remove a custom function from testFunctions */
+export function unregisterCustomFunction(id: string): void {
+    if (!definitions.delete(id)) return;
+    delete testFunctions[id];
+}
+
+/** Definition of a registered custom function */
+export function getCustomFunctionDefinition(id: string): CustomFunctionDefinition | undefined {
+    return definitions.get(id);
+}
+
+/** Best point of a grid over the bounds */
+function estimateMinimum(
+    func2D: (x: number, y: number) => number,
+    bounds: Bounds
+): { x: number[]; f: number } {
+    const step = (bounds.max - bounds.min) / ESTIMATE_GRID;
+    let best = { x: [bounds.min, bounds.min], f: Infinity };
+    for (let i = 0; i <= ESTIMATE_GRID; i++) {
+        for (let j = 0; j <= ESTIMATE_GRID; j++) {
+            const x = bounds.min + i * step;
+            const y = bounds.min + j * step;
+            const f = func2D(x, y);
+            if (f < best.f) best = { x: [x, y], f };
+        }
+    }
+    return best;
+}
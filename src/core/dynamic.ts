@@ -0,0 +1,104 @@
+/**
+ * Dynamic Problems
+ *
+ * Runtime support for time-varying objectives (see DynamicProblem). The
+ * optimizer evaluates every position in the environment in effect at
+ * that moment, detects changes by re-evaluating its global best, and then
+ * refreshes the fitness values it keeps (see BaseOptimizer.respondToChange).
+ *
+ * Performance is measured with the offline error (Branke & Schmeck): the
+ * error of the best solution found since the last change, averaged over
+ * all evaluations. It rewards tracking the optimum quickly after every
+ * change rather than only the final result.
+ */
+
+import { ContinuousSolution, DynamicProblem, ObjectiveFunction, ObjectiveFunction2D } from './types';
+
+/**
+ * Follows the environment of a dynamic problem during one optimizer run
+ * and accumulates the offline error
+ */
+export class DynamicTracker {
+    private readonly problem: DynamicProblem;
+
+    private current = 0;
+    /** Best fitness seen in the current environment */
+    private bestSinceChange = Infinity;
+    private errorSum = 0;
+    private errorCount = 0;
+
+    constructor(problem: DynamicProblem) {
+        this.problem = problem;
+    }
+
+    /** Start over in the initial environment */
+    public reset(): void {
+        this.current = 0;
+        this.bestSinceChange = Infinity;
+        this.errorSum = 0;
+        this.errorCount = 0;
+    }
+
+    /** Environment of the latest evaluation */
+    public get environment(): number {
+        return this.current;
+    }
+
+    /** Objective of the environment of the latest evaluation */
+    public get objective(): ObjectiveFunction<ContinuousSolution> {
+        return this.problem.objective(this.current);
+    }
+
+    /** Mean offline error over all evaluations so far (NaN before the first) */
+    public get offlineError(): number {
+        return this.errorCount > 0 ? this.errorSum / this.errorCount : NaN;
+    }
+
+    /** Error of the best solution found since the last change */
+    public get currentError(): number {
+        return this.bestSinceChange - this.problem.optimum(this.current).f;
+    }
+
+    /**
+     * Objective for the next evaluation, given the clock values before it.
+     * Moves to a new environment when a change is due.
+     */
+    public objectiveAt(iteration: number, evaluations: number): ObjectiveFunction<ContinuousSolution> {
+        const ticks = this.problem.clock === 'iterations' ? iteration : evaluations;
+        const environment = Math.floor(ticks / this.problem.changeFrequency);
+        if (environment !== this.current) {
+            this.current = environment;
+            this.bestSinceChange = Infinity;
+        }
+        return this.problem.objective(environment);
+    }
+
+    /** Fold the result of an evaluation into the offline error */
+    public observe(fitness: number): void {
+        if (fitness < this.bestSinceChange) this.bestSinceChange = fitness;
+        this.errorSum += this.currentError;
+        this.errorCount++;
+    }
+}
+
+/**
+ * 2D views of the environments of a dynamic problem: the slice through
+ * each environment's optimum along the projected dimensions (the landscape
+ * itself in 2D). Used to redraw the landscape as a run is played back.
+ */
+export function environmentSlice(
+    problem: DynamicProblem,
+    projection: [number, number]
+): (environment: number) => ObjectiveFunction2D {
+    const [px, py] = projection;
+    return (environment) => {
+        const objective = problem.objective(environment);
+        const anchor = problem.optimum(environment).x;
+        return (x, y) => {
+            const point = [...anchor];
+            point[px] = x;
+            point[py] = y;
+            return objective(point);
+        };
+    };
+}
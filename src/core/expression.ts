@@ -0,0 +1,272 @@
+/**
+ * Expression Compiler
+ *
+ * Turns a formula such as `sin(x)*cos(y) + 0.1*(x^2+y^2)` into a plain
+ * function without `eval` or `new Function`: the text is tokenized and a
+ * recursive-descent parser builds nested closures as it goes, one per
+ * operator or call. Only the variables, constants and functions listed
+ * below are reachable, so an expression cannot touch anything else.
+ *
+ * Grammar (lowest to highest precedence):
+ *
+ *     sum     = product (('+' | '-') product)*
+ *     product = unary (('*' | '/' | '%') unary)*
+ *     unary   = ('+' | '-') unary | power
+ *     power   = atom (('^' | '**') unary)?          (right-associative: -x^2 = -(x^2))
+ *     atom    = number | name | name '(' args ')' | '(' sum ')'
+ */
+
+type Evaluator = (values: number[]) => number;
+
+interface Token {
+    kind: 'number' | 'name' | 'op' | 'end';
+    text: string;
+    value?: number;
+    /** 1-based column in the source */
+    column: number;
+}
+
+/** Named constants */
+const CONSTANTS: Record<string, number> = {
+    pi: Math.PI,
+    e: Math.E,
+    tau: 2 * Math.PI
+};
+
+/** Callable functions with their accepted argument counts (max Infinity = variadic) */
+const FUNCTIONS: Record<string, { fn: (...args: number[]) => number; min: number; max: number }> = {
+    sin: { fn: Math.sin, min: 1, max: 1 },
+    cos: { fn: Math.cos, min: 1, max: 1 },
+    tan: { fn: Math.tan, min: 1, max: 1 },
+    asin: { fn: Math.asin, min: 1, max: 1 },
+    acos: { fn: Math.acos, min: 1, max: 1 },
+    atan: { fn: Math.atan, min: 1, max: 1 },
+    atan2: { fn: Math.atan2, min: 2, max: 2 },
+    sinh: { fn: Math.sinh, min: 1, max: 1 },
+    cosh: { fn: Math.cosh, min: 1, max: 1 },
+    tanh: { fn: Math.tanh, min: 1, max: 1 },
+    exp: { fn: Math.exp, min: 1, max: 1 },
+    log: { fn: Math.log, min: 1, max: 1 },
+    ln: { fn: Math.log, min: 1, max: 1 },
+    log10: { fn: Math.log10, min: 1, max: 1 },
+    log2: { fn: Math.log2, min: 1, max: 1 },
+    sqrt: { fn: Math.sqrt, min: 1, max: 1 },
+    cbrt: { fn: Math.cbrt, min: 1, max: 1 },
+    abs: { fn: Math.abs, min: 1, max: 1 },
+    sign: { fn: Math.sign, min: 1, max: 1 },
+    floor: { fn: Math.floor, min: 1, max: 1 },
+    ceil: { fn: Math.ceil, min: 1, max: 1 },
+    round: { fn: Math.round, min: 1, max: 1 },
+    pow: { fn: Math.pow, min: 2, max: 2 },
+    min: { fn: Math.min, min: 1, max: Infinity },
+    max: { fn: Math.max, min: 1, max: Infinity },
+    hypot: { fn: Math.hypot, min: 1, max: Infinity }
+};
+
+/** Names usable in expressions besides the variables, for help text */
+export const expressionConstants = Object.keys(CONSTANTS);
+export const expressionFunctions = Object.keys(FUNCTIONS);
+
+/**
+ * Compile an expression over the given variables
+ *
+ * @returns A function taking the variable values in the order given
+ * @throws With the column of the problem if the expression is invalid
+ */
+export function compileExpression(source: string, variables: string[] = ['x', 'y']): Evaluator {
+    const parser = new Parser(tokenize(source), variables);
+    return parser.parse();
+}
+
+/** Own entries only, so names like 'constructor' are not found on the prototype */
+function lookup<T>(table: Record<string, T>, name: string): T | undefined {
+    return Object.prototype.hasOwnProperty.call(table, name) ? table[name] : undefined;
+}
+
+// ============================================================================
+// TOKENIZER
+// ============================================================================
+
+function tokenize(source: string): Token[] {
+    const tokens: Token[] = [];
+    let i = 0;
+
+    while (i < source.length) {
+        const ch = source[i];
+        const column = i + 1;
+
+        if (/\s/.test(ch)) {
+            i++;
+        } else if (/[0-9.]/.test(ch)) {
+            const match = /^(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?/.exec(source.slice(i));
+            if (!match) throw new Error(`Unexpected character '${ch}' at column ${column}`);
+            tokens.push({ kind: 'number', text: match[0], value: Number(match[0]), column });
+            i += match[0].length;
+        } else if (/[A-Za-z_]/.test(ch)) {
+            const match = /^[A-Za-z_][A-Za-z0-9_]*/.exec(source.slice(i))!;
+            tokens.push({ kind: 'name', text: match[0], column });
+            i += match[0].length;
+        } else if (source.startsWith('**', i)) {
+            tokens.push({ kind: 'op', text: '^', column });
+            i += 2;
+        } else if ('+-*/%^(),'.includes(ch)) {
+            tokens.push({ kind: 'op', text: ch, column });
+            i++;
+        } else {
+            throw new Error(`Unexpected character '${ch}' at column ${column}`);
+        }
+    }
+
+    tokens.push({ kind: 'end', text: 'end of expression', column: source.length + 1 });
+    return tokens;
+}
+
+// ============================================================================
+// PARSER / COMPILER
+// ============================================================================
+
+class Parser {
+    private tokens: Token[];
+    private variables: string[];
+    private position = 0;
+
+    constructor(tokens: Token[], variables: string[]) {
+        this.tokens = tokens;
+        this.variables = variables;
+    }
+
+    public parse(): Evaluator {
+        if (this.peek().kind === 'end') throw new Error('Expression is empty');
+        const result = this.sum();
+        const next = this.peek();
+        if (next.kind !== 'end') throw new Error(`Unexpected '${next.text}' at column ${next.column}`);
+        return result;
+    }
+
+    private peek(): Token {
+        return this.tokens[this.position];
+    }
+
+    private next(): Token {
+        return this.tokens[this.position++];
+    }
+
+    private isOp(text: string): boolean {
+        const token = this.peek();
+        return token.kind === 'op' && token.text === text;
+    }
+
+    private expect(text: string): void {
+        const token = this.next();
+        if (token.kind !== 'op' || token.text !== text) {
+            throw new Error(`Expected '${text}' but found '${token.text}' at column ${token.column}`);
+        }
+    }
+
+    private sum(): Evaluator {
+        let left = this.product();
+        while (this.isOp('+') || this.isOp('-')) {
+            const op = this.next().text;
+            const a = left;
+            const b = this.product();
+            left = op === '+' ? (v) => a(v) + b(v) : (v) => a(v) - b(v);
+        }
+        return left;
+    }
+
+    private product(): Evaluator {
+        let left = this.unary();
+        while (this.isOp('*') || this.isOp('/') || this.isOp('%')) {
+            const op = this.next().text;
+            const a = left;
+            const b = this.unary();
+            left = op === '*' ? (v) => a(v) * b(v)
+                : op === '/' ? (v) => a(v) / b(v)
+                    : (v) => a(v) % b(v);
+        }
+        return left;
+    }
+
+    private unary(): Evaluator {
+        if (this.isOp('-')) {
+            this.next();
+            const a = this.unary();
+            return (v) => -a(v);
+        }
+        if (this.isOp('+')) {
+            this.next();
+            return this.unary();
+        }
+        return this.power();
+    }
+
+    private power(): Evaluator {
+        const base = this.atom();
+        if (!this.isOp('^')) return base;
+        this.next();
+        const exponent = this.unary();
+        return (v) => Math.pow(base(v), exponent(v));
+    }
+
+    private atom(): Evaluator {
+        const token = this.next();
+
+        if (token.kind === 'number') {
+            const value = token.value!;
+            return () => value;
+        }
+
+        if (token.kind === 'op' && token.text === '(') {
+            const inner = this.sum();
+            this.expect(')');
+            return inner;
+        }
+
+        if (token.kind === 'name') {
+            if (this.isOp('(')) return this.call(token);
+
+            const index = this.variables.indexOf(token.text);
+            if (index >= 0) return (v) => v[index];
+            const constant = lookup(CONSTANTS, token.text);
+            if (constant !== undefined) return () => constant;
+            if (lookup(FUNCTIONS, token.text)) {
+                throw new Error(`Function '${token.text}' needs arguments at column ${token.column}`);
+            }
+            throw new Error(`Unknown name '${token.text}' at column ${token.column}`);
+        }
+
+        throw new Error(`Unexpected '${token.text}' at column ${token.column}`);
+    }
+
+    private call(name: Token): Evaluator {
+        const def = lookup(FUNCTIONS, name.text);
+        if (!def) throw new Error(`Unknown function '${name.text}' at column ${name.column}`);
+
+        this.expect('(');
+        const args: Evaluator[] = [];
+        if (!this.isOp(')')) {
+            args.push(this.sum());
+            while (this.isOp(',')) {
+                this.next();
+                args.push(this.sum());
+            }
+        }
+        this.expect(')');
+
+        if (args.length < def.min || args.length > def.max) {
+            const expected = def.max === Infinity ? `at least ${def.min}` : def.min === def.max ? `${def.min}` : `${def.min}-${def.max}`;
+            throw new Error(`'${name.text}' takes ${expected} argument(s), got ${args.length} at column ${name.column}`);
+        }
+
+        const fn = def.fn;
+        if (args.length === 1) {
+            const [a] = args;
+            return (v) => fn(a(v));
+        }
+        if (args.length === 2) {
+            const [a, b] = args;
+            return (v) => fn(a(v), b(v));
+        }
+        return (v) => fn(...args.map(arg => arg(v)));
+    }
+}
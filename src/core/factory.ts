@@ -0,0 +1,196 @@
+/**
+ * Optimizer Factory
+ * 
+ * Builds a ready-to-run optimizer from plain run settings
+ * (algorithm id, problem id, population, dimensions, seed).
+ * Continuous algorithms take a test function id (or the id of a
+ * constrained benchmark, which fixes its own dimensions); discrete and
+ * binary algorithms take a combinatorial problem id of their own type,
+ * and multi-objective algorithms a multi-objective benchmark id.
+ * A custom function travels as its definition, which is registered here
+ * so that a worker without the user's saved functions can still run it.
+ * Shared by the single view, the compare view and headless tooling.
+ */
+
+import {
+    Optimizer,
+    Solution,
+    OptimizationType,
+    BaseOptimizerConfig,
+    StoppingConfig,
+    StoppingCriterion,
+    RecordingConfig,
+    Constraint,
+    ConstraintConfig,
+    ConstraintHandlingMethod,
+    BoundaryHandling,
+    NoiseConfig
+} from './types';
+import { getAlgorithm } from './registry';
+import { testFunctions } from './test-functions';
+import { discreteProblems, binaryProblems } from './combinatorial-problems';
+import { constrainedProblems } from './constrained-problems';
+import { multiObjectiveProblems } from './multi-objective-problems';
+import { CustomFunctionDefinition, registerCustomFunction } from './custom-functions';
+
+/** Everything needed to reproduce a run */
+export interface RunSettings {
+    algorithmId: string;
+    functionId: string;
+    populationSize: number;
+    /** Number of dimensions (default 2) */
+    dimensions?: number;
+    /** Planned iteration count; read by variants whose parameters follow a schedule */
+    maxIterations?: number;
+    seed?: number;
+    hyperparams?: Record<string, string | number>;
+    stopping?: StoppingConfig;
+    stoppingCriteria?: StoppingCriterion[];
+    recording?: RecordingConfig;
+    /** How constrained problems handle violations (default: Deb's rules) */
+    constraintHandling?: ConstraintHandlingMethod;
+    /** What happens to agents leaving the search box (continuous only; default: clamp) */
+    boundaryHandling?: BoundaryHandling;
+    /** Noise added to the objective and how the optimizer handles it (continuous only) */
+    noise?: NoiseConfig;
+    /** Definition of the custom function named by functionId, if it is one */
+    customFunction?: CustomFunctionDefinition;
+}
+
+/** Problem shown when switching to an algorithm of each type */
+export const defaultProblemIds: Record<OptimizationType, string> = {
+    continuous: 'rastrigin',
+    discrete: 'tsp-random-30',
+    binary: 'onemax',
+    multiobjective: 'zdt1'
+};
+
+/**
+ * Whether a problem id exists for the given optimization type
+ */
+export function isProblemForType(type: OptimizationType, functionId: string): boolean {
+    if (type === 'continuous') return functionId in testFunctions;
+    if (type === 'discrete') return functionId in discreteProblems;
+    if (type === 'multiobjective') return functionId in multiObjectiveProblems;
+    return functionId in binaryProblems;
+}
+
+/**
+ * Whether an algorithm/function pair can run in more than 2 dimensions
+ */
+export function supportsND(algorithmId: string, functionId: string): boolean {
+    const algo = getAlgorithm(algorithmId);
+    const func = testFunctions[functionId];
+    return Boolean(algo?.optimizationType === 'continuous' && algo.createND && func?.funcND);
+}
+
+/**
+ * Create an optimizer for the given settings
+ * 
+ * @throws If the algorithm or problem is unknown, if the problem does not
+ *         match the algorithm's optimization type, or if more than
+ *         2 dimensions are requested for a pair that does not support it
+ */
+export function createOptimizer(settings: RunSettings): Optimizer<Solution> {
+    const algo = getAlgorithm(settings.algorithmId);
+    if (!algo) throw new Error(`Unknown algorithm: ${settings.algorithmId}`);
+
+    const hyperparams = settings.hyperparams;
+    const shared: Omit<BaseOptimizerConfig, 'type' | 'dimensions'> = {
+        populationSize: settings.populationSize,
+        maxIterations: settings.maxIterations,
+        seed: settings.seed,
+        stopping: settings.stopping,
+        stoppingCriteria: settings.stoppingCriteria,
+        recording: settings.recording,
+        boundaryHandling: settings.boundaryHandling,
+        noise: settings.noise
+    };
+
+    // Combinatorial problems fix their own size; settings.dimensions does not apply
+    if (algo.optimizationType === 'discrete') {
+        const problem = discreteProblems[settings.functionId];
+        if (!problem) throw new Error(`Unknown permutation problem: ${settings.functionId}`);
+        return algo.create({
+            ...shared,
+            type: 'discrete',
+            dimensions: problem.dimensions,
+            objectiveFunction: problem.func
+        }, hyperparams);
+    }
+
+    if (algo.optimizationType === 'binary') {
+        const problem = binaryProblems[settings.functionId];
+        if (!problem) throw new Error(`Unknown binary problem: ${settings.functionId}`);
+        return algo.create({
+            ...shared,
+            type: 'binary',
+            dimensions: problem.dimensions,
+            objectiveFunction: problem.func
+        }, hyperparams);
+    }
+
+    // Multi-objective benchmarks fix their own dimensions and bounds as well
+    if (algo.optimizationType === 'multiobjective') {
+        const problem = multiObjectiveProblems[settings.functionId];
+        if (!problem) throw new Error(`Unknown multi-objective problem: ${settings.functionId}`);
+        return algo.create({
+            ...shared,
+            type: 'multiobjective',
+            dimensions: problem.dimensions,
+            bounds: problem.bounds,
+            objectiveFunction: problem.func,
+            objectives: problem.objectives,
+            referencePoint: problem.referencePoint,
+            referenceFront: problem.paretoFront()
+        }, hyperparams);
+    }
+
+    const constraintConfig = (constraints: Constraint[] | undefined): ConstraintConfig | undefined =>
+        constraints && { constraints, method: settings.constraintHandling ?? 'deb' };
+
+    // Constrained benchmarks outside the 2D test functions keep their own dimensions and bounds
+    const constrained = constrainedProblems[settings.functionId];
+    if (constrained && !(settings.functionId in testFunctions)) {
+        if (!algo.createND) throw new Error(`${algo.name} only supports 2 dimensions`);
+        return algo.createND({
+            ...shared,
+            type: 'continuous',
+            dimensions: constrained.dimensions,
+            bounds: constrained.bounds,
+            objectiveFunction: constrained.func,
+            constraints: constraintConfig(constrained.constraints)
+        }, hyperparams);
+    }
+
+    if (settings.customFunction) registerCustomFunction(settings.customFunction);
+
+    const func = testFunctions[settings.functionId];
+    if (!func) throw new Error(`Unknown test function: ${settings.functionId}`);
+
+    const dimensions = settings.dimensions ?? 2;
+
+    if (dimensions === 2) {
+        return algo.create({
+            ...shared,
+            type: 'continuous',
+            dimensions: 2,
+            bounds: func.bounds,
+            objectiveFunction: func.func2D,
+            constraints: constraintConfig(func.constraints),
+            dynamic: func.dynamic?.(2)
+        }, hyperparams);
+    }
+
+    if (!algo.createND) throw new Error(`${algo.name} only supports 2 dimensions`);
+    if (!func.funcND) throw new Error(`${func.name} has no N-dimensional form`);
+
+    return algo.createND({
+        ...shared,
+        type: 'continuous',
+        dimensions,
+        bounds: func.bounds,
+        objectiveFunction: func.funcND,
+        dynamic: func.dynamic?.(dimensions)
+    }, hyperparams);
+}
@@ -0,0 +1,142 @@
+/**
+ * Wrapper Feature Selection
+ *
+ * Labelled CSV datasets and a k-nearest-neighbour wrapper objective for
+ * the bit-string algorithms. Bit i selects feature i; a subset is scored
+ * by the leave-one-out error of a k-NN classifier restricted to it.
+ *
+ * fitness = alpha · error + (1 - alpha) · selected / total
+ *
+ * so accuracy dominates and ties go to smaller subsets. The empty subset
+ * scores 1, the worst possible value.
+ */
+
+import { BinarySolution, ObjectiveFunction } from './types';
+
+export interface Dataset {
+    name: string;
+    comment?: string;
+    features: string[];
+    /** Samples × features, z-score normalized per feature */
+    samples: number[][];
+    /** Class index of each sample */
+    labels: number[];
+    classes: string[];
+}
+
+export interface FeatureSelectionOptions {
+    k?: number;
+    alpha?: number;
+}
+
+/**
+ * Parse a CSV file with a header row and the class label in the last column
+ *
+ * Features are z-score normalized so that no feature dominates the
+ * distances by its scale alone.
+ *
+ * @throws If a row has the wrong number of columns or a non-numeric feature
+ */
+export function parseCSVDataset(text: string, name: string, comment?: string): Dataset {
+    const lines = text.split(/\r?\n/).map(line => line.trim()).filter(line => line !== '');
+    if (lines.length < 2) throw new Error('CSV needs a header row and at least one sample');
+
+    const header = lines[0].split(',').map(cell => cell.trim());
+    const features = header.slice(0, -1);
+    const classes: string[] = [];
+    const samples: number[][] = [];
+    const labels: number[] = [];
+
+    lines.slice(1).forEach((line, row) => {
+        const cells = line.split(',').map(cell => cell.trim());
+        if (cells.length !== header.length) {
+            throw new Error(`Row ${row + 2} has ${cells.length} columns, expected ${header.length}`);
+        }
+
+        const values = cells.slice(0, -1).map(Number);
+        const invalid = values.findIndex(v => !Number.isFinite(v));
+        if (invalid !== -1) {
+            throw new Error(`Row ${row + 2}: "${cells[invalid]}" is not a number`);
+        }
+
+        const label = cells[cells.length - 1];
+        if (!classes.includes(label)) classes.push(label);
+        samples.push(values);
+        labels.push(classes.indexOf(label));
+    });
+
+    return { name, comment, features, samples: normalize(samples), labels, classes };
+}
+
+/** Z-score normalize each column (constant columns become 0) */
+function normalize(samples: number[][]): number[][] {
+    const n = samples.length;
+    const d = samples[0].length;
+    const mean = new Array<number>(d).fill(0);
+    const std = new Array<number>(d).fill(0);
+
+    for (const row of samples) row.forEach((v, j) => { mean[j] += v / n; });
+    for (const row of samples) row.forEach((v, j) => { std[j] += (v - mean[j]) ** 2 / n; });
+
+    return samples.map(row => row.map((v, j) => (std[j] > 0 ? (v - mean[j]) / Math.sqrt(std[j]) : 0)));
+}
+
+/**
+ * Leave-one-out error rate of k-NN (majority vote, Euclidean distance)
+ * using only the given features
+ */
+export function knnError(dataset: Dataset, selected: number[], k: number): number {
+    const { samples, labels, classes } = dataset;
+    const n = samples.length;
+    let errors = 0;
+
+    for (let i = 0; i < n; i++) {
+        const neighbours: Array<{ distance: number; label: number }> = [];
+        for (let j = 0; j < n; j++) {
+            if (j === i) continue;
+            let distance = 0;
+            for (const f of selected) {
+                const diff = samples[i][f] - samples[j][f];
+                distance += diff * diff;
+            }
+            neighbours.push({ distance, label: labels[j] });
+        }
+        neighbours.sort((a, b) => a.distance - b.distance);
+
+        const votes = new Array<number>(classes.length).fill(0);
+        for (const neighbour of neighbours.slice(0, k)) votes[neighbour.label]++;
+        // Ties go to the lowest class index
+        const predicted = votes.indexOf(Math.max(...votes));
+        if (predicted !== labels[i]) errors++;
+    }
+
+    return errors / n;
+}
+
+/**
+ * Objective function for a dataset
+ *
+ * Scores are cached per subset since population methods revisit the same
+ * subsets often and each k-NN pass is O(n²).
+ */
+export function featureSelectionObjective(
+    dataset: Dataset,
+    { k = 5, alpha = 0.99 }: FeatureSelectionOptions = {}
+): ObjectiveFunction<BinarySolution> {
+    const cache = new Map<string, number>();
+    const total = dataset.features.length;
+
+    return (bits) => {
+        const key = bits.join('');
+        const cached = cache.get(key);
+        if (cached !== undefined) return cached;
+
+        const selected = bits.flatMap((bit, i) => (bit === 1 ? [i] : []));
+        const fitness = selected.length === 0
+            ? 1
+            : alpha * knnError(dataset, selected, k) + (1 - alpha) * selected.length / total;
+
+        cache.set(key, fitness);
+        return fitness;
+    };
+}
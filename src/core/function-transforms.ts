@@ -0,0 +1,174 @@
+/**
+ * Function Transforms
+ *
+ * CEC-style variants of the test functions. A variant evaluates its base
+ * function at
+ *
+ *     z = x* + s · R · (x − o)
+ *
+ * and adds a bias, where x* is the base optimum, o the new optimum
+ * location, R an orthogonal rotation and s a scale. The optimum therefore
+ * moves to o with value f(x*) + bias, which keeps it known, while the
+ * shift takes it away from the center of the domain and the rotation
+ * removes separability. Algorithms biased toward the origin or toward
+ * coordinate-wise moves lose their advantage.
+ *
+ * The shift vector and the rotation matrices are drawn from a seeded
+ * generator, so a variant is the same function on every run. The shift
+ * for N dimensions extends the one for fewer (same leading coordinates);
+ * each dimension count has its own rotation.
+ */
+
+import { Bounds, ContinuousSolution, ObjectiveFunction } from './types';
+import { createSeededRandom } from './random';
+import type { TestFunctionInfo } from './test-functions';
+
+/** How to derive a variant from a base test function */
+export interface FunctionTransform {
+    /** Search domain of the variant (default: the base function's) */
+    bounds?: Bounds;
+    /** Move the optimum to a random point in the inner 80% of the domain */
+    shift?: boolean;
+    /** Apply a random rotation around the optimum */
+    rotate?: boolean;
+    /**
+     * Factor applied to (x − o); default maps the variant's domain onto
+     * the base domain, so an untransformed variant is only rescaled
+     */
+    scale?: number;
+    /** Added to every value, including the optimum (default 0) */
+    bias?: number;
+    /** Seed for the shift vector and rotation matrices (default 1) */
+    seed?: number;
+    name?: string;
+    description?: string;
+}
+
+/** Shift coordinates are rounded to this many significant digits for readable optima */
+const SHIFT_PRECISION = 4;
+
+/** Fraction of the domain half-width the shifted optimum may use */
+const SHIFT_RANGE = 0.8;
+
+/**
+ * Build the shifted/rotated/scaled variant of a test function.
+ * The N-dimensional form exists when the base function has one.
+ */
+export function transformTestFunction(base: TestFunctionInfo, transform: FunctionTransform): TestFunctionInfo {
+    const bounds = transform.bounds ?? base.bounds;
+    const scale = transform.scale ?? (base.bounds.max - base.bounds.min) / (bounds.max - bounds.min);
+    const bias = transform.bias ?? 0;
+    const seed = transform.seed ?? 1;
+
+    const baseFuncND = base.funcND;
+    const evaluateBase: ObjectiveFunction<ContinuousSolution> = baseFuncND ?? ((z) => base.func2D(z[0], z[1]));
+
+    // Optimum location per dimension count
+    const locations = new Map<number, number[]>();
+    const location = (dimensions: number): number[] => {
+        let o = locations.get(dimensions);
+        if (!o) {
+            o = transform.shift
+                ? shiftVector(bounds, dimensions, seed)
+                : unshiftedLocation(base, bounds, scale, dimensions);
+            locations.set(dimensions, o);
+        }
+        return o;
+    };
+
+    const rotations = new Map<number, number[][] | null>();
+    const rotation = (dimensions: number): number[][] | null => {
+        let r = rotations.get(dimensions);
+        if (r === undefined) {
+            r = transform.rotate ? randomRotation(dimensions, seed) : null;
+            rotations.set(dimensions, r);
+        }
+        return r;
+    };
+
+    const evaluate: ObjectiveFunction<ContinuousSolution> = (x) => {
+        const n = x.length;
+        const o = location(n);
+        const r = rotation(n);
+        const target = baseOptimum(base, n).x;
+        const diff = x.map((v, d) => v - o[d]);
+        const z = target.map((t, i) => {
+            if (!r) return t + scale * diff[i];
+            let sum = 0;
+            for (let j = 0; j < n; j++) sum += r[i][j] * diff[j];
+            return t + scale * sum;
+        });
+        return evaluateBase(z) + bias;
+    };
+
+    return {
+        name: transform.name ?? transformedName(base.name, transform),
+        func2D: (x, y) => evaluate([x, y]),
+        funcND: baseFuncND && evaluate,
+        bounds,
+        globalMinimum: { x: location(2), f: base.globalMinimum.f + bias },
+        globalMinimumND: baseFuncND && ((dimensions) => ({
+            x: location(dimensions),
+            f: baseOptimum(base, dimensions).f + bias
+        })),
+        description: transform.description ?? base.description,
+        group: 'transformed'
+    };
+}
+
+/**
+ * Optimum of the base function in N dimensions
+ * (the same rule as minimumND() in test-functions, which imports this module)
+ */
+function baseOptimum(base: TestFunctionInfo, dimensions: number): { x: number[]; f: number } {
+    if (dimensions === base.globalMinimum.x.length) return base.globalMinimum;
+    if (base.globalMinimumND) return base.globalMinimumND(dimensions);
+    return { x: new Array(dimensions).fill(base.globalMinimum.x[0]), f: base.globalMinimum.f };
+}
+
+/** Where the base optimum lands when the base domain is only rescaled onto `bounds` */
+function unshiftedLocation(base: TestFunctionInfo, bounds: Bounds, scale: number, dimensions: number): number[] {
+    const baseCenter = (base.bounds.min + base.bounds.max) / 2;
+    const center = (bounds.min + bounds.max) / 2;
+    return baseOptimum(base, dimensions).x.map(t => center + (t - baseCenter) / scale);
+}
+
+/** Random optimum location; the first d coordinates are the same for every longer vector */
+function shiftVector(bounds: Bounds, dimensions: number, seed: number): number[] {
+    const random = createSeededRandom(seed);
+    const center = (bounds.min + bounds.max) / 2;
+    const halfWidth = SHIFT_RANGE * (bounds.max - bounds.min) / 2;
+    return Array.from({ length: dimensions }, () =>
+        Number((center + (2 * random() - 1) * halfWidth).toPrecision(SHIFT_PRECISION))
+    );
+}
+
+/**
+ * Random orthogonal matrix: Gram-Schmidt on a Gaussian matrix
+ * (uniformly distributed over rotations and reflections)
+ */
+function randomRotation(dimensions: number, seed: number): number[][] {
+    const random = createSeededRandom(seed * 7919 + dimensions);
+    const gaussian = () => {
+        const u = 1 - random();
+        return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * random());
+    };
+
+    const rows: number[][] = [];
+    while (rows.length < dimensions) {
+        const v = Array.from({ length: dimensions }, gaussian);
+        for (const row of rows) {
+            const dot = row.reduce((sum, r, j) => sum + r * v[j], 0);
+            row.forEach((r, j) => { v[j] -= dot * r; });
+        }
+        const norm = Math.sqrt(v.reduce((sum, x) => sum + x * x, 0));
+        // A (numerically) dependent draw is simply redrawn
+        if (norm > 1e-8) rows.push(v.map(x => x / norm));
+    }
+    return rows;
+}
+
+function transformedName(name: string, transform: FunctionTransform): string {
+    const parts = [transform.shift && 'Shifted', transform.rotate && 'Rotated'].filter(Boolean);
+    return parts.length > 0 ? `${parts.join(' ')} ${name}` : `Scaled ${name}`;
+}
@@ -0,0 +1,447 @@
+/**
+ * Columnar History Store
+ *
+ * Compact storage for optimizer history. Each recorded IterationState is
+ * encoded into Float64Array chunks instead of being kept as a tree of
+ * cloned objects, and decoded on demand when read.
+ *
+ * view() exposes the store as a read-only IterationState[] so existing
+ * consumers (Canvas, ConvergenceChart, interpolateState) keep working.
+ * Decoded states build their `agents` array lazily, so reading only
+ * fitness values (e.g. for a convergence chart) stays cheap.
+ *
+ * The Pareto archive of a multi-objective run is kept by reference: its
+ * members are never modified, so consecutive states share them.
+ */
+
+import { Solution, Agent, IterationState, ParetoState, StopReason, RecordingMode } from './types';
+
+/** Display names for the recording modes */
+export const recordingModes: Array<{ value: RecordingMode; label: string }> = [
+    { value: 'full', label: 'Every iteration' },
+    { value: 'interval', label: 'Every k-th iteration' },
+    { value: 'best-only', label: 'Global best only' }
+];
+
+// ============================================================================
+// RECORD LAYOUT
+// ============================================================================
+//
+// [iteration, bestFitness, evaluations, bestDim, agentCount, agentDim, flags,
+//  environment, offlineError, globalBestTrueFitness, objectiveCount]
+// [globalBest × bestDim]
+// per agent: [position × agentDim, fitness,
+//             (velocity × agentDim), (personalBest × agentDim, personalBestFitness),
+//             (violation), (trueFitness), (objectives × objectiveCount),
+//             (numeric metadata × metaKeys.length)]
+
+const HEADER_SIZE = 11;
+const HAS_VELOCITY = 1;
+const HAS_PERSONAL_BEST = 2;
+const HAS_VIOLATION = 4;
+const HAS_TRUE_FITNESS = 8;
+const HAS_OBJECTIVES = 16;
+
+/** Default chunk size in doubles (512 KiB) */
+const DEFAULT_CHUNK_SIZE = 1 << 16;
+
+/** Decoded states kept alive for repeated access (e.g. tweening between two frames) */
+const CACHE_SIZE = 8;
+
+// ============================================================================
+// STORE
+// ============================================================================
+
+export class HistoryStore<T extends Solution = Solution> {
+    private chunks: Float64Array[] = [];
+    private chunkUsed = 0;
+    private readonly chunkSize: number;
+
+    // Per-record index
+    private recordChunk: number[] = [];
+    private recordOffset: number[] = [];
+
+    // Per-record side data that does not fit the numeric layout
+    private metaKeys: (string[] | undefined)[] = [];
+    private metaOther: (Array<Record<string, unknown> | undefined> | undefined)[] = [];
+    private extras: (Record<string, unknown> | undefined)[] = [];
+    private stopReasons: (StopReason | undefined)[] = [];
+    private paretos: (ParetoState | undefined)[] = [];
+
+    // Decoded-state cache (the first state is pinned so its identity is stable)
+    private first: IterationState<T> | undefined;
+    private cache = new Map<number, IterationState<T>>();
+
+    constructor(chunkSize: number = DEFAULT_CHUNK_SIZE) {
+        this.chunkSize = chunkSize;
+    }
+
+    /** Number of recorded states */
+    public get length(): number {
+        return this.recordChunk.length;
+    }
+
+    /** Approximate memory held by the numeric chunks, in bytes */
+    public get byteLength(): number {
+        return this.chunks.reduce((sum, c) => sum + c.byteLength, 0);
+    }
+
+    /** Drop all records */
+    public clear(): void {
+        this.chunks = [];
+        this.chunkUsed = 0;
+        this.recordChunk = [];
+        this.recordOffset = [];
+        this.metaKeys = [];
+        this.metaOther = [];
+        this.extras = [];
+        this.stopReasons = [];
+        this.paretos = [];
+        this.first = undefined;
+        this.cache.clear();
+    }
+
+    /**
+     * Encode and append a state. The state is copied, so live
+     * population objects can be passed in directly.
+     */
+    public push(state: IterationState<T>): void {
+        const agents = state.agents;
+        const agentDim = agents.length > 0 ? agents[0].position.length : 0;
+        const bestDim = state.globalBest.length;
+
+        let flags = 0;
+        if (agents.some(a => a.velocity)) flags |= HAS_VELOCITY;
+        if (agents.some(a => a.personalBest)) flags |= HAS_PERSONAL_BEST;
+        if (agents.some(a => a.violation !== undefined)) flags |= HAS_VIOLATION;
+        if (agents.some(a => a.trueFitness !== undefined)) flags |= HAS_TRUE_FITNESS;
+        const objectiveCount = agents.find(a => a.objectives)?.objectives!.length ?? 0;
+        if (objectiveCount > 0) flags |= HAS_OBJECTIVES;
+
+        const keys = this.numericMetaKeys(agents);
+        const agentSize = agentDim + 1
+            + (flags & HAS_VELOCITY ? agentDim : 0)
+            + (flags & HAS_PERSONAL_BEST ? agentDim + 1 : 0)
+            + (flags & HAS_VIOLATION ? 1 : 0)
+            + (flags & HAS_TRUE_FITNESS ? 1 : 0)
+            + objectiveCount
+            + keys.length;
+        const size = HEADER_SIZE + bestDim + agents.length * agentSize;
+
+        const [chunk, start] = this.allocate(size);
+        let o = start;
+        chunk[o++] = state.iteration;
+        chunk[o++] = state.globalBestFitness;
+        chunk[o++] = state.evaluations ?? NaN;
+        chunk[o++] = bestDim;
+        chunk[o++] = agents.length;
+        chunk[o++] = agentDim;
+        chunk[o++] = flags;
+        chunk[o++] = state.environment ?? NaN;
+        chunk[o++] = state.offlineError ?? NaN;
+        chunk[o++] = state.globalBestTrueFitness ?? NaN;
+        chunk[o++] = objectiveCount;
+        o = writeVector(chunk, o, state.globalBest, bestDim);
+
+        let other: Array<Record<string, unknown> | undefined> | undefined;
+        agents.forEach((agent, i) => {
+            o = writeVector(chunk, o, agent.position, agentDim);
+            chunk[o++] = agent.fitness;
+            if (flags & HAS_VELOCITY) {
+                o = writeVector(chunk, o, agent.velocity, agentDim);
+            }
+            if (flags & HAS_PERSONAL_BEST) {
+                o = writeVector(chunk, o, agent.personalBest, agentDim);
+                chunk[o++] = agent.personalBestFitness ?? NaN;
+            }
+            if (flags & HAS_VIOLATION) {
+                chunk[o++] = agent.violation ?? NaN;
+            }
+            if (flags & HAS_TRUE_FITNESS) {
+                chunk[o++] = agent.trueFitness ?? NaN;
+            }
+            if (flags & HAS_OBJECTIVES) {
+                o = writeVector(chunk, o, agent.objectives, objectiveCount);
+            }
+            for (const key of keys) {
+                chunk[o++] = agent.metadata![key] as number;
+            }
+
+            const rest = nonNumericMetadata(agent.metadata, keys);
+            if (rest) {
+                other = other ?? new Array(agents.length);
+                other[i] = rest;
+            }
+        });
+
+        // Share the key list with the previous record when unchanged
+        const prevKeys = this.metaKeys[this.metaKeys.length - 1];
+        this.metaKeys.push(keys.length === 0 ? undefined : sameKeys(prevKeys, keys) ? prevKeys : keys);
+        this.metaOther.push(other);
+        this.extras.push(state.extra ? { ...state.extra } : undefined);
+        this.stopReasons.push(state.stopReason);
+        this.paretos.push(state.pareto ? { ...state.pareto, front: [...state.pareto.front] } : undefined);
+    }
+
+    /** Decode the state at an index */
+    public get(index: number): IterationState<T> | undefined {
+        if (index < 0 || index >= this.length) return undefined;
+        if (index === 0 && this.first) return this.first;
+
+        const cached = this.cache.get(index);
+        if (cached) return cached;
+
+        const state = this.decode(index);
+        if (index === 0) {
+            this.first = state;
+        } else {
+            if (this.cache.size >= CACHE_SIZE) {
+                this.cache.delete(this.cache.keys().next().value as number);
+            }
+            this.cache.set(index, state);
+        }
+        return state;
+    }
+
+    /** Record why the run ended on an existing state */
+    public setStopReason(index: number, reason: StopReason): void {
+        if (index < 0 || index >= this.length) return;
+        this.stopReasons[index] = reason;
+        const decoded = index === 0 ? this.first : this.cache.get(index);
+        if (decoded) decoded.stopReason = reason;
+    }
+
+    // ------------------------------------------------------------------------
+    // Cheap accessors (no decoding)
+    // ------------------------------------------------------------------------
+
+    /** Iteration number of a recorded state */
+    public getIteration(index: number): number {
+        return this.header(index, 0);
+    }
+
+    /** Global best fitness of a recorded state */
+    public getBestFitness(index: number): number {
+        return this.header(index, 1);
+    }
+
+    /** Evaluations spent at a recorded state */
+    public getEvaluations(index: number): number | undefined {
+        const value = this.header(index, 2);
+        return Number.isNaN(value) ? undefined : value;
+    }
+
+    /** Offline error at a recorded state (dynamic problems only) */
+    public getOfflineError(index: number): number | undefined {
+        const value = this.header(index, 8);
+        return Number.isNaN(value) ? undefined : value;
+    }
+
+    /** Noiseless global best fitness at a recorded state (noisy problems only) */
+    public getBestTrueFitness(index: number): number | undefined {
+        const value = this.header(index, 9);
+        return Number.isNaN(value) ? undefined : value;
+    }
+
+    /** Number of agents stored for a recorded state */
+    public getAgentCount(index: number): number {
+        return this.header(index, 4);
+    }
+
+    /**
+     * Read-only array view of the store.
+     *
+     * @param length - Fix the view to the first `length` states (a snapshot);
+     *                 omit for a live view that grows with the store
+     */
+    public view(length?: number): IterationState<T>[] {
+        const store = this;
+        const size = () => length ?? store.length;
+
+        return new Proxy([] as IterationState<T>[], {
+            get(target, prop, receiver) {
+                if (prop === 'length') return size();
+                if (typeof prop === 'string' && isIndex(prop)) {
+                    const i = Number(prop);
+                    return i < size() ? store.get(i) : undefined;
+                }
+                return Reflect.get(target, prop, receiver);
+            },
+            has(target, prop) {
+                if (typeof prop === 'string' && isIndex(prop)) return Number(prop) < size();
+                return Reflect.has(target, prop);
+            },
+            set() {
+                return false;
+            }
+        });
+    }
+
+    // ------------------------------------------------------------------------
+    // Internals
+    // ------------------------------------------------------------------------
+
+    private header(index: number, field: number): number {
+        if (index < 0 || index >= this.length) return NaN;
+        return this.chunks[this.recordChunk[index]][this.recordOffset[index] + field];
+    }
+
+    /** Reserve `size` contiguous doubles, starting a new chunk if needed */
+    private allocate(size: number): [Float64Array, number] {
+        let chunk = this.chunks[this.chunks.length - 1];
+        if (!chunk || this.chunkUsed + size > chunk.length) {
+            chunk = new Float64Array(Math.max(this.chunkSize, size));
+            this.chunks.push(chunk);
+            this.chunkUsed = 0;
+        }
+
+        const start = this.chunkUsed;
+        this.chunkUsed += size;
+        this.recordChunk.push(this.chunks.length - 1);
+        this.recordOffset.push(start);
+        return [chunk, start];
+    }
+
+    /** Metadata keys whose value is a number on every agent */
+    private numericMetaKeys(agents: Agent<T>[]): string[] {
+        const firstMeta = agents[0]?.metadata;
+        if (!firstMeta) return [];
+        return Object.keys(firstMeta).filter(key =>
+            agents.every(a => typeof a.metadata?.[key] === 'number')
+        );
+    }
+
+    private decode(index: number): IterationState<T> {
+        const chunk = this.chunks[this.recordChunk[index]];
+        let o = this.recordOffset[index];
+
+        const iteration = chunk[o++];
+        const globalBestFitness = chunk[o++];
+        const evaluations = chunk[o++];
+        const bestDim = chunk[o++];
+        const agentCount = chunk[o++];
+        const agentDim = chunk[o++];
+        const flags = chunk[o++];
+        const environment = chunk[o++];
+        const offlineError = chunk[o++];
+        const globalBestTrueFitness = chunk[o++];
+        const objectiveCount = chunk[o++];
+        const globalBest = readVector(chunk, o, bestDim) as T;
+        const agentsStart = o + bestDim;
+
+        const keys = this.metaKeys[index] ?? [];
+        const other = this.metaOther[index];
+
+        const decodeAgents = (): Agent<T>[] => {
+            const agents: Agent<T>[] = [];
+            let p = agentsStart;
+            for (let i = 0; i < agentCount; i++) {
+                const agent: Agent<T> = {
+                    position: readVector(chunk, p, agentDim) as T,
+                    fitness: chunk[p + agentDim]
+                };
+                p += agentDim + 1;
+
+                if (flags & HAS_VELOCITY) {
+                    if (!Number.isNaN(chunk[p])) agent.velocity = readVector(chunk, p, agentDim) as T;
+                    p += agentDim;
+                }
+                if (flags & HAS_PERSONAL_BEST) {
+                    if (!Number.isNaN(chunk[p])) {
+                        agent.personalBest = readVector(chunk, p, agentDim) as T;
+                        agent.personalBestFitness = chunk[p + agentDim];
+                    }
+                    p += agentDim + 1;
+                }
+                if (flags & HAS_VIOLATION) {
+                    if (!Number.isNaN(chunk[p])) agent.violation = chunk[p];
+                    p++;
+                }
+                if (flags & HAS_TRUE_FITNESS) {
+                    if (!Number.isNaN(chunk[p])) agent.trueFitness = chunk[p];
+                    p++;
+                }
+                if (flags & HAS_OBJECTIVES) {
+                    if (!Number.isNaN(chunk[p])) agent.objectives = readVector(chunk, p, objectiveCount);
+                    p += objectiveCount;
+                }
+                if (keys.length > 0 || other?.[i]) {
+                    const metadata: Record<string, unknown> = { ...other?.[i] };
+                    for (const key of keys) metadata[key] = chunk[p++];
+                    agent.metadata = metadata;
+                }
+                agents.push(agent);
+            }
+            return agents;
+        };
+
+        const state = {
+            iteration,
+            globalBest,
+            globalBestFitness
+        } as IterationState<T>;
+
+        // Agents are decoded on first access only
+        Object.defineProperty(state, 'agents', {
+            enumerable: true,
+            configurable: true,
+            get() {
+                const agents = decodeAgents();
+                Object.defineProperty(state, 'agents', { value: agents, enumerable: true, writable: true });
+                return agents;
+            }
+        });
+
+        if (!Number.isNaN(evaluations)) state.evaluations = evaluations;
+        if (!Number.isNaN(environment)) state.environment = environment;
+        if (!Number.isNaN(offlineError)) state.offlineError = offlineError;
+        if (!Number.isNaN(globalBestTrueFitness)) state.globalBestTrueFitness = globalBestTrueFitness;
+        const extra = this.extras[index];
+        if (extra) state.extra = extra;
+        const stopReason = this.stopReasons[index];
+        if (stopReason) state.stopReason = stopReason;
+        const pareto = this.paretos[index];
+        if (pareto) state.pareto = pareto;
+
+        return state;
+    }
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function isIndex(prop: string): boolean {
+    return /^(0|[1-9]\d*)$/.test(prop);
+}
+
+/** Write `dim` values (NaN when the vector is missing) */
+function writeVector(chunk: Float64Array, offset: number, values: ArrayLike<number> | undefined, dim: number): number {
+    for (let d = 0; d < dim; d++) {
+        chunk[offset + d] = values ? values[d] : NaN;
+    }
+    return offset + dim;
+}
+
+function readVector(chunk: Float64Array, offset: number, dim: number): number[] {
+    return Array.from(chunk.subarray(offset, offset + dim));
+}
+
+function sameKeys(a: string[] | undefined, b: string[]): boolean {
+    return a !== undefined && a.length === b.length && a.every((k, i) => k === b[i]);
+}
+
+/** Copy of the metadata entries not covered by the numeric columns */
+function nonNumericMetadata(
+    metadata: Record<string, unknown> | undefined,
+    numericKeys: string[]
+): Record<string, unknown> | undefined {
+    if (!metadata) return undefined;
+    let rest: Record<string, unknown> | undefined;
+    for (const key of Object.keys(metadata)) {
+        if (numericKeys.includes(key)) continue;
+        rest = rest ?? {};
+        rest[key] = metadata[key];
+    }
+    return rest;
+}
@@ -11,10 +11,58 @@
 export * from './types';
 
 // Base classes
-export { BaseOptimizer, BaseContinuous2DOptimizer } from './base-optimizer';
+export {
+    BaseOptimizer,
+    BaseContinuousNDOptimizer,
+    BaseContinuous2DOptimizer,
+    BaseDiscreteOptimizer,
+    BaseBinaryOptimizer,
+    BaseMultiObjectiveOptimizer,
+    expandBounds,
+    toContinuousNDConfig
+} from './base-optimizer';
+
+// Seedable randomness
+export { Xoshiro128, createSeededRandom, randomSeed, resolveRandom } from './random';
+
+// History storage
+export { HistoryStore, recordingModes } from './history-store';
+
+// Stopping criteria
+export {
+    maxEvaluations,
+    targetFitness,
+    stagnation,
+    timeLimit,
+    diversityCollapse,
+    populationDiversity,
+    createStoppingCriteria,
+    stopReasons
+} from './stopping';
+
+// Boundary handling
+export * from './boundary';
 
 // Test functions
 export * from './test-functions';
+export * from './function-transforms';
+export * from './expression';
+export * from './custom-functions';
+export * from './combinatorial-problems';
+export * from './tsp';
+export * from './tsp-instances';
+export * from './knapsack';
+export * from './maxsat';
+export * from './feature-selection';
+export * from './binary-instances';
+export * from './constraints';
+export * from './constrained-problems';
+export * from './moving-peaks';
+export * from './dynamic';
+export * from './noise';
+export * from './pareto';
+export * from './pareto-metrics';
+export * from './multi-objective-problems';
 
 // Modifiers
 export * from './modifiers';
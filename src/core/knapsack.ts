@@ -0,0 +1,150 @@
+/**
+ * 0/1 Knapsack Problem
+ *
+ * Item sets, an exact dynamic-programming optimum and two objective
+ * formulations for the bit-string algorithms. Bit i selects item i.
+ *
+ * Objectives are for minimization and return the negated total value,
+ * so the global minimum is -optimum. Overweight selections are handled by:
+ * - penalty: the excess weight is charged at the best value/weight ratio
+ * - repair:  the selection is repaired greedily before it is scored
+ */
+
+import { BinarySolution, ObjectiveFunction } from './types';
+import { createSeededRandom } from './random';
+
+export interface KnapsackInstance {
+    name: string;
+    comment?: string;
+    weights: number[];
+    values: number[];
+    capacity: number;
+    optimum?: number;   // Optimal total value, if known
+}
+
+export type KnapsackHandling = 'penalty' | 'repair';
+
+// ============================================================================
+// EVALUATION
+// ============================================================================
+
+/**
+ * Total weight and value of a selection
+ */
+export function knapsackTotals(instance: KnapsackInstance, bits: BinarySolution): { weight: number; value: number } {
+    let weight = 0;
+    let value = 0;
+    for (let i = 0; i < bits.length; i++) {
+        if (bits[i] === 1) {
+            weight += instance.weights[i];
+            value += instance.values[i];
+        }
+    }
+    return { weight, value };
+}
+
+/** Item indices by decreasing value/weight ratio */
+function itemsByRatio(instance: KnapsackInstance): number[] {
+    return instance.values
+        .map((_, i) => i)
+        .sort((a, b) => instance.values[b] / instance.weights[b] - instance.values[a] / instance.weights[a]);
+}
+
+/**
+ * Greedy repair: drop the selected items with the worst value/weight ratio
+ * until the selection fits, then add unselected items that still fit in
+ * ratio order
+ */
+export function repairKnapsack(instance: KnapsackInstance, bits: BinarySolution): BinarySolution {
+    return greedyRepair(instance, bits, itemsByRatio(instance));
+}
+
+function greedyRepair(instance: KnapsackInstance, bits: BinarySolution, order: number[]): BinarySolution {
+    const repaired = [...bits];
+    let { weight } = knapsackTotals(instance, repaired);
+
+    for (let r = order.length - 1; r >= 0 && weight > instance.capacity; r--) {
+        const i = order[r];
+        if (repaired[i] === 1) {
+            repaired[i] = 0;
+            weight -= instance.weights[i];
+        }
+    }
+
+    for (const i of order) {
+        if (repaired[i] === 0 && weight + instance.weights[i] <= instance.capacity) {
+            repaired[i] = 1;
+            weight += instance.weights[i];
+        }
+    }
+
+    return repaired;
+}
+
+/**
+ * Objective function for an instance under a constraint handling method
+ *
+ * Repair acts as a decoder: the agent keeps its bits and only the
+ * repaired copy is scored.
+ */
+export function knapsackObjective(instance: KnapsackInstance, handling: KnapsackHandling): ObjectiveFunction<BinarySolution> {
+    if (handling === 'repair') {
+        const order = itemsByRatio(instance);
+        return (bits) => -knapsackTotals(instance, greedyRepair(instance, bits, order)).value;
+    }
+
+    const rho = Math.max(...instance.values.map((v, i) => v / instance.weights[i]));
+    return (bits) => {
+        const { weight, value } = knapsackTotals(instance, bits);
+        return -value + rho * Math.max(0, weight - instance.capacity);
+    };
+}
+
+/**
+ * Exact optimum by dynamic programming over integer capacities
+ */
+export function knapsackOptimum(instance: KnapsackInstance): number {
+    const best = new Array<number>(instance.capacity + 1).fill(0);
+    for (let i = 0; i < instance.weights.length; i++) {
+        const w = instance.weights[i];
+        for (let c = instance.capacity; c >= w; c--) {
+            best[c] = Math.max(best[c], best[c - w] + instance.values[i]);
+        }
+    }
+    return best[instance.capacity];
+}
+
+// ============================================================================
+// GENERATED INSTANCES
+// ============================================================================
+
+/**
+ * Random instance in Pisinger's classes, with the capacity at half the
+ * total weight and the optimum solved exactly
+ *
+ * - uncorrelated: values and weights independent in [1, range]
+ * - strongly correlated: value = weight + range / 10, the hard class for
+ *   greedy methods since all ratios are similar
+ */
+export function randomKnapsack(
+    n: number,
+    seed: number,
+    correlation: 'uncorrelated' | 'strong' = 'uncorrelated',
+    range: number = 100
+): KnapsackInstance {
+    const random = createSeededRandom(seed);
+    const randomInt = () => 1 + Math.floor(random() * range);
+
+    const weights = Array.from({ length: n }, randomInt);
+    const values = weights.map(w => (correlation === 'strong' ? w + range / 10 : randomInt()));
+    const capacity = Math.floor(weights.reduce((sum, w) => sum + w, 0) / 2);
+
+    const instance: KnapsackInstance = {
+        name: `knapsack${n}`,
+        comment: `${n} ${correlation === 'strong' ? 'strongly correlated' : 'uncorrelated'} items (seed ${seed})`,
+        weights,
+        values,
+        capacity
+    };
+    return { ...instance, optimum: knapsackOptimum(instance) };
+}
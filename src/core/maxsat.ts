@@ -0,0 +1,107 @@
+/**
+ * MAX-SAT
+ *
+ * CNF formulas in DIMACS format for the bit-string algorithms. Bit i is
+ * the truth value of variable i + 1; the objective is the number of
+ * unsatisfied clauses, so 0 means the formula is satisfied.
+ */
+
+import { BinarySolution, ObjectiveFunction } from './types';
+
+export interface CNFFormula {
+    name: string;
+    comment?: string;
+    variables: number;
+    /** Clauses as DIMACS literals: +v for variable v, -v for its negation */
+    clauses: number[][];
+    optimum?: number;   // Minimum number of unsatisfied clauses, if known
+}
+
+/**
+ * Number of clauses not satisfied by an assignment
+ */
+export function unsatisfiedClauses(formula: CNFFormula, bits: BinarySolution): number {
+    let unsatisfied = 0;
+    for (const clause of formula.clauses) {
+        const satisfied = clause.some(literal =>
+            literal > 0 ? bits[literal - 1] === 1 : bits[-literal - 1] === 0
+        );
+        if (!satisfied) unsatisfied++;
+    }
+    return unsatisfied;
+}
+
+/**
+ * Objective function for a formula
+ */
+export function maxSatObjective(formula: CNFFormula): ObjectiveFunction<BinarySolution> {
+    return (bits) => unsatisfiedClauses(formula, bits);
+}
+
+/**
+ * Parse a DIMACS CNF file
+ *
+ * Comment lines are joined into the formula comment. Clauses may span
+ * lines and are terminated by 0; a trailing "%" line (as in SATLIB) ends
+ * the file.
+ *
+ * @param optimum - Known minimum number of unsatisfied clauses
+ * @throws If the problem line is missing or malformed, a literal is out of
+ *         range, or the clause count does not match the problem line
+ */
+export function parseDIMACS(text: string, name: string, optimum?: number): CNFFormula {
+    const comments: string[] = [];
+    const clauses: number[][] = [];
+    let variables = -1;
+    let expectedClauses = -1;
+    let current: number[] = [];
+
+    for (const rawLine of text.split(/\r?\n/)) {
+        const line = rawLine.trim();
+        if (line === '') continue;
+        if (line === '%') break;
+
+        if (line.startsWith('c')) {
+            const comment = line.slice(1).trim();
+            if (comment) comments.push(comment);
+            continue;
+        }
+
+        if (line.startsWith('p')) {
+            const match = /^p\s+cnf\s+(\d+)\s+(\d+)$/.exec(line);
+            if (!match) throw new Error(`Invalid problem line: "${line}"`);
+            variables = Number(match[1]);
+            expectedClauses = Number(match[2]);
+            continue;
+        }
+
+        if (variables < 0) throw new Error('Clause found before the problem line');
+
+        for (const token of line.split(/\s+/)) {
+            const literal = Number(token);
+            if (!Number.isInteger(literal) || Math.abs(literal) > variables) {
+                throw new Error(`Invalid literal "${token}" for ${variables} variables`);
+            }
+            if (literal === 0) {
+                clauses.push(current);
+                current = [];
+            } else {
+                current.push(literal);
+            }
+        }
+    }
+
+    if (variables < 0) throw new Error('No problem line found');
+    if (current.length > 0) clauses.push(current);
+    if (clauses.length !== expectedClauses) {
+        throw new Error(`Problem line declares ${expectedClauses} clauses but ${clauses.length} were listed`);
+    }
+
+    return {
+        name,
+        comment: comments.length > 0 ? comments.join(' ') : undefined,
+        variables,
+        clauses,
+        optimum
+    };
+}
@@ -5,7 +5,7 @@
  * providing deterministic but unpredictable sequences.
  */
 
-import { ChaosMapType } from '../types';
+import { ChaosMapType, RandomSource } from '../types';
 
 /**
  * Chaos map function type
@@ -57,11 +57,13 @@ export const chaosMaps: Record<ChaosMapType, ChaosMapFunction> = {
 export class ChaosGenerator {
     private mapFn: ChaosMapFunction;
     private state: number;
+    private random: RandomSource;
 
-    constructor(mapType: ChaosMapType, seed?: number) {
+    constructor(mapType: ChaosMapType, seed?: number, random: RandomSource = Math.random) {
         this.mapFn = chaosMaps[mapType];
+        this.random = random;
         // Initialize with seed or random value (avoiding 0, 0.25, 0.5, 0.75, 1 for logistic)
-        this.state = seed ?? (0.1 + Math.random() * 0.8);
+        this.state = seed ?? (0.1 + this.random() * 0.8);
     }
 
     /** Get next chaotic value in [0, 1] */
@@ -77,7 +79,7 @@ export class ChaosGenerator {
 
     /** Reset with new seed */
     public reset(seed?: number): void {
-        this.state = seed ?? (0.1 + Math.random() * 0.8);
+        this.state = seed ?? (0.1 + this.random() * 0.8);
     }
 
     /** Get current state */
@@ -90,7 +92,11 @@ export class ChaosGenerator {
  * Create a chaos-enhanced random function
  * Returns a function that behaves like Math.random() but uses chaos
  */
-export function createChaoticRandom(mapType: ChaosMapType, seed?: number): () => number {
-    const generator = new ChaosGenerator(mapType, seed);
+export function createChaoticRandom(
+    mapType: ChaosMapType,
+    seed?: number,
+    random: RandomSource = Math.random
+): RandomSource {
+    const generator = new ChaosGenerator(mapType, seed, random);
     return () => generator.next();
 }
@@ -5,7 +5,7 @@
  * Used in BA+DE, Cuckoo+DE, and other hybrid algorithms.
  */
 
-import { ContinuousSolution, Agent } from '../../types';
+import { ContinuousSolution, Agent, RandomSource } from '../../types';
 
 /**
  * DE Mutation Strategies
@@ -44,13 +44,14 @@ export const defaultDEConfig: DEConfig = {
 function selectRandomIndices(
     populationSize: number,
     count: number,
-    exclude?: number[]
+    exclude?: number[],
+    random: RandomSource = Math.random
 ): number[] {
     const indices: number[] = [];
     const excludeSet = new Set(exclude ?? []);
 
     while (indices.length < count) {
-        const idx = Math.floor(Math.random() * populationSize);
+        const idx = Math.floor(random() * populationSize);
         if (!excludeSet.has(idx) && !indices.includes(idx)) {
             indices.push(idx);
         }
@@ -66,24 +67,25 @@ function selectRandomIndices(
  * @param targetIndex - Index of target vector
  * @param globalBest - Global best solution
  * @param config - DE configuration
+ * @param random - Random source (defaults to Math.random)
  * @returns Mutant vector
  */
 export function deMutation(
     population: Agent<ContinuousSolution>[],
     targetIndex: number,
     globalBest: ContinuousSolution,
-    config: DEConfig = defaultDEConfig
+    config: DEConfig = defaultDEConfig,
+    random: RandomSource = Math.random
 ): ContinuousSolution {
     const { F, strategy = 'rand/1' } = config;
     const n = population.length;
-    const dim = population[0].position.length;
     const target = population[targetIndex].position;
 
     let mutant: ContinuousSolution;
 
     switch (strategy) {
         case 'rand/1': {
-            const [r1, r2, r3] = selectRandomIndices(n, 3, [targetIndex]);
+            const [r1, r2, r3] = selectRandomIndices(n, 3, [targetIndex], random);
             mutant = population[r1].position.map((v, i) =>
                 v + F * (population[r2].position[i] - population[r3].position[i])
             );
@@ -91,7 +93,7 @@ export function deMutation(
         }
 
         case 'best/1': {
-            const [r1, r2] = selectRandomIndices(n, 2, [targetIndex]);
+            const [r1, r2] = selectRandomIndices(n, 2, [targetIndex], random);
             mutant = globalBest.map((v, i) =>
                 v + F * (population[r1].position[i] - population[r2].position[i])
             );
@@ -99,7 +101,7 @@ export function deMutation(
         }
 
         case 'rand/2': {
-            const [r1, r2, r3, r4, r5] = selectRandomIndices(n, 5, [targetIndex]);
+            const [r1, r2, r3, r4, r5] = selectRandomIndices(n, 5, [targetIndex], random);
             mutant = population[r1].position.map((v, i) =>
                 v + F * (population[r2].position[i] - population[r3].position[i])
                 + F * (population[r4].position[i] - population[r5].position[i])
@@ -108,7 +110,7 @@ export function deMutation(
         }
 
         case 'best/2': {
-            const [r1, r2, r3, r4] = selectRandomIndices(n, 4, [targetIndex]);
+            const [r1, r2, r3, r4] = selectRandomIndices(n, 4, [targetIndex], random);
             mutant = globalBest.map((v, i) =>
                 v + F * (population[r1].position[i] - population[r2].position[i])
                 + F * (population[r3].position[i] - population[r4].position[i])
@@ -117,7 +119,7 @@ export function deMutation(
         }
 
         case 'current-to-best/1': {
-            const [r1, r2] = selectRandomIndices(n, 2, [targetIndex]);
+            const [r1, r2] = selectRandomIndices(n, 2, [targetIndex], random);
             mutant = target.map((v, i) =>
                 v + F * (globalBest[i] - v)
                 + F * (population[r1].position[i] - population[r2].position[i])
@@ -138,18 +140,20 @@ export function deMutation(
  * @param target - Target vector
  * @param mutant - Mutant vector
  * @param CR - Crossover rate
+ * @param random - Random source (defaults to Math.random)
  * @returns Trial vector
  */
 export function deCrossover(
     target: ContinuousSolution,
     mutant: ContinuousSolution,
-    CR: number
+    CR: number,
+    random: RandomSource = Math.random
 ): ContinuousSolution {
     const dim = target.length;
-    const jRand = Math.floor(Math.random() * dim); // Ensure at least one gene from mutant
+    const jRand = Math.floor(random() * dim); // Ensure at least one gene from mutant
 
     return target.map((v, j) =>
-        (Math.random() < CR || j === jRand) ? mutant[j] : v
+        (random() < CR || j === jRand) ? mutant[j] : v
     );
 }
 
@@ -160,15 +164,17 @@ export function deCrossover(
  * @param targetIndex - Index of target vector
  * @param globalBest - Global best solution
  * @param config - DE configuration
+ * @param random - Random source (defaults to Math.random)
  * @returns Trial vector
  */
 export function deOperator(
     population: Agent<ContinuousSolution>[],
     targetIndex: number,
     globalBest: ContinuousSolution,
-    config: DEConfig = defaultDEConfig
+    config: DEConfig = defaultDEConfig,
+    random: RandomSource = Math.random
 ): ContinuousSolution {
-    const mutant = deMutation(population, targetIndex, globalBest, config);
-    const trial = deCrossover(population[targetIndex].position, mutant, config.CR);
+    const mutant = deMutation(population, targetIndex, globalBest, config, random);
+    const trial = deCrossover(population[targetIndex].position, mutant, config.CR, random);
     return trial;
 }
@@ -5,7 +5,7 @@
  * Includes: Powell's method, Nelder-Mead Simplex, Gradient Descent
  */
 
-import { ContinuousSolution, ObjectiveFunction } from '../../types';
+import { ContinuousSolution, ObjectiveFunction, RandomSource } from '../../types';
 
 // ============================================================================
 // POWELL'S METHOD (Derivative-Free Line Search)
@@ -175,13 +175,15 @@ export function gradientStep(
  * 
  * @param position - Current position
  * @param magnitude - Perturbation magnitude
+ * @param random - Random source (defaults to Math.random)
  * @returns Perturbed position
  */
 export function randomPerturbation(
     position: ContinuousSolution,
-    magnitude: number
+    magnitude: number,
+    random: RandomSource = Math.random
 ): ContinuousSolution {
-    return position.map(x => x + (Math.random() * 2 - 1) * magnitude);
+    return position.map(x => x + (random() * 2 - 1) * magnitude);
 }
 
 /**
@@ -189,16 +191,18 @@ export function randomPerturbation(
  * 
  * @param position - Current position
  * @param sigma - Standard deviation
+ * @param random - Random source (defaults to Math.random)
  * @returns Perturbed position
  */
 export function gaussianPerturbation(
     position: ContinuousSolution,
-    sigma: number
+    sigma: number,
+    random: RandomSource = Math.random
 ): ContinuousSolution {
     return position.map(x => {
         // Box-Muller transform
-        const u1 = Math.random();
-        const u2 = Math.random();
+        const u1 = random();
+        const u2 = random();
         const z = Math.sqrt(-2 * Math.log(u1)) * Math.cos(2 * Math.PI * u2);
         return x + z * sigma;
     });
@@ -5,7 +5,7 @@
  * Used in BA+PSO, AFSA+PSO, Cuckoo+PSO, and other hybrid algorithms.
  */
 
-import { ContinuousSolution, Agent } from '../../types';
+import { ContinuousSolution, Agent, RandomSource } from '../../types';
 
 /**
  * PSO Configuration
@@ -35,12 +35,17 @@ export const defaultPSOConfig: PSOConfig = {
  * 
  * @param dimensions - Number of dimensions
  * @param vMax - Maximum velocity (optional)
+ * @param random - Random source (defaults to Math.random)
  * @returns Initial velocity vector
  */
-export function initializeVelocity(dimensions: number, vMax?: number): ContinuousSolution {
+export function initializeVelocity(
+    dimensions: number,
+    vMax?: number,
+    random: RandomSource = Math.random
+): ContinuousSolution {
     const velocity: ContinuousSolution = [];
     for (let i = 0; i < dimensions; i++) {
-        let v = (Math.random() * 2 - 1); // Random between -1 and 1
+        let v = (random() * 2 - 1); // Random between -1 and 1
         if (vMax !== undefined) {
             v *= vMax;
         }
@@ -59,6 +64,7 @@ export function initializeVelocity(dimensions: number, vMax?: number): Continuou
  * @param personalBest - Personal best position
  * @param globalBest - Global best position
  * @param config - PSO configuration
+ * @param random - Random source (defaults to Math.random)
  * @returns New velocity
  */
 export function updateVelocity(
@@ -66,11 +72,12 @@ export function updateVelocity(
     position: ContinuousSolution,
     personalBest: ContinuousSolution,
     globalBest: ContinuousSolution,
-    config: PSOConfig = defaultPSOConfig
+    config: PSOConfig = defaultPSOConfig,
+    random: RandomSource = Math.random
 ): ContinuousSolution {
     const { w, c1, c2, vMax } = config;
-    const r1 = Math.random();
-    const r2 = Math.random();
+    const r1 = random();
+    const r2 = random();
 
     const newVelocity = velocity.map((v, i) => {
         let newV = w * v
@@ -111,12 +118,14 @@ export function updatePosition(
  * @param agent - Current agent (must have velocity and personalBest)
  * @param globalBest - Global best position
  * @param config - PSO configuration
+ * @param random - Random source (defaults to Math.random)
  * @returns Object with new position and velocity
  */
 export function psoUpdate(
     agent: Agent<ContinuousSolution>,
     globalBest: ContinuousSolution,
-    config: PSOConfig = defaultPSOConfig
+    config: PSOConfig = defaultPSOConfig,
+    random: RandomSource = Math.random
 ): { position: ContinuousSolution; velocity: ContinuousSolution } {
     if (!agent.velocity || !agent.personalBest) {
         throw new Error('Agent must have velocity and personalBest for PSO update');
@@ -127,7 +136,8 @@ export function psoUpdate(
         agent.position,
         agent.personalBest,
         globalBest,
-        config
+        config,
+        random
     );
 
     const newPosition = updatePosition(agent.position, newVelocity);
@@ -5,6 +5,8 @@
  * Used in BA+SA, Cuckoo+SA, and other hybrid algorithms.
  */
 
+import { RandomSource } from '../../types';
+
 /**
  * SA Configuration
  */
@@ -51,12 +53,14 @@ export function getTemperature(iteration: number, config: SAConfig = defaultSACo
  * @param currentFitness - Current solution fitness
  * @param newFitness - New (candidate) solution fitness
  * @param temperature - Current temperature
+ * @param random - Random source (defaults to Math.random)
  * @returns Whether to accept the new solution
  */
 export function metropolisAccept(
     currentFitness: number,
     newFitness: number,
-    temperature: number
+    temperature: number,
+    random: RandomSource = Math.random
 ): boolean {
     const delta = newFitness - currentFitness;
 
@@ -72,7 +76,7 @@ export function metropolisAccept(
 
     // Accept with probability exp(-delta/T)
     const probability = Math.exp(-delta / temperature);
-    return Math.random() < probability;
+    return random() < probability;
 }
 
 /**
@@ -107,13 +111,15 @@ export function boltzmannProbabilities(
  * 
  * @param position - Current position
  * @param stepSize - Perturbation magnitude
+ * @param random - Random source (defaults to Math.random)
  * @returns Neighbor position
  */
 export function generateNeighbor(
     position: number[],
-    stepSize: number
+    stepSize: number,
+    random: RandomSource = Math.random
 ): number[] {
-    return position.map(x => x + (Math.random() * 2 - 1) * stepSize);
+    return position.map(x => x + (random() * 2 - 1) * stepSize);
 }
 
 /**
@@ -19,7 +19,7 @@ export {
 
 // Hybrid operators - Differential Evolution
 export { deMutation, deCrossover, deOperator, defaultDEConfig } from './hybrids/de';
-export type { DEConfig } from './hybrids/de';
+export type { DEConfig, DEMutationStrategy } from './hybrids/de';
 
 // Hybrid operators - Particle Swarm Optimization
 export {
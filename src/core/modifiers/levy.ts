@@ -5,13 +5,16 @@
  * for heavy-tailed random walks that occasionally make large jumps.
  */
 
+import { RandomSource } from '../types';
+
 /**
  * Generate a Lévy flight step using Mantegna's algorithm.
  * 
  * @param beta - Lévy exponent (typically 1.5 for Cuckoo Search)
+ * @param random - Random source (defaults to Math.random)
  * @returns A random step from the Lévy distribution
  */
-export function levyStep(beta: number = 1.5): number {
+export function levyStep(beta: number = 1.5, random: RandomSource = Math.random): number {
     // Mantegna's algorithm for generating Lévy stable random numbers
 
     // Calculate sigma using the gamma function approximation
@@ -22,8 +25,8 @@ export function levyStep(beta: number = 1.5): number {
     );
 
     // Generate standard normal random numbers using Box-Muller
-    const u = gaussianRandom() * sigmaU;
-    const v = Math.abs(gaussianRandom());
+    const u = gaussianRandom(random) * sigmaU;
+    const v = Math.abs(gaussianRandom(random));
 
     // Lévy step
     const step = u / Math.pow(v, 1 / beta);
@@ -36,11 +39,16 @@ export function levyStep(beta: number = 1.5): number {
  * 
  * @param beta - Lévy exponent
  * @param scale - Step size scaling factor
+ * @param random - Random source (defaults to Math.random)
  * @returns [dx, dy] step vector
  */
-export function levyFlight2D(beta: number = 1.5, scale: number = 0.01): [number, number] {
-    const stepMagnitude = levyStep(beta) * scale;
-    const angle = Math.random() * 2 * Math.PI;
+export function levyFlight2D(
+    beta: number = 1.5,
+    scale: number = 0.01,
+    random: RandomSource = Math.random
+): [number, number] {
+    const stepMagnitude = levyStep(beta, random) * scale;
+    const angle = random() * 2 * Math.PI;
 
     return [
         stepMagnitude * Math.cos(angle),
@@ -54,13 +62,19 @@ export function levyFlight2D(beta: number = 1.5, scale: number = 0.01): [number,
  * @param dimensions - Number of dimensions
  * @param beta - Lévy exponent
  * @param scale - Step size scaling factor
+ * @param random - Random source (defaults to Math.random)
  * @returns Step vector
  */
-export function levyFlightND(dimensions: number, beta: number = 1.5, scale: number = 0.01): number[] {
+export function levyFlightND(
+    dimensions: number,
+    beta: number = 1.5,
+    scale: number = 0.01,
+    random: RandomSource = Math.random
+): number[] {
     const result: number[] = [];
 
     for (let i = 0; i < dimensions; i++) {
-        result.push(levyStep(beta) * scale);
+        result.push(levyStep(beta, random) * scale);
     }
 
     return result;
@@ -69,9 +83,9 @@ export function levyFlightND(dimensions: number, beta: number = 1.5, scale: numb
 /**
  * Box-Muller transform for generating Gaussian random numbers
  */
-function gaussianRandom(mean: number = 0, stdDev: number = 1): number {
-    const u1 = Math.random();
-    const u2 = Math.random();
+function gaussianRandom(random: RandomSource, mean: number = 0, stdDev: number = 1): number {
+    const u1 = random();
+    const u2 = random();
 
     const z0 = Math.sqrt(-2 * Math.log(u1)) * Math.cos(2 * Math.PI * u2);
 
@@ -115,16 +129,18 @@ function gamma(n: number): number {
  * @param best - Global best position (for directional Lévy)
  * @param alpha - Step size scaling (default 0.01)
  * @param beta - Lévy exponent (default 1.5)
+ * @param random - Random source (defaults to Math.random)
  * @returns New position after Lévy flight
  */
 export function applyLevyFlight(
     current: number[],
     best: number[],
     alpha: number = 0.01,
-    beta: number = 1.5
+    beta: number = 1.5,
+    random: RandomSource = Math.random
 ): number[] {
     const dimensions = current.length;
-    const step = levyFlightND(dimensions, beta, 1);
+    const step = levyFlightND(dimensions, beta, 1, random);
 
     // New position: x + alpha * Levy * (x - best)
     return current.map((x, i) => {
@@ -0,0 +1,209 @@
+/**
+ * Moving Peaks Benchmark
+ *
+ * Branke's dynamic benchmark (1999), scenario 2. The landscape is the
+ * upper envelope of cone-shaped peaks
+ *
+ *     P(x) = max_i ( H_i − W_i · ‖x − X_i‖ )
+ *
+ * and every change perturbs each peak's height and width with Gaussian
+ * noise (severities 7 and 1) and moves its center by a vector of fixed
+ * length s, correlated with the peak's previous move by λ (λ = 0: a
+ * random direction each time). Peaks bounce off the domain boundary.
+ *
+ * The benchmark maximizes P; here −P is minimized, so the optimum of an
+ * environment is −max H_i at the center of the highest peak.
+ */
+
+import { Bounds, ContinuousSolution, DynamicClock, DynamicProblem, ObjectiveFunction } from './types';
+import { createSeededRandom } from './random';
+import type { TestFunctionInfo } from './test-functions';
+
+export interface MovingPeaksOptions {
+    /** Number of peaks (default 10) */
+    peaks?: number;
+    /** Domain in every dimension (default [0, 100]) */
+    bounds?: Bounds;
+    /** Allowed peak heights (default [30, 70]) */
+    heightRange?: [number, number];
+    /** Allowed peak widths, i.e. cone slopes (default [1, 12]) */
+    widthRange?: [number, number];
+    /** Standard deviation of a height change (default 7) */
+    heightSeverity?: number;
+    /** Standard deviation of a width change (default 1) */
+    widthSeverity?: number;
+    /** Distance a peak moves per change, s (default 1) */
+    shiftLength?: number;
+    /** Correlation λ of successive moves, 0-1 (default 0) */
+    correlation?: number;
+    /** What advances the landscape (default evaluations) */
+    clock?: DynamicClock;
+    /** Clock ticks between changes (default 5000) */
+    changeFrequency?: number;
+    /** Seed of the initial peaks and their changes (default 1) */
+    seed?: number;
+}
+
+const DEFAULTS: Required<MovingPeaksOptions> = {
+    peaks: 10,
+    bounds: { min: 0, max: 100 },
+    heightRange: [30, 70],
+    widthRange: [1, 12],
+    heightSeverity: 7,
+    widthSeverity: 1,
+    shiftLength: 1,
+    correlation: 0,
+    clock: 'evaluations',
+    changeFrequency: 5000,
+    seed: 1
+};
+
+/**
+ * Offset from the problem seed to the generator's seed, so the landscape
+ * stream never coincides with an optimizer run using the same seed (which
+ * would sample the peak centers as its first positions)
+ */
+const PEAKS_SEED_OFFSET = 0x85ebca6b;
+
+interface Peak {
+    center: number[];
+    height: number;
+    width: number;
+    /** Last move, for correlated shifts */
+    shift: number[];
+}
+
+/**
+ * Moving Peaks landscape in the given number of dimensions. Environments
+ * are generated on first use from a seeded stream and kept, so any
+ * environment can be revisited (e.g. when replaying a run).
+ */
+export function createMovingPeaks(dimensions: number, options: MovingPeaksOptions = {}): DynamicProblem {
+    const settings = { ...DEFAULTS, ...options };
+    const { bounds, heightRange, widthRange } = settings;
+    const random = createSeededRandom(settings.seed + PEAKS_SEED_OFFSET);
+    const gaussian = () => {
+        const u = 1 - random();
+        return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * random());
+    };
+    const uniform = ([low, high]: [number, number]) => low + random() * (high - low);
+
+    const initial: Peak[] = Array.from({ length: settings.peaks }, () => ({
+        center: Array.from({ length: dimensions }, () => uniform([bounds.min, bounds.max])),
+        height: uniform(heightRange),
+        width: uniform(widthRange),
+        shift: new Array(dimensions).fill(0)
+    }));
+
+    const change = (peaks: Peak[]): Peak[] => peaks.map(peak => {
+        const direction = Array.from({ length: dimensions }, gaussian);
+        const shift = scaleTo(
+            direction.map((r, d) => (1 - settings.correlation) * r + settings.correlation * peak.shift[d]),
+            settings.shiftLength
+        );
+        const center = peak.center.map((x, d) => {
+            const moved = x + shift[d];
+            if (moved < bounds.min || moved > bounds.max) {
+                shift[d] = -shift[d];
+                return reflect(moved, bounds.min, bounds.max);
+            }
+            return moved;
+        });
+        return {
+            center,
+            height: reflect(peak.height + settings.heightSeverity * gaussian(), heightRange[0], heightRange[1]),
+            width: reflect(peak.width + settings.widthSeverity * gaussian(), widthRange[0], widthRange[1]),
+            shift
+        };
+    });
+
+    const environments: Peak[][] = [initial];
+    const objectives: ObjectiveFunction<ContinuousSolution>[] = [];
+    const environment = (k: number): Peak[] => {
+        while (environments.length <= k) {
+            environments.push(change(environments[environments.length - 1]));
+        }
+        return environments[k];
+    };
+
+    return {
+        dimensions,
+        clock: settings.clock,
+        changeFrequency: settings.changeFrequency,
+        objective: (k) => {
+            if (!objectives[k]) {
+                const peaks = environment(k);
+                objectives[k] = (x) => {
+                    let top = -Infinity;
+                    for (const peak of peaks) {
+                        let sum = 0;
+                        for (let d = 0; d < x.length; d++) {
+                            const diff = x[d] - peak.center[d];
+                            sum += diff * diff;
+                        }
+                        const value = peak.height - peak.width * Math.sqrt(sum);
+                        if (value > top) top = value;
+                    }
+                    return -top;
+                };
+            }
+            return objectives[k];
+        },
+        optimum: (k) => {
+            const highest = environment(k).reduce((best, peak) => (peak.height > best.height ? peak : best));
+            return { x: [...highest.center], f: -highest.height };
+        }
+    };
+}
+
+/** Vector with the direction of v and the given length */
+function scaleTo(v: number[], length: number): number[] {
+    const norm = Math.sqrt(v.reduce((sum, x) => sum + x * x, 0));
+    return norm > 0 ? v.map(x => (x / norm) * length) : v;
+}
+
+/** Mirror a value back into [min, max] */
+function reflect(value: number, min: number, max: number): number {
+    if (value < min) return Math.min(max, 2 * min - value);
+    if (value > max) return Math.max(min, 2 * max - value);
+    return value;
+}
+
+/** Test function entry for a Moving Peaks setting; the initial environment is its static view */
+function movingPeaksFunction(name: string, description: string, options: MovingPeaksOptions): TestFunctionInfo {
+    const problems = new Map<number, DynamicProblem>();
+    const problem = (dimensions: number): DynamicProblem => {
+        let p = problems.get(dimensions);
+        if (!p) {
+            p = createMovingPeaks(dimensions, options);
+            problems.set(dimensions, p);
+        }
+        return p;
+    };
+
+    return {
+        name,
+        func2D: (x, y) => problem(2).objective(0)([x, y]),
+        funcND: (x) => problem(x.length).objective(0)(x),
+        bounds: { ...(options.bounds ?? DEFAULTS.bounds) },
+        globalMinimum: problem(2).optimum(0),
+        globalMinimumND: (dimensions) => problem(dimensions).optimum(0),
+        description,
+        dynamic: problem,
+        group: 'dynamic'
+    };
+}
+
+/** Dynamic problems listed among the test functions */
+export const dynamicTestFunctions: Record<string, TestFunctionInfo> = {
+    'moving-peaks': movingPeaksFunction(
+        'Moving Peaks',
+        '10 cone peaks that move, grow and shrink every 20 iterations',
+        { clock: 'iterations', changeFrequency: 20, shiftLength: 5 }
+    ),
+    'moving-peaks-scenario-2': movingPeaksFunction(
+        'Moving Peaks (Scenario 2)',
+        'Standard setting: a change every 5000 evaluations, shift length 1',
+        {}
+    )
+};
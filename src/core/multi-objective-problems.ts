@@ -0,0 +1,385 @@
+/**
+ * Multi-Objective Test Problems
+ *
+ * Classic bi- and tri-objective benchmarks, all minimized:
+ * - Schaffer, Fonseca-Fleming, Kursawe: small early problems
+ * - ZDT1-6 (Zitzler, Deb & Thiele 2000): two objectives, f2 = g·h(f1, g),
+ *   the Pareto front at g = 1; convex, concave, disconnected, multimodal,
+ *   deceptive and non-uniform fronts
+ * - DTLZ1-2 (Deb, Thiele, Laumanns & Zitzler 2002): three objectives, a
+ *   linear and a spherical front
+ *
+ * Each problem has a sample of its true Pareto front (for IGD and the
+ * reference curve drawn in objective space) and a hypervolume reference
+ * point slightly beyond the front's worst values.
+ */
+
+import { Bounds, MultiObjectiveFunction } from './types';
+import { nonDominatedPoints } from './pareto';
+import { createSeededRandom } from './random';
+
+export interface MultiObjectiveProblemInfo {
+    name: string;
+    description: string;
+    dimensions: number;
+    /** Number of objectives */
+    objectives: number;
+    /** One entry per dimension */
+    bounds: Bounds[];
+    func: MultiObjectiveFunction;
+    /** Hypervolume reference point */
+    referencePoint: number[];
+    /** Points on the true Pareto front (computed on first use) */
+    paretoFront: () => number[][];
+}
+
+/** Points sampled along a two-objective front */
+const FRONT_SAMPLES = 200;
+
+/** Divisions per edge of the simplex lattice for three-objective fronts */
+const LATTICE_DIVISIONS = 19;
+
+function repeatBounds(min: number, max: number, dimensions: number): Bounds[] {
+    return Array.from({ length: dimensions }, () => ({ min, max }));
+}
+
+/** Compute on first call, then reuse */
+function once<T>(compute: () => T): () => T {
+    let value: T | undefined;
+    return () => (value ??= compute());
+}
+
+/** Front of f2 = shape(f1) sampled at evenly spaced f1 in [low, high], non-dominated part only */
+function curveFront(shape: (f1: number) => number, low: number = 0, high: number = 1): () => number[][] {
+    return once(() => nonDominatedPoints(
+        Array.from({ length: FRONT_SAMPLES }, (_, i) => {
+            const f1 = low + ((high - low) * i) / (FRONT_SAMPLES - 1);
+            return [f1, shape(f1)];
+        })
+    ));
+}
+
+/** Evenly spread points (a, b, c) with a + b + c = 1, a, b, c >= 0 */
+function simplexLattice(): number[][] {
+    const h = LATTICE_DIVISIONS;
+    const points: number[][] = [];
+    for (let i = 0; i <= h; i++) {
+        for (let j = 0; j <= h - i; j++) {
+            points.push([i / h, j / h, (h - i - j) / h]);
+        }
+    }
+    return points;
+}
+
+// ============================================================================
+// CLASSIC PROBLEMS
+// ============================================================================
+
+/**
+ * Schaffer (SCH)
+ *
+ * f1 = x², f2 = (x - 2)² on a single variable; Pareto set x ∈ [0, 2],
+ * convex front.
+ */
+export const schaffer: MultiObjectiveProblemInfo = {
+    name: 'Schaffer',
+    description: 'One variable, f1 = x², f2 = (x − 2)²; convex front',
+    dimensions: 1,
+    objectives: 2,
+    bounds: repeatBounds(-10, 10, 1),
+    func: ([x]) => [x * x, (x - 2) * (x - 2)],
+    referencePoint: [4.4, 4.4],
+    paretoFront: once(() => Array.from({ length: FRONT_SAMPLES }, (_, i) => {
+        const x = (2 * i) / (FRONT_SAMPLES - 1);
+        return [x * x, (x - 2) * (x - 2)];
+    }))
+};
+
+/**
+ * Fonseca-Fleming
+ *
+ * f1,2 = 1 - exp(-Σ (xi ∓ 1/√n)²); Pareto set x1 = ... = xn ∈ [-1/√n, 1/√n],
+ * concave front.
+ */
+export const fonsecaFleming: MultiObjectiveProblemInfo = (() => {
+    const n = 3;
+    const shift = 1 / Math.sqrt(n);
+    const func: MultiObjectiveFunction = (x) => {
+        let minus = 0, plus = 0;
+        for (const xi of x) {
+            minus += (xi - shift) ** 2;
+            plus += (xi + shift) ** 2;
+        }
+        return [1 - Math.exp(-minus), 1 - Math.exp(-plus)];
+    };
+    return {
+        name: 'Fonseca-Fleming',
+        description: 'Two Gaussian wells in 3D; concave front',
+        dimensions: n,
+        objectives: 2,
+        bounds: repeatBounds(-4, 4, n),
+        func,
+        referencePoint: [1.1, 1.1],
+        paretoFront: once(() => Array.from({ length: FRONT_SAMPLES }, (_, i) => {
+            const t = -shift + (2 * shift * i) / (FRONT_SAMPLES - 1);
+            return func(new Array(n).fill(t));
+        }))
+    };
+})();
+
+/**
+ * Kursawe
+ *
+ * f1 = Σ -10·exp(-0.2·√(xi² + x(i+1)²)), f2 = Σ |xi|^0.8 + 5·sin(xi³);
+ * disconnected, partly non-convex front. It has no closed form, so the
+ * reference front is the non-dominated part of a seeded sample refined
+ * around its best points.
+ */
+export const kursawe: MultiObjectiveProblemInfo = (() => {
+    const n = 3;
+    const func: MultiObjectiveFunction = (x) => {
+        let f1 = 0, f2 = 0;
+        for (let i = 0; i < n; i++) {
+            if (i < n - 1) f1 += -10 * Math.exp(-0.2 * Math.sqrt(x[i] * x[i] + x[i + 1] * x[i + 1]));
+            f2 += Math.abs(x[i]) ** 0.8 + 5 * Math.sin(x[i] ** 3);
+        }
+        return [f1, f2];
+    };
+    return {
+        name: 'Kursawe',
+        description: 'Three variables; disconnected, partly non-convex front',
+        dimensions: n,
+        objectives: 2,
+        bounds: repeatBounds(-5, 5, n),
+        func,
+        referencePoint: [-14, 1],
+        paretoFront: once(() => {
+            // Uniform sample, then a refining sample around its non-dominated points
+            const random = createSeededRandom(1);
+            const uniform = Array.from({ length: 50000 }, () =>
+                Array.from({ length: n }, () => -5 + 10 * random())
+            );
+            const values = uniform.map(func);
+            const coarse = new Set(nonDominatedPoints(values));
+            const seeds = uniform.filter((_, i) => coarse.has(values[i]));
+            const refined = Array.from({ length: 50000 }, () => {
+                const seed = seeds[Math.floor(random() * seeds.length)];
+                return seed.map(v => Math.max(-5, Math.min(5, v + 0.05 * (2 * random() - 1))));
+            });
+            return thin(nonDominatedPoints([...coarse, ...refined.map(func)]), FRONT_SAMPLES);
+        })
+    };
+})();
+
+/** Every k-th point, keeping about `count` points (sorted fronts stay sorted) */
+function thin(points: number[][], count: number): number[][] {
+    if (points.length <= count) return points;
+    const step = points.length / count;
+    return Array.from({ length: count }, (_, i) => points[Math.floor(i * step)]);
+}
+
+// ============================================================================
+// ZDT SUITE
+// ============================================================================
+
+/** ZDT problem f = (f1(x), g(x)·h(f1, g)) */
+function zdt(
+    name: string,
+    description: string,
+    dimensions: number,
+    bounds: Bounds[],
+    f1: (x: number[]) => number,
+    g: (x: number[]) => number,
+    h: (f1: number, g: number) => number,
+    referencePoint: number[],
+    paretoFront: () => number[][]
+): MultiObjectiveProblemInfo {
+    return {
+        name,
+        description,
+        dimensions,
+        objectives: 2,
+        bounds,
+        func: (x) => {
+            const a = f1(x);
+            const b = g(x);
+            return [a, b * h(a, b)];
+        },
+        referencePoint,
+        paretoFront
+    };
+}
+
+/** g = 1 + 9·mean(x2..xn) */
+function linearG(x: number[]): number {
+    let sum = 0;
+    for (let i = 1; i < x.length; i++) sum += x[i];
+    return 1 + (9 * sum) / (x.length - 1);
+}
+
+const first = (x: number[]) => x[0];
+
+export const zdt1 = zdt(
+    'ZDT1', '30 variables; convex front f2 = 1 − √f1',
+    30, repeatBounds(0, 1, 30),
+    first, linearG, (f, g) => 1 - Math.sqrt(f / g),
+    [1.1, 1.1], curveFront(f => 1 - Math.sqrt(f))
+);
+
+export const zdt2 = zdt(
+    'ZDT2', '30 variables; concave front f2 = 1 − f1²',
+    30, repeatBounds(0, 1, 30),
+    first, linearG, (f, g) => 1 - (f / g) ** 2,
+    [1.1, 1.1], curveFront(f => 1 - f * f)
+);
+
+export const zdt3 = zdt(
+    'ZDT3', '30 variables; front in five disconnected pieces',
+    30, repeatBounds(0, 1, 30),
+    first, linearG, (f, g) => 1 - Math.sqrt(f / g) - (f / g) * Math.sin(10 * Math.PI * f),
+    [1.1, 1.1], once(() => nonDominatedPoints(
+        // Dense sample: most of the curve is dominated
+        Array.from({ length: 20 * FRONT_SAMPLES }, (_, i) => {
+            const f = i / (20 * FRONT_SAMPLES - 1);
+            return [f, 1 - Math.sqrt(f) - f * Math.sin(10 * Math.PI * f)];
+        })
+    ))
+);
+
+export const zdt4 = zdt(
+    'ZDT4', '10 variables; 21⁹ local fronts (Rastrigin-like g), convex front',
+    10, [{ min: 0, max: 1 }, ...repeatBounds(-5, 5, 9)],
+    first,
+    (x) => {
+        let sum = 0;
+        for (let i = 1; i < x.length; i++) sum += x[i] * x[i] - 10 * Math.cos(4 * Math.PI * x[i]);
+        return 1 + 10 * (x.length - 1) + sum;
+    },
+    (f, g) => 1 - Math.sqrt(f / g),
+    [1.1, 1.1], curveFront(f => 1 - Math.sqrt(f))
+);
+
+/**
+ * ZDT5 is defined on bit strings: a 30-bit x1 and ten 5-bit xi. Here each
+ * bit is a continuous variable read as 1 when >= 0.5, so continuous
+ * optimizers see a deceptive, plateau-shaped landscape.
+ */
+export const zdt5: MultiObjectiveProblemInfo = (() => {
+    const groups = [30, ...new Array(10).fill(5)] as number[];
+    const dimensions = groups.reduce((sum, bits) => sum + bits, 0);
+    const ones = (x: number[]) => {
+        const counts: number[] = [];
+        let offset = 0;
+        for (const bits of groups) {
+            let u = 0;
+            for (let i = offset; i < offset + bits; i++) if (x[i] >= 0.5) u++;
+            counts.push(u);
+            offset += bits;
+        }
+        return counts;
+    };
+    return {
+        name: 'ZDT5',
+        description: '80 bits (variables ≥ 0.5 read as 1); deceptive, discrete front f2 = 10 / f1',
+        dimensions,
+        objectives: 2,
+        bounds: repeatBounds(0, 1, dimensions),
+        func: (x) => {
+            const [u1, ...rest] = ones(x);
+            const g = rest.reduce((sum, u) => sum + (u < 5 ? 2 + u : 1), 0);
+            const f1 = 1 + u1;
+            return [f1, g / f1];
+        },
+        referencePoint: [32, 11],
+        paretoFront: once(() => Array.from({ length: 31 }, (_, i) => [i + 1, 10 / (i + 1)]))
+    };
+})();
+
+export const zdt6 = zdt(
+    'ZDT6', '10 variables; non-uniform, concave front f2 = 1 − f1²',
+    10, repeatBounds(0, 1, 10),
+    (x) => 1 - Math.exp(-4 * x[0]) * Math.sin(6 * Math.PI * x[0]) ** 6,
+    (x) => {
+        let sum = 0;
+        for (let i = 1; i < x.length; i++) sum += x[i];
+        return 1 + 9 * (sum / (x.length - 1)) ** 0.25;
+    },
+    (f, g) => 1 - (f / g) ** 2,
+    [1.1, 1.1], curveFront(f => 1 - f * f, 0.2807753191, 1)
+);
+
+// ============================================================================
+// DTLZ SUITE (three objectives)
+// ============================================================================
+
+/**
+ * DTLZ1
+ *
+ * Linear front f1 + f2 + f3 = 0.5 behind a multimodal g with
+ * 11⁵ - 1 local fronts. n = 7 (two position and five distance variables).
+ */
+export const dtlz1: MultiObjectiveProblemInfo = {
+    name: 'DTLZ1',
+    description: '7 variables, 3 objectives; linear front f1 + f2 + f3 = 0.5, many local fronts',
+    dimensions: 7,
+    objectives: 3,
+    bounds: repeatBounds(0, 1, 7),
+    func: (x) => {
+        let sum = 0;
+        for (let i = 2; i < x.length; i++) {
+            sum += (x[i] - 0.5) ** 2 - Math.cos(20 * Math.PI * (x[i] - 0.5));
+        }
+        const scale = 0.5 * (1 + 100 * (x.length - 2 + sum));
+        return [scale * x[0] * x[1], scale * x[0] * (1 - x[1]), scale * (1 - x[0])];
+    },
+    referencePoint: [1, 1, 1],
+    paretoFront: once(() => simplexLattice().map(p => p.map(f => f / 2)))
+};
+
+/**
+ * DTLZ2
+ *
+ * Spherical front f1² + f2² + f3² = 1 (the positive octant).
+ * n = 12 (two position and ten distance variables).
+ */
+export const dtlz2: MultiObjectiveProblemInfo = {
+    name: 'DTLZ2',
+    description: '12 variables, 3 objectives; spherical front f1² + f2² + f3² = 1',
+    dimensions: 12,
+    objectives: 3,
+    bounds: repeatBounds(0, 1, 12),
+    func: (x) => {
+        let g = 0;
+        for (let i = 2; i < x.length; i++) g += (x[i] - 0.5) ** 2;
+        const a = (x[0] * Math.PI) / 2;
+        const b = (x[1] * Math.PI) / 2;
+        return [
+            (1 + g) * Math.cos(a) * Math.cos(b),
+            (1 + g) * Math.cos(a) * Math.sin(b),
+            (1 + g) * Math.sin(a)
+        ];
+    },
+    referencePoint: [1.1, 1.1, 1.1],
+    paretoFront: once(() => simplexLattice().map(p => {
+        const norm = Math.hypot(...p);
+        return p.map(f => f / norm);
+    }))
+};
+
+// ============================================================================
+// REGISTRY
+// ============================================================================
+
+export const multiObjectiveProblems: Record<string, MultiObjectiveProblemInfo> = {
+    'zdt1': zdt1,
+    'zdt2': zdt2,
+    'zdt3': zdt3,
+    'zdt4': zdt4,
+    'zdt5': zdt5,
+    'zdt6': zdt6,
+    'dtlz1': dtlz1,
+    'dtlz2': dtlz2,
+    'schaffer': schaffer,
+    'fonseca-fleming': fonsecaFleming,
+    'kursawe': kursawe
+};
@@ -0,0 +1,178 @@
+/**
+ * Noisy Objectives
+ *
+ * Noise models for continuous objectives and the handling strategies an
+ * optimizer can use against them (see NoiseModel and NoiseHandling).
+ *
+ * With a single sample per evaluation, comparisons favour whichever point
+ * drew the luckiest noise, and the global best is pinned by it for good:
+ * a true improvement rarely beats a lucky outlier. The strategies trade
+ * evaluations for a more reliable score:
+ *
+ * - resampling:      every evaluation costs `samples` samples; the noise of
+ *                    the mean shrinks by √samples
+ * - reevaluate-best: one extra sample of the incumbent per iteration, so a
+ *                    lucky incumbent regresses toward its true value and can
+ *                    be replaced
+ * - averaging:       positions evaluated again (personal bests, elites,
+ *                    unchanged agents) accumulate samples for free
+ *
+ * Noise is drawn from its own generator (seeded from the run seed), so
+ * a noisy run is reproducible and the algorithm's random stream is
+ * unaffected by the noise settings.
+ */
+
+import {
+    ContinuousSolution,
+    NoiseConfig,
+    NoiseHandling,
+    NoiseModel,
+    ObjectiveFunction,
+    RandomSource
+} from './types';
+import { createSeededRandom } from './random';
+import type { TestFunctionInfo } from './test-functions';
+
+const DEFAULT_SAMPLES = 5;
+
+/** Positions remembered by the evaluation cache (oldest dropped first) */
+const CACHE_LIMIT = 20000;
+
+/** Offset from the run seed to the noise generator's seed */
+const NOISE_SEED_OFFSET = 0x9e3779b9;
+
+/** Display names for the noise models */
+export const noiseModels: Array<{ value: NoiseModel; label: string; description: string }> = [
+    { value: 'gaussian', label: 'Additive Gaussian', description: 'f + σ·N(0, 1)' },
+    { value: 'multiplicative', label: 'Multiplicative', description: 'f · (1 + σ·N(0, 1)), grows with |f|' },
+    { value: 'cauchy', label: 'Heavy-tailed (Cauchy)', description: 'f + σ·Cauchy(0, 1), with rare huge outliers' }
+];
+
+/** Display names for the noise handling methods */
+export const noiseHandlingMethods: Array<{ value: NoiseHandling; label: string; description: string }> = [
+    { value: 'none', label: 'None', description: 'Trust each single sample' },
+    { value: 'resampling', label: 'Resampling', description: 'Average a fixed number of samples per evaluation' },
+    { value: 'reevaluate-best', label: 'Re-evaluate best', description: 'Sample the global best again every iteration and use its mean' },
+    { value: 'averaging', label: 'Averaging cache', description: 'Average all samples taken at the same position' }
+];
+
+/** One noisy observation of a noiseless value */
+export function addNoise(value: number, model: NoiseModel, level: number, random: RandomSource): number {
+    if (model === 'cauchy') {
+        // Inverse CDF; u in (0, 1) keeps the tangent finite
+        const u = (random() + Number.EPSILON) / (1 + 2 * Number.EPSILON);
+        return value + level * Math.tan(Math.PI * (u - 0.5));
+    }
+    const u = 1 - random();
+    const gaussian = Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * random());
+    return model === 'multiplicative' ? value * (1 + level * gaussian) : value + level * gaussian;
+}
+
+/**
+ * Noisy version of a test function: func2D and funcND return single
+ * noisy samples, while the optimum and bounds stay the noiseless ones
+ */
+export function withNoise(
+    info: TestFunctionInfo,
+    noise: { model: NoiseModel; level: number },
+    random: RandomSource = Math.random
+): TestFunctionInfo {
+    const { model, level } = noise;
+    const funcND = info.funcND;
+    const label = noiseModels.find(m => m.value === model)?.label ?? model;
+    return {
+        ...info,
+        name: `Noisy ${info.name}`,
+        func2D: (x, y) => addNoise(info.func2D(x, y), model, level, random),
+        funcND: funcND && ((x) => addNoise(funcND(x), model, level, random)),
+        description: `${info.description} (${label.toLowerCase()} noise, σ = ${level})`
+    };
+}
+
+/**
+ * Draws the noise of one optimizer run and applies the handling method
+ *
+ * Works on the raw objective: constraint handling, if any, scores the
+ * observed values like it would score noiseless ones.
+ */
+export class NoiseHandler {
+    private readonly model: NoiseModel;
+    private readonly level: number;
+    private readonly handling: NoiseHandling;
+    private readonly samples: number;
+    private readonly seed: number | undefined;
+    private random: RandomSource;
+
+    /** Sum and count of the samples taken at each position (averaging, reevaluate-best) */
+    private cache = new Map<string, { sum: number; count: number }>();
+
+    constructor(config: NoiseConfig, seed?: number) {
+        this.model = config.model;
+        this.level = config.level;
+        this.handling = config.handling ?? 'none';
+        this.samples = Math.max(1, Math.round(config.samples ?? DEFAULT_SAMPLES));
+        this.seed = seed;
+        this.random = this.createRandom();
+    }
+
+    /** Re-seed and forget all samples */
+    public reset(): void {
+        this.random = this.createRandom();
+        this.cache.clear();
+    }
+
+    /** Samples (counted evaluations) spent per evaluation */
+    public get samplesPerEvaluation(): number {
+        return this.handling === 'resampling' ? this.samples : 1;
+    }
+
+    /** Whether the optimizer should re-sample its global best every iteration */
+    public get reevaluatesBest(): boolean {
+        return this.handling === 'reevaluate-best';
+    }
+
+    /** Observed value of a position under the handling method */
+    public observe(position: ContinuousSolution, objective: ObjectiveFunction<ContinuousSolution>): number {
+        const value = objective(position);
+        if (this.handling === 'resampling') {
+            let sum = 0;
+            for (let i = 0; i < this.samples; i++) sum += this.sample(value);
+            return sum / this.samples;
+        }
+
+        const observed = this.sample(value);
+        if (this.handling === 'none') return observed;
+
+        const mean = this.remember(position, observed);
+        return this.handling === 'averaging' ? mean : observed;
+    }
+
+    /** Take one more sample at a position and return the mean of all its samples */
+    public resample(position: ContinuousSolution, objective: ObjectiveFunction<ContinuousSolution>): number {
+        return this.remember(position, this.sample(objective(position)));
+    }
+
+    private sample(value: number): number {
+        return addNoise(value, this.model, this.level, this.random);
+    }
+
+    /** Add a sample to the cache; returns the position's running mean */
+    private remember(position: ContinuousSolution, observed: number): number {
+        const key = position.join(',');
+        let entry = this.cache.get(key);
+        if (!entry) {
+            if (this.cache.size >= CACHE_LIMIT) {
+                this.cache.delete(this.cache.keys().next().value as string);
+            }
+            entry = { sum: 0, count: 0 };
+            this.cache.set(key, entry);
+        }
+        entry.sum += observed;
+        entry.count++;
+        return entry.sum / entry.count;
+    }
+
+    private createRandom(): RandomSource {
+        return this.seed !== undefined ? createSeededRandom(this.seed + NOISE_SEED_OFFSET) : Math.random;
+    }
+}
@@ -0,0 +1,114 @@
+/**
+ * Pareto Front Quality Indicators
+ *
+ * - Hypervolume: volume of objective space dominated by the front and
+ *   bounded by a reference point. Rewards convergence and spread at once;
+ *   the only indicator here that needs no knowledge of the true front.
+ * - IGD (inverted generational distance): mean distance from points of
+ *   the true front to the nearest found solution. Low only when the whole
+ *   true front is covered.
+ * - Spread Δ (generalized, Zhou et al. 2006): how evenly the found points
+ *   are spaced and how far the extremes of the true front are missed.
+ *
+ * All objectives are minimized.
+ */
+
+import { ParetoState } from './types';
+
+/**
+ * Hypervolume dominated by a set of objective vectors up to the reference
+ * point (points not strictly better than it in every objective add nothing).
+ * Exact: a sweep in 2D, slicing along the last objective above that.
+ */
+export function hypervolume(front: number[][], reference: number[]): number {
+    const inside = front.filter(p => p.every((f, m) => f < reference[m]));
+    return sliceVolume(inside, reference, reference.length);
+}
+
+/** Hypervolume of the points over their first `m` objectives */
+function sliceVolume(points: number[][], reference: number[], m: number): number {
+    if (points.length === 0) return 0;
+    if (m === 1) return reference[0] - Math.min(...points.map(p => p[0]));
+
+    if (m === 2) {
+        const sorted = [...points].sort((a, b) => a[0] - b[0] || a[1] - b[1]);
+        let volume = 0;
+        let ceiling = reference[1];
+        for (const p of sorted) {
+            if (p[1] < ceiling) {
+                volume += (reference[0] - p[0]) * (ceiling - p[1]);
+                ceiling = p[1];
+            }
+        }
+        return volume;
+    }
+
+    // Between two consecutive values of the last objective, the points at or
+    // below the slice dominate an (m - 1)-dimensional cross-section
+    const sorted = [...points].sort((a, b) => a[m - 1] - b[m - 1]);
+    let volume = 0;
+    for (let i = 0; i < sorted.length; i++) {
+        const top = i + 1 < sorted.length ? sorted[i + 1][m - 1] : reference[m - 1];
+        const depth = top - sorted[i][m - 1];
+        if (depth > 0) volume += depth * sliceVolume(sorted.slice(0, i + 1), reference, m - 1);
+    }
+    return volume;
+}
+
+/** Inverted generational distance of a front to the true front (Infinity for an empty front) */
+export function igd(front: number[][], trueFront: number[][]): number {
+    if (trueFront.length === 0) return NaN;
+    if (front.length === 0) return Infinity;
+    let sum = 0;
+    for (const r of trueFront) {
+        sum += Math.min(...front.map(p => euclidean(p, r)));
+    }
+    return sum / trueFront.length;
+}
+
+/**
+ * Generalized spread Δ of a front; the distances to the extremes of the
+ * true front are included when it is known (NaN below two points)
+ */
+export function spread(front: number[][], trueFront?: number[][]): number {
+    if (front.length < 2) return NaN;
+
+    const nearest = front.map((p, i) =>
+        Math.min(...front.filter((_, j) => j !== i).map(q => euclidean(p, q)))
+    );
+    const mean = nearest.reduce((sum, d) => sum + d, 0) / nearest.length;
+    const deviation = nearest.reduce((sum, d) => sum + Math.abs(d - mean), 0);
+
+    let extremes = 0;
+    if (trueFront && trueFront.length > 0) {
+        for (let m = 0; m < front[0].length; m++) {
+            const extreme = trueFront.reduce((best, p) => (p[m] < best[m] ? p : best));
+            extremes += Math.min(...front.map(p => euclidean(p, extreme)));
+        }
+    }
+
+    const denominator = extremes + front.length * mean;
+    return denominator > 0 ? (extremes + deviation) / denominator : 0;
+}
+
+/** All indicators for a front */
+export function paretoMetrics(
+    front: number[][],
+    referencePoint: number[],
+    trueFront?: number[][]
+): Omit<ParetoState, 'front'> {
+    return {
+        hypervolume: hypervolume(front, referencePoint),
+        igd: trueFront ? igd(front, trueFront) : NaN,
+        spread: spread(front, trueFront)
+    };
+}
+
+function euclidean(a: number[], b: number[]): number {
+    let sum = 0;
+    for (let m = 0; m < a.length; m++) {
+        const diff = a[m] - b[m];
+        sum += diff * diff;
+    }
+    return Math.sqrt(sum);
+}
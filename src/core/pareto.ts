@@ -0,0 +1,208 @@
+/**
+ * Pareto Dominance and Archive
+ *
+ * Building blocks of the multi-objective optimizers: dominance tests,
+ * NSGA-II crowding distances and the bounded external archive that
+ * collects the non-dominated solutions found during a run.
+ *
+ * All objectives are minimized. A solution dominates another when it is
+ * no worse in every objective and strictly better in at least one.
+ */
+
+import { ArchivePruning, ParetoSolution, RandomSource } from './types';
+
+const DEFAULT_ARCHIVE_SIZE = 100;
+
+/** Hypercubes per objective of the adaptive grid */
+const GRID_DIVISIONS = 10;
+
+/** Display names for the archive pruning methods */
+export const archivePruningMethods: Array<{ value: ArchivePruning; label: string; description: string }> = [
+    { value: 'crowding', label: 'Crowding distance', description: 'Drop the member closest to its neighbours on the front (NSGA-II)' },
+    { value: 'grid', label: 'Adaptive grid', description: 'Drop a member of the most crowded hypercube (PAES)' }
+];
+
+/** Whether objective vector a dominates b */
+export function dominates(a: number[], b: number[]): boolean {
+    let strictlyBetter = false;
+    for (let m = 0; m < a.length; m++) {
+        if (a[m] > b[m]) return false;
+        if (a[m] < b[m]) strictlyBetter = true;
+    }
+    return strictlyBetter;
+}
+
+/**
+ * Objective vectors not dominated by any other (duplicates kept once).
+ * Two objectives are filtered with a sort and sweep, so large samples
+ * (e.g. a sampled reference front) stay cheap.
+ */
+export function nonDominatedPoints(points: number[][]): number[][] {
+    if (points.length > 0 && points[0].length === 2) {
+        const sorted = [...points].sort((a, b) => a[0] - b[0] || a[1] - b[1]);
+        const front: number[][] = [];
+        let lowest = Infinity;
+        for (const p of sorted) {
+            if (p[1] < lowest) {
+                front.push(p);
+                lowest = p[1];
+            }
+        }
+        return front;
+    }
+    return points.filter((p, i) =>
+        !points.some((q, j) => dominates(q, p) || (j < i && sameObjectives(q, p)))
+    );
+}
+
+/**
+ * NSGA-II crowding distance of each vector within its set: the sum over
+ * objectives of the normalized gap between its two neighbours. Boundary
+ * vectors get Infinity so they are always kept.
+ */
+export function crowdingDistances(objectives: number[][]): number[] {
+    const n = objectives.length;
+    const distances = new Array<number>(n).fill(0);
+    if (n === 0) return distances;
+
+    for (let m = 0; m < objectives[0].length; m++) {
+        const order = Array.from({ length: n }, (_, i) => i)
+            .sort((a, b) => objectives[a][m] - objectives[b][m]);
+        const low = objectives[order[0]][m];
+        const high = objectives[order[n - 1]][m];
+        distances[order[0]] = Infinity;
+        distances[order[n - 1]] = Infinity;
+        if (high === low) continue;
+        for (let k = 1; k < n - 1; k++) {
+            distances[order[k]] += (objectives[order[k + 1]][m] - objectives[order[k - 1]][m]) / (high - low);
+        }
+    }
+    return distances;
+}
+
+/**
+ * Bounded archive of mutually non-dominated solutions
+ *
+ * Stored solutions are never modified, so they can be shared with
+ * recorded states.
+ */
+export class ParetoArchive {
+    private readonly capacity: number;
+    private readonly pruning: ArchivePruning;
+    private readonly random: RandomSource;
+    private members: ParetoSolution[] = [];
+
+    constructor(capacity: number = DEFAULT_ARCHIVE_SIZE, pruning: ArchivePruning = 'crowding', random: RandomSource = Math.random) {
+        this.capacity = Math.max(1, Math.round(capacity));
+        this.pruning = pruning;
+        this.random = random;
+    }
+
+    /** Current members */
+    public get solutions(): readonly ParetoSolution[] {
+        return this.members;
+    }
+
+    public get size(): number {
+        return this.members.length;
+    }
+
+    public clear(): void {
+        this.members = [];
+    }
+
+    /**
+     * Offer a solution. It enters unless a member dominates or equals it,
+     * and evicts the members it dominates; an overfull archive is pruned.
+     * Returns whether the solution is a member afterwards.
+     */
+    public add(solution: ParetoSolution): boolean {
+        for (const member of this.members) {
+            if (dominates(member.objectives, solution.objectives) || sameObjectives(member.objectives, solution.objectives)) {
+                return false;
+            }
+        }
+        this.members = this.members.filter(member => !dominates(solution.objectives, member.objectives));
+        this.members.push(solution);
+
+        while (this.members.length > this.capacity) this.prune();
+        return this.members.includes(solution);
+    }
+
+    /**
+     * Member to guide a search agent, favouring sparse parts of the front:
+     * a binary tournament on crowding distance, or a roulette over grid
+     * hypercubes weighted by 1 / occupancy
+     *
+     * @throws Error when the archive is empty
+     */
+    public selectLeader(): ParetoSolution {
+        const n = this.members.length;
+        if (n === 0) throw new Error('Cannot select a leader from an empty archive');
+        if (n === 1) return this.members[0];
+
+        if (this.pruning === 'grid') {
+            const cells = [...this.gridCells().values()];
+            const weights = cells.map(cell => 1 / cell.length);
+            let r = this.random() * weights.reduce((sum, w) => sum + w, 0);
+            let chosen = cells[cells.length - 1];
+            for (let c = 0; c < cells.length; c++) {
+                r -= weights[c];
+                if (r <= 0) {
+                    chosen = cells[c];
+                    break;
+                }
+            }
+            return chosen[Math.floor(this.random() * chosen.length)];
+        }
+
+        const distances = crowdingDistances(this.members.map(m => m.objectives));
+        const a = Math.floor(this.random() * n);
+        const b = Math.floor(this.random() * n);
+        return this.members[distances[a] >= distances[b] ? a : b];
+    }
+
+    /** Remove one member from the most crowded part of the front */
+    private prune(): void {
+        if (this.pruning === 'grid') {
+            const crowded = [...this.gridCells().values()].reduce((most, cell) => (cell.length > most.length ? cell : most));
+            const victim = crowded[Math.floor(this.random() * crowded.length)];
+            this.members = this.members.filter(member => member !== victim);
+            return;
+        }
+
+        const distances = crowdingDistances(this.members.map(m => m.objectives));
+        let victim = 0;
+        for (let i = 1; i < distances.length; i++) {
+            if (distances[i] < distances[victim]) victim = i;
+        }
+        this.members.splice(victim, 1);
+    }
+
+    /** Members grouped by hypercube of a grid spanning the archive's objective ranges */
+    private gridCells(): Map<string, ParetoSolution[]> {
+        const objectives = this.members[0].objectives.length;
+        const low: number[] = [];
+        const high: number[] = [];
+        for (let m = 0; m < objectives; m++) {
+            low.push(Math.min(...this.members.map(s => s.objectives[m])));
+            high.push(Math.max(...this.members.map(s => s.objectives[m])));
+        }
+
+        const cells = new Map<string, ParetoSolution[]>();
+        for (const member of this.members) {
+            const key = member.objectives.map((f, m) => {
+                const span = high[m] - low[m];
+                return span > 0 ? Math.min(GRID_DIVISIONS - 1, Math.floor(((f - low[m]) / span) * GRID_DIVISIONS)) : 0;
+            }).join(',');
+            const cell = cells.get(key);
+            if (cell) cell.push(member);
+            else cells.set(key, [member]);
+        }
+        return cells;
+    }
+}
+
+function sameObjectives(a: number[], b: number[]): boolean {
+    return a.every((f, m) => f === b[m]);
+}
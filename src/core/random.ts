@@ -0,0 +1,95 @@
+/**
+ * Seedable Random Number Generation
+ *
+ * Every stochastic operator in the framework draws from a RandomSource
+ * instead of calling Math.random() directly, so that a run can be
+ * reproduced exactly from its seed.
+ */
+
+import { RandomSource } from './types';
+
+/**
+ * SplitMix32: used to expand a single 32-bit seed into generator state
+ */
+function splitMix32(seed: number): () => number {
+    let state = seed | 0;
+    return () => {
+        state = (state + 0x9e3779b9) | 0;
+        let t = state ^ (state >>> 16);
+        t = Math.imul(t, 0x21f0aaad);
+        t = t ^ (t >>> 15);
+        t = Math.imul(t, 0x735a2d97);
+        return (t ^ (t >>> 15)) >>> 0;
+    };
+}
+
+/** 32-bit left rotation */
+function rotl(x: number, k: number): number {
+    return (x << k) | (x >>> (32 - k));
+}
+
+/**
+ * xoshiro128** pseudo-random generator
+ *
+ * Small, fast and statistically solid. The same seed always yields
+ * the same sequence, on every platform.
+ */
+export class Xoshiro128 {
+    private s = new Uint32Array(4);
+
+    constructor(seed: number) {
+        const init = splitMix32(seed);
+        for (let i = 0; i < 4; i++) {
+            this.s[i] = init();
+        }
+    }
+
+    /** Next unsigned 32-bit integer */
+    public nextUint32(): number {
+        const s = this.s;
+        const result = Math.imul(rotl(Math.imul(s[1], 5), 7), 9) >>> 0;
+        const t = s[1] << 9;
+
+        s[2] ^= s[0];
+        s[3] ^= s[1];
+        s[1] ^= s[2];
+        s[0] ^= s[3];
+        s[2] ^= t;
+        s[3] = rotl(s[3], 11);
+
+        return result;
+    }
+
+    /** Next value in [0, 1), same contract as Math.random() */
+    public next(): number {
+        return this.nextUint32() / 4294967296;
+    }
+}
+
+/**
+ * Create a seeded random source
+ *
+ * @param seed - Any integer; non-integers are truncated
+ * @returns A function that behaves like Math.random() but is reproducible
+ */
+export function createSeededRandom(seed: number): RandomSource {
+    const generator = new Xoshiro128(seed);
+    return () => generator.next();
+}
+
+/**
+ * Generate a fresh seed (for runs where the user did not pick one)
+ */
+export function randomSeed(): number {
+    return Math.floor(Math.random() * 2147483647);
+}
+
+/**
+ * Resolve the random source for an optimizer configuration.
+ * An explicit source wins, then a seed, then Math.random.
+ */
+export function resolveRandom(config: { seed?: number; random?: RandomSource }): RandomSource {
+    if (config.random) return config.random;
+    if (config.seed !== undefined) return createSeededRandom(config.seed);
+    return Math.random;
+}
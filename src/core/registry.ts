@@ -8,9 +8,17 @@
 import {
     ChapterGroup,
     AlgorithmDefinition,
-    Continuous2DConfig
+    ContinuousAlgorithmDefinition,
+    OptimizationType,
+    Continuous2DConfig,
+    ContinuousNDConfig,
+    NumericHyperparameterDef,
+    HyperparameterDef,
+    Optimizer
 } from './types';
 import { rastrigin2D } from './test-functions';
+import { toContinuousNDConfig } from './base-optimizer';
+import { archivePruningMethods } from './pareto';
 
 // Import Bat algorithm family
 import { BatAlgorithm, BatConfig } from '../algorithms/bat/standard';
@@ -22,11 +30,53 @@ import { BatSAHybrid, BASAConfig } from '../algorithms/bat/hybrid-sa';
 import { BatDEHybrid, BADEConfig } from '../algorithms/bat/hybrid-de';
 import { BatABCHybrid, BAABCConfig } from '../algorithms/bat/hybrid-abc';
 import { BatHarmonyHybrid, BAHSConfig } from '../algorithms/bat/hybrid-harmony';
+import { DiscreteBatAlgorithm, DiscreteBatConfig } from '../algorithms/bat/discrete';
+import { BinaryBatAlgorithm, BinaryBatConfig } from '../algorithms/bat/binary';
+import { BinaryLevyBatAlgorithm, BinaryLevyBatConfig } from '../algorithms/bat/binary-levy';
+import { MultiObjectiveBatAlgorithm, MOBAConfig } from '../algorithms/bat/multi-objective';
 
 // Import AFSA algorithm family
 import { AFSAAlgorithm, AFSAConfig } from '../algorithms/afsa/standard';
 import { FastAFSA, FastAFSAConfig } from '../algorithms/afsa/fast';
 import { ModifiedAFSA } from '../algorithms/afsa/modified';
+import { SimplifiedBinaryAFSA, BinaryAFSAConfig } from '../algorithms/afsa/binary';
+import { MultiObjectiveAFSA, MultiObjectiveAFSAConfig } from '../algorithms/afsa/multi-objective';
+
+// Import Cuckoo Search family
+import { CuckooSearch, CuckooConfig } from '../algorithms/cuckoo/standard';
+import { ModifiedCuckooSearch, ModifiedCuckooConfig } from '../algorithms/cuckoo/modified';
+import { ChaoticCuckooSearch, ChaoticCuckooConfig } from '../algorithms/cuckoo/chaotic';
+import { AdaptiveCuckooSearch, AdaptiveCuckooConfig } from '../algorithms/cuckoo/adaptive';
+
+// Import Firefly family
+import { FireflyAlgorithm, FireflyConfig } from '../algorithms/firefly/standard';
+import { LevyFireflyAlgorithm, LevyFireflyConfig } from '../algorithms/firefly/levy';
+import { ChaoticFireflyAlgorithm, ChaoticFireflyConfig } from '../algorithms/firefly/chaotic';
+import { AdaptiveFireflyAlgorithm, AdaptiveFireflyConfig } from '../algorithms/firefly/adaptive';
+
+// Import Flower Pollination family
+import { FlowerPollination, FlowerConfig } from '../algorithms/flower/standard';
+import { DynamicFlowerPollination, DynamicFlowerConfig } from '../algorithms/flower/dynamic';
+import { BinaryFlowerPollination, BinaryFlowerConfig } from '../algorithms/flower/binary';
+
+// Import Artificial Bee Colony family
+import { ArtificialBeeColony, ABCConfig } from '../algorithms/abc/standard';
+import { GbestGuidedABC, GbestABCConfig } from '../algorithms/abc/gbest';
+import { ChaoticABC, ChaoticABCConfig } from '../algorithms/abc/chaotic';
+import { ModifiedABC, ModifiedABCConfig } from '../algorithms/abc/modified';
+
+// Import Grey Wolf family
+import { GreyWolfOptimizer, GWOConfig } from '../algorithms/wolf/standard';
+import { ImprovedGreyWolfOptimizer, ImprovedGWOConfig } from '../algorithms/wolf/improved';
+import { BinaryGreyWolfOptimizer, BinaryGWOConfig } from '../algorithms/wolf/binary';
+import { GWOPSOHybrid, GWOPSOConfig } from '../algorithms/wolf/hybrid-pso';
+
+// Import baselines
+import { ParticleSwarm, ParticleSwarmConfig } from '../algorithms/baselines/pso';
+import { DifferentialEvolution, DifferentialEvolutionConfig } from '../algorithms/baselines/de';
+import { GeneticAlgorithm, GeneticAlgorithmConfig } from '../algorithms/baselines/ga';
+import { CMAES, CMAESConfig } from '../algorithms/baselines/cmaes';
+import { RandomSearch } from '../algorithms/baselines/random-search';
 
 /**
  * Create a Continuous2DConfig with default values
@@ -44,6 +94,19 @@ function createConfig(
     };
 }
 
+/**
+ * Build both factories for a dimension-agnostic algorithm.
+ * The 2D factory lifts the visualizer config into N-D form.
+ */
+function continuousFactory(
+    build: (config: ContinuousNDConfig, hyperparams?: Record<string, string | number>) => Optimizer
+): Pick<ContinuousAlgorithmDefinition, 'create' | 'createND'> {
+    return {
+        create: (config, hyperparams) => build(toContinuousNDConfig(config), hyperparams),
+        createND: build
+    };
+}
+
 /** Default Bat config parameters */
 const defaultBatParams = {
     fMin: 0,
@@ -54,6 +117,39 @@ const defaultBatParams = {
     initialPulseRate: 0.5
 };
 
+/** Shared Bat hyperparameter definitions */
+const batAlphaParam: NumericHyperparameterDef = {
+    key: 'alpha',
+    name: 'Loudness Decay (α)',
+    description: 'Rate at which loudness decreases: A_new = α × A_old. Values near 1.0 = slow decay (longer exploration). Values near 0.5 = fast decay (quick exploitation).',
+    min: 0.5, max: 0.99, step: 0.01, defaultValue: 0.9
+};
+
+const batGammaParam: NumericHyperparameterDef = {
+    key: 'gamma',
+    name: 'Pulse Rate Growth (γ)',
+    description: 'Rate at which pulse rate increases: r_new = r_0 × (1 - e^(-γt)). Higher γ = faster transition from exploration to exploitation.',
+    min: 0.5, max: 2.0, step: 0.1, defaultValue: 0.9
+};
+
+/** Shared Pareto archive hyperparameter definitions (multi-objective variants) */
+const archiveParams: HyperparameterDef[] = [
+    {
+        key: 'archiveSize',
+        name: 'Archive Size',
+        description: 'Maximum number of non-dominated solutions kept. Larger archives describe the front in more detail but cost more to maintain.',
+        min: 20, max: 200, step: 10, defaultValue: 100
+    },
+    {
+        type: 'enum',
+        key: 'archivePruning',
+        name: 'Archive Pruning',
+        description: 'Which member is dropped when the archive overflows. Both favour sparse regions, so the front stays evenly spread.',
+        options: archivePruningMethods,
+        defaultValue: 'crowding'
+    }
+];
+
 /** Default AFSA config parameters */
 const defaultAFSAParams = {
     visual: 2.5,
@@ -62,6 +158,128 @@ const defaultAFSAParams = {
     tryNumber: 5
 };
 
+/** Default Cuckoo Search config parameters */
+const defaultCuckooParams = {
+    pa: 0.25,
+    alpha: 0.05,
+    levyBeta: 1.5
+};
+
+/** Shared Cuckoo Search hyperparameter definitions */
+const cuckooDiscoveryRateParam: NumericHyperparameterDef = {
+    key: 'pa',
+    name: 'Discovery Rate (pa)',
+    description: 'Probability that a host bird discovers an alien egg and the nest is rebuilt elsewhere. Higher pa = more random restarts (exploration). Yang & Deb recommend 0.25.',
+    min: 0.05, max: 0.5, step: 0.05, defaultValue: 0.25
+};
+
+const cuckooLevyBetaParam: NumericHyperparameterDef = {
+    key: 'levyBeta',
+    name: 'Lévy β Parameter',
+    description: 'Shape of the Lévy flight distribution (β ∈ [1,2]). Lower β = heavier tails, more long jumps. β=1.5 is the usual choice.',
+    min: 1.0, max: 2.0, step: 0.1, defaultValue: 1.5
+};
+
+/** Default Firefly config parameters */
+const defaultFireflyParams = {
+    beta0: 1.0,
+    gamma: 1.0,
+    alpha: 0.05
+};
+
+/** Shared Firefly hyperparameter definitions */
+const fireflyBeta0Param: NumericHyperparameterDef = {
+    key: 'beta0',
+    name: 'Attractiveness (β0)',
+    description: 'Attraction between two fireflies at distance 0. β0 = 1 moves a firefly all the way to a brighter neighbor; smaller values take partial steps.',
+    min: 0.1, max: 2.0, step: 0.1, defaultValue: 1.0
+};
+
+const fireflyGammaParam: NumericHyperparameterDef = {
+    key: 'gamma',
+    name: 'Light Absorption (γ)',
+    description: 'How quickly attraction fades with distance: β = β0·e^(-γr²), r relative to the search range. γ → 0 = everyone sees everyone (PSO-like). Large γ = only near neighbors attract (many local subgroups).',
+    min: 0.1, max: 10, step: 0.1, defaultValue: 1.0
+};
+
+/** Default Flower Pollination config parameters */
+const defaultFlowerParams = {
+    p: 0.8,
+    gamma: 0.1,
+    levyBeta: 1.5
+};
+
+/** Shared Flower Pollination hyperparameter definitions */
+const flowerGammaParam: NumericHyperparameterDef = {
+    key: 'gamma',
+    name: 'Lévy Scale (γ)',
+    description: 'Scaling factor of the Lévy step in global pollination. Larger γ = longer jumps, often past the best flower.',
+    min: 0.01, max: 1.0, step: 0.01, defaultValue: 0.1
+};
+
+const flowerLevyBetaParam: NumericHyperparameterDef = {
+    key: 'levyBeta',
+    name: 'Lévy β Parameter',
+    description: 'Shape of the Lévy distribution (β ∈ [1,2]). Lower β = heavier tails, more long jumps.',
+    min: 1.0, max: 2.0, step: 0.1, defaultValue: 1.5
+};
+
+/** Default Artificial Bee Colony config parameters */
+const defaultABCParams = {
+    limit: 50
+};
+
+/** Shared Artificial Bee Colony hyperparameter definitions */
+const abcLimitParam: NumericHyperparameterDef = {
+    key: 'limit',
+    name: 'Abandonment Limit',
+    description: 'Trials without improvement before a food source is abandoned and its bee turns scout. Lower = more scouting (exploration).',
+    min: 5, max: 200, step: 5, defaultValue: 50
+};
+
+/** Default Grey Wolf config parameters */
+const defaultGWOParams = {
+    aStart: 2.0
+};
+
+/** Shared Grey Wolf hyperparameter definitions */
+const gwoAStartParam: NumericHyperparameterDef = {
+    key: 'aStart',
+    name: 'Initial a',
+    description: 'Start value of the control parameter a, which decays over the run. While |A| > 1 wolves search away from the leaders; once a < 1 they close in on the prey.',
+    min: 0.5, max: 4.0, step: 0.1, defaultValue: 2.0
+};
+
+/** Default PSO baseline parameters (Clerc's constriction-equivalent values) */
+const defaultPSOParams = {
+    w: 0.729,
+    c1: 1.49445,
+    c2: 1.49445,
+    vMaxFraction: 0.2
+};
+
+/** Shared PSO baseline hyperparameter definitions (defaults from defaultPSOParams) */
+const psoBaselineParams: NumericHyperparameterDef[] = [
+    {
+        key: 'w',
+        name: 'Inertia Weight (w)',
+        description: 'Controls momentum from previous velocity. High w = more exploration, low w = faster convergence.',
+        min: 0.3, max: 1.0, step: 0.001, defaultValue: defaultPSOParams.w
+    },
+    {
+        key: 'c1',
+        name: 'Cognitive Coef. (c₁)',
+        description: 'Pull toward each particle\'s personal best.',
+        min: 0.0, max: 3.0, step: 0.01, defaultValue: defaultPSOParams.c1
+    },
+    {
+        key: 'c2',
+        name: 'Social Coef. (c₂)',
+        description: 'Pull toward the best personal best in the neighbourhood.',
+        min: 0.0, max: 3.0, step: 0.01, defaultValue: defaultPSOParams.c2
+    }
+];
+
 /**
  * Algorithm Registry - organized by chapter
  */
@@ -92,18 +310,8 @@ export const registry: ChapterGroup[] = [
                         description: 'Upper bound of echolocation frequency. Higher values = faster movement, wider exploration. Controls the maximum velocity scale.',
                         min: 1, max: 5, step: 0.5, defaultValue: 2
                     },
-                    {
-                        key: 'alpha',
-                        name: 'Loudness Decay (α)',
-                        description: 'Rate at which loudness decreases: A_new = α × A_old. Values near 1.0 = slow decay (longer exploration). Values near 0.5 = fast decay (quick exploitation).',
-                        min: 0.5, max: 0.99, step: 0.01, defaultValue: 0.9
-                    },
-                    {
-                        key: 'gamma',
-                        name: 'Pulse Rate Growth (γ)',
-                        description: 'Rate at which pulse rate increases: r_new = r_0 × (1 - e^(-γt)). Higher γ = faster transition from exploration to exploitation.',
-                        min: 0.5, max: 2.0, step: 0.1, defaultValue: 0.9
-                    },
+                    batAlphaParam,
+                    batGammaParam,
                     {
                         key: 'initialLoudness',
                         name: 'Initial Loudness',
@@ -117,11 +325,11 @@ export const registry: ChapterGroup[] = [
                         min: 0.1, max: 0.9, step: 0.1, defaultValue: 0.5
                     }
                 ],
-                create: (config, hyperparams) => new BatAlgorithm({
+                ...continuousFactory((config, hyperparams) => new BatAlgorithm({
                     ...config,
                     ...defaultBatParams,
                     ...hyperparams
-                } as BatConfig)
+                } as BatConfig))
             },
             {
                 id: 'bat-adaptive',
@@ -146,11 +354,11 @@ export const registry: ChapterGroup[] = [
                         min: 0.5, max: 2.0, step: 0.1, defaultValue: 0.9
                     }
                 ],
-                create: (config, hyperparams) => new AdaptiveBatAlgorithm({
+                ...continuousFactory((config, hyperparams) => new AdaptiveBatAlgorithm({
                     ...config,
                     ...defaultBatParams,
                     ...hyperparams
-                } as BatConfig)
+                } as BatConfig))
             },
             {
                 id: 'bat-chaotic-levy',
@@ -181,11 +389,11 @@ export const registry: ChapterGroup[] = [
                         min: 1.0, max: 2.0, step: 0.1, defaultValue: 1.5
                     }
                 ],
-                create: (config, hyperparams) => new ChaoticLevyBatAlgorithm({
+                ...continuousFactory((config, hyperparams) => new ChaoticLevyBatAlgorithm({
                     ...config, ...defaultBatParams,
                     chaosMap: (String(hyperparams?.chaosMap) as 'logistic' | 'tent' | 'sine') || 'logistic',
                     levyBeta: Number(hyperparams?.levyBeta) || 1.5
-                } as ChaoticBatConfig)
+                } as ChaoticBatConfig))
             },
             {
                 id: 'bat-self-adaptive',
@@ -196,10 +404,80 @@ export const registry: ChapterGroup[] = [
                 optimizationType: 'continuous',
                 agentName: 'Bat',
                 objectiveName: 'Rastrigin',
-                create: (config) => new SelfAdaptiveBatAlgorithm({
+                ...continuousFactory((config) => new SelfAdaptiveBatAlgorithm({
                     ...config, ...defaultBatParams,
                     maxIterations: 100
-                } as SelfAdaptiveBatConfig)
+                } as SelfAdaptiveBatConfig))
+            },
+            {
+                id: 'bat-discrete',
+                name: 'Discrete BA',
+                section: '2.2.1',
+                description: 'Permutation bats with swap-sequence velocities',
+                details: 'Each bat holds a tour (permutation). Its velocity is a sequence of swaps whose length grows with the frequency; local search applies a single swap to the best tour. Loudness and pulse rate work as in the standard BA.',
+                optimizationType: 'discrete',
+                agentName: 'Bat',
+                objectiveName: 'Tour Length',
+                hyperparameters: [batAlphaParam, batGammaParam],
+                create: (config, hyperparams) => new DiscreteBatAlgorithm({
+                    ...config, ...defaultBatParams,
+                    ...hyperparams
+                } as DiscreteBatConfig)
+            },
+            {
+                id: 'bat-binary',
+                name: 'Binary BA',
+                section: '2.2.2',
+                description: 'Sigmoid transfer from velocity to bits',
+                details: 'Velocities are updated as in the standard BA and squashed by a sigmoid into the probability of each bit being 1. Local search copies bits from the best bat.',
+                optimizationType: 'binary',
+                agentName: 'Bat',
+                objectiveName: 'OneMax',
+                hyperparameters: [batAlphaParam, batGammaParam],
+                create: (config, hyperparams) => new BinaryBatAlgorithm({
+                    ...config, ...defaultBatParams,
+                    ...hyperparams
+                } as BinaryBatConfig)
+            },
+            {
+                id: 'bat-multiobjective',
+                name: 'Multi-Objective BA',
+                section: '2.2.3',
+                description: 'Archive leaders guide bats towards the Pareto front',
+                details: 'Each bat flies towards a leader drawn from an external archive of non-dominated solutions, preferring sparse parts of the front. A new solution replaces the bat\'s current one unless it is dominated by it, and every solution is offered to the archive.',
+                optimizationType: 'multiobjective',
+                agentName: 'Bat',
+                objectiveName: 'ZDT1',
+                hyperparameters: [batAlphaParam, batGammaParam, ...archiveParams],
+                create: (config, hyperparams) => new MultiObjectiveBatAlgorithm({
+                    ...config, ...defaultBatParams,
+                    ...hyperparams
+                } as MOBAConfig)
+            },
+            {
+                id: 'bat-binary-levy',
+                name: 'Binary Lévy BA',
+                section: '2.2.4',
+                description: 'Binary BA with Lévy flight velocity kicks',
+                details: 'Adds a small Lévy-distributed term to every velocity component before the sigmoid transfer. The heavy tail occasionally flips many bits at once, helping bats escape local optima.',
+                optimizationType: 'binary',
+                agentName: 'Bat',
+                objectiveName: 'OneMax',
+                hyperparameters: [
+                    batAlphaParam,
+                    batGammaParam,
+                    {
+                        key: 'levyBeta',
+                        name: 'Lévy Exponent (β)',
+                        description: 'Tail index of the Lévy kicks. Smaller β = heavier tail, more frequent large velocity jumps.',
+                        min: 1.1, max: 2.0, step: 0.1, defaultValue: 1.5
+                    }
+                ],
+                create: (config, hyperparams) => new BinaryLevyBatAlgorithm({
+                    ...config, ...defaultBatParams,
+                    levyBeta: 1.5,
+                    ...hyperparams
+                } as BinaryLevyBatConfig)
             }
         ],
         hybridizations: [
@@ -232,11 +510,11 @@ export const registry: ChapterGroup[] = [
                         min: 0.5, max: 3.0, step: 0.1, defaultValue: 1.5
                     }
                 ],
-                create: (config, hyperparams) => new BatPSOHybrid({
+                ...continuousFactory((config, hyperparams) => new BatPSOHybrid({
                     ...config, ...defaultBatParams,
                     w: 0.7, c1: 1.5, c2: 1.5,
                     ...hyperparams
-                } as BAPSOConfig)
+                } as BAPSOConfig))
             },
             {
                 id: 'bat-sa',
@@ -261,11 +539,11 @@ export const registry: ChapterGroup[] = [
                         min: 0.8, max: 0.99, step: 0.01, defaultValue: 0.95
                     }
                 ],
-                create: (config, hyperparams) => new BatSAHybrid({
+                ...continuousFactory((config, hyperparams) => new BatSAHybrid({
                     ...config, ...defaultBatParams,
                     initialTemp: 100, coolingRate: 0.95,
                     ...hyperparams
-                } as BASAConfig)
+                } as BASAConfig))
             },
             {
                 id: 'bat-de',
@@ -290,11 +568,11 @@ export const registry: ChapterGroup[] = [
                         min: 0.1, max: 1.0, step: 0.1, defaultValue: 0.9
                     }
                 ],
-                create: (config, hyperparams) => new BatDEHybrid({
+                ...continuousFactory((config, hyperparams) => new BatDEHybrid({
                     ...config, ...defaultBatParams,
                     F: 0.5, CR: 0.9,
                     ...hyperparams
-                } as BADEConfig)
+                } as BADEConfig))
             },
             {
                 id: 'bat-abc',
@@ -313,11 +591,11 @@ export const registry: ChapterGroup[] = [
                         min: 5, max: 50, step: 5, defaultValue: 20
                     }
                 ],
-                create: (config, hyperparams) => new BatABCHybrid({
+                ...continuousFactory((config, hyperparams) => new BatABCHybrid({
                     ...config, ...defaultBatParams,
                     limit: 20,
                     ...hyperparams
-                } as BAABCConfig)
+                } as BAABCConfig))
             },
             {
                 id: 'bat-harmony',
@@ -348,11 +626,11 @@ export const registry: ChapterGroup[] = [
                         min: 0.1, max: 1.0, step: 0.1, defaultValue: 0.5
                     }
                 ],
-                create: (config, hyperparams) => new BatHarmonyHybrid({
+                ...continuousFactory((config, hyperparams) => new BatHarmonyHybrid({
                     ...config, ...defaultBatParams,
                     hmcr: 0.9, par: 0.3, bw: 0.5,
                     ...hyperparams
-                } as BAHSConfig)
+                } as BAHSConfig))
             }
         ]
     },
@@ -395,10 +673,10 @@ export const registry: ChapterGroup[] = [
                         min: 1, max: 10, step: 1, defaultValue: 5
                     }
                 ],
-                create: (config, hyperparams) => new AFSAAlgorithm({
+                ...continuousFactory((config, hyperparams) => new AFSAAlgorithm({
                     ...config, ...defaultAFSAParams,
                     ...hyperparams
-                } as AFSAConfig)
+                } as AFSAConfig))
             },
             {
                 id: 'afsa-fast',
@@ -429,11 +707,11 @@ export const registry: ChapterGroup[] = [
                         min: 0.001, max: 0.1, step: 0.005, defaultValue: 0.01
                     }
                 ],
-                create: (config, hyperparams) => new FastAFSA({
+                ...continuousFactory((config, hyperparams) => new FastAFSA({
                     ...config, ...defaultAFSAParams,
                     alpha: 0.95, minStep: 0.01,
                     ...hyperparams
-                } as FastAFSAConfig)
+                } as FastAFSAConfig))
             },
             {
                 id: 'afsa-modified',
@@ -458,10 +736,821 @@ export const registry: ChapterGroup[] = [
                         min: 0.05, max: 1.0, step: 0.05, defaultValue: 0.3
                     }
                 ],
-                create: (config, hyperparams) => new ModifiedAFSA({
+                ...continuousFactory((config, hyperparams) => new ModifiedAFSA({
                     ...config, ...defaultAFSAParams,
                     ...hyperparams
-                } as AFSAConfig)
+                } as AFSAConfig))
+            },
+            {
+                id: 'afsa-binary',
+                name: 'Simplified Binary AFSA',
+                section: '3.2.1',
+                description: 'Fish behaviors on bit strings with Hamming neighborhoods',
+                details: 'Fish see each other within a Hamming radius. Swarming copies bits from the majority vote of the visible fish, following copies bits from the best visible fish and preying samples nearby bit strings. A fish only moves if its new bit string is no worse.',
+                optimizationType: 'binary',
+                agentName: 'Fish',
+                objectiveName: 'OneMax',
+                hyperparameters: [
+                    {
+                        key: 'visual',
+                        name: 'Visual Range',
+                        description: 'Hamming radius as a fraction of the bit length. Larger = more fish visible and bigger preying jumps; smaller = more independent bit-flip search.',
+                        min: 0.05, max: 1.0, step: 0.05, defaultValue: 0.25
+                    },
+                    {
+                        key: 'delta',
+                        name: 'Crowding Factor (δ)',
+                        description: 'Overcrowding threshold. Fish won\'t swarm or follow if too many others are visible (neighbors/total > δ).',
+                        min: 0.3, max: 0.9, step: 0.1, defaultValue: 0.618
+                    },
+                    {
+                        key: 'tryNumber',
+                        name: 'Try Number',
+                        description: 'Bit strings sampled in Preying behavior before falling back to a single random bit flip.',
+                        min: 1, max: 10, step: 1, defaultValue: 5
+                    }
+                ],
+                create: (config, hyperparams) => new SimplifiedBinaryAFSA({
+                    ...config,
+                    visual: 0.25, delta: 0.618, tryNumber: 5,
+                    ...hyperparams
+                } as BinaryAFSAConfig)
+            },
+            {
+                id: 'afsa-multiobjective',
+                name: 'Multi-Objective AFSA',
+                section: '3.2.4',
+                description: 'Fish behaviors driven by Pareto dominance',
+                details: 'Swarming, following and preying trigger when the target dominates the fish. Fish with no dominating target leap towards a leader from the archive of non-dominated solutions. Visual range and step are fractions of the search range.',
+                optimizationType: 'multiobjective',
+                agentName: 'Fish',
+                objectiveName: 'ZDT1',
+                hyperparameters: [
+                    {
+                        key: 'visual',
+                        name: 'Visual Range',
+                        description: 'How far a fish can see, as a fraction of the search range. Larger = more neighbors and wider preying.',
+                        min: 0.05, max: 1.0, step: 0.05, defaultValue: 0.3
+                    },
+                    {
+                        key: 'step',
+                        name: 'Step Size',
+                        description: 'Maximum move towards a target, as a fraction of the search range.',
+                        min: 0.01, max: 0.5, step: 0.01, defaultValue: 0.1
+                    },
+                    ...archiveParams
+                ],
+                create: (config, hyperparams) => new MultiObjectiveAFSA({
+                    ...config,
+                    visual: 0.3, step: 0.1, delta: 0.618, tryNumber: 5,
+                    ...hyperparams
+                } as MultiObjectiveAFSAConfig)
+            }
+        ]
+    },
+    {
+        id: 'ch4-cuckoo',
+        name: 'Chapter 4: Cuckoo Search',
+        variants: [
+            {
+                id: 'cs-standard',
+                name: 'Standard CS',
+                section: '4.1.2',
+                description: 'Lévy-flight egg laying with nest abandonment',
+                details: 'Each cuckoo lays an egg via a Lévy flight, replacing the host egg if better. A fraction pa of nests is discovered and rebuilt by a random walk between two other nests. Crosses mark abandoned nests.',
+                optimizationType: 'continuous',
+                agentName: 'Nest',
+                objectiveName: 'Rastrigin',
+                hyperparameters: [
+                    cuckooDiscoveryRateParam,
+                    {
+                        key: 'alpha',
+                        name: 'Step Size (α)',
+                        description: 'Scale of Lévy flights relative to the distance from the best nest. Larger α = longer flights (exploration). Smaller α = fine search around current nests.',
+                        min: 0.01, max: 0.5, step: 0.01, defaultValue: 0.05
+                    },
+                    cuckooLevyBetaParam
+                ],
+                ...continuousFactory((config, hyperparams) => new CuckooSearch({
+                    ...config, ...defaultCuckooParams,
+                    ...hyperparams
+                } as CuckooConfig))
+            },
+            {
+                id: 'cs-modified',
+                name: 'Modified CS',
+                section: '4.2.1',
+                description: 'Shrinking steps and information exchange between top nests',
+                details: 'Abandoned nests fly with a Lévy step A/√G that shrinks each generation. The best nests exchange information: a new egg is placed between two top nests at the golden ratio, moving the worse towards the better.',
+                optimizationType: 'continuous',
+                agentName: 'Nest',
+                objectiveName: 'Rastrigin',
+                hyperparameters: [
+                    cuckooDiscoveryRateParam,
+                    {
+                        key: 'maxStep',
+                        name: 'Initial Step (A)',
+                        description: 'Lévy step of abandoned nests at generation 1, as a fraction of the search range. Decays as A/√G for abandoned nests and A/G² for top nests.',
+                        min: 0.01, max: 1.0, step: 0.01, defaultValue: 0.1
+                    },
+                    {
+                        key: 'topFraction',
+                        name: 'Top Nest Fraction',
+                        description: 'Fraction of the best nests that exchange information. Larger = broader crossover among good solutions. Smaller = stronger elitism.',
+                        min: 0.1, max: 0.5, step: 0.05, defaultValue: 0.25
+                    }
+                ],
+                ...continuousFactory((config, hyperparams) => new ModifiedCuckooSearch({
+                    ...config, ...defaultCuckooParams,
+                    maxStep: 0.1, topFraction: 0.25,
+                    ...hyperparams
+                } as ModifiedCuckooConfig))
+            },
+            {
+                id: 'cs-chaotic',
+                name: 'Chaotic CS',
+                section: '4.2.2',
+                description: 'Chaotic map drives step size and nest rebuilding',
+                details: 'The Lévy step size and the random factor of the nest-rebuilding walk come from a chaotic map instead of a uniform generator. Chaotic sequences are non-repeating and cover the range well, helping to escape local optima.',
+                optimizationType: 'continuous',
+                agentName: 'Nest',
+                objectiveName: 'Rastrigin',
+                hyperparameters: [
+                    {
+                        type: 'enum',
+                        key: 'chaosMap',
+                        name: 'Chaos Map',
+                        description: 'Chaotic map that generates the step size multiplier and the random-walk factor.',
+                        options: [
+                            { value: 'logistic', label: 'Logistic', description: 'x_{n+1} = 4x(1-x), most common' },
+                            { value: 'tent', label: 'Tent', description: 'Piecewise linear, tent-shaped' },
+                            { value: 'sinusoidal', label: 'Sinusoidal', description: 'x_{n+1} = sin(πx), smooth transitions' },
+                            { value: 'circle', label: 'Circle', description: 'Rotation-like map, mod 1' },
+                            { value: 'gauss', label: 'Gauss', description: 'x_{n+1} = 1/x mod 1' }
+                        ],
+                        defaultValue: 'logistic'
+                    },
+                    cuckooDiscoveryRateParam,
+                    {
+                        key: 'alpha',
+                        name: 'Max Step Size (α)',
+                        description: 'Upper bound of the chaotic step size α × c_t, where c_t ∈ [0,1] is the chaotic sequence.',
+                        min: 0.01, max: 0.5, step: 0.01, defaultValue: 0.1
+                    }
+                ],
+                ...continuousFactory((config, hyperparams) => new ChaoticCuckooSearch({
+                    ...config, ...defaultCuckooParams,
+                    alpha: 0.1, chaosMap: 'logistic',
+                    ...hyperparams
+                } as ChaoticCuckooConfig))
+            },
+            {
+                id: 'cs-adaptive',
+                name: 'Adaptive CS',
+                section: '4.2.3',
+                description: 'Discovery rate and step size adapt over the run',
+                details: 'The discovery rate pa decreases linearly and the Lévy step size α decays exponentially over the iterations. Many nests are rebuilt with long flights early on; late iterations refine the best nests.',
+                optimizationType: 'continuous',
+                agentName: 'Nest',
+                objectiveName: 'Rastrigin',
+                hyperparameters: [
+                    {
+                        key: 'paMax',
+                        name: 'Initial Discovery Rate',
+                        description: 'Discovery rate pa at the first iteration. High values rebuild many nests early (exploration).',
+                        min: 0.1, max: 0.9, step: 0.05, defaultValue: 0.5
+                    },
+                    {
+                        key: 'paMin',
+                        name: 'Final Discovery Rate',
+                        description: 'Discovery rate pa at the last iteration. Low values keep good nests intact late in the run.',
+                        min: 0.01, max: 0.5, step: 0.01, defaultValue: 0.05
+                    },
+                    {
+                        key: 'alphaMax',
+                        name: 'Initial Step Size',
+                        description: 'Lévy step size α at the first iteration. Larger = longer early flights.',
+                        min: 0.05, max: 1.0, step: 0.05, defaultValue: 0.5
+                    },
+                    {
+                        key: 'alphaMin',
+                        name: 'Final Step Size',
+                        description: 'Lévy step size α at the last iteration. Smaller = finer final search.',
+                        min: 0.001, max: 0.1, step: 0.001, defaultValue: 0.01
+                    }
+                ],
+                ...continuousFactory((config, hyperparams) => new AdaptiveCuckooSearch({
+                    ...config, ...defaultCuckooParams,
+                    paMax: 0.5, paMin: 0.05, alphaMax: 0.5, alphaMin: 0.01,
+                    ...hyperparams
+                } as AdaptiveCuckooConfig))
+            }
+        ]
+    },
+    {
+        id: 'ch5-firefly',
+        name: 'Chapter 5: Firefly Algorithm',
+        variants: [
+            {
+                id: 'fa-standard',
+                name: 'Standard FA',
+                section: '5.1.2',
+                description: 'Attraction to brighter fireflies with distance-dependent light',
+                details: 'Each firefly moves towards every brighter one, with attractiveness β0·e^(-γr²) fading over distance, plus a random move scaled by α. The brightest firefly walks randomly. Lines show who is attracted to whom.',
+                optimizationType: 'continuous',
+                agentName: 'Firefly',
+                objectiveName: 'Rastrigin',
+                hyperparameters: [
+                    fireflyBeta0Param,
+                    fireflyGammaParam,
+                    {
+                        key: 'alpha',
+                        name: 'Randomization (α)',
+                        description: 'Scale of the random move, as a fraction of the search range. Larger α = more exploration but noisier convergence.',
+                        min: 0.0, max: 0.5, step: 0.01, defaultValue: 0.05
+                    }
+                ],
+                ...continuousFactory((config, hyperparams) => new FireflyAlgorithm({
+                    ...config, ...defaultFireflyParams,
+                    ...hyperparams
+                } as FireflyConfig))
+            },
+            {
+                id: 'fa-levy',
+                name: 'Lévy-Flight FA',
+                section: '5.2.1',
+                description: 'Random moves drawn from a Lévy distribution',
+                details: 'The uniform random move is replaced by a Lévy flight with random sign. Most moves are small, but occasional long jumps let fireflies escape local optima.',
+                optimizationType: 'continuous',
+                agentName: 'Firefly',
+                objectiveName: 'Rastrigin',
+                hyperparameters: [
+                    fireflyBeta0Param,
+                    fireflyGammaParam,
+                    {
+                        key: 'alpha',
+                        name: 'Randomization (α)',
+                        description: 'Scale of the Lévy move, as a fraction of the search range. Keep small: Lévy steps are heavy-tailed.',
+                        min: 0.001, max: 0.1, step: 0.001, defaultValue: 0.01
+                    },
+                    {
+                        key: 'levyBeta',
+                        name: 'Lévy β Parameter',
+                        description: 'Shape of the Lévy distribution (β ∈ [1,2]). Lower β = heavier tails, more long jumps.',
+                        min: 1.0, max: 2.0, step: 0.1, defaultValue: 1.5
+                    }
+                ],
+                ...continuousFactory((config, hyperparams) => new LevyFireflyAlgorithm({
+                    ...config, ...defaultFireflyParams,
+                    alpha: 0.01, levyBeta: 1.5,
+                    ...hyperparams
+                } as LevyFireflyConfig))
+            },
+            {
+                id: 'fa-chaotic',
+                name: 'Chaotic FA',
+                section: '5.2.2',
+                description: 'Attractiveness tuned by a chaotic map',
+                details: 'β0 is multiplied by a chaotic sequence each iteration. Iterations with strong attraction pull the swarm together; weak ones leave fireflies to explore.',
+                optimizationType: 'continuous',
+                agentName: 'Firefly',
+                objectiveName: 'Rastrigin',
+                hyperparameters: [
+                    {
+                        type: 'enum',
+                        key: 'chaosMap',
+                        name: 'Chaos Map',
+                        description: 'Chaotic map that modulates the attractiveness β0 each iteration.',
+                        options: [
+                            { value: 'logistic', label: 'Logistic', description: 'x_{n+1} = 4x(1-x), most common' },
+                            { value: 'tent', label: 'Tent', description: 'Piecewise linear, tent-shaped' },
+                            { value: 'sinusoidal', label: 'Sinusoidal', description: 'x_{n+1} = sin(πx), smooth transitions' },
+                            { value: 'circle', label: 'Circle', description: 'Rotation-like map, mod 1' },
+                            { value: 'gauss', label: 'Gauss', description: 'x_{n+1} = 1/x mod 1' }
+                        ],
+                        defaultValue: 'logistic'
+                    },
+                    fireflyBeta0Param,
+                    fireflyGammaParam
+                ],
+                ...continuousFactory((config, hyperparams) => new ChaoticFireflyAlgorithm({
+                    ...config, ...defaultFireflyParams,
+                    chaosMap: 'logistic',
+                    ...hyperparams
+                } as ChaoticFireflyConfig))
+            },
+            {
+                id: 'fa-adaptive',
+                name: 'Adaptive FA',
+                section: '5.2.3',
+                description: 'Randomization α decreases over the run',
+                details: 'α follows a schedule from its start to its end value. Early iterations explore with large random moves; late iterations refine around the brightest fireflies.',
+                optimizationType: 'continuous',
+                agentName: 'Firefly',
+                objectiveName: 'Rastrigin',
+                hyperparameters: [
+                    {
+                        type: 'enum',
+                        key: 'alphaSchedule',
+                        name: 'α Schedule',
+                        description: 'Shape of the transition from the start to the end value of α.',
+                        options: [
+                            { value: 'exponential', label: 'Exponential', description: 'Geometric decay, fast early' },
+                            { value: 'linear', label: 'Linear', description: 'Constant rate of change' },
+                            { value: 'cosine', label: 'Cosine', description: 'Slow start and end, fast middle' },
+                            { value: 'step', label: 'Step', description: 'Switch halfway through the run' }
+                        ],
+                        defaultValue: 'exponential'
+                    },
+                    {
+                        key: 'alphaStart',
+                        name: 'Initial α',
+                        description: 'Randomization at the first iteration, as a fraction of the search range.',
+                        min: 0.01, max: 0.5, step: 0.01, defaultValue: 0.2
+                    },
+                    {
+                        key: 'alphaEnd',
+                        name: 'Final α',
+                        description: 'Randomization at the last iteration. Small values give precise final convergence.',
+                        min: 0.0001, max: 0.05, step: 0.0001, defaultValue: 0.001
+                    },
+                    fireflyGammaParam
+                ],
+                ...continuousFactory((config, hyperparams) => new AdaptiveFireflyAlgorithm({
+                    ...config, ...defaultFireflyParams,
+                    alphaSchedule: 'exponential', alphaStart: 0.2, alphaEnd: 0.001,
+                    ...hyperparams
+                } as AdaptiveFireflyConfig))
+            }
+        ]
+    },
+    {
+        id: 'ch6-flower',
+        name: 'Chapter 6: Flower Pollination Algorithm',
+        variants: [
+            {
+                id: 'fpa-standard',
+                name: 'Standard FPA',
+                section: '6.1.2',
+                description: 'Global Lévy pollination and local pollination between random flowers',
+                details: 'With probability p a flower is pollinated globally: a Lévy flight towards the best flower. Otherwise it is pollinated locally by the difference of two random flowers. Blue flowers were pollinated globally this iteration, green ones locally.',
+                optimizationType: 'continuous',
+                agentName: 'Flower',
+                objectiveName: 'Rastrigin',
+                hyperparameters: [
+                    {
+                        key: 'p',
+                        name: 'Switch Probability (p)',
+                        description: 'Chance of global pollination. Higher p = more Lévy flights towards the best flower, lower p = more local mixing.',
+                        min: 0.0, max: 1.0, step: 0.05, defaultValue: 0.8
+                    },
+                    flowerGammaParam,
+                    flowerLevyBetaParam
+                ],
+                ...continuousFactory((config, hyperparams) => new FlowerPollination({
+                    ...config, ...defaultFlowerParams,
+                    ...hyperparams
+                } as FlowerConfig))
+            },
+            {
+                id: 'fpa-dynamic',
+                name: 'Dynamic Switch FPA',
+                section: '6.2.2',
+                description: 'Switch probability p changes over the run',
+                details: 'p follows a schedule from its start to its end value. Starting high spends the early iterations on global Lévy pollination; ending low spends the late ones on local pollination around good flowers.',
+                optimizationType: 'continuous',
+                agentName: 'Flower',
+                objectiveName: 'Rastrigin',
+                hyperparameters: [
+                    {
+                        type: 'enum',
+                        key: 'pSchedule',
+                        name: 'p Schedule',
+                        description: 'Shape of the transition from the start to the end value of p.',
+                        options: [
+                            { value: 'linear', label: 'Linear', description: 'Constant rate of change' },
+                            { value: 'exponential', label: 'Exponential', description: 'Geometric decay, fast early' },
+                            { value: 'cosine', label: 'Cosine', description: 'Slow start and end, fast middle' },
+                            { value: 'step', label: 'Step', description: 'Switch halfway through the run' }
+                        ],
+                        defaultValue: 'linear'
+                    },
+                    {
+                        key: 'pStart',
+                        name: 'Initial p',
+                        description: 'Switch probability at the first iteration.',
+                        min: 0.0, max: 1.0, step: 0.05, defaultValue: 0.9
+                    },
+                    {
+                        key: 'pEnd',
+                        name: 'Final p',
+                        description: 'Switch probability at the last iteration.',
+                        min: 0.0, max: 1.0, step: 0.05, defaultValue: 0.3
+                    },
+                    flowerGammaParam
+                ],
+                ...continuousFactory((config, hyperparams) => new DynamicFlowerPollination({
+                    ...config, ...defaultFlowerParams,
+                    pSchedule: 'linear', pStart: 0.9, pEnd: 0.3,
+                    ...hyperparams
+                } as DynamicFlowerConfig))
+            },
+            {
+                id: 'fpa-binary',
+                name: 'Binary FPA',
+                section: '6.2.1',
+                description: 'Pollination on real-valued pollen, sigmoid transfer to bits',
+                details: 'Each flower carries real-valued pollen that is pollinated as in the standard FPA. Every bit is then set to 1 with probability S(pollen). The pollen is clamped so the sigmoid never saturates completely.',
+                optimizationType: 'binary',
+                agentName: 'Flower',
+                objectiveName: 'OneMax',
+                hyperparameters: [
+                    {
+                        key: 'p',
+                        name: 'Switch Probability (p)',
+                        description: 'Chance of global pollination towards the best flower\'s pollen.',
+                        min: 0.0, max: 1.0, step: 0.05, defaultValue: 0.8
+                    },
+                    flowerLevyBetaParam
+                ],
+                create: (config, hyperparams) => new BinaryFlowerPollination({
+                    ...config,
+                    p: 0.8, gamma: 1, levyBeta: 1.5, maxPollen: 6,
+                    ...hyperparams
+                } as BinaryFlowerConfig)
+            }
+        ]
+    },
+    {
+        id: 'ch7-abc',
+        name: 'Chapter 7: Artificial Bee Colony',
+        variants: [
+            {
+                id: 'abc-standard',
+                name: 'Standard ABC',
+                section: '7.1.2',
+                description: 'Employed, onlooker and scout bees share food sources',
+                details: 'Employed bees search near their own source, onlookers pick sources in proportion to their nectar, and a source that fails to improve for `limit` trials is abandoned to a scout. Amber sources were last worked by employed bees, violet by onlookers, pink by scouts.',
+                optimizationType: 'continuous',
+                agentName: 'Food Source',
+                objectiveName: 'Rastrigin',
+                hyperparameters: [abcLimitParam],
+                ...continuousFactory((config, hyperparams) => new ArtificialBeeColony({
+                    ...config, ...defaultABCParams,
+                    ...hyperparams
+                } as ABCConfig))
+            },
+            {
+                id: 'abc-gbest',
+                name: 'Gbest-Guided ABC',
+                section: '7.2.1',
+                description: 'Search equation pulled towards the best source',
+                details: 'Adds ψ(g - x) with ψ ∈ [0, C] to the neighbourhood search, like the social term of PSO. Converges faster than standard ABC, especially on unimodal functions.',
+                optimizationType: 'continuous',
+                agentName: 'Food Source',
+                objectiveName: 'Rastrigin',
+                hyperparameters: [
+                    abcLimitParam,
+                    {
+                        key: 'c',
+                        name: 'Guidance Bound (C)',
+                        description: 'Upper bound of the random weight on the pull towards the best source. C = 0 gives standard ABC.',
+                        min: 0.0, max: 3.0, step: 0.1, defaultValue: 1.5
+                    }
+                ],
+                ...continuousFactory((config, hyperparams) => new GbestGuidedABC({
+                    ...config, ...defaultABCParams,
+                    c: 1.5,
+                    ...hyperparams
+                } as GbestABCConfig))
+            },
+            {
+                id: 'abc-chaotic',
+                name: 'Chaotic ABC',
+                section: '7.2.2',
+                description: 'Search factor and scouts driven by a chaotic map',
+                details: 'φ and the positions found by scouts come from a chaotic sequence instead of uniform random numbers, spreading the search more evenly over the range.',
+                optimizationType: 'continuous',
+                agentName: 'Food Source',
+                objectiveName: 'Rastrigin',
+                hyperparameters: [
+                    {
+                        type: 'enum',
+                        key: 'chaosMap',
+                        name: 'Chaos Map',
+                        description: 'Chaotic map that generates φ and scout positions.',
+                        options: [
+                            { value: 'logistic', label: 'Logistic', description: 'x_{n+1} = 4x(1-x), most common' },
+                            { value: 'tent', label: 'Tent', description: 'Piecewise linear, tent-shaped' },
+                            { value: 'sinusoidal', label: 'Sinusoidal', description: 'x_{n+1} = sin(πx), smooth transitions' },
+                            { value: 'circle', label: 'Circle', description: 'Rotation-like map, mod 1' },
+                            { value: 'gauss', label: 'Gauss', description: 'x_{n+1} = 1/x mod 1' }
+                        ],
+                        defaultValue: 'logistic'
+                    },
+                    abcLimitParam
+                ],
+                ...continuousFactory((config, hyperparams) => new ChaoticABC({
+                    ...config, ...defaultABCParams,
+                    chaosMap: 'logistic',
+                    ...hyperparams
+                } as ChaoticABCConfig))
+            },
+            {
+                id: 'abc-modified',
+                name: 'Modified ABC',
+                section: '7.2.3',
+                description: 'Several dimensions perturbed per trial',
+                details: 'Each dimension of a candidate is changed with the modification rate MR (at least one always is), with φ scaled by SF. Higher MR moves sources further per trial; in 2D the difference from standard ABC is small.',
+                optimizationType: 'continuous',
+                agentName: 'Food Source',
+                objectiveName: 'Rastrigin',
+                hyperparameters: [
+                    abcLimitParam,
+                    {
+                        key: 'mr',
+                        name: 'Modification Rate (MR)',
+                        description: 'Probability of perturbing each dimension. Low MR = small, careful moves; high MR = many dimensions change at once.',
+                        min: 0.05, max: 1.0, step: 0.05, defaultValue: 0.4
+                    },
+                    {
+                        key: 'sf',
+                        name: 'Scaling Factor (SF)',
+                        description: 'Range of φ ∈ [-SF, SF]. SF = 1 matches standard ABC.',
+                        min: 0.1, max: 2.0, step: 0.1, defaultValue: 1.0
+                    }
+                ],
+                ...continuousFactory((config, hyperparams) => new ModifiedABC({
+                    ...config, ...defaultABCParams,
+                    mr: 0.4, sf: 1.0,
+                    ...hyperparams
+                } as ModifiedABCConfig))
+            }
+        ]
+    },
+    {
+        id: 'ch8-wolf',
+        name: 'Chapter 8: Grey Wolf Optimizer',
+        variants: [
+            {
+                id: 'gwo-standard',
+                name: 'Standard GWO',
+                section: '8.1.2',
+                description: 'Pack led by the alpha, beta and delta wolves',
+                details: 'The three best solutions found so far lead the hunt. Every wolf moves to the average of the positions proposed by encircling α, β and δ, while a decays linearly from 2 to 0. The leaders are ringed and labelled on the canvas.',
+                optimizationType: 'continuous',
+                agentName: 'Wolf',
+                objectiveName: 'Rastrigin',
+                hyperparameters: [gwoAStartParam],
+                ...continuousFactory((config, hyperparams) => new GreyWolfOptimizer({
+                    ...config, ...defaultGWOParams,
+                    ...hyperparams
+                } as GWOConfig))
+            },
+            {
+                id: 'gwo-improved',
+                name: 'Improved GWO',
+                section: '8.2.1',
+                description: 'Nonlinear decay of the control parameter a',
+                details: 'a follows an adaptive schedule instead of a straight line. The cosine schedule keeps a high for longer (more exploration) and then drops quickly; the exponential one converges early.',
+                optimizationType: 'continuous',
+                agentName: 'Wolf',
+                objectiveName: 'Rastrigin',
+                hyperparameters: [
+                    {
+                        type: 'enum',
+                        key: 'aSchedule',
+                        name: 'a Schedule',
+                        description: 'Shape of the transition from the start to the end value of a.',
+                        options: [
+                            { value: 'cosine', label: 'Cosine', description: 'Slow start and end, fast middle' },
+                            { value: 'exponential', label: 'Exponential', description: 'Geometric decay, fast early' },
+                            { value: 'linear', label: 'Linear', description: 'Constant rate of change (standard GWO)' },
+                            { value: 'step', label: 'Step', description: 'Switch halfway through the run' }
+                        ],
+                        defaultValue: 'cosine'
+                    },
+                    gwoAStartParam,
+                    {
+                        key: 'aEnd',
+                        name: 'Final a',
+                        description: 'Value of a at the last iteration. Must be above 0 for the exponential schedule.',
+                        min: 0.001, max: 1.0, step: 0.001, defaultValue: 0.01
+                    }
+                ],
+                ...continuousFactory((config, hyperparams) => new ImprovedGreyWolfOptimizer({
+                    ...config, ...defaultGWOParams,
+                    aSchedule: 'cosine', aEnd: 0.01,
+                    ...hyperparams
+                } as ImprovedGWOConfig))
+            },
+            {
+                id: 'gwo-binary',
+                name: 'Binary GWO',
+                section: '8.2.2',
+                description: 'Encircling on bit strings with a sigmoid transfer',
+                details: 'Each wolf averages the points proposed by encircling α, β and δ and sets each bit to 1 with probability S(10 (X - 0.5)). The leaders are the three best bit strings found so far.',
+                optimizationType: 'binary',
+                agentName: 'Wolf',
+                objectiveName: 'OneMax',
+                hyperparameters: [gwoAStartParam],
+                create: (config, hyperparams) => new BinaryGreyWolfOptimizer({
+                    ...config, ...defaultGWOParams,
+                    ...hyperparams
+                } as BinaryGWOConfig)
+            }
+        ],
+        hybridizations: [
+            {
+                id: 'gwo-pso',
+                name: 'GWO + PSO',
+                section: '8.3.1',
+                description: 'Hybrid with Particle Swarm Optimization',
+                details: 'Wolves keep a velocity and a personal best. The point proposed by α, β and δ replaces the global best in the PSO velocity update, adding momentum and individual memory to the hunt.',
+                optimizationType: 'continuous',
+                agentName: 'Wolf',
+                objectiveName: 'Rastrigin',
+                hyperparameters: [
+                    {
+                        key: 'w',
+                        name: 'Inertia Weight (w)',
+                        description: 'Controls momentum from previous velocity. High w (0.9) = more exploration, keeps moving. Low w (0.4) = more exploitation, quick direction changes.',
+                        min: 0.3, max: 1.0, step: 0.1, defaultValue: 0.5
+                    },
+                    {
+                        key: 'c1',
+                        name: 'Cognitive Coef. (c₁)',
+                        description: 'Pull toward the wolf\'s personal best position.',
+                        min: 0.0, max: 3.0, step: 0.1, defaultValue: 0.5
+                    },
+                    {
+                        key: 'c2',
+                        name: 'Hunting Coef. (c₂)',
+                        description: 'Pull toward the position proposed by the α, β and δ wolves.',
+                        min: 0.5, max: 3.0, step: 0.1, defaultValue: 1.5
+                    }
+                ],
+                ...continuousFactory((config, hyperparams) => new GWOPSOHybrid({
+                    ...config, ...defaultGWOParams,
+                    w: 0.5, c1: 0.5, c2: 1.5,
+                    ...hyperparams
+                } as GWOPSOConfig))
+            }
+        ]
+    },
+    {
+        id: 'baselines',
+        name: 'Baselines',
+        variants: [
+            {
+                id: 'pso-global',
+                name: 'PSO (Global Best)',
+                section: 'B.1',
+                description: 'Canonical inertia-weight PSO, whole-swarm neighbourhood',
+                details: 'Particles are pulled towards their personal best and the best position found by the whole swarm. The reference for BA+PSO and GWO+PSO.',
+                optimizationType: 'continuous',
+                agentName: 'Particle',
+                objectiveName: 'Rastrigin',
+                hyperparameters: psoBaselineParams,
+                ...continuousFactory((config, hyperparams) => new ParticleSwarm({
+                    ...config, ...defaultPSOParams,
+                    topology: 'global',
+                    ...hyperparams
+                } as ParticleSwarmConfig))
+            },
+            {
+                id: 'pso-ring',
+                name: 'PSO (Ring Topology)',
+                section: 'B.1',
+                description: 'Canonical inertia-weight PSO, ring neighbourhood',
+                details: 'Each particle only sees the personal bests of its two index neighbours. Information spreads slowly around the ring, which keeps the swarm diverse on multimodal functions.',
+                optimizationType: 'continuous',
+                agentName: 'Particle',
+                objectiveName: 'Rastrigin',
+                hyperparameters: psoBaselineParams,
+                ...continuousFactory((config, hyperparams) => new ParticleSwarm({
+                    ...config, ...defaultPSOParams,
+                    topology: 'ring',
+                    ...hyperparams
+                } as ParticleSwarmConfig))
+            },
+            {
+                id: 'de',
+                name: 'Differential Evolution',
+                section: 'B.2',
+                description: 'DE with a selectable mutation strategy',
+                details: 'Each vector competes with a trial vector built from scaled differences of other vectors and binomial crossover. The reference for BA+DE; every mutation strategy of the DE operators is available.',
+                optimizationType: 'continuous',
+                agentName: 'Vector',
+                objectiveName: 'Rastrigin',
+                hyperparameters: [
+                    {
+                        type: 'enum',
+                        key: 'strategy',
+                        name: 'Mutation Strategy',
+                        description: 'How the mutant vector is built.',
+                        options: [
+                            { value: 'rand/1', label: 'rand/1', description: 'x_r1 + F(x_r2 - x_r3), robust default' },
+                            { value: 'best/1', label: 'best/1', description: 'x_best + F(x_r1 - x_r2), fast but greedy' },
+                            { value: 'rand/2', label: 'rand/2', description: 'Two difference vectors from a random base' },
+                            { value: 'best/2', label: 'best/2', description: 'Two difference vectors from the best' },
+                            { value: 'current-to-best/1', label: 'current-to-best/1', description: 'x_i + F(x_best - x_i) + F(x_r1 - x_r2)' }
+                        ],
+                        defaultValue: 'rand/1'
+                    },
+                    {
+                        key: 'F',
+                        name: 'Mutation Factor (F)',
+                        description: 'Scale of the difference vectors. Larger F = bigger jumps.',
+                        min: 0.1, max: 1.5, step: 0.05, defaultValue: 0.5
+                    },
+                    {
+                        key: 'CR',
+                        name: 'Crossover Rate (CR)',
+                        description: 'Probability of taking each component from the mutant. High CR suits non-separable functions.',
+                        min: 0.0, max: 1.0, step: 0.05, defaultValue: 0.9
+                    }
+                ],
+                ...continuousFactory((config, hyperparams) => new DifferentialEvolution({
+                    ...config,
+                    strategy: 'rand/1', F: 0.5, CR: 0.9,
+                    ...hyperparams
+                } as DifferentialEvolutionConfig))
+            },
+            {
+                id: 'ga-real',
+                name: 'Real-Coded GA',
+                section: 'B.3',
+                description: 'Tournament selection, SBX crossover, polynomial mutation',
+                details: 'A generational genetic algorithm on real vectors with elitism. Children are created by simulated binary crossover and polynomial mutation around their parents.',
+                optimizationType: 'continuous',
+                agentName: 'Individual',
+                objectiveName: 'Rastrigin',
+                hyperparameters: [
+                    {
+                        key: 'crossoverRate',
+                        name: 'Crossover Rate',
+                        description: 'Probability that a pair of parents is recombined instead of copied.',
+                        min: 0.0, max: 1.0, step: 0.05, defaultValue: 0.9
+                    },
+                    {
+                        key: 'mutationRate',
+                        name: 'Mutation Rate',
+                        description: 'Probability of mutating each gene. Around 1/dimensions is the usual choice.',
+                        min: 0.0, max: 1.0, step: 0.01, defaultValue: 0.1
+                    },
+                    {
+                        key: 'etaC',
+                        name: 'SBX Index (η_c)',
+                        description: 'Crossover distribution index. Larger = children closer to their parents.',
+                        min: 1, max: 50, step: 1, defaultValue: 15
+                    },
+                    {
+                        key: 'tournamentSize',
+                        name: 'Tournament Size',
+                        description: 'Individuals compared to pick each parent. Larger = stronger selection pressure.',
+                        min: 2, max: 10, step: 1, defaultValue: 2
+                    }
+                ],
+                ...continuousFactory((config, hyperparams) => new GeneticAlgorithm({
+                    ...config,
+                    crossoverRate: 0.9, mutationRate: 0.1, etaC: 15, etaM: 20, tournamentSize: 2, elitism: 1,
+                    ...hyperparams
+                } as GeneticAlgorithmConfig))
+            },
+            {
+                id: 'cmaes',
+                name: 'CMA-ES',
+                section: 'B.4',
+                description: 'Covariance matrix adaptation evolution strategy',
+                details: 'Samples each generation from a multivariate normal distribution and adapts its mean, covariance and step size to the best samples. The population size is λ; the best half is recombined.',
+                optimizationType: 'continuous',
+                agentName: 'Sample',
+                objectiveName: 'Rastrigin',
+                hyperparameters: [
+                    {
+                        key: 'sigma0',
+                        name: 'Initial Step Size (σ₀)',
+                        description: 'Initial standard deviation as a fraction of the search range.',
+                        min: 0.05, max: 1.0, step: 0.05, defaultValue: 0.3
+                    }
+                ],
+                ...continuousFactory((config, hyperparams) => new CMAES({
+                    ...config,
+                    sigma0: 0.3,
+                    ...hyperparams
+                } as CMAESConfig))
+            },
+            {
+                id: 'random-search',
+                name: 'Random Search',
+                section: 'B.5',
+                description: 'Uniform sampling, no learning',
+                details: 'Every agent samples a new uniform random point each iteration. Any algorithm should beat this; if one does not on a function, its search rules are not helping there.',
+                optimizationType: 'continuous',
+                agentName: 'Sample',
+                objectiveName: 'Rastrigin',
+                ...continuousFactory(config => new RandomSearch(config))
             }
         ]
     }
@@ -484,17 +1573,33 @@ export function getAlgorithm(id: string): AlgorithmDefinition | undefined {
 /**
  * Get all algorithms of a specific optimization type
  */
-export function getAlgorithmsByType(type: 'continuous' | 'discrete' | 'binary'): AlgorithmDefinition[] {
-    const result: AlgorithmDefinition[] = [];
+export function getAlgorithmsByType<K extends OptimizationType>(
+    type: K
+): Extract<AlgorithmDefinition, { optimizationType: K }>[] {
+    const isType = (v: AlgorithmDefinition): v is Extract<AlgorithmDefinition, { optimizationType: K }> =>
+        v.optimizationType === type;
+
+    const result: Extract<AlgorithmDefinition, { optimizationType: K }>[] = [];
     for (const chapter of registry) {
-        result.push(...chapter.variants.filter(v => v.optimizationType === type));
+        result.push(...chapter.variants.filter(isType));
         if (chapter.hybridizations) {
-            result.push(...chapter.hybridizations.filter(v => v.optimizationType === type));
+            result.push(...chapter.hybridizations.filter(isType));
         }
     }
     return result;
 }
 
+/**
+ * Get default values from hyperparameter definitions
+ */
+export function getDefaultHyperparams(defs: HyperparameterDef[]): Record<string, string | number> {
+    const defaults: Record<string, string | number> = {};
+    for (const def of defs) {
+        defaults[def.key] = def.defaultValue;
+    }
+    return defaults;
+}
+
 /**
  * Get default config for an algorithm
  */
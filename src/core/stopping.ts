@@ -0,0 +1,142 @@
+/**
+ * Stopping Criteria
+ *
+ * Composable termination conditions checked by BaseOptimizer.run()
+ * between iterations. The first criterion that fires ends the run and
+ * its reason is recorded on the last IterationState.
+ *
+ * Note: criteria are checked at iteration boundaries, so an evaluation
+ * budget may be overshot by at most one iteration's worth of calls.
+ */
+
+import { Solution, Agent, StoppingConfig, StoppingCriterion, StopReason } from './types';
+
+/** Every reason a run can end with */
+export const stopReasons: StopReason[] = [
+    'max-iterations',
+    'max-evaluations',
+    'target-fitness',
+    'stagnation',
+    'time-limit',
+    'diversity-collapse',
+    'custom'
+];
+
+// ============================================================================
+// BUILT-IN CRITERIA
+// ============================================================================
+
+/** Stop once the objective has been evaluated at least `limit` times */
+export function maxEvaluations(limit: number): StoppingCriterion {
+    return {
+        reason: 'max-evaluations',
+        shouldStop: (ctx) => ctx.evaluations >= limit
+    };
+}
+
+/** Stop once the best fitness is at or below `target` */
+export function targetFitness(target: number): StoppingCriterion {
+    return {
+        reason: 'target-fitness',
+        shouldStop: (ctx) => ctx.bestFitness <= target
+    };
+}
+
+/**
+ * Stop when the best fitness has not improved by more than `tolerance`
+ * for `iterations` consecutive iterations
+ */
+export function stagnation(iterations: number, tolerance: number = 0): StoppingCriterion {
+    let bestSeen = Infinity;
+    let lastImprovement = 0;
+
+    return {
+        reason: 'stagnation',
+        shouldStop: (ctx) => {
+            if (ctx.bestFitness < bestSeen - tolerance) {
+                bestSeen = ctx.bestFitness;
+                lastImprovement = ctx.iteration;
+                return false;
+            }
+            return ctx.iteration - lastImprovement >= iterations;
+        },
+        reset: () => {
+            bestSeen = Infinity;
+            lastImprovement = 0;
+        }
+    };
+}
+
+/** Stop after `ms` milliseconds of wall-clock time */
+export function timeLimit(ms: number): StoppingCriterion {
+    return {
+        reason: 'time-limit',
+        shouldStop: (ctx) => ctx.elapsedMs >= ms
+    };
+}
+
+/**
+ * Stop when the population has collapsed: mean distance to the
+ * centroid falls below `threshold`
+ */
+export function diversityCollapse(threshold: number): StoppingCriterion {
+    return {
+        reason: 'diversity-collapse',
+        shouldStop: (ctx) => populationDiversity(ctx.population) < threshold
+    };
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Mean Euclidean distance from each agent to the population centroid
+ */
+export function populationDiversity<T extends Solution>(population: Agent<T>[]): number {
+    if (population.length === 0) return 0;
+
+    const dim = population[0].position.length;
+    const centroid = new Array(dim).fill(0);
+    for (const agent of population) {
+        for (let d = 0; d < dim; d++) {
+            centroid[d] += (agent.position[d] as number) / population.length;
+        }
+    }
+
+    let total = 0;
+    for (const agent of population) {
+        let sumSq = 0;
+        for (let d = 0; d < dim; d++) {
+            const diff = (agent.position[d] as number) - centroid[d];
+            sumSq += diff * diff;
+        }
+        total += Math.sqrt(sumSq);
+    }
+    return total / population.length;
+}
+
+/**
+ * Build the criteria described by a (serializable) stopping configuration
+ */
+export function createStoppingCriteria(config: StoppingConfig = {}): StoppingCriterion[] {
+    const criteria: StoppingCriterion[] = [];
+
+    if (config.maxEvaluations !== undefined) {
+        criteria.push(maxEvaluations(config.maxEvaluations));
+    }
+    if (config.targetFitness !== undefined) {
+        criteria.push(targetFitness(config.targetFitness));
+    }
+    if (config.stagnationIterations !== undefined) {
+        criteria.push(stagnation(config.stagnationIterations, config.stagnationTolerance));
+    }
+    if (config.timeLimitMs !== undefined) {
+        criteria.push(timeLimit(config.timeLimitMs));
+    }
+    if (config.minDiversity !== undefined) {
+        criteria.push(diversityCollapse(config.minDiversity));
+    }
+
+    return criteria;
+}
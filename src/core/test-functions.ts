@@ -2,10 +2,15 @@
  * Standard Test Functions for Optimization
  * 
  * Common benchmark functions used to test optimization algorithms.
- * All functions are for minimization; global minimum is at origin (0,0,...).
+ * All functions are for minimization. Many classic functions have their
+ * optimum at or near the origin, which flatters center-biased algorithms;
+ * the shifted and rotated variants (see function-transforms) move it.
  */
 
-import { ObjectiveFunction2D, ContinuousSolution, ObjectiveFunction } from './types';
+import { ObjectiveFunction2D, ContinuousSolution, ObjectiveFunction, Constraint, DynamicProblem } from './types';
+import { constrainedTestFunctions } from './constrained-problems';
+import { dynamicTestFunctions } from './moving-peaks';
+import { transformTestFunction } from './function-transforms';
 
 // Re-export types for convenience
 export type { ObjectiveFunction2D } from './types';
@@ -104,6 +109,164 @@ export const michalewicz2D: ObjectiveFunction2D = (x, y) => {
         + Math.sin(y) * Math.pow(Math.sin((2 * y * y) / Math.PI), 2 * m));
 };
 
+/**
+ * Himmelblau Function
+ *
+ * Four identical global minima, one per quadrant.
+ * Global minimum: f(3, 2) = 0 (also near (-2.805, 3.131), (-3.779, -3.283), (3.584, -1.848))
+ * Typical bounds: [-5, 5]
+ */
+export const himmelblau2D: ObjectiveFunction2D = (x, y) => {
+    return Math.pow(x * x + y - 11, 2) + Math.pow(x + y * y - 7, 2);
+};
+
+/**
+ * Beale Function
+ *
+ * Flat valley floor with sharp peaks in the corners.
+ * Global minimum: f(3, 0.5) = 0
+ * Typical bounds: [-4.5, 4.5]
+ */
+export const beale2D: ObjectiveFunction2D = (x, y) => {
+    return Math.pow(1.5 - x + x * y, 2)
+        + Math.pow(2.25 - x + x * y * y, 2)
+        + Math.pow(2.625 - x + x * y * y * y, 2);
+};
+
+/**
+ * Booth Function
+ *
+ * Plate-shaped quadratic.
+ * Global minimum: f(1, 3) = 0
+ * Typical bounds: [-10, 10]
+ */
+export const booth2D: ObjectiveFunction2D = (x, y) => {
+    return Math.pow(x + 2 * y - 7, 2) + Math.pow(2 * x + y - 5, 2);
+};
+
+/**
+ * Matyas Function
+ *
+ * Plate-shaped with a shallow, tilted valley.
+ * Global minimum: f(0, 0) = 0
+ * Typical bounds: [-10, 10]
+ */
+export const matyas2D: ObjectiveFunction2D = (x, y) => {
+    return 0.26 * (x * x + y * y) - 0.48 * x * y;
+};
+
+/**
+ * Six-Hump Camel Function
+ *
+ * Six local minima, two of them global.
+ * Global minimum: f(0.0898, -0.7126) = f(-0.0898, 0.7126) ≈ -1.0316
+ * Typical bounds: x in [-3, 3], y in [-2, 2]
+ */
+export const sixHumpCamel2D: ObjectiveFunction2D = (x, y) => {
+    const x2 = x * x;
+    return (4 - 2.1 * x2 + x2 * x2 / 3) * x2 + x * y + (-4 + 4 * y * y) * y * y;
+};
+
+/**
+ * Three-Hump Camel Function
+ *
+ * Three local minima.
+ * Global minimum: f(0, 0) = 0
+ * Typical bounds: [-5, 5]
+ */
+export const threeHumpCamel2D: ObjectiveFunction2D = (x, y) => {
+    const x2 = x * x;
+    return 2 * x2 - 1.05 * x2 * x2 + Math.pow(x, 6) / 6 + x * y + y * y;
+};
+
+/**
+ * Goldstein-Price Function
+ *
+ * Several local minima over a large range of values.
+ * Global minimum: f(0, -1) = 3
+ * Typical bounds: [-2, 2]
+ */
+export const goldsteinPrice2D: ObjectiveFunction2D = (x, y) => {
+    const a = 1 + Math.pow(x + y + 1, 2) * (19 - 14 * x + 3 * x * x - 14 * y + 6 * x * y + 3 * y * y);
+    const b = 30 + Math.pow(2 * x - 3 * y, 2) * (18 - 32 * x + 12 * x * x + 48 * y - 36 * x * y + 27 * y * y);
+    return a * b;
+};
+
+/**
+ * McCormick Function
+ *
+ * Smooth, with one tilted basin.
+ * Global minimum: f(-0.54719, -1.54719) ≈ -1.9133
+ * Typical bounds: x in [-1.5, 4], y in [-3, 4]
+ */
+export const mccormick2D: ObjectiveFunction2D = (x, y) => {
+    return Math.sin(x + y) + Math.pow(x - y, 2) - 1.5 * x + 2.5 * y + 1;
+};
+
+/**
+ * Eggholder Function
+ *
+ * Deep, irregular ridges; the optimum sits on the domain edge.
+ * Global minimum: f(512, 404.2319) ≈ -959.6407
+ * Typical bounds: [-512, 512]
+ */
+export const eggholder2D: ObjectiveFunction2D = (x, y) => {
+    return -(y + 47) * Math.sin(Math.sqrt(Math.abs(x / 2 + y + 47)))
+        - x * Math.sin(Math.sqrt(Math.abs(x - (y + 47))));
+};
+
+/**
+ * Shubert Function
+ *
+ * 760 local minima, 18 of them global, in a regular pattern.
+ * Global minimum: f(-7.0835, 4.8580) ≈ -186.7309
+ * Typical bounds: [-10, 10]
+ */
+export const shubert2D: ObjectiveFunction2D = (x, y) => {
+    let sumX = 0;
+    let sumY = 0;
+    for (let j = 1; j <= 5; j++) {
+        sumX += j * Math.cos((j + 1) * x + j);
+        sumY += j * Math.cos((j + 1) * y + j);
+    }
+    return sumX * sumY;
+};
+
+/**
+ * Bukin Function N.6
+ *
+ * The minimum lies in a thin, curved ridge of near-equal values.
+ * Global minimum: f(-10, 1) = 0
+ * Typical bounds: x in [-15, -5], y in [-3, 3]
+ */
+export const bukin2D: ObjectiveFunction2D = (x, y) => {
+    return 100 * Math.sqrt(Math.abs(y - 0.01 * x * x)) + 0.01 * Math.abs(x + 10);
+};
+
+/**
+ * Cross-in-Tray Function
+ *
+ * Four global minima in the arms of a cross.
+ * Global minimum: f(±1.3491, ±1.3491) ≈ -2.0626
+ * Typical bounds: [-10, 10]
+ */
+export const crossInTray2D: ObjectiveFunction2D = (x, y) => {
+    const e = Math.exp(Math.abs(100 - Math.sqrt(x * x + y * y) / Math.PI));
+    return -0.0001 * Math.pow(Math.abs(Math.sin(x) * Math.sin(y) * e) + 1, 0.1);
+};
+
+/**
+ * Holder Table Function
+ *
+ * Four global minima near the corners.
+ * Global minimum: f(±8.0550, ±9.6646) ≈ -19.2085
+ * Typical bounds: [-10, 10]
+ */
+export const holderTable2D: ObjectiveFunction2D = (x, y) => {
+    const e = Math.exp(Math.abs(1 - Math.sqrt(x * x + y * y) / Math.PI));
+    return -Math.abs(Math.sin(x) * Math.cos(y) * e);
+};
+
 // ============================================================================
 // N-DIMENSIONAL TEST FUNCTIONS
 // ============================================================================
@@ -141,27 +304,317 @@ export const ackleyND: ObjectiveFunction<ContinuousSolution> = (x) => {
     return -a * Math.exp(-b * Math.sqrt(sum1 / n)) - Math.exp(sum2 / n) + a + Math.E;
 };
 
+/**
+ * N-dimensional Rosenbrock
+ */
+export const rosenbrockND: ObjectiveFunction<ContinuousSolution> = (x) => {
+    let sum = 0;
+    for (let i = 0; i < x.length - 1; i++) {
+        sum += 100 * Math.pow(x[i + 1] - x[i] * x[i], 2) + Math.pow(1 - x[i], 2);
+    }
+    return sum;
+};
+
+/**
+ * N-dimensional Griewank
+ */
+export const griewankND: ObjectiveFunction<ContinuousSolution> = (x) => {
+    let sum = 0;
+    let prod = 1;
+    for (let i = 0; i < x.length; i++) {
+        sum += x[i] * x[i] / 4000;
+        prod *= Math.cos(x[i] / Math.sqrt(i + 1));
+    }
+    return sum - prod + 1;
+};
+
+/**
+ * N-dimensional Schwefel
+ */
+export const schwefelND: ObjectiveFunction<ContinuousSolution> = (x) => {
+    const sum = x.reduce((acc, xi) => acc + xi * Math.sin(Math.sqrt(Math.abs(xi))), 0);
+    return 418.9829 * x.length - sum;
+};
+
+/**
+ * N-dimensional Michalewicz (steepness m = 10)
+ */
+export const michalewiczND: ObjectiveFunction<ContinuousSolution> = (x) => {
+    let sum = 0;
+    for (let i = 0; i < x.length; i++) {
+        sum += Math.sin(x[i]) * Math.pow(Math.sin(((i + 1) * x[i] * x[i]) / Math.PI), 20);
+    }
+    return -sum;
+};
+
+/**
+ * Levy Function
+ *
+ * Multimodal, with a single global minimum at (1, 1, ...) = 0.
+ * Typical bounds: [-10, 10]
+ */
+export const levyND: ObjectiveFunction<ContinuousSolution> = (x) => {
+    const w = x.map(xi => 1 + (xi - 1) / 4);
+    const n = w.length;
+    let sum = Math.pow(Math.sin(Math.PI * w[0]), 2);
+    for (let i = 0; i < n - 1; i++) {
+        sum += Math.pow(w[i] - 1, 2) * (1 + 10 * Math.pow(Math.sin(Math.PI * w[i] + 1), 2));
+    }
+    sum += Math.pow(w[n - 1] - 1, 2) * (1 + Math.pow(Math.sin(2 * Math.PI * w[n - 1]), 2));
+    return sum;
+};
+
+/**
+ * Zakharov Function
+ *
+ * Plate-shaped, unimodal; the quartic term makes it steep away from the origin.
+ * Global minimum: f(0, ...) = 0
+ * Typical bounds: [-5, 10]
+ */
+export const zakharovND: ObjectiveFunction<ContinuousSolution> = (x) => {
+    let sumSq = 0;
+    let weighted = 0;
+    for (let i = 0; i < x.length; i++) {
+        sumSq += x[i] * x[i];
+        weighted += 0.5 * (i + 1) * x[i];
+    }
+    return sumSq + weighted * weighted + Math.pow(weighted, 4);
+};
+
+/**
+ * Easom Function
+ *
+ * Flat almost everywhere, with a small hole around the optimum.
+ * In 2D this is the classic -cos(x)·cos(y)·exp(-((x-π)² + (y-π)²)).
+ * Global minimum: f(π, π, ...) = -1
+ * Typical bounds: [-100, 100]
+ */
+export const easomND: ObjectiveFunction<ContinuousSolution> = (x) => {
+    let prod = 1;
+    let dist = 0;
+    for (const xi of x) {
+        prod *= -Math.cos(xi);
+        dist += (xi - Math.PI) * (xi - Math.PI);
+    }
+    return -prod * Math.exp(-dist);
+};
+
+/**
+ * Styblinski-Tang Function
+ *
+ * Separable, with the optimum off-center.
+ * Global minimum: f(-2.903534, ...) ≈ -39.16617 per dimension
+ * Typical bounds: [-5, 5]
+ */
+export const styblinskiTangND: ObjectiveFunction<ContinuousSolution> = (x) => {
+    return 0.5 * x.reduce((sum, xi) => sum + xi * xi * xi * xi - 16 * xi * xi + 5 * xi, 0);
+};
+
+/**
+ * Drop-Wave Function
+ *
+ * Concentric ripples around a single deep minimum.
+ * Global minimum: f(0, ...) = -1
+ * Typical bounds: [-5.12, 5.12]
+ */
+export const dropWaveND: ObjectiveFunction<ContinuousSolution> = (x) => {
+    const r2 = x.reduce((sum, xi) => sum + xi * xi, 0);
+    return -(1 + Math.cos(12 * Math.sqrt(r2))) / (0.5 * r2 + 2);
+};
+
+/**
+ * Dixon-Price Function
+ *
+ * Valley-shaped; the optimum coordinates differ per dimension.
+ * Global minimum: x_i = 2^(-(2^i - 2) / 2^i), f = 0
+ * Typical bounds: [-10, 10]
+ */
+export const dixonPriceND: ObjectiveFunction<ContinuousSolution> = (x) => {
+    let sum = Math.pow(x[0] - 1, 2);
+    for (let i = 1; i < x.length; i++) {
+        sum += (i + 1) * Math.pow(2 * x[i] * x[i] - x[i - 1], 2);
+    }
+    return sum;
+};
+
+/**
+ * Alpine N.1 Function
+ *
+ * Non-differentiable, multimodal.
+ * Global minimum: f(0, ...) = 0
+ * Typical bounds: [-10, 10]
+ */
+export const alpineND: ObjectiveFunction<ContinuousSolution> = (x) => {
+    return x.reduce((sum, xi) => sum + Math.abs(xi * Math.sin(xi) + 0.1 * xi), 0);
+};
+
+/**
+ * Salomon Function
+ *
+ * Rings of local minima around the origin.
+ * Global minimum: f(0, ...) = 0
+ * Typical bounds: [-100, 100]
+ */
+export const salomonND: ObjectiveFunction<ContinuousSolution> = (x) => {
+    const r = Math.sqrt(x.reduce((sum, xi) => sum + xi * xi, 0));
+    return 1 - Math.cos(2 * Math.PI * r) + 0.1 * r;
+};
+
+/**
+ * High-Conditioned Elliptic Function (CEC)
+ *
+ * Unimodal; condition number 10^6 across the axes.
+ * Global minimum: f(0, ...) = 0
+ * Typical bounds: [-100, 100]
+ */
+export const ellipticND: ObjectiveFunction<ContinuousSolution> = (x) => {
+    const n = x.length;
+    return x.reduce((sum, xi, i) => sum + Math.pow(1e6, n > 1 ? i / (n - 1) : 0) * xi * xi, 0);
+};
+
+/**
+ * Bent Cigar Function (CEC)
+ *
+ * Unimodal, with one long axis and a steep ridge across the others.
+ * Global minimum: f(0, ...) = 0
+ * Typical bounds: [-100, 100]
+ */
+export const bentCigarND: ObjectiveFunction<ContinuousSolution> = (x) => {
+    return x.reduce((sum, xi, i) => sum + (i === 0 ? 1 : 1e6) * xi * xi, 0);
+};
+
+/**
+ * Discus Function (CEC)
+ *
+ * Unimodal, with one steep axis.
+ * Global minimum: f(0, ...) = 0
+ * Typical bounds: [-100, 100]
+ */
+export const discusND: ObjectiveFunction<ContinuousSolution> = (x) => {
+    return x.reduce((sum, xi, i) => sum + (i === 0 ? 1e6 : 1) * xi * xi, 0);
+};
+
+/**
+ * Weierstrass Function (CEC, a = 0.5, b = 3, k_max = 20)
+ *
+ * Continuous but nowhere differentiable.
+ * Global minimum: f(0, ...) = 0
+ * Typical bounds: [-0.5, 0.5]
+ */
+export const weierstrassND: ObjectiveFunction<ContinuousSolution> = (x) => {
+    const a = 0.5;
+    const b = 3;
+    const kMax = 20;
+    let offset = 0;
+    for (let k = 0; k <= kMax; k++) {
+        offset += Math.pow(a, k) * Math.cos(Math.PI * Math.pow(b, k));
+    }
+    let sum = 0;
+    for (const xi of x) {
+        for (let k = 0; k <= kMax; k++) {
+            sum += Math.pow(a, k) * Math.cos(2 * Math.PI * Math.pow(b, k) * (xi + 0.5));
+        }
+    }
+    return sum - x.length * offset;
+};
+
+// ============================================================================
+// OPTIMA THAT DEPEND ON THE DIMENSION
+// ============================================================================
+
+/** Per-dimension optima of Michalewicz, computed as needed */
+const michalewiczCoordinates: number[] = [];
+
+/**
+ * Michalewicz optimum in N dimensions. The function is separable, so each
+ * coordinate maximizes sin(x)·sin(i·x²/π)^20 on [0, π] on its own
+ * (grid search, then golden-section refinement of the best cell).
+ */
+function michalewiczMinimum(dimensions: number): { x: number[]; f: number } {
+    for (let i = michalewiczCoordinates.length + 1; i <= dimensions; i++) {
+        const term = (v: number) => Math.sin(v) * Math.pow(Math.sin((i * v * v) / Math.PI), 20);
+        const cells = 20000;
+        const width = Math.PI / cells;
+        let best = 0;
+        for (let c = 1; c < cells; c++) {
+            if (term(c * width) > term(best)) best = c * width;
+        }
+        let lo = Math.max(0, best - width);
+        let hi = Math.min(Math.PI, best + width);
+        const ratio = (Math.sqrt(5) - 1) / 2;
+        for (let k = 0; k < 60; k++) {
+            const a = hi - ratio * (hi - lo);
+            const b = lo + ratio * (hi - lo);
+            if (term(a) > term(b)) hi = b;
+            else lo = a;
+        }
+        michalewiczCoordinates.push((lo + hi) / 2);
+    }
+    const x = michalewiczCoordinates.slice(0, dimensions);
+    return { x, f: michalewiczND(x) };
+}
+
+/** Dixon-Price optimum: x_i = 2^(-(2^i - 2) / 2^i) */
+function dixonPriceMinimum(dimensions: number): { x: number[]; f: number } {
+    const x = Array.from({ length: dimensions }, (_, d) => {
+        const p = Math.pow(2, d + 1);
+        return Math.pow(2, -(p - 2) / p);
+    });
+    return { x, f: 0 };
+}
+
 // ============================================================================
 // TEST FUNCTION REGISTRY
 // ============================================================================
 
+/** Catalogue sections of the test functions */
+export type TestFunctionGroup = 'unimodal' | 'multimodal' | 'two-dimensional' | 'transformed' | 'constrained' | 'dynamic' | 'custom';
+
+/** Display names for the groups, in catalogue order */
+export const testFunctionGroups: Array<{ value: TestFunctionGroup; label: string }> = [
+    { value: 'unimodal', label: 'Unimodal' },
+    { value: 'multimodal', label: 'Multimodal' },
+    { value: 'two-dimensional', label: '2D only' },
+    { value: 'transformed', label: 'Shifted & rotated (CEC-style)' },
+    { value: 'constrained', label: 'Constrained' },
+    { value: 'dynamic', label: 'Dynamic' },
+    { value: 'custom', label: 'Custom' }
+];
+
 export interface TestFunctionInfo {
     name: string;
     func2D: ObjectiveFunction2D;
     funcND?: ObjectiveFunction<ContinuousSolution>;
     bounds: { min: number; max: number };
     globalMinimum: { x: number[]; f: number };
+    /**
+     * Optimum in N dimensions, when it is not the 2D optimum coordinate
+     * repeated with the same value (see minimumND)
+     */
+    globalMinimumND?: (dimensions: number) => { x: number[]; f: number };
+    /** globalMinimum is a grid estimate, not a known optimum (custom functions) */
+    minimumEstimated?: boolean;
     description: string;
+    /** Constraints on (x, y); the minimum is then the best feasible point */
+    constraints?: Constraint[];
+    /**
+     * Time-varying form in the given number of dimensions; the other
+     * fields then describe its initial environment
+     */
+    dynamic?: (dimensions: number) => DynamicProblem;
+    group?: TestFunctionGroup;
 }
 
-export const testFunctions: Record<string, TestFunctionInfo> = {
+/** Classic functions, untransformed */
+const classicFunctions: Record<string, TestFunctionInfo> = {
     rastrigin: {
         name: 'Rastrigin',
         func2D: rastrigin2D,
         funcND: rastriginND,
         bounds: { min: -5.12, max: 5.12 },
         globalMinimum: { x: [0, 0], f: 0 },
-        description: 'Highly multimodal with many local minima'
+        description: 'Highly multimodal with many local minima',
+        group: 'multimodal'
     },
     sphere: {
         name: 'Sphere',
@@ -169,15 +622,17 @@ export const testFunctions: Record<string, TestFunctionInfo> = {
         funcND: sphereND,
         bounds: { min: -5.12, max: 5.12 },
         globalMinimum: { x: [0, 0], f: 0 },
-        description: 'Simple convex function, easy for most algorithms'
+        description: 'Simple convex function, easy for most algorithms',
+        group: 'unimodal'
     },
     rosenbrock: {
         name: 'Rosenbrock',
         func2D: rosenbrock2D,
-        funcND: undefined,
+        funcND: rosenbrockND,
         bounds: { min: -5, max: 10 },
         globalMinimum: { x: [1, 1], f: 0 },
-        description: 'Narrow curved valley, difficult to converge'
+        description: 'Narrow curved valley, difficult to converge',
+        group: 'unimodal'
     },
     ackley: {
         name: 'Ackley',
@@ -185,22 +640,340 @@ export const testFunctions: Record<string, TestFunctionInfo> = {
         funcND: ackleyND,
         bounds: { min: -5, max: 5 },
         globalMinimum: { x: [0, 0], f: 0 },
-        description: 'Many local minima with deep global minimum'
+        description: 'Many local minima with deep global minimum',
+        group: 'multimodal'
     },
     griewank: {
         name: 'Griewank',
         func2D: griewank2D,
-        funcND: undefined,
+        funcND: griewankND,
         bounds: { min: -600, max: 600 },
         globalMinimum: { x: [0, 0], f: 0 },
-        description: 'Many regularly distributed local minima'
+        description: 'Many regularly distributed local minima',
+        group: 'multimodal'
     },
     schwefel: {
         name: 'Schwefel',
         func2D: schwefel2D,
-        funcND: undefined,
+        funcND: schwefelND,
         bounds: { min: -500, max: 500 },
         globalMinimum: { x: [420.9687, 420.9687], f: 0 },
-        description: 'Complex function with deceptive local optima'
+        description: 'Complex function with deceptive local optima',
+        group: 'multimodal'
+    },
+    michalewicz: {
+        name: 'Michalewicz',
+        func2D: michalewicz2D,
+        funcND: michalewiczND,
+        bounds: { min: 0, max: Math.PI },
+        globalMinimum: { x: [2.2029, 1.5708], f: -1.8013 },
+        globalMinimumND: michalewiczMinimum,
+        description: 'Steep ridges and drops; the optimum differs per dimension',
+        group: 'multimodal'
+    },
+    levy: {
+        name: 'Levy',
+        func2D: (x, y) => levyND([x, y]),
+        funcND: levyND,
+        bounds: { min: -10, max: 10 },
+        globalMinimum: { x: [1, 1], f: 0 },
+        description: 'Multimodal with a single global minimum off the origin',
+        group: 'multimodal'
+    },
+    zakharov: {
+        name: 'Zakharov',
+        func2D: (x, y) => zakharovND([x, y]),
+        funcND: zakharovND,
+        bounds: { min: -5, max: 10 },
+        globalMinimum: { x: [0, 0], f: 0 },
+        description: 'Unimodal plate that turns steep away from the origin',
+        group: 'unimodal'
+    },
+    'dixon-price': {
+        name: 'Dixon-Price',
+        func2D: (x, y) => dixonPriceND([x, y]),
+        funcND: dixonPriceND,
+        bounds: { min: -10, max: 10 },
+        globalMinimum: dixonPriceMinimum(2),
+        globalMinimumND: dixonPriceMinimum,
+        description: 'Curved valley; the optimum coordinates differ per dimension',
+        group: 'unimodal'
+    },
+    elliptic: {
+        name: 'High-Conditioned Elliptic',
+        func2D: (x, y) => ellipticND([x, y]),
+        funcND: ellipticND,
+        bounds: { min: -100, max: 100 },
+        globalMinimum: { x: [0, 0], f: 0 },
+        description: 'Unimodal, condition number 10^6 across the axes',
+        group: 'unimodal'
+    },
+    'bent-cigar': {
+        name: 'Bent Cigar',
+        func2D: (x, y) => bentCigarND([x, y]),
+        funcND: bentCigarND,
+        bounds: { min: -100, max: 100 },
+        globalMinimum: { x: [0, 0], f: 0 },
+        description: 'Unimodal, one long axis and a steep ridge across the others',
+        group: 'unimodal'
+    },
+    discus: {
+        name: 'Discus',
+        func2D: (x, y) => discusND([x, y]),
+        funcND: discusND,
+        bounds: { min: -100, max: 100 },
+        globalMinimum: { x: [0, 0], f: 0 },
+        description: 'Unimodal, one axis a thousand times steeper than the rest',
+        group: 'unimodal'
+    },
+    'styblinski-tang': {
+        name: 'Styblinski-Tang',
+        func2D: (x, y) => styblinskiTangND([x, y]),
+        funcND: styblinskiTangND,
+        bounds: { min: -5, max: 5 },
+        globalMinimum: { x: [-2.903534, -2.903534], f: -78.332331 },
+        globalMinimumND: (dimensions) => ({
+            x: new Array(dimensions).fill(-2.903534),
+            f: -39.16616570377142 * dimensions
+        }),
+        description: 'Separable, with the optimum in a corner basin',
+        group: 'multimodal'
+    },
+    easom: {
+        name: 'Easom',
+        func2D: (x, y) => easomND([x, y]),
+        funcND: easomND,
+        bounds: { min: -100, max: 100 },
+        globalMinimum: { x: [Math.PI, Math.PI], f: -1 },
+        description: 'Flat plateau with one small hole: a needle in a haystack',
+        group: 'multimodal'
+    },
+    'drop-wave': {
+        name: 'Drop-Wave',
+        func2D: (x, y) => dropWaveND([x, y]),
+        funcND: dropWaveND,
+        bounds: { min: -5.12, max: 5.12 },
+        globalMinimum: { x: [0, 0], f: -1 },
+        description: 'Concentric ripples around a single deep minimum',
+        group: 'multimodal'
+    },
+    alpine: {
+        name: 'Alpine N.1',
+        func2D: (x, y) => alpineND([x, y]),
+        funcND: alpineND,
+        bounds: { min: -10, max: 10 },
+        globalMinimum: { x: [0, 0], f: 0 },
+        description: 'Non-differentiable, with many local minima',
+        group: 'multimodal'
+    },
+    salomon: {
+        name: 'Salomon',
+        func2D: (x, y) => salomonND([x, y]),
+        funcND: salomonND,
+        bounds: { min: -100, max: 100 },
+        globalMinimum: { x: [0, 0], f: 0 },
+        description: 'Rings of local minima around the origin',
+        group: 'multimodal'
+    },
+    weierstrass: {
+        name: 'Weierstrass',
+        func2D: (x, y) => weierstrassND([x, y]),
+        funcND: weierstrassND,
+        bounds: { min: -0.5, max: 0.5 },
+        globalMinimum: { x: [0, 0], f: 0 },
+        description: 'Continuous but nowhere differentiable',
+        group: 'multimodal'
+    },
+    himmelblau: {
+        name: 'Himmelblau',
+        func2D: himmelblau2D,
+        bounds: { min: -5, max: 5 },
+        globalMinimum: { x: [3, 2], f: 0 },
+        description: 'Four identical global minima, one per quadrant',
+        group: 'two-dimensional'
+    },
+    beale: {
+        name: 'Beale',
+        func2D: beale2D,
+        bounds: { min: -4.5, max: 4.5 },
+        globalMinimum: { x: [3, 0.5], f: 0 },
+        description: 'Flat valley floor with sharp peaks in the corners',
+        group: 'two-dimensional'
+    },
+    booth: {
+        name: 'Booth',
+        func2D: booth2D,
+        bounds: { min: -10, max: 10 },
+        globalMinimum: { x: [1, 3], f: 0 },
+        description: 'Plate-shaped quadratic',
+        group: 'two-dimensional'
+    },
+    matyas: {
+        name: 'Matyas',
+        func2D: matyas2D,
+        bounds: { min: -10, max: 10 },
+        globalMinimum: { x: [0, 0], f: 0 },
+        description: 'Plate-shaped, with a shallow tilted valley',
+        group: 'two-dimensional'
+    },
+    'six-hump-camel': {
+        name: 'Six-Hump Camel',
+        func2D: sixHumpCamel2D,
+        bounds: { min: -3, max: 3 },
+        globalMinimum: { x: [0.0898, -0.7126], f: -1.0316 },
+        description: 'Six local minima, two of them global',
+        group: 'two-dimensional'
+    },
+    'three-hump-camel': {
+        name: 'Three-Hump Camel',
+        func2D: threeHumpCamel2D,
+        bounds: { min: -5, max: 5 },
+        globalMinimum: { x: [0, 0], f: 0 },
+        description: 'Three local minima in a narrow valley',
+        group: 'two-dimensional'
+    },
+    'goldstein-price': {
+        name: 'Goldstein-Price',
+        func2D: goldsteinPrice2D,
+        bounds: { min: -2, max: 2 },
+        globalMinimum: { x: [0, -1], f: 3 },
+        description: 'Several local minima over a huge range of values',
+        group: 'two-dimensional'
+    },
+    mccormick: {
+        name: 'McCormick',
+        func2D: mccormick2D,
+        bounds: { min: -3, max: 4 },
+        globalMinimum: { x: [-0.54719, -1.54719], f: -1.9133 },
+        description: 'Smooth, with one tilted basin',
+        group: 'two-dimensional'
+    },
+    eggholder: {
+        name: 'Eggholder',
+        func2D: eggholder2D,
+        bounds: { min: -512, max: 512 },
+        globalMinimum: { x: [512, 404.2319], f: -959.6407 },
+        description: 'Deep irregular ridges; the optimum sits on the domain edge',
+        group: 'two-dimensional'
+    },
+    shubert: {
+        name: 'Shubert',
+        func2D: shubert2D,
+        bounds: { min: -10, max: 10 },
+        globalMinimum: { x: [-7.0835, 4.858], f: -186.7309 },
+        description: '760 local minima, 18 of them global',
+        group: 'two-dimensional'
+    },
+    'bukin-n6': {
+        name: 'Bukin N.6',
+        func2D: bukin2D,
+        bounds: { min: -15, max: 5 },
+        globalMinimum: { x: [-10, 1], f: 0 },
+        description: 'The minimum hides in a thin ridge of near-equal values',
+        group: 'two-dimensional'
+    },
+    'cross-in-tray': {
+        name: 'Cross-in-Tray',
+        func2D: crossInTray2D,
+        bounds: { min: -10, max: 10 },
+        globalMinimum: { x: [1.3491, 1.3491], f: -2.0626 },
+        description: 'Four global minima in the arms of a cross',
+        group: 'two-dimensional'
+    },
+    'holder-table': {
+        name: 'Holder Table',
+        func2D: holderTable2D,
+        bounds: { min: -10, max: 10 },
+        globalMinimum: { x: [8.0550, 9.6646], f: -19.2085 },
+        description: 'Four global minima near the corners',
+        group: 'two-dimensional'
     }
 };
+
+/** CEC-style variants on [-100, 100]: optimum shifted off-center, axes rotated */
+const cecBounds = { min: -100, max: 100 };
+const transformedFunctions: Record<string, TestFunctionInfo> = {
+    'shifted-sphere': transformTestFunction(classicFunctions.sphere, {
+        bounds: cecBounds, scale: 1, shift: true, bias: 100, seed: 1
+    }),
+    'shifted-rotated-elliptic': transformTestFunction(classicFunctions.elliptic, {
+        shift: true, rotate: true, bias: 200, seed: 2
+    }),
+    'shifted-rotated-bent-cigar': transformTestFunction(classicFunctions['bent-cigar'], {
+        shift: true, rotate: true, bias: 300, seed: 3
+    }),
+    'shifted-rotated-rosenbrock': transformTestFunction(classicFunctions.rosenbrock, {
+        bounds: cecBounds, shift: true, rotate: true, bias: 400, seed: 4
+    }),
+    'shifted-rotated-rastrigin': transformTestFunction(classicFunctions.rastrigin, {
+        bounds: cecBounds, shift: true, rotate: true, bias: 500, seed: 5
+    }),
+    'shifted-rotated-ackley': transformTestFunction(classicFunctions.ackley, {
+        bounds: cecBounds, shift: true, rotate: true, bias: 600, seed: 6
+    }),
+    'shifted-rotated-griewank': transformTestFunction(classicFunctions.griewank, {
+        bounds: cecBounds, shift: true, rotate: true, bias: 700, seed: 7
+    }),
+    'shifted-rotated-weierstrass': transformTestFunction(classicFunctions.weierstrass, {
+        bounds: cecBounds, shift: true, rotate: true, bias: 800, seed: 8
+    }),
+    'shifted-rotated-levy': transformTestFunction(classicFunctions.levy, {
+        bounds: cecBounds, shift: true, rotate: true, bias: 900, seed: 9
+    })
+};
+
+export const testFunctions: Record<string, TestFunctionInfo> = {
+    ...classicFunctions,
+    ...transformedFunctions,
+    ...constrainedTestFunctions,
+    ...dynamicTestFunctions
+};
+
+// ============================================================================
+// N-DIMENSIONAL HELPERS
+// ============================================================================
+
+/**
+ * Global minimum in N dimensions. Unless the function says otherwise,
+ * the 2D optimum coordinate repeats and the value is the same.
+ */
+export function minimumND(info: TestFunctionInfo, dimensions: number): { x: number[]; f: number } {
+    if (dimensions === info.globalMinimum.x.length) {
+        return { x: [...info.globalMinimum.x], f: info.globalMinimum.f };
+    }
+    if (info.globalMinimumND) return info.globalMinimumND(dimensions);
+    return { x: new Array(dimensions).fill(info.globalMinimum.x[0]), f: info.globalMinimum.f };
+}
+
+/**
+ * Location of the global minimum in N dimensions
+ */
+export function optimumND(info: TestFunctionInfo, dimensions: number): number[] {
+    return minimumND(info, dimensions).x;
+}
+
+/**
+ * 2D slice of an N-dimensional function through its optimum.
+ * Used to draw the landscape behind a projected view of an N-D run.
+ *
+ * @param info - Test function (must have funcND)
+ * @param dimensions - Total number of dimensions
+ * @param projection - The two dimension indices mapped to the x and y axes
+ */
+export function sliceND(
+    info: TestFunctionInfo,
+    dimensions: number,
+    projection: [number, number]
+): ObjectiveFunction2D {
+    const funcND = info.funcND;
+    if (!funcND) return info.func2D;
+
+    const anchor = optimumND(info, dimensions);
+    const [px, py] = projection;
+    return (x, y) => {
+        const point = [...anchor];
+        point[px] = x;
+        point[py] = y;
+        return funcND(point);
+    };
+}
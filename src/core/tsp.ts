@@ -0,0 +1,221 @@
+/**
+ * Traveling Salesman Problem
+ *
+ * City sets, TSPLIB-compatible distances and tour lengths for the
+ * permutation-based algorithms. A tour is a permutation of city indices
+ * and is always closed (the last city connects back to the first).
+ *
+ * Distances follow the TSPLIB 95 definitions, including their integer
+ * rounding, so tour lengths are comparable with published optima:
+ * - EUC_2D: rounded Euclidean distance
+ * - GEO:    great-circle distance, coordinates given as DDD.MM (degrees.minutes)
+ * - ATT:    pseudo-Euclidean distance used by att48/att532
+ */
+
+import { DiscreteSolution, ObjectiveFunction, RandomSource } from './types';
+import { createSeededRandom } from './random';
+
+export type TSPDistanceType = 'EUC_2D' | 'GEO' | 'ATT';
+
+export interface City {
+    x: number;
+    y: number;
+}
+
+export interface TSPInstance {
+    name: string;
+    comment?: string;
+    distanceType: TSPDistanceType;
+    cities: City[];
+    optimum?: number;   // Optimal tour length, if known
+}
+
+// ============================================================================
+// DISTANCES
+// ============================================================================
+
+const EARTH_RADIUS = 6378.388;  // TSPLIB's idealized sphere (km)
+
+/** Nearest integer, as TSPLIB's nint() */
+function nint(x: number): number {
+    return Math.floor(x + 0.5);
+}
+
+/** DDD.MM coordinate to radians */
+function geoRadians(coordinate: number): number {
+    const degrees = Math.trunc(coordinate);
+    const minutes = coordinate - degrees;
+    return Math.PI * (degrees + 5.0 * minutes / 3.0) / 180.0;
+}
+
+/**
+ * Distance between two cities under a TSPLIB edge weight type
+ */
+export function tspDistance(a: City, b: City, type: TSPDistanceType): number {
+    const dx = a.x - b.x;
+    const dy = a.y - b.y;
+
+    switch (type) {
+        case 'EUC_2D':
+            return nint(Math.sqrt(dx * dx + dy * dy));
+        case 'ATT': {
+            const r = Math.sqrt((dx * dx + dy * dy) / 10.0);
+            const t = nint(r);
+            return t < r ? t + 1 : t;
+        }
+        case 'GEO': {
+            // x is the latitude, y the longitude
+            const latA = geoRadians(a.x), lonA = geoRadians(a.y);
+            const latB = geoRadians(b.x), lonB = geoRadians(b.y);
+            const q1 = Math.cos(lonA - lonB);
+            const q2 = Math.cos(latA - latB);
+            const q3 = Math.cos(latA + latB);
+            return Math.trunc(EARTH_RADIUS * Math.acos(0.5 * ((1.0 + q1) * q2 - (1.0 - q1) * q3)) + 1.0);
+        }
+    }
+}
+
+/**
+ * Full pairwise distance matrix
+ */
+export function distanceMatrix(instance: TSPInstance): number[][] {
+    const { cities, distanceType } = instance;
+    return cities.map((a, i) => cities.map((b, j) => (i === j ? 0 : tspDistance(a, b, distanceType))));
+}
+
+/**
+ * Length of a closed tour
+ */
+export function tourLength(matrix: number[][], tour: DiscreteSolution): number {
+    let length = 0;
+    for (let i = 0; i < tour.length; i++) {
+        length += matrix[tour[i]][tour[(i + 1) % tour.length]];
+    }
+    return length;
+}
+
+/**
+ * Objective function for an instance (distances are computed once)
+ */
+export function tspObjective(instance: TSPInstance): ObjectiveFunction<DiscreteSolution> {
+    const matrix = distanceMatrix(instance);
+    return (tour) => tourLength(matrix, tour);
+}
+
+// ============================================================================
+// GENERATED INSTANCES
+// ============================================================================
+
+/** Standard normal sample (Box-Muller) */
+function gaussian(random: RandomSource): number {
+    const u1 = random() || Number.MIN_VALUE;
+    const u2 = random();
+    return Math.sqrt(-2 * Math.log(u1)) * Math.cos(2 * Math.PI * u2);
+}
+
+/**
+ * Cities uniformly scattered over a 1000 × 1000 square
+ */
+export function randomTSP(n: number, seed: number): TSPInstance {
+    const random = createSeededRandom(seed);
+    return {
+        name: `random${n}`,
+        comment: `${n} uniform random cities (seed ${seed})`,
+        distanceType: 'EUC_2D',
+        cities: Array.from({ length: n }, () => ({ x: random() * 1000, y: random() * 1000 }))
+    };
+}
+
+/**
+ * Cities in Gaussian clusters around random centers in a 1000 × 1000 square
+ *
+ * @param spread - Standard deviation of each cluster
+ */
+export function clusteredTSP(n: number, clusters: number, seed: number, spread: number = 50): TSPInstance {
+    const random = createSeededRandom(seed);
+    const centers = Array.from({ length: clusters }, () => ({
+        x: 100 + random() * 800,
+        y: 100 + random() * 800
+    }));
+    const clamp = (v: number) => Math.max(0, Math.min(1000, v));
+
+    return {
+        name: `clustered${n}`,
+        comment: `${n} cities in ${clusters} clusters (seed ${seed})`,
+        distanceType: 'EUC_2D',
+        cities: Array.from({ length: n }, (_, i) => {
+            const center = centers[i % clusters];
+            return {
+                x: clamp(center.x + gaussian(random) * spread),
+                y: clamp(center.y + gaussian(random) * spread)
+            };
+        })
+    };
+}
+
+// ============================================================================
+// TSPLIB FILES
+// ============================================================================
+
+const DISTANCE_TYPES: TSPDistanceType[] = ['EUC_2D', 'GEO', 'ATT'];
+
+/**
+ * Parse a TSPLIB .tsp file with a NODE_COORD_SECTION
+ *
+ * @param optimum - Known optimal tour length (TSPLIB publishes these separately)
+ * @throws If the file is not a symmetric TSP with EUC_2D, GEO or ATT distances,
+ *         or if its coordinates do not match DIMENSION
+ */
+export function parseTSPLIB(text: string, optimum?: number): TSPInstance {
+    const header: Record<string, string> = {};
+    const cities: City[] = [];
+    let inCoords = false;
+
+    for (const rawLine of text.split(/\r?\n/)) {
+        const line = rawLine.trim();
+        if (line === '' || line === 'EOF') continue;
+
+        if (line === 'NODE_COORD_SECTION') {
+            inCoords = true;
+            continue;
+        }
+
+        if (inCoords && /^[-+\d.]/.test(line)) {
+            const [, x, y] = line.split(/\s+/).map(Number);
+            if (!Number.isFinite(x) || !Number.isFinite(y)) {
+                throw new Error(`Invalid coordinate line: "${line}"`);
+            }
+            cities.push({ x, y });
+            continue;
+        }
+
+        inCoords = false;
+        const match = /^([A-Z_]+)\s*:\s*(.*)$/.exec(line);
+        if (match) {
+            header[match[1]] = match[2].trim();
+        } else if (/^[A-Z_]+_SECTION$/.test(line)) {
+            throw new Error(`Unsupported section: ${line}`);
+        }
+    }
+
+    if (header.TYPE && header.TYPE !== 'TSP') throw new Error(`Unsupported problem type: ${header.TYPE}`);
+
+    const distanceType = header.EDGE_WEIGHT_TYPE as TSPDistanceType;
+    if (!DISTANCE_TYPES.includes(distanceType)) {
+        throw new Error(`Unsupported EDGE_WEIGHT_TYPE: ${header.EDGE_WEIGHT_TYPE ?? '(missing)'}`);
+    }
+
+    const dimension = Number(header.DIMENSION);
+    if (cities.length === 0) throw new Error('No NODE_COORD_SECTION found');
+    if (header.DIMENSION !== undefined && dimension !== cities.length) {
+        throw new Error(`DIMENSION is ${dimension} but ${cities.length} cities were listed`);
+    }
+
+    return {
+        name: header.NAME ?? 'unnamed',
+        comment: header.COMMENT,
+        distanceType,
+        cities,
+        optimum
+    };
+}
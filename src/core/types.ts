@@ -21,7 +21,14 @@ export type BinarySolution = (0 | 1)[];
 export type Solution = ContinuousSolution | DiscreteSolution | BinarySolution;
 
 /** Optimization type identifier */
-export type OptimizationType = 'continuous' | 'discrete' | 'binary';
+export type OptimizationType = 'continuous' | 'discrete' | 'binary' | 'multiobjective';
+
+// ============================================================================
+// RANDOMNESS
+// ============================================================================
+
+/** Uniform random source in [0, 1); a drop-in replacement for Math.random */
+export type RandomSource = () => number;
 
 // ============================================================================
 // OPTIMIZATION PROBLEM
@@ -71,6 +78,15 @@ export interface Agent<T extends Solution = ContinuousSolution> {
 
     /** Algorithm-specific metadata */
     metadata?: Record<string, unknown>;
+
+    /** Total constraint violation (0 when feasible; only set on constrained problems) */
+    violation?: number;
+
+    /** Noiseless objective value (only set on noisy problems; fitness is then the observed value) */
+    trueFitness?: number;
+
+    /** Objective vector (multi-objective problems only; fitness is then their sum) */
+    objectives?: number[];
 }
 
 // ============================================================================
@@ -86,6 +102,228 @@ export interface IterationState<T extends Solution = ContinuousSolution> {
 
     /** Additional algorithm-specific data for visualization */
     extra?: Record<string, unknown>;
+
+    /** Objective evaluations spent so far */
+    evaluations?: number;
+
+    /** Why the run ended (only set on the final state of a run) */
+    stopReason?: StopReason;
+
+    /** Environment of a dynamic problem in effect at this state (see DynamicProblem) */
+    environment?: number;
+
+    /** Offline error so far (dynamic problems only, see DynamicTracker) */
+    offlineError?: number;
+
+    /** Noiseless objective value of the global best (noisy problems only) */
+    globalBestTrueFitness?: number;
+
+    /** Pareto archive and front quality (multi-objective problems only) */
+    pareto?: ParetoState;
+}
+
+// ============================================================================
+// HISTORY RECORDING
+// ============================================================================
+
+/**
+ * History granularity
+ * - full: every iteration with all agents
+ * - interval: every k-th iteration with all agents (plus the first and last)
+ * - best-only: every iteration, global best only (no agents)
+ */
+export type RecordingMode = 'full' | 'interval' | 'best-only';
+
+/** History recording configuration */
+export interface RecordingConfig {
+    mode: RecordingMode;
+    /** k for 'interval' mode (default 10) */
+    interval?: number;
+}
+
+// ============================================================================
+// STOPPING CRITERIA
+// ============================================================================
+
+/** Why an optimization run terminated */
+export type StopReason =
+    | 'max-iterations'
+    | 'max-evaluations'
+    | 'target-fitness'
+    | 'stagnation'
+    | 'time-limit'
+    | 'diversity-collapse'
+    | 'custom';
+
+/** Serializable stopping configuration; any criterion that fires ends the run */
+export interface StoppingConfig {
+    /** Evaluation budget */
+    maxEvaluations?: number;
+    /** Stop when best fitness <= target */
+    targetFitness?: number;
+    /** Stop after this many iterations without improvement */
+    stagnationIterations?: number;
+    /** Minimum improvement that resets the stagnation counter (default 0) */
+    stagnationTolerance?: number;
+    /** Wall-clock limit in milliseconds */
+    timeLimitMs?: number;
+    /** Stop when mean distance to the population centroid falls below this */
+    minDiversity?: number;
+}
+
+/** Snapshot of optimizer progress passed to each stopping criterion */
+export interface StoppingContext<T extends Solution = Solution> {
+    iteration: number;
+    evaluations: number;
+    bestFitness: number;
+    /** Milliseconds since the last reset() */
+    elapsedMs: number;
+    population: Agent<T>[];
+}
+
+/** A single pluggable termination condition */
+export interface StoppingCriterion<T extends Solution = Solution> {
+    reason: StopReason;
+    /** Return true to stop the run */
+    shouldStop(context: StoppingContext<T>): boolean;
+    /** Clear internal state (called on optimizer reset) */
+    reset?(): void;
+}
+
+// ============================================================================
+// CONSTRAINTS
+// ============================================================================
+
+/** Constraint on a continuous solution: g(x) <= 0 (inequality) or h(x) = 0 (equality) */
+export interface Constraint {
+    type: 'inequality' | 'equality';
+    fn: ObjectiveFunction<ContinuousSolution>;
+    name?: string;
+}
+
+/**
+ * How constraint violations are folded into fitness
+ * - static-penalty: fixed penalty per unit of violation
+ * - dynamic-penalty: penalty growing with the iteration
+ * - deb: Deb's feasibility rules
+ * - epsilon: epsilon-constraint method with a shrinking tolerance
+ * - repair: infeasible points are repaired before they are scored
+ */
+export type ConstraintHandlingMethod = 'static-penalty' | 'dynamic-penalty' | 'deb' | 'epsilon' | 'repair';
+
+/** Constraints of a problem and the strategy used to handle them */
+export interface ConstraintConfig {
+    constraints: Constraint[];
+    method: ConstraintHandlingMethod;
+    /** Equality constraints count as satisfied within this tolerance (default 1e-4) */
+    equalityTolerance?: number;
+    /** Penalty per unit of violation for 'static-penalty' (default 1e6) */
+    penalty?: number;
+}
+
+// ============================================================================
+// BOUNDARY HANDLING
+// ============================================================================
+
+/**
+ * What happens to coordinates that leave the search box
+ * - clamp: set to the nearest bound
+ * - reflect: mirrored back into the box at the bound
+ * - wrap: re-enter from the opposite bound (toroidal space)
+ * - random: resampled uniformly within the bounds
+ * - midpoint: halfway between the previous position and the violated bound
+ * - absorb: clamped, and the velocity component set to zero
+ * - damping: reflected, and the velocity component reversed and shrunk by a random factor
+ */
+export type BoundaryHandling = 'clamp' | 'reflect' | 'wrap' | 'random' | 'midpoint' | 'absorb' | 'damping';
+
+// ============================================================================
+// DYNAMIC PROBLEMS
+// ============================================================================
+
+/** What advances a dynamic landscape: objective evaluations or iterations */
+export type DynamicClock = 'evaluations' | 'iterations';
+
+/**
+ * Continuous objective that changes during a run. The landscape is a
+ * sequence of static environments; environment k is in effect from
+ * k * changeFrequency ticks of the clock until the next change.
+ * Environments must be deterministic, so the one shown for a recorded
+ * state can be rebuilt from its index.
+ */
+export interface DynamicProblem {
+    dimensions: number;
+    clock: DynamicClock;
+    /** Clock ticks between two changes */
+    changeFrequency: number;
+    /** Objective of environment k (0 is the initial landscape) */
+    objective(environment: number): ObjectiveFunction<ContinuousSolution>;
+    /** Global minimum of environment k */
+    optimum(environment: number): { x: number[]; f: number };
+}
+
+// ============================================================================
+// NOISE
+// ============================================================================
+
+/**
+ * Distribution of the noise on each evaluation, with σ the noise level
+ * - gaussian: f + σ·N(0, 1)
+ * - multiplicative: f · (1 + σ·N(0, 1))
+ * - cauchy: f + σ·Cauchy(0, 1), heavy-tailed (rare, very large outliers)
+ */
+export type NoiseModel = 'gaussian' | 'multiplicative' | 'cauchy';
+
+/**
+ * How an optimizer copes with noisy evaluations
+ * - none: each evaluation is a single sample
+ * - resampling: each evaluation is the mean of a fixed number of samples
+ * - reevaluate-best: the global best is sampled again every iteration and
+ *   scored by the mean of its samples
+ * - averaging: an evaluation cache averages all samples taken at a position
+ */
+export type NoiseHandling = 'none' | 'resampling' | 'reevaluate-best' | 'averaging';
+
+/** Noise on a continuous objective and the strategy used to handle it */
+export interface NoiseConfig {
+    model: NoiseModel;
+    /** σ (relative to |f| for multiplicative noise) */
+    level: number;
+    /** Default: none */
+    handling?: NoiseHandling;
+    /** Samples per evaluation for 'resampling' (default 5) */
+    samples?: number;
+}
+
+// ============================================================================
+// MULTI-OBJECTIVE
+// ============================================================================
+
+/** Objective vector of a continuous solution; every objective is minimized */
+export type MultiObjectiveFunction = (solution: ContinuousSolution) => number[];
+
+/** Solution kept in a Pareto archive */
+export interface ParetoSolution {
+    position: ContinuousSolution;
+    objectives: number[];
+}
+
+/**
+ * How an overfull Pareto archive is thinned
+ * - crowding: drop the member with the smallest crowding distance (NSGA-II)
+ * - grid: drop a member of the most crowded hypercube of an adaptive grid (PAES)
+ */
+export type ArchivePruning = 'crowding' | 'grid';
+
+/** Non-dominated front found so far and its quality indicators */
+export interface ParetoState {
+    front: ParetoSolution[];
+    /** Objective-space volume dominated by the front, up to the reference point (higher is better) */
+    hypervolume: number;
+    /** Mean distance from the true front to the found front (lower is better; NaN when the true front is unknown) */
+    igd: number;
+    /** Generalized spread Δ: 0 for evenly spaced fronts reaching the true extremes (lower is better) */
+    spread: number;
 }
 
 // ============================================================================
@@ -103,11 +341,41 @@ export interface BaseOptimizerConfig {
     /** Optimization type */
     type: OptimizationType;
 
-    /** Bounds for continuous optimization */
-    bounds?: Bounds;
+    /** Bounds for continuous optimization (shared, or one per dimension) */
+    bounds?: Bounds | Bounds[];
 
     /** Number of dimensions */
     dimensions: number;
+
+    /** Seed for the pseudo-random generator (omit for a non-reproducible run) */
+    seed?: number;
+
+    /** Custom random source; takes precedence over seed */
+    random?: RandomSource;
+
+    /** Built-in stopping criteria checked by run() */
+    stopping?: StoppingConfig;
+
+    /** Additional user-defined stopping criteria */
+    stoppingCriteria?: StoppingCriterion[];
+
+    /** What to keep in the history (default: every iteration, all agents) */
+    recording?: RecordingConfig;
+
+    /** Constraints (continuous problems only; bounds are handled separately) */
+    constraints?: ConstraintConfig;
+
+    /** Boundary handling for continuous optimization (default: clamp) */
+    boundaryHandling?: BoundaryHandling;
+
+    /**
+     * Time-varying objective (continuous problems only); replaces the
+     * objective function, which then only describes the initial landscape
+     */
+    dynamic?: DynamicProblem;
+
+    /** Noise on every evaluation (continuous problems only) */
+    noise?: NoiseConfig;
 }
 
 /** Configuration for 2D continuous optimization (most common for visualization) */
@@ -118,6 +386,44 @@ export interface Continuous2DConfig extends BaseOptimizerConfig {
     objectiveFunction: ObjectiveFunction2D;
 }
 
+/** Configuration for N-dimensional continuous optimization (benchmarking) */
+export interface ContinuousNDConfig extends BaseOptimizerConfig {
+    type: 'continuous';
+    /** Shared bounds, or one entry per dimension */
+    bounds: Bounds | Bounds[];
+    objectiveFunction: ObjectiveFunction<ContinuousSolution>;
+}
+
+/** Configuration for discrete optimization (permutations of 0..dimensions-1) */
+export interface DiscreteConfig extends BaseOptimizerConfig {
+    type: 'discrete';
+    objectiveFunction: ObjectiveFunction<DiscreteSolution>;
+}
+
+/** Configuration for binary optimization (bit strings of length `dimensions`) */
+export interface BinaryConfig extends BaseOptimizerConfig {
+    type: 'binary';
+    objectiveFunction: ObjectiveFunction<BinarySolution>;
+}
+
+/** Configuration for multi-objective continuous optimization */
+export interface MultiObjectiveConfig extends BaseOptimizerConfig {
+    type: 'multiobjective';
+    /** Shared bounds, or one entry per dimension */
+    bounds: Bounds | Bounds[];
+    objectiveFunction: MultiObjectiveFunction;
+    /** Number of objectives */
+    objectives: number;
+    /** Hypervolume reference point; should be dominated by the whole true front */
+    referencePoint: number[];
+    /** Points on the true Pareto front, for IGD and spread (optional) */
+    referenceFront?: number[][];
+    /** Maximum archive size (default 100) */
+    archiveSize?: number;
+    /** Pruning of an overfull archive (default: crowding) */
+    archivePruning?: ArchivePruning;
+}
+
 // ============================================================================
 // OPTIMIZER INTERFACE
 // ============================================================================
@@ -127,9 +433,12 @@ export interface Optimizer<T extends Solution = ContinuousSolution> {
     /** Execute a single iteration */
     step(): void;
 
-    /** Run for N iterations */
+    /** Run for N iterations (or until a stopping criterion fires) */
     run(iterations: number): void;
 
+    /** Run up to N iterations of a longer run; returns false once stopped */
+    runBatch(iterations: number): boolean;
+
     /** Reset to initial state */
     reset(): void;
 
@@ -141,6 +450,12 @@ export interface Optimizer<T extends Solution = ContinuousSolution> {
 
     /** Get current global best solution */
     getGlobalBest(): Agent<T>;
+
+    /** Get number of objective evaluations since the last reset */
+    getEvaluations(): number;
+
+    /** Get the reason the last run() ended (null while running or before any run) */
+    getStopReason(): StopReason | null;
 }
 
 // ============================================================================
@@ -191,20 +506,58 @@ export interface EnumHyperparameterDef {
 /** Union type for all hyperparameter definitions */
 export type HyperparameterDef = NumericHyperparameterDef | EnumHyperparameterDef;
 
-/** Algorithm variant definition for the registry */
-export interface AlgorithmDefinition {
+/** Problem configuration accepted by a registry factory, per optimization type */
+export interface ProblemConfigs {
+    continuous: Continuous2DConfig;
+    discrete: DiscreteConfig;
+    binary: BinaryConfig;
+    multiobjective: MultiObjectiveConfig;
+}
+
+/** Solution representation per optimization type */
+export interface SolutionTypes {
+    continuous: ContinuousSolution;
+    discrete: DiscreteSolution;
+    binary: BinarySolution;
+    multiobjective: ContinuousSolution;
+}
+
+/** Fields shared by every registry entry */
+interface AlgorithmDefinitionBase<K extends OptimizationType> {
     id: string;
     name: string;
     section: string;
     description: string;
     details: string;
-    optimizationType: OptimizationType;
+    optimizationType: K;
     agentName: string;
     objectiveName: string;
     hyperparameters?: HyperparameterDef[];  // Tunable parameters
-    create: (config: Continuous2DConfig, hyperparams?: Record<string, number>) => Optimizer;
+    create: (config: ProblemConfigs[K], hyperparams?: Record<string, string | number>) => Optimizer<SolutionTypes[K]>;
 }
 
+/** Continuous algorithm: 2D factory, plus an N-D one where supported */
+export interface ContinuousAlgorithmDefinition extends AlgorithmDefinitionBase<'continuous'> {
+    /** N-dimensional factory; only present for variants that support dimensions > 2 */
+    createND?: (config: ContinuousNDConfig, hyperparams?: Record<string, string | number>) => Optimizer;
+}
+
+/** Permutation algorithm (e.g. for TSP) */
+export type DiscreteAlgorithmDefinition = AlgorithmDefinitionBase<'discrete'>;
+
+/** Bit-string algorithm */
+export type BinaryAlgorithmDefinition = AlgorithmDefinitionBase<'binary'>;
+
+/** Multi-objective algorithm (continuous solutions, Pareto archive) */
+export type MultiObjectiveAlgorithmDefinition = AlgorithmDefinitionBase<'multiobjective'>;
+
+/** Algorithm variant definition for the registry */
+export type AlgorithmDefinition =
+    | ContinuousAlgorithmDefinition
+    | DiscreteAlgorithmDefinition
+    | BinaryAlgorithmDefinition
+    | MultiObjectiveAlgorithmDefinition;
+
 /** Chapter group in the registry */
 export interface ChapterGroup {
     id: string;
@@ -0,0 +1,64 @@
+import { useState, useRef, useCallback } from 'react';
+import {
+    planBenchmark,
+    runBenchmarkPair,
+    BenchmarkConfig,
+    BenchmarkResult,
+    SkippedPair
+} from '../benchmark';
+
+interface UseBenchmarkReturn {
+    results: BenchmarkResult[];
+    skipped: SkippedPair[];
+    isRunning: boolean;
+    progress: { done: number; total: number };
+    error: string | null;
+    runBenchmark: (config: BenchmarkConfig) => void;
+    cancel: () => void;
+}
+
+/** Yield to the browser so the UI stays responsive between pairs */
+function nextTick(): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, 0));
+}
+
+export function useBenchmark(): UseBenchmarkReturn {
+    const [results, setResults] = useState<BenchmarkResult[]>([]);
+    const [skipped, setSkipped] = useState<SkippedPair[]>([]);
+    const [isRunning, setIsRunning] = useState(false);
+    const [progress, setProgress] = useState({ done: 0, total: 0 });
+    const [error, setError] = useState<string | null>(null);
+    const cancelledRef = useRef(false);
+
+    const runBenchmark = useCallback(async (config: BenchmarkConfig) => {
+        const plan = planBenchmark(config);
+        cancelledRef.current = false;
+        setResults([]);
+        setSkipped(plan.skipped);
+        setError(null);
+        setProgress({ done: 0, total: plan.pairs.length });
+        setIsRunning(true);
+
+        try {
+            for (let i = 0; i < plan.pairs.length; i++) {
+                await nextTick();
+                if (cancelledRef.current) break;
+
+                const { algorithmId, functionId } = plan.pairs[i];
+                const result = runBenchmarkPair(config, algorithmId, functionId);
+                setResults(prev => [...prev, result]);
+                setProgress({ done: i + 1, total: plan.pairs.length });
+            }
+        } catch (err) {
+            setError(err instanceof Error ? err.message : String(err));
+        } finally {
+            setIsRunning(false);
+        }
+    }, []);
+
+    const cancel = useCallback(() => {
+        cancelledRef.current = true;
+    }, []);
+
+    return { results, skipped, isRunning, progress, error, runBenchmark, cancel };
+}
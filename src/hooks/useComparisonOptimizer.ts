@@ -1,7 +1,10 @@
-import { useState, useRef, useCallback, useEffect } from 'react';
+import { useState, useCallback, useEffect } from 'react';
 import { getAlgorithm } from '../core/registry';
 import { testFunctions } from '../core/test-functions';
-import { Optimizer, IterationState, ContinuousSolution, Continuous2DConfig } from '../core/types';
+import { getCustomFunctionDefinition } from '../core/custom-functions';
+import { randomSeed } from '../core/random';
+import { IterationState, ContinuousSolution } from '../core/types';
+import { useStreamedRun } from './useStreamedRun';
 
 interface SideState {
     algoId: string;
@@ -15,6 +18,8 @@ interface UseComparisonOptimizerReturn {
     selectLeftAlgorithm: (id: string) => void;
     selectRightAlgorithm: (id: string) => void;
     runComparison: () => void;
+    cancelComparison: () => void;
+    isRunning: boolean;
     // Shared settings
     functionId: string;
     setFunction: (id: string) => void;
@@ -22,6 +27,8 @@ interface UseComparisonOptimizerReturn {
     setPopulationSize: (size: number) => void;
     maxIterations: number;
     setMaxIterations: (count: number) => void;
+    seed: number;
+    setSeed: (seed: number) => void;
 }
 
 export function useComparisonOptimizer(): UseComparisonOptimizerReturn {
@@ -29,49 +36,39 @@ export function useComparisonOptimizer(): UseComparisonOptimizerReturn {
     const [leftAlgoId, setLeftAlgoId] = useState('bat-standard');
     const [rightAlgoId, setRightAlgoId] = useState('afsa-standard');
 
-    // Histories
-    const [leftHistory, setLeftHistory] = useState<IterationState<ContinuousSolution>[]>([]);
-    const [rightHistory, setRightHistory] = useState<IterationState<ContinuousSolution>[]>([]);
+    // Streamed runs (one worker per side)
+    const left = useStreamedRun();
+    const right = useStreamedRun();
 
     // Shared settings
     const [functionId, setFunctionId] = useState('rastrigin');
     const [populationSize, setPopulationSize] = useState(30);
     const [maxIterations, setMaxIterations] = useState(100);
-
-    // Refs for optimizers
-    const leftRef = useRef<Optimizer<ContinuousSolution> | null>(null);
-    const rightRef = useRef<Optimizer<ContinuousSolution> | null>(null);
+    const [seed, setSeed] = useState(randomSeed);
 
     const runComparison = useCallback(() => {
         const func = testFunctions[functionId];
         if (!func) return;
 
-        const config: Continuous2DConfig = {
-            populationSize,
-            type: 'continuous',
-            dimensions: 2,
-            bounds: func.bounds,
-            objectiveFunction: func.func2D
-        };
+        const settings = { functionId, populationSize, seed, customFunction: getCustomFunctionDefinition(functionId) };
 
         // Run left algorithm
         const leftAlgo = getAlgorithm(leftAlgoId);
         if (leftAlgo) {
-            const optimizer = leftAlgo.create(config, {});
-            optimizer.run(maxIterations);
-            leftRef.current = optimizer;
-            setLeftHistory(optimizer.getHistory());
+            left.start({ ...settings, algorithmId: leftAlgoId }, maxIterations);
         }
 
         // Run right algorithm
         const rightAlgo = getAlgorithm(rightAlgoId);
         if (rightAlgo) {
-            const optimizer = rightAlgo.create(config, {});
-            optimizer.run(maxIterations);
-            rightRef.current = optimizer;
-            setRightHistory(optimizer.getHistory());
+            right.start({ ...settings, algorithmId: rightAlgoId }, maxIterations);
         }
-    }, [leftAlgoId, rightAlgoId, functionId, populationSize, maxIterations]);
+    }, [leftAlgoId, rightAlgoId, functionId, populationSize, maxIterations, seed, left.start, right.start]);
+
+    const cancelComparison = useCallback(() => {
+        left.cancel();
+        right.cancel();
+    }, [left.cancel, right.cancel]);
 
     // Run comparison once on mount
     useEffect(() => {
@@ -79,16 +76,20 @@ export function useComparisonOptimizer(): UseComparisonOptimizerReturn {
     }, []);
 
     return {
-        left: { algoId: leftAlgoId, history: leftHistory },
-        right: { algoId: rightAlgoId, history: rightHistory },
+        left: { algoId: leftAlgoId, history: left.history },
+        right: { algoId: rightAlgoId, history: right.history },
         selectLeftAlgorithm: setLeftAlgoId,
         selectRightAlgorithm: setRightAlgoId,
         runComparison,
+        cancelComparison,
+        isRunning: left.isRunning || right.isRunning,
         functionId,
         setFunction: setFunctionId,
         populationSize,
         setPopulationSize,
         maxIterations,
-        setMaxIterations
+        setMaxIterations,
+        seed,
+        setSeed
     };
 }
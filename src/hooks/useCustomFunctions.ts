@@ -0,0 +1,74 @@
+import { useState, useCallback } from 'react';
+import {
+    CustomFunctionDefinition,
+    registerCustomFunction,
+    unregisterCustomFunction
+} from '../core/custom-functions';
+import {
+    loadStoredCustomFunctions,
+    storeCustomFunctions,
+    serializeCustomFunctions,
+    parseCustomFunctions
+} from '../io/custom-functions';
+
+export interface UseCustomFunctionsReturn {
+    definitions: CustomFunctionDefinition[];
+    /** Add or replace a definition; throws if it does not compile */
+    save: (definition: CustomFunctionDefinition) => void;
+    remove: (id: string) => void;
+    /** All definitions as a JSON document */
+    exportAll: () => string;
+    /** Add the definitions of a JSON document; throws on invalid files */
+    importText: (text: string) => CustomFunctionDefinition[];
+}
+
+/**
+ * User-defined test functions, kept registered in testFunctions and
+ * mirrored to local storage.
+ *
+ * Call before anything that validates function ids (e.g. URL state), so
+ * that saved custom functions are registered by then.
+ */
+export function useCustomFunctions(): UseCustomFunctionsReturn {
+    const [definitions, setDefinitions] = useState<CustomFunctionDefinition[]>(() => {
+        const stored = loadStoredCustomFunctions();
+        stored.forEach(registerCustomFunction);
+        return stored;
+    });
+
+    const update = useCallback((change: (prev: CustomFunctionDefinition[]) => CustomFunctionDefinition[]) => {
+        setDefinitions(prev => {
+            const next = change(prev);
+            storeCustomFunctions(next);
+            return next;
+        });
+    }, []);
+
+    const save = useCallback((definition: CustomFunctionDefinition) => {
+        registerCustomFunction(definition);
+        update(prev => upsert(prev, definition));
+    }, [update]);
+
+    const remove = useCallback((id: string) => {
+        unregisterCustomFunction(id);
+        update(prev => prev.filter(d => d.id !== id));
+    }, [update]);
+
+    const exportAll = useCallback(() => serializeCustomFunctions(definitions), [definitions]);
+
+    const importText = useCallback((text: string) => {
+        const imported = parseCustomFunctions(text);
+        imported.forEach(registerCustomFunction);
+        update(prev => imported.reduce(upsert, prev));
+        return imported;
+    }, [update]);
+
+    return { definitions, save, remove, exportAll, importText };
+}
+
+/** Replace the definition with the same id, or append it */
+function upsert(list: CustomFunctionDefinition[], definition: CustomFunctionDefinition): CustomFunctionDefinition[] {
+    return list.some(d => d.id === definition.id)
+        ? list.map(d => (d.id === definition.id ? definition : d))
+        : [...list, definition];
+}
@@ -1,14 +1,32 @@
-import { useState, useRef, useCallback, useEffect, useMemo } from 'react';
-import { getAlgorithm } from '../core/registry';
-import { testFunctions } from '../core/test-functions';
-import { Optimizer, IterationState, ContinuousSolution, HyperparameterDef, Continuous2DConfig } from '../core/types';
+import { useState, useCallback, useEffect, useMemo, useRef } from 'react';
+import { getAlgorithm, getDefaultHyperparams } from '../core/registry';
+import { supportsND, isProblemForType, defaultProblemIds } from '../core/factory';
+import { getCustomFunctionDefinition } from '../core/custom-functions';
+import { randomSeed } from '../core/random';
+import {
+    IterationState,
+    ContinuousSolution,
+    HyperparameterDef,
+    StopReason,
+    RecordingConfig,
+    ConstraintHandlingMethod,
+    BoundaryHandling,
+    NoiseConfig
+} from '../core/types';
+import { RunFile, RunFileSettings, createRunFile } from '../io/run-file';
+import { OptimizerUrlState } from '../io/url-state';
+import { useStreamedRun } from './useStreamedRun';
 
 interface UseOptimizerReturn {
-    optimizer: Optimizer<ContinuousSolution> | null;
     history: IterationState<ContinuousSolution>[];
     currentAlgoId: string;
     selectAlgorithm: (id: string) => void;
     runOptimization: () => void;
+    // Run status (optimizations run in a Web Worker and stream in)
+    isRunning: boolean;
+    cancelOptimization: () => void;
+    stopReason: StopReason | null;
+    runError: string | null;
     currentAlgorithm: ReturnType<typeof getAlgorithm> | undefined;
     // Hyperparameter controls
     hyperparameters: HyperparameterDef[];
@@ -23,30 +41,79 @@ interface UseOptimizerReturn {
     setPopulationSize: (size: number) => void;
     maxIterations: number;
     setMaxIterations: (count: number) => void;
+    // Reproducibility
+    seed: number;
+    setSeed: (seed: number) => void;
+    // Dimensionality (dimensions > 2 only when both algorithm and function support it)
+    dimensions: number;
+    setDimensions: (dimensions: number) => void;
+    ndAvailable: boolean;
+    projection: [number, number];
+    setProjection: (projection: [number, number]) => void;
+    // History granularity
+    recording: RecordingConfig;
+    setRecording: (recording: RecordingConfig) => void;
+    // Constraint handling (constrained problems only)
+    constraintHandling: ConstraintHandlingMethod;
+    setConstraintHandling: (method: ConstraintHandlingMethod) => void;
+    // Boundary handling (continuous algorithms)
+    boundaryHandling: BoundaryHandling;
+    setBoundaryHandling: (method: BoundaryHandling) => void;
+    // Noisy objective (continuous problems; null: noiseless)
+    noise: NoiseConfig | null;
+    setNoise: (noise: NoiseConfig | null) => void;
+    // Export / import (replay a saved run without re-running it)
+    exportRun: () => RunFile | null;
+    importRun: (file: RunFile) => void;
 }
 
-/**
- * Get default values from hyperparameter definitions
- */
-function getDefaultHyperparams(defs: HyperparameterDef[]): Record<string, string | number> {
-    const defaults: Record<string, string | number> = {};
-    for (const def of defs) {
-        defaults[def.key] = def.defaultValue;
-    }
-    return defaults;
+interface PendingHyperparams {
+    algorithmId: string;
+    values: Record<string, string | number>;
 }
 
-export function useOptimizer(): UseOptimizerReturn {
-    const [currentAlgoId, setCurrentAlgoId] = useState('bat-standard');
-    const [currentFunctionId, setCurrentFunctionId] = useState('rastrigin');
-    const [populationSize, setPopulationSize] = useState(30);
-    const [maxIterations, setMaxIterations] = useState(100);
-    const [history, setHistory] = useState<IterationState<ContinuousSolution>[]>([]);
-    const [hyperparamValues, setHyperparamValues] = useState<Record<string, string | number>>({});
-    const optimizerRef = useRef<Optimizer<ContinuousSolution> | null>(null);
+/**
+ * @param initial - Settings to start from (e.g. restored from the URL)
+ */
+export function useOptimizer(initial: OptimizerUrlState = {}): UseOptimizerReturn {
+    const [currentAlgoId, setCurrentAlgoId] = useState(initial.algorithmId ?? 'bat-standard');
+    const [currentFunctionId, setCurrentFunctionId] = useState(() => {
+        const type = getAlgorithm(currentAlgoId)?.optimizationType ?? 'continuous';
+        return initial.functionId && isProblemForType(type, initial.functionId)
+            ? initial.functionId
+            : defaultProblemIds[type];
+    });
+    const [populationSize, setPopulationSize] = useState(initial.populationSize ?? 30);
+    const [maxIterations, setMaxIterations] = useState(initial.maxIterations ?? 100);
+    const [seed, setSeed] = useState(() => initial.seed ?? randomSeed());
+    const [requestedDimensions, setDimensions] = useState(initial.dimensions ?? 2);
+    const [requestedProjection, setProjection] = useState<[number, number]>([0, 1]);
+    const [recording, setRecording] = useState<RecordingConfig>(initial.recording ?? { mode: 'full' });
+    const [constraintHandling, setConstraintHandling] = useState<ConstraintHandlingMethod>(initial.constraintHandling ?? 'deb');
+    const [boundaryHandling, setBoundaryHandling] = useState<BoundaryHandling>(initial.boundaryHandling ?? 'clamp');
+    const [noise, setNoise] = useState<NoiseConfig | null>(initial.noise ?? null);
+    const [hyperparamValues, setHyperparamValues] = useState<Record<string, string | number>>(() => ({
+        ...getDefaultHyperparams(getAlgorithm(currentAlgoId)?.hyperparameters ?? []),
+        ...initial.hyperparams
+    }));
+    const { history, isRunning, stopReason, error: runError, start, cancel, load } = useStreamedRun();
+
+    // Settings that produced the current history (the controls may have changed since)
+    const runSettingsRef = useRef<RunFileSettings | null>(null);
+    // Hyperparameters to apply over the defaults for a given algorithm (from the URL or an import)
+    const pendingHyperparamsRef = useRef<PendingHyperparams | null>(
+        initial.hyperparams ? { algorithmId: currentAlgoId, values: initial.hyperparams } : null
+    );
 
     const currentAlgorithm = getAlgorithm(currentAlgoId);
 
+    // Fall back to 2D when the algorithm or function has no N-D form
+    const ndAvailable = supportsND(currentAlgoId, currentFunctionId);
+    const dimensions = ndAvailable ? requestedDimensions : 2;
+    const projection: [number, number] = requestedProjection.every(d => d < dimensions)
+        ? requestedProjection
+        : [0, 1];
+
     // Get hyperparameter definitions for current algorithm
     const hyperparameters = useMemo(() => {
         return currentAlgorithm?.hyperparameters ?? [];
@@ -55,34 +122,44 @@ export function useOptimizer(): UseOptimizerReturn {
     // Initialize hyperparams when algorithm changes
     useEffect(() => {
         const defaults = getDefaultHyperparams(hyperparameters);
-        setHyperparamValues(defaults);
+        const pending = pendingHyperparamsRef.current;
+        if (pending?.algorithmId === currentAlgoId) {
+            setHyperparamValues({ ...defaults, ...pending.values });
+        } else {
+            pendingHyperparamsRef.current = null;
+            setHyperparamValues(defaults);
+        }
     }, [currentAlgoId, hyperparameters]);
 
     // Define runOptimization at top level (NOT inside useEffect)
     const runOptimization = useCallback(() => {
         const algo = getAlgorithm(currentAlgoId);
-        const func = testFunctions[currentFunctionId];
-        if (!algo || !func) return;
+        if (!algo || !isProblemForType(algo.optimizationType, currentFunctionId)) return;
 
-        // Build config with selected function and settings
-        const config: Continuous2DConfig = {
+        const settings = {
+            algorithmId: currentAlgoId,
+            functionId: currentFunctionId,
             populationSize,
-            type: 'continuous',
-            dimensions: 2,
-            bounds: func.bounds,
-            objectiveFunction: func.func2D
+            dimensions,
+            seed,
+            hyperparams: hyperparamValues,
+            recording,
+            constraintHandling,
+            boundaryHandling,
+            noise: algo.optimizationType === 'continuous' ? noise ?? undefined : undefined,
+            customFunction: getCustomFunctionDefinition(currentFunctionId)
         };
-
-        // Pass hyperparameters to the create function
-        const optimizer = algo.create(config, hyperparamValues as Record<string, any>);
-        optimizer.run(maxIterations);
-
-        optimizerRef.current = optimizer;
-        setHistory(optimizer.getHistory());
-    }, [currentAlgoId, currentFunctionId, populationSize, maxIterations, hyperparamValues]);
+        runSettingsRef.current = { ...settings, maxIterations };
+        start(settings, maxIterations);
+    }, [currentAlgoId, currentFunctionId, populationSize, maxIterations, hyperparamValues, seed, dimensions, recording, constraintHandling, boundaryHandling, noise, start]);
 
     const selectAlgorithm = useCallback((id: string) => {
         setCurrentAlgoId(id);
+        // Keep the problem if it fits the new algorithm's representation
+        const type = getAlgorithm(id)?.optimizationType;
+        if (type) {
+            setCurrentFunctionId(prev => isProblemForType(type, prev) ? prev : defaultProblemIds[type]);
+        }
     }, []);
 
     const setFunction = useCallback((id: string) => {
@@ -98,22 +175,53 @@ export function useOptimizer(): UseOptimizerReturn {
         setHyperparamValues(defaults);
     }, [hyperparameters]);
 
-    const hasRunRef = useRef(false);
+    const exportRun = useCallback((): RunFile | null => {
+        if (!runSettingsRef.current || history.length === 0) return null;
+        return createRunFile(runSettingsRef.current, history, stopReason);
+    }, [history, stopReason]);
+
+    const importRun = useCallback((file: RunFile) => {
+        const { settings } = file;
+        const algo = getAlgorithm(settings.algorithmId);
+        if (!algo) {
+            throw new Error(`Unknown algorithm: ${settings.algorithmId}`);
+        }
+        if (!isProblemForType(algo.optimizationType, settings.functionId)) {
+            throw new Error(`Unknown ${algo.optimizationType} problem: ${settings.functionId}`);
+        }
+
+        // Restore the controls so the replay matches what produced it
+        pendingHyperparamsRef.current = { algorithmId: settings.algorithmId, values: settings.hyperparams };
+        setHyperparamValues(prev => ({ ...prev, ...settings.hyperparams }));
+        setCurrentAlgoId(settings.algorithmId);
+        setCurrentFunctionId(settings.functionId);
+        setPopulationSize(settings.populationSize);
+        setMaxIterations(settings.maxIterations);
+        setDimensions(settings.dimensions);
+        if (settings.seed !== undefined) setSeed(settings.seed);
+        if (settings.recording) setRecording(settings.recording);
+        if (settings.constraintHandling) setConstraintHandling(settings.constraintHandling);
+        setBoundaryHandling(settings.boundaryHandling ?? 'clamp');
+        setNoise(settings.noise ?? null);
+
+        runSettingsRef.current = settings;
+        load(file.history, file.stopReason);
+    }, [load]);
 
     // Run optimization once on mount (initial load)
     useEffect(() => {
-        if (!hasRunRef.current) {
-            runOptimization();
-            hasRunRef.current = true;
-        }
-    }, [runOptimization]);
+        runOptimization();
+    }, []);
 
     return {
-        optimizer: optimizerRef.current,
         history,
         currentAlgoId,
         selectAlgorithm,
         runOptimization,
+        isRunning,
+        cancelOptimization: cancel,
+        stopReason,
+        runError,
         currentAlgorithm,
         hyperparameters,
         hyperparamValues,
@@ -124,6 +232,23 @@ export function useOptimizer(): UseOptimizerReturn {
         populationSize,
         setPopulationSize,
         maxIterations,
-        setMaxIterations
+        setMaxIterations,
+        seed,
+        setSeed,
+        dimensions,
+        setDimensions,
+        ndAvailable,
+        projection,
+        setProjection,
+        recording,
+        setRecording,
+        constraintHandling,
+        setConstraintHandling,
+        boundaryHandling,
+        setBoundaryHandling,
+        noise,
+        setNoise,
+        exportRun,
+        importRun
     };
 }
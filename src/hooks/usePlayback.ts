@@ -15,7 +15,17 @@ interface UsePlaybackReturn {
     setSpeed: (speed: number) => void;
 }
 
-export function usePlayback(history: IterationState<ContinuousSolution>[]): UsePlaybackReturn {
+/**
+ * Frame playback over an optimization history.
+ * 
+ * @param history - States to play; may keep growing while a run streams in
+ * @param isStreaming - While true, playback waits at the last frame for more
+ *                      states instead of pausing
+ */
+export function usePlayback(
+    history: IterationState<ContinuousSolution>[],
+    isStreaming: boolean = false
+): UsePlaybackReturn {
     const [currentFrame, setCurrentFrame] = useState(0);
     const [isPlaying, setIsPlaying] = useState(false);
     const [tweenProgress, setTweenProgress] = useState(1);
@@ -85,14 +95,14 @@ export function usePlayback(history: IterationState<ContinuousSolution>[]): UseP
             const newProgress = tweenProgress + delta / tweenDuration;
 
             if (newProgress >= 1) {
-                setTweenProgress(0);
-                setCurrentFrame(f => {
-                    if (f >= maxFrame) {
-                        pause();
-                        return f;
-                    }
-                    return f + 1;
-                });
+                if (currentFrame >= maxFrame) {
+                    // End of history: wait for more states while streaming, otherwise stop
+                    setTweenProgress(1);
+                    if (!isStreaming) pause();
+                } else {
+                    setTweenProgress(0);
+                    setCurrentFrame(currentFrame + 1);
+                }
                 lastTimestampRef.current = timestamp;
             } else {
                 setTweenProgress(newProgress);
@@ -109,14 +119,15 @@ export function usePlayback(history: IterationState<ContinuousSolution>[]): UseP
                 cancelAnimationFrame(animationRef.current);
             }
         };
-    }, [isPlaying, tweenProgress, tweenDuration, maxFrame, pause]);
+    }, [isPlaying, tweenProgress, tweenDuration, currentFrame, maxFrame, isStreaming, pause]);
 
-    // Reset when history changes
+    // Reset when a new run starts (appended batches keep the same first state)
+    const firstState = history[0];
     useEffect(() => {
         setCurrentFrame(0);
         setTweenProgress(1);
-        play();
-    }, [history, play]);
+        if (firstState) play();
+    }, [firstState, play]);
 
     return {
         currentFrame,
@@ -0,0 +1,84 @@
+import { useState, useRef, useCallback, useEffect } from 'react';
+import { IterationState, ContinuousSolution, StopReason } from '../core/types';
+import { HistoryStore } from '../core/history-store';
+import { OptimizerWorkerClient } from '../workers/optimizer-client';
+import { WorkerRunSettings } from '../workers/messages';
+
+interface UseStreamedRunReturn {
+    history: IterationState<ContinuousSolution>[];
+    isRunning: boolean;
+    stopReason: StopReason | null;
+    error: string | null;
+    start: (settings: WorkerRunSettings, maxIterations: number) => void;
+    cancel: () => void;
+    load: (states: IterationState<ContinuousSolution>[], stopReason?: StopReason | null) => void;
+}
+
+/**
+ * Run optimizations in a Web Worker; history grows as batches stream in
+ */
+export function useStreamedRun(): UseStreamedRunReturn {
+    const [history, setHistory] = useState<IterationState<ContinuousSolution>[]>([]);
+    const [isRunning, setIsRunning] = useState(false);
+    const [stopReason, setStopReason] = useState<StopReason | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const clientRef = useRef<OptimizerWorkerClient | null>(null);
+    const storeRef = useRef<HistoryStore<ContinuousSolution> | null>(null);
+
+    // One worker per hook instance (created on first run), terminated on unmount
+    useEffect(() => {
+        return () => clientRef.current?.dispose();
+    }, []);
+
+    const start = useCallback((settings: WorkerRunSettings, maxIterations: number) => {
+        if (!clientRef.current) clientRef.current = new OptimizerWorkerClient();
+        const client = clientRef.current;
+
+        // Fresh store per run; each batch publishes a new snapshot view
+        const store = new HistoryStore<ContinuousSolution>();
+        storeRef.current = store;
+        setHistory([]);
+        setStopReason(null);
+        setError(null);
+        setIsRunning(true);
+
+        client.start(settings, maxIterations, {
+            onBatch: (states) => {
+                if (storeRef.current !== store) return;
+                states.forEach(state => store.push(state));
+                setHistory(store.view(store.length));
+            },
+            onDone: (result) => {
+                // The reason may fire after the last state was streamed
+                if (result.stopReason && storeRef.current === store && store.length > 0) {
+                    store.setStopReason(store.length - 1, result.stopReason);
+                    setHistory(store.view(store.length));
+                }
+                setStopReason(result.stopReason);
+                setIsRunning(false);
+            },
+            onError: (message) => {
+                setError(message);
+                setIsRunning(false);
+            }
+        });
+    }, []);
+
+    const cancel = useCallback(() => {
+        clientRef.current?.cancel();
+    }, []);
+
+    // Replace the history with previously recorded states (e.g. an imported run)
+    const load = useCallback((states: IterationState<ContinuousSolution>[], reason: StopReason | null = null) => {
+        clientRef.current?.cancel();
+        const store = new HistoryStore<ContinuousSolution>();
+        states.forEach(state => store.push(state));
+        storeRef.current = store;
+        setHistory(store.view(store.length));
+        setStopReason(reason);
+        setError(null);
+        setIsRunning(false);
+    }, []);
+
+    return { history, isRunning, stopReason, error, start, cancel, load };
+}
@@ -0,0 +1,20 @@
+/**
+ * Browser File Helpers
+ *
+ * Save text as a download and read a user-selected file.
+ */
+
+/** Trigger a download of `text` as `filename` */
+export function downloadText(filename: string, text: string, mimeType: string = 'text/plain'): void {
+    const url = URL.createObjectURL(new Blob([text], { type: mimeType }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    link.click();
+    URL.revokeObjectURL(url);
+}
+
+/** Read a File (from an <input type="file">) as text */
+export function readFileText(file: File): Promise<string> {
+    return file.text();
+}
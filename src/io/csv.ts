@@ -0,0 +1,101 @@
+/**
+ * CSV Export
+ *
+ * Flat tables for analysis in spreadsheets, pandas, R, etc.
+ * - Convergence: one row per recorded iteration
+ * - Agents: one row per agent per recorded iteration
+ */
+
+import { IterationState, Solution } from '../core/types';
+
+/** Format a number for CSV (full precision, empty for missing) */
+function cell(value: number | undefined): string {
+    return value === undefined || Number.isNaN(value) ? '' : String(value);
+}
+
+function toLines(rows: string[][]): string {
+    return rows.map(row => row.join(',')).join('\n') + '\n';
+}
+
+/**
+ * Convergence table: iteration, evaluations, best fitness and best position
+ * (plus environment and offline error for dynamic problems, the
+ * noiseless best fitness for noisy ones, and archive size and front
+ * metrics for multi-objective ones)
+ */
+export function convergenceCsv<T extends Solution>(history: IterationState<T>[]): string {
+    const dim = history[0]?.globalBest.length ?? 0;
+    const dynamic = history[0]?.environment !== undefined;
+    const noisy = history[0]?.globalBestTrueFitness !== undefined;
+    const pareto = history[0]?.pareto !== undefined;
+    const header = [
+        'iteration',
+        'evaluations',
+        'best_fitness',
+        ...(noisy ? ['best_true_fitness'] : []),
+        ...Array.from({ length: dim }, (_, d) => `best_x${d + 1}`),
+        ...(dynamic ? ['environment', 'offline_error'] : []),
+        ...(pareto ? ['archive_size', 'hypervolume', 'igd', 'spread'] : [])
+    ];
+
+    const rows = [header];
+    for (let i = 0; i < history.length; i++) {
+        const state = history[i];
+        rows.push([
+            cell(state.iteration),
+            cell(state.evaluations),
+            cell(state.globalBestFitness),
+            ...(noisy ? [cell(state.globalBestTrueFitness)] : []),
+            ...Array.from({ length: dim }, (_, d) => cell(state.globalBest[d] as number)),
+            ...(dynamic ? [cell(state.environment), cell(state.offlineError)] : []),
+            ...(pareto ? [
+                cell(state.pareto?.front.length),
+                cell(state.pareto?.hypervolume),
+                cell(state.pareto?.igd),
+                cell(state.pareto?.spread)
+            ] : [])
+        ]);
+    }
+    return toLines(rows);
+}
+
+/**
+ * Agent table: iteration, agent index, fitness, position and (if any)
+ * noiseless fitness, objective values and velocity
+ */
+export function agentsCsv<T extends Solution>(history: IterationState<T>[]): string {
+    const sample = history.find(s => s.agents.length > 0)?.agents[0];
+    const dim = sample?.position.length ?? 0;
+    const hasVelocity = history.some(s => s.agents.some(a => a.velocity));
+    const noisy = sample?.trueFitness !== undefined;
+    const objectives = sample?.objectives?.length ?? 0;
+
+    const header = [
+        'iteration',
+        'agent',
+        'fitness',
+        ...(noisy ? ['true_fitness'] : []),
+        ...Array.from({ length: objectives }, (_, m) => `f${m + 1}`),
+        ...Array.from({ length: dim }, (_, d) => `x${d + 1}`),
+        ...(hasVelocity ? Array.from({ length: dim }, (_, d) => `v${d + 1}`) : [])
+    ];
+
+    const rows = [header];
+    for (let i = 0; i < history.length; i++) {
+        const state = history[i];
+        state.agents.forEach((agent, a) => {
+            rows.push([
+                cell(state.iteration),
+                String(a),
+                cell(agent.fitness),
+                ...(noisy ? [cell(agent.trueFitness)] : []),
+                ...Array.from({ length: objectives }, (_, m) => cell(agent.objectives?.[m])),
+                ...Array.from({ length: dim }, (_, d) => cell(agent.position[d] as number)),
+                ...(hasVelocity
+                    ? Array.from({ length: dim }, (_, d) => cell(agent.velocity?.[d] as number | undefined))
+                    : [])
+            ]);
+        });
+    }
+    return toLines(rows);
+}
@@ -0,0 +1,170 @@
+/**
+ * Custom Function Files and Storage
+ *
+ * Versioned JSON documents holding user-defined test functions, and their
+ * copy in the browser's local storage so they survive a reload.
+ */
+
+import { CustomFunctionDefinition, compileCustomFunction, isCustomFunctionId, CUSTOM_FUNCTION_PREFIX } from '../core/custom-functions';
+
+/** Identifies a custom function file regardless of version */
+export const CUSTOM_FUNCTIONS_FORMAT = 'swarm-custom-functions';
+
+/** Current custom function file version; bump when the layout changes */
+export const CUSTOM_FUNCTIONS_VERSION = 1;
+
+/** Local storage key of the saved definitions */
+const STORAGE_KEY = 'swarm-visualizer.custom-functions';
+
+/** Serialize definitions to JSON text */
+export function serializeCustomFunctions(definitions: CustomFunctionDefinition[]): string {
+    return JSON.stringify({
+        format: CUSTOM_FUNCTIONS_FORMAT,
+        version: CUSTOM_FUNCTIONS_VERSION,
+        functions: definitions
+    }, null, 2);
+}
+
+/**
+ * Parse and validate custom function JSON text. Every definition must
+ * compile.
+ *
+ * @throws Error describing the first problem found
+ */
+export function parseCustomFunctions(text: string): CustomFunctionDefinition[] {
+    return parseEntries(text).map((value, i) => parseCustomFunctionDefinition(value, `functions[${i}]`));
+}
+
+/**
+ * Unvalidated function entries of a custom function document
+ *
+ * @throws Error if the text is not a custom function document of a known version
+ */
+function parseEntries(text: string): unknown[] {
+    let data: unknown;
+    try {
+        data = JSON.parse(text);
+    } catch {
+        throw new Error('Not a valid JSON document');
+    }
+
+    if (!isObject(data) || data.format !== CUSTOM_FUNCTIONS_FORMAT) {
+        throw new Error('Not a custom function file');
+    }
+    if (typeof data.version !== 'number' || data.version > CUSTOM_FUNCTIONS_VERSION) {
+        throw new Error(`Unsupported custom function file version: ${String(data.version)}`);
+    }
+    if (!Array.isArray(data.functions)) {
+        throw new Error('Custom function file has no functions');
+    }
+    return data.functions;
+}
+
+/**
+ * Validate one definition (also used for the one embedded in a run file)
+ *
+ * @throws Error naming `where` and the problem
+ */
+export function parseCustomFunctionDefinition(value: unknown, where: string): CustomFunctionDefinition {
+    if (!isObject(value)) throw new Error(`${where} is not an object`);
+
+    const { id, name, expression, bounds, globalMinimum } = value;
+    if (typeof id !== 'string' || !isCustomFunctionId(id)) {
+        throw new Error(`${where}.id must be a string starting with '${CUSTOM_FUNCTION_PREFIX}'`);
+    }
+    if (typeof name !== 'string') throw new Error(`${where}.name must be a string`);
+    if (typeof expression !== 'string') throw new Error(`${where}.expression must be a string`);
+    if (!isObject(bounds) || typeof bounds.min !== 'number' || typeof bounds.max !== 'number') {
+        throw new Error(`${where}.bounds must have numeric min and max`);
+    }
+
+    const definition: CustomFunctionDefinition = {
+        id,
+        name,
+        expression,
+        bounds: { min: bounds.min, max: bounds.max }
+    };
+
+    if (globalMinimum !== undefined) {
+        if (
+            !isObject(globalMinimum) ||
+            !Array.isArray(globalMinimum.x) || globalMinimum.x.length !== 2 ||
+            !globalMinimum.x.every(v => typeof v === 'number') ||
+            typeof globalMinimum.f !== 'number'
+        ) {
+            throw new Error(`${where}.globalMinimum must be { x: [x, y], f }`);
+        }
+        definition.globalMinimum = { x: [globalMinimum.x[0], globalMinimum.x[1]], f: globalMinimum.f };
+    }
+
+    try {
+        compileCustomFunction(definition);
+    } catch (err) {
+        throw new Error(`${where} (${name}): ${err instanceof Error ? err.message : String(err)}`);
+    }
+    return definition;
+}
+
+/**
+ * Definitions saved in local storage. Entries that no longer parse are
+ * skipped one by one rather than blocking the app.
+ */
+export function loadStoredCustomFunctions(): CustomFunctionDefinition[] {
+    const entries = readStoredEntries();
+    if (!entries) return [];
+
+    const definitions: CustomFunctionDefinition[] = [];
+    entries.forEach((value, i) => {
+        try {
+            definitions.push(parseCustomFunctionDefinition(value, `functions[${i}]`));
+        } catch {
+            // Older format or hand edit: left in storage untouched (see storeCustomFunctions)
+        }
+    });
+    return definitions;
+}
+
+/**
+ * Save definitions to local storage (silently skipped when storage is unavailable).
+ * Stored entries that do not parse are kept after them, and a stored document
+ * that cannot be read at all is not overwritten, so nothing saved is lost.
+ */
+export function storeCustomFunctions(definitions: CustomFunctionDefinition[]): void {
+    try {
+        const entries = readStoredEntries();
+        if (entries === null) return;
+
+        const unreadable = entries.filter(value => {
+            try {
+                parseCustomFunctionDefinition(value, 'entry');
+                return false;
+            } catch {
+                return true;
+            }
+        });
+        localStorage.setItem(STORAGE_KEY, JSON.stringify({
+            format: CUSTOM_FUNCTIONS_FORMAT,
+            version: CUSTOM_FUNCTIONS_VERSION,
+            functions: [...definitions, ...unreadable]
+        }, null, 2));
+    } catch {
+        // Private mode or quota exceeded: the functions still work for this session
+    }
+}
+
+/**
+ * Raw entries of the stored document: [] when nothing is stored, null when
+ * the document cannot be read (storage unavailable, other format or version)
+ */
+function readStoredEntries(): unknown[] | null {
+    try {
+        const text = localStorage.getItem(STORAGE_KEY);
+        return text ? parseEntries(text) : [];
+    } catch {
+        return null;
+    }
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
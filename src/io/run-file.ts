@@ -0,0 +1,264 @@
+/**
+ * Run Files
+ *
+ * Versioned JSON documents holding everything needed to replay a run
+ * without re-running it: the settings it was produced with, the full
+ * history and the final best solution.
+ */
+
+import { IterationState, ContinuousSolution, StopReason, Agent, RecordingConfig, ConstraintHandlingMethod, BoundaryHandling, NoiseConfig, ParetoState } from '../core/types';
+import { constraintHandlingMethods } from '../core/constraints';
+import { boundaryHandlingMethods } from '../core/boundary';
+import { noiseModels, noiseHandlingMethods } from '../core/noise';
+import { recordingModes } from '../core/history-store';
+import { stopReasons } from '../core/stopping';
+import { CustomFunctionDefinition } from '../core/custom-functions';
+import { parseCustomFunctionDefinition } from './custom-functions';
+
+/** Identifies a run file regardless of version */
+export const RUN_FILE_FORMAT = 'swarm-run';
+
+/** Current run file version; bump when the layout changes */
+export const RUN_FILE_VERSION = 1;
+
+/** Settings a run was produced with */
+export interface RunFileSettings {
+    algorithmId: string;
+    functionId: string;
+    populationSize: number;
+    maxIterations: number;
+    dimensions: number;
+    seed?: number;
+    hyperparams: Record<string, string | number>;
+    recording?: RecordingConfig;
+    /** Constraint handling, for constrained problems */
+    constraintHandling?: ConstraintHandlingMethod;
+    /** Boundary handling, for continuous algorithms (absent in older files: clamp) */
+    boundaryHandling?: BoundaryHandling;
+    /** Noise added to the objective, for noisy runs */
+    noise?: NoiseConfig;
+    /** Definition of a custom test function, so the file replays anywhere */
+    customFunction?: CustomFunctionDefinition;
+}
+
+/** Version 1 run file */
+export interface RunFile {
+    format: typeof RUN_FILE_FORMAT;
+    version: number;
+    /** ISO timestamp */
+    exportedAt: string;
+    settings: RunFileSettings;
+    stopReason: StopReason | null;
+    finalBest: { position: ContinuousSolution; fitness: number } | null;
+    history: IterationState<ContinuousSolution>[];
+}
+
+/**
+ * Assemble a run file from a finished (or partial) run
+ */
+export function createRunFile(
+    settings: RunFileSettings,
+    history: IterationState<ContinuousSolution>[],
+    stopReason: StopReason | null = null
+): RunFile {
+    const last = history[history.length - 1];
+    return {
+        format: RUN_FILE_FORMAT,
+        version: RUN_FILE_VERSION,
+        exportedAt: new Date().toISOString(),
+        settings,
+        stopReason: stopReason ?? last?.stopReason ?? null,
+        finalBest: last ? { position: [...last.globalBest], fitness: last.globalBestFitness } : null,
+        history: Array.from(history)
+    };
+}
+
+/** Serialize a run file to JSON text */
+export function serializeRunFile(file: RunFile, pretty: boolean = false): string {
+    return JSON.stringify(file, null, pretty ? 2 : undefined);
+}
+
+// ============================================================================
+// PARSING / VALIDATION
+// ============================================================================
+
+/**
+ * Parse and validate run file JSON text
+ *
+ * @throws Error describing the first problem found
+ */
+export function parseRunFile(text: string): RunFile {
+    let data: unknown;
+    try {
+        data = JSON.parse(text);
+    } catch {
+        throw new Error('Not a valid JSON document');
+    }
+
+    if (!isObject(data) || data.format !== RUN_FILE_FORMAT) {
+        throw new Error('Not a swarm run file');
+    }
+    if (typeof data.version !== 'number' || data.version > RUN_FILE_VERSION) {
+        throw new Error(`Unsupported run file version: ${String(data.version)}`);
+    }
+
+    const settings = parseSettings(data.settings);
+    if (!Array.isArray(data.history) || data.history.length === 0) {
+        throw new Error('Run file has no history');
+    }
+    const history = data.history.map((state, i) => parseState(state, i));
+    const last = history[history.length - 1];
+
+    return {
+        format: RUN_FILE_FORMAT,
+        version: data.version,
+        exportedAt: typeof data.exportedAt === 'string' ? data.exportedAt : '',
+        settings,
+        stopReason: parseStopReason(data.stopReason) ?? null,
+        finalBest: { position: [...last.globalBest], fitness: last.globalBestFitness },
+        history
+    };
+}
+
+function parseSettings(value: unknown): RunFileSettings {
+    if (!isObject(value)) throw new Error('Run file has no settings');
+
+    const { algorithmId, functionId, populationSize, maxIterations, dimensions, seed, hyperparams } = value;
+    if (typeof algorithmId !== 'string') throw new Error('settings.algorithmId must be a string');
+    if (typeof functionId !== 'string') throw new Error('settings.functionId must be a string');
+    if (typeof populationSize !== 'number') throw new Error('settings.populationSize must be a number');
+    if (typeof maxIterations !== 'number') throw new Error('settings.maxIterations must be a number');
+
+    const params: Record<string, string | number> = {};
+    if (isObject(hyperparams)) {
+        for (const [key, v] of Object.entries(hyperparams)) {
+            if (typeof v === 'string' || typeof v === 'number') params[key] = v;
+        }
+    }
+
+    return {
+        algorithmId,
+        functionId,
+        populationSize,
+        maxIterations,
+        dimensions: typeof dimensions === 'number' ? dimensions : 2,
+        seed: typeof seed === 'number' ? seed : undefined,
+        hyperparams: params,
+        recording: parseRecording(value.recording),
+        constraintHandling: constraintHandlingMethods.find(m => m.value === value.constraintHandling)?.value,
+        boundaryHandling: boundaryHandlingMethods.find(m => m.value === value.boundaryHandling)?.value,
+        noise: parseNoise(value.noise),
+        customFunction: value.customFunction === undefined
+            ? undefined
+            : parseCustomFunctionDefinition(value.customFunction, 'settings.customFunction')
+    };
+}
+
+function parseNoise(value: unknown): NoiseConfig | undefined {
+    if (!isObject(value)) return undefined;
+    const model = noiseModels.find(m => m.value === value.model)?.value;
+    if (!model) throw new Error('settings.noise.model is not a known noise model');
+    if (typeof value.level !== 'number') throw new Error('settings.noise.level must be a number');
+    return {
+        model,
+        level: value.level,
+        handling: noiseHandlingMethods.find(m => m.value === value.handling)?.value,
+        samples: typeof value.samples === 'number' ? value.samples : undefined
+    };
+}
+
+function parseRecording(value: unknown): RecordingConfig | undefined {
+    if (!isObject(value)) return undefined;
+    const mode = recordingModes.find(m => m.value === value.mode)?.value;
+    if (!mode) throw new Error('settings.recording.mode is not a known recording mode');
+    if (value.interval === undefined) return { mode };
+    if (typeof value.interval !== 'number' || !Number.isInteger(value.interval) || value.interval < 1) {
+        throw new Error('settings.recording.interval must be a positive integer');
+    }
+    return { mode, interval: value.interval };
+}
+
+/** Known stop reason, or undefined for anything else */
+function parseStopReason(value: unknown): StopReason | undefined {
+    return stopReasons.find(reason => reason === value);
+}
+
+function parseState(value: unknown, index: number): IterationState<ContinuousSolution> {
+    const where = `history[${index}]`;
+    if (!isObject(value)) throw new Error(`${where} is not an object`);
+    if (typeof value.iteration !== 'number') throw new Error(`${where}.iteration must be a number`);
+    const globalBest = toNumberArray(value.globalBest);
+    if (!globalBest) throw new Error(`${where}.globalBest must be a number array`);
+    if (!Array.isArray(value.agents)) throw new Error(`${where}.agents must be an array`);
+
+    const state: IterationState<ContinuousSolution> = {
+        iteration: value.iteration,
+        agents: value.agents.map((agent, i) => parseAgent(agent, `${where}.agents[${i}]`)),
+        globalBest,
+        globalBestFitness: toNumber(value.globalBestFitness)
+    };
+    if (typeof value.evaluations === 'number') state.evaluations = value.evaluations;
+    const stopReason = parseStopReason(value.stopReason);
+    if (stopReason) state.stopReason = stopReason;
+    if (typeof value.environment === 'number') state.environment = value.environment;
+    if (typeof value.offlineError === 'number') state.offlineError = value.offlineError;
+    if (typeof value.globalBestTrueFitness === 'number') state.globalBestTrueFitness = value.globalBestTrueFitness;
+    if (isObject(value.pareto)) state.pareto = parsePareto(value.pareto, `${where}.pareto`);
+    if (isObject(value.extra)) state.extra = value.extra;
+    return state;
+}
+
+function parsePareto(value: Record<string, unknown>, where: string): ParetoState {
+    if (!Array.isArray(value.front)) throw new Error(`${where}.front must be an array`);
+    return {
+        front: value.front.map((solution, i) => {
+            const position = isObject(solution) ? toNumberArray(solution.position) : undefined;
+            const objectives = isObject(solution) ? toNumberArray(solution.objectives) : undefined;
+            if (!position || !objectives) {
+                throw new Error(`${where}.front[${i}] must have position and objectives number arrays`);
+            }
+            return { position, objectives };
+        }),
+        hypervolume: toNumber(value.hypervolume),
+        igd: toNumber(value.igd),
+        spread: toNumber(value.spread)
+    };
+}
+
+function parseAgent(value: unknown, where: string): Agent<ContinuousSolution> {
+    if (!isObject(value)) throw new Error(`${where} is not an object`);
+    const position = toNumberArray(value.position);
+    if (!position) throw new Error(`${where}.position must be a number array`);
+
+    const agent: Agent<ContinuousSolution> = {
+        position,
+        fitness: toNumber(value.fitness)
+    };
+    const velocity = toNumberArray(value.velocity);
+    if (velocity) agent.velocity = velocity;
+    const personalBest = toNumberArray(value.personalBest);
+    if (personalBest) {
+        agent.personalBest = personalBest;
+        agent.personalBestFitness = toNumber(value.personalBestFitness);
+    }
+    if (isObject(value.metadata)) agent.metadata = value.metadata;
+    if (typeof value.violation === 'number') agent.violation = value.violation;
+    if (typeof value.trueFitness === 'number') agent.trueFitness = value.trueFitness;
+    const objectives = toNumberArray(value.objectives);
+    if (objectives) agent.objectives = objectives;
+    return agent;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/** JSON turns NaN/Infinity into null; read that back as NaN (undefined if not a number array) */
+function toNumberArray(value: unknown): number[] | undefined {
+    if (!Array.isArray(value) || !value.every(v => typeof v === 'number' || v === null)) return undefined;
+    return value.map(toNumber);
+}
+
+function toNumber(value: unknown): number {
+    return typeof value === 'number' ? value : NaN;
+}
@@ -0,0 +1,38 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseUrlState, formatUrlState, OptimizerUrlState, SETTING_LIMITS } from './url-state';
+
+const edges = ['min', 'max'] as const;
+
+test('settings at the edges of their limits survive a link', () => {
+    for (const edge of edges) {
+        const state: OptimizerUrlState = {
+            algorithmId: 'bat-standard',
+            functionId: 'rastrigin',
+            seed: SETTING_LIMITS.seed[edge],
+            populationSize: SETTING_LIMITS.populationSize[edge],
+            maxIterations: SETTING_LIMITS.maxIterations[edge],
+            dimensions: SETTING_LIMITS.dimensions[edge],
+            hyperparams: {},
+            boundaryHandling: 'reflect',
+            constraintHandling: 'epsilon',
+            recording: { mode: 'interval', interval: SETTING_LIMITS.recordingInterval[edge] },
+            noise: {
+                model: 'gaussian',
+                level: SETTING_LIMITS.noiseLevel[edge],
+                handling: 'resampling',
+                samples: SETTING_LIMITS.noiseSamples[edge]
+            }
+        };
+        assert.deepEqual(parseUrlState(formatUrlState('single', state)).single, state, edge);
+    }
+});
+
+test('settings beyond their limits are dropped', () => {
+    const single = parseUrlState(formatUrlState('single', {
+        seed: SETTING_LIMITS.seed.max + 1,
+        recording: { mode: 'interval', interval: SETTING_LIMITS.recordingInterval.max + 1 }
+    })).single;
+    assert.equal(single.seed, undefined);
+    assert.deepEqual(single.recording, { mode: 'interval' });
+});
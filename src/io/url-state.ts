@@ -0,0 +1,299 @@
+/**
+ * URL State
+ *
+ * Serializes the visualizer settings into the query string so a run can be
+ * shared as a link, and restores them on load. Everything read back is
+ * validated against the registry: unknown algorithms/problems are dropped,
+ * numeric hyperparameters must lie within their min/max and enum values
+ * must be one of the declared options.
+ *
+ * Single view:  ?view=single&algo=bat-standard&fn=rastrigin&pop=30&iter=100&seed=42&dim=2&hp.alpha=0.9
+ *               &boundary=reflect&constraint=deb&rec=interval&rec.k=5
+ *               &noise=gaussian&noise.level=0.5&noise.handling=resampling&noise.samples=5
+ * Compare view: ?view=compare&fn=rastrigin&pop=30&iter=100&seed=42&left=bat-standard&right=afsa-standard&l.alpha=0.9&r.visual=2
+ */
+
+import { HyperparameterDef, BoundaryHandling, ConstraintHandlingMethod, RecordingConfig, NoiseConfig } from '../core/types';
+import { getAlgorithm } from '../core/registry';
+import { boundaryHandlingMethods } from '../core/boundary';
+import { constraintHandlingMethods } from '../core/constraints';
+import { noiseModels, noiseHandlingMethods } from '../core/noise';
+import { recordingModes } from '../core/history-store';
+import { testFunctions } from '../core/test-functions';
+import { discreteProblems, binaryProblems } from '../core/combinatorial-problems';
+import { multiObjectiveProblems } from '../core/multi-objective-problems';
+
+export type UrlViewMode = 'single' | 'compare' | 'benchmark';
+
+/** Settings shared by both views */
+export interface SharedUrlState {
+    functionId?: string;
+    populationSize?: number;
+    maxIterations?: number;
+    seed?: number;
+}
+
+/** Single-view (useOptimizer) settings */
+export interface OptimizerUrlState extends SharedUrlState {
+    algorithmId?: string;
+    dimensions?: number;
+    hyperparams?: Record<string, string | number>;
+    boundaryHandling?: BoundaryHandling;
+    constraintHandling?: ConstraintHandlingMethod;
+    recording?: RecordingConfig;
+    /** Absent: noiseless */
+    noise?: NoiseConfig;
+}
+
+/** One side of the compare view */
+export interface ComparePanelUrlState {
+    algorithmId?: string;
+    hyperparams?: Record<string, string | number>;
+}
+
+/** Compare-view settings */
+export interface CompareUrlState extends SharedUrlState {
+    left?: ComparePanelUrlState;
+    right?: ComparePanelUrlState;
+}
+
+export interface UrlState {
+    view: UrlViewMode;
+    single: OptimizerUrlState;
+    compare: CompareUrlState;
+}
+
+/** Accepted ranges; Controls keeps its inputs within them, so every setting survives a link */
+export const SETTING_LIMITS = {
+    seed: { min: 0, max: 0xffffffff },
+    populationSize: { min: 10, max: 100 },
+    maxIterations: { min: 50, max: 500 },
+    dimensions: { min: 2, max: 50 },
+    recordingInterval: { min: 1, max: 500 },
+    noiseLevel: { min: 0, max: 10 },
+    noiseSamples: { min: 2, max: 20 }
+};
+
+/** Keep a typed-in value within one of the SETTING_LIMITS ranges */
+export function clampToLimit(value: number, range: { min: number; max: number }): number {
+    return Math.min(range.max, Math.max(range.min, value));
+}
+
+const VIEW_MODES: UrlViewMode[] = ['single', 'compare', 'benchmark'];
+
+// ============================================================================
+// READING
+// ============================================================================
+
+/**
+ * Parse and validate a query string (with or without the leading '?')
+ */
+export function parseUrlState(search: string): UrlState {
+    const params = new URLSearchParams(search);
+    const viewParam = params.get('view') as UrlViewMode | null;
+    const view: UrlViewMode = viewParam && VIEW_MODES.includes(viewParam) ? viewParam : 'single';
+
+    const shared: SharedUrlState = {
+        functionId: readFunctionId(params.get('fn')),
+        populationSize: readInteger(params.get('pop'), SETTING_LIMITS.populationSize),
+        maxIterations: readInteger(params.get('iter'), SETTING_LIMITS.maxIterations),
+        seed: readInteger(params.get('seed'), SETTING_LIMITS.seed)
+    };
+
+    if (view === 'compare') {
+        return {
+            view,
+            single: {},
+            compare: {
+                ...shared,
+                left: readPanel(params, 'left', 'l.'),
+                right: readPanel(params, 'right', 'r.')
+            }
+        };
+    }
+
+    const algorithmId = readAlgorithmId(params.get('algo'));
+    return {
+        view,
+        single: {
+            ...shared,
+            algorithmId,
+            dimensions: readInteger(params.get('dim'), SETTING_LIMITS.dimensions),
+            hyperparams: algorithmId ? readHyperparams(params, 'hp.', algorithmId) : undefined,
+            boundaryHandling: readOption(params.get('boundary'), boundaryHandlingMethods),
+            constraintHandling: readOption(params.get('constraint'), constraintHandlingMethods),
+            recording: readRecording(params),
+            noise: readNoise(params)
+        },
+        compare: {}
+    };
+}
+
+/** Read the current page URL */
+export function readUrlState(): UrlState {
+    return parseUrlState(window.location.search);
+}
+
+/**
+ * Keep only hyperparameter values that are valid for the definitions:
+ * numbers within [min, max], enum values among the options
+ */
+export function validateHyperparams(
+    defs: HyperparameterDef[],
+    raw: Record<string, string>
+): Record<string, string | number> {
+    const valid: Record<string, string | number> = {};
+    for (const def of defs) {
+        const value = raw[def.key];
+        if (value === undefined) continue;
+
+        if (def.type === 'enum') {
+            if (def.options.some(opt => opt.value === value)) valid[def.key] = value;
+        } else {
+            const num = Number(value);
+            if (value.trim() !== '' && Number.isFinite(num) && num >= def.min && num <= def.max) {
+                valid[def.key] = num;
+            }
+        }
+    }
+    return valid;
+}
+
+function readPanel(params: URLSearchParams, key: string, prefix: string): ComparePanelUrlState {
+    const algorithmId = readAlgorithmId(params.get(key));
+    return {
+        algorithmId,
+        hyperparams: algorithmId ? readHyperparams(params, prefix, algorithmId) : undefined
+    };
+}
+
+function readHyperparams(
+    params: URLSearchParams,
+    prefix: string,
+    algorithmId: string
+): Record<string, string | number> {
+    const raw: Record<string, string> = {};
+    params.forEach((value, key) => {
+        if (key.startsWith(prefix)) raw[key.slice(prefix.length)] = value;
+    });
+    return validateHyperparams(getAlgorithm(algorithmId)?.hyperparameters ?? [], raw);
+}
+
+function readAlgorithmId(value: string | null): string | undefined {
+    return value && getAlgorithm(value) ? value : undefined;
+}
+
+/** Any known problem id; whether it suits the algorithm is checked when the run is set up */
+function readFunctionId(value: string | null): string | undefined {
+    return value && (testFunctions[value] || discreteProblems[value] || binaryProblems[value] || multiObjectiveProblems[value])
+        ? value
+        : undefined;
+}
+
+function readOption<T extends string>(value: string | null, options: Array<{ value: T }>): T | undefined {
+    return options.find(option => option.value === value)?.value;
+}
+
+function readRecording(params: URLSearchParams): RecordingConfig | undefined {
+    const mode = readOption(params.get('rec'), recordingModes);
+    if (!mode) return undefined;
+    const interval = mode === 'interval' ? readInteger(params.get('rec.k'), SETTING_LIMITS.recordingInterval) : undefined;
+    return interval === undefined ? { mode } : { mode, interval };
+}
+
+/** Noise needs a known model and a level in range; handling and samples are optional */
+function readNoise(params: URLSearchParams): NoiseConfig | undefined {
+    const model = readOption(params.get('noise'), noiseModels);
+    const level = readNumber(params.get('noise.level'), SETTING_LIMITS.noiseLevel);
+    if (!model || level === undefined) return undefined;
+
+    const noise: NoiseConfig = { model, level };
+    const handling = readOption(params.get('noise.handling'), noiseHandlingMethods);
+    if (handling) noise.handling = handling;
+    const samples = readInteger(params.get('noise.samples'), SETTING_LIMITS.noiseSamples);
+    if (samples !== undefined) noise.samples = samples;
+    return noise;
+}
+
+function readNumber(value: string | null, range: { min: number; max: number }): number | undefined {
+    if (value === null || value.trim() === '') return undefined;
+    const num = Number(value);
+    return Number.isFinite(num) && num >= range.min && num <= range.max ? num : undefined;
+}
+
+function readInteger(value: string | null, range: { min: number; max: number }): number | undefined {
+    if (value === null || !/^\d+$/.test(value)) return undefined;
+    const num = Number(value);
+    return num >= range.min && num <= range.max ? num : undefined;
+}
+
+// ============================================================================
+// WRITING
+// ============================================================================
+
+/**
+ * Build a query string (including '?') for a view and its settings
+ */
+export function formatUrlState(
+    view: UrlViewMode,
+    state: OptimizerUrlState | CompareUrlState = {}
+): string {
+    const params = new URLSearchParams();
+    params.set('view', view);
+
+    if (view !== 'benchmark') {
+        setIfDefined(params, 'fn', state.functionId);
+        setIfDefined(params, 'pop', state.populationSize);
+        setIfDefined(params, 'iter', state.maxIterations);
+        setIfDefined(params, 'seed', state.seed);
+    }
+
+    if (view === 'single') {
+        const single = state as OptimizerUrlState;
+        setIfDefined(params, 'algo', single.algorithmId);
+        setIfDefined(params, 'dim', single.dimensions);
+        writeHyperparams(params, 'hp.', single.hyperparams);
+        setIfDefined(params, 'boundary', single.boundaryHandling);
+        setIfDefined(params, 'constraint', single.constraintHandling);
+        setIfDefined(params, 'rec', single.recording?.mode);
+        if (single.recording?.mode === 'interval') setIfDefined(params, 'rec.k', single.recording.interval);
+        if (single.noise) {
+            setIfDefined(params, 'noise', single.noise.model);
+            setIfDefined(params, 'noise.level', single.noise.level);
+            setIfDefined(params, 'noise.handling', single.noise.handling);
+            setIfDefined(params, 'noise.samples', single.noise.samples);
+        }
+    } else if (view === 'compare') {
+        const compare = state as CompareUrlState;
+        setIfDefined(params, 'left', compare.left?.algorithmId);
+        setIfDefined(params, 'right', compare.right?.algorithmId);
+        writeHyperparams(params, 'l.', compare.left?.hyperparams);
+        writeHyperparams(params, 'r.', compare.right?.hyperparams);
+    }
+
+    return `?${params.toString()}`;
+}
+
+/**
+ * Replace the page URL (no new history entry) with the given state
+ */
+export function writeUrlState(view: UrlViewMode, state?: OptimizerUrlState | CompareUrlState): void {
+    const search = formatUrlState(view, state);
+    if (search === window.location.search) return;
+    window.history.replaceState(null, '', `${window.location.pathname}${search}${window.location.hash}`);
+}
+
+function setIfDefined(params: URLSearchParams, key: string, value: string | number | undefined): void {
+    if (value !== undefined) params.set(key, String(value));
+}
+
+function writeHyperparams(
+    params: URLSearchParams,
+    prefix: string,
+    hyperparams: Record<string, string | number> | undefined
+): void {
+    if (!hyperparams) return;
+    for (const [key, value] of Object.entries(hyperparams)) {
+        params.set(`${prefix}${key}`, String(value));
+    }
+}
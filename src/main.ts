@@ -170,8 +170,9 @@ class App {
     private runOptimization(): void {
         this.pause();
 
+        // This page only draws 2D landscapes
         const algo = getAlgorithm(this.currentAlgoId);
-        if (!algo) return;
+        if (!algo || algo.optimizationType !== 'continuous') return;
 
         // Create optimizer with default config
         const config = getDefaultConfig();
@@ -0,0 +1,97 @@
+/**
+ * Bit Matrix Canvas - population rendering for bit-string runs
+ *
+ * One row per agent and one column per bit, with the global best as a
+ * separate row on top. A bar left of each row shades the agent's fitness
+ * relative to the rest of the population.
+ */
+
+export class BitMatrixCanvas {
+    private canvas: HTMLCanvasElement;
+    private ctx: CanvasRenderingContext2D;
+    private width: number = 0;
+    private height: number = 0;
+
+    constructor(canvas: HTMLCanvasElement) {
+        this.canvas = canvas;
+        const ctx = canvas.getContext('2d');
+        if (!ctx) throw new Error('Could not get 2D context');
+        this.ctx = ctx;
+
+        this.resize();
+        window.addEventListener('resize', () => this.resize());
+    }
+
+    private resize(): void {
+        const rect = this.canvas.parentElement?.getBoundingClientRect();
+        if (!rect) return;
+
+        const size = Math.min(rect.width - 32, rect.height - 32, 700);
+        this.canvas.width = size;
+        this.canvas.height = size;
+        this.width = size;
+        this.height = size;
+    }
+
+    public render(state: {
+        best: number[];
+        bestFitness: number;
+        /** One bit string per agent */
+        rows: number[][];
+        fitnesses: number[];
+        iteration: number;
+    }): void {
+        const ctx = this.ctx;
+        const bits = state.best.length;
+
+        ctx.fillStyle = '#0a0a1a';
+        ctx.fillRect(0, 0, this.width, this.height);
+        if (bits === 0) return;
+
+        // Layout: label strip, best row, gap, agent rows
+        const top = 50;
+        const left = 24;
+        const gap = 8;
+        const cellWidth = (this.width - left - 10) / bits;
+        const cellHeight = Math.min(cellWidth, (this.height - top - gap - 10) / (state.rows.length + 1));
+
+        this.drawRow(state.best, left, top, cellWidth, cellHeight, '#facc15');
+
+        const minFitness = Math.min(...state.fitnesses);
+        const maxFitness = Math.max(...state.fitnesses);
+        const range = maxFitness - minFitness || 1;
+
+        state.rows.forEach((row, i) => {
+            const y = top + gap + (i + 1) * cellHeight;
+
+            // Fitness bar: bright for the best agents, dim for the worst
+            const quality = 1 - (state.fitnesses[i] - minFitness) / range;
+            ctx.fillStyle = `rgba(239, 68, 68, ${0.15 + 0.85 * quality})`;
+            ctx.fillRect(4, y, left - 8, Math.max(cellHeight - 1, 1));
+
+            this.drawRow(row, left, y, cellWidth, cellHeight, '#38bdf8');
+        });
+
+        // Iteration and fitness label
+        const label = `Iteration: ${state.iteration}  Best: ${+state.bestFitness.toFixed(4)}`;
+        ctx.font = '14px Consolas, monospace';
+        ctx.fillStyle = 'rgba(0, 0, 0, 0.7)';
+        ctx.fillRect(10, 10, ctx.measureText(label).width + 20, 30);
+        ctx.fillStyle = '#f0f0f0';
+        ctx.fillText(label, 20, 30);
+    }
+
+    /**
+     * Draw one bit string as a row of cells (ones filled, zeros dark)
+     */
+    private drawRow(row: number[], x: number, y: number, cellWidth: number, cellHeight: number, onColor: string): void {
+        const ctx = this.ctx;
+        // Leave a 1px grid line only when cells are large enough to show it
+        const inset = cellWidth > 4 && cellHeight > 4 ? 1 : 0;
+
+        row.forEach((bit, j) => {
+            ctx.fillStyle = bit === 1 ? onColor : '#1e1e3a';
+            ctx.fillRect(x + j * cellWidth, y, cellWidth - inset, cellHeight - inset);
+        });
+    }
+}
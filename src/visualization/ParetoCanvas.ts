@@ -0,0 +1,235 @@
+/**
+ * Pareto Canvas - objective-space rendering for multi-objective runs
+ *
+ * Plots every agent and the Pareto archive by their first two objectives,
+ * over the problem's true front. In two objectives the area dominated by
+ * the archive up to the reference point (its hypervolume) is shaded.
+ * The axes span the true front and the reference point, so frames keep a
+ * fixed scale; points beyond it are pinned to the edge as hollow markers.
+ */
+
+interface Extent {
+    min: number;
+    max: number;
+}
+
+export class ParetoCanvas {
+    private canvas: HTMLCanvasElement;
+    private ctx: CanvasRenderingContext2D;
+    private width: number = 0;
+    private height: number = 0;
+    private readonly margin = { top: 48, right: 24, bottom: 40, left: 56 };
+
+    private trueFront: number[][] = [];
+    private referencePoint: number[] = [1, 1];
+    private extents: [Extent, Extent] = [{ min: 0, max: 1 }, { min: 0, max: 1 }];
+
+    constructor(canvas: HTMLCanvasElement) {
+        this.canvas = canvas;
+        const ctx = canvas.getContext('2d');
+        if (!ctx) throw new Error('Could not get 2D context');
+        this.ctx = ctx;
+
+        this.resize();
+        window.addEventListener('resize', () => this.resize());
+    }
+
+    /**
+     * Set the true front and reference point, which fix the axes
+     */
+    public setProblem(trueFront: number[][], referencePoint: number[]): void {
+        this.trueFront = trueFront;
+        this.referencePoint = referencePoint;
+
+        this.extents = [0, 1].map(m => {
+            const values = trueFront.map(p => p[m]);
+            const min = Math.min(...values, referencePoint[m]);
+            const max = Math.max(...values, referencePoint[m]);
+            const pad = (max - min || 1) * 0.05;
+            return { min: min - pad, max: max + pad };
+        }) as [Extent, Extent];
+    }
+
+    private resize(): void {
+        const rect = this.canvas.parentElement?.getBoundingClientRect();
+        if (!rect) return;
+
+        const size = Math.min(rect.width - 32, rect.height - 32, 700);
+        this.canvas.width = size;
+        this.canvas.height = size;
+        this.width = size;
+        this.height = size;
+    }
+
+    public render(state: {
+        /** Objective vector of each agent */
+        agents: number[][];
+        /** Objective vectors of the archive members */
+        front: number[][];
+        iteration: number;
+        hypervolume: number;
+    }): void {
+        const ctx = this.ctx;
+
+        ctx.fillStyle = '#0a0a1a';
+        ctx.fillRect(0, 0, this.width, this.height);
+
+        this.drawAxes();
+
+        const twoObjectives = this.referencePoint.length === 2;
+        if (twoObjectives) this.shadeDominatedArea(state.front);
+
+        // True front
+        ctx.fillStyle = 'rgba(96, 165, 250, 0.55)';
+        for (const point of this.trueFront) {
+            const [x, y] = this.toScreen(point);
+            ctx.fillRect(x - 1, y - 1, 2, 2);
+        }
+
+        // Reference point
+        const [rx, ry] = this.toScreen(this.referencePoint);
+        ctx.strokeStyle = 'rgba(240, 240, 240, 0.6)';
+        ctx.lineWidth = 1.5;
+        ctx.beginPath();
+        ctx.moveTo(rx - 5, ry - 5);
+        ctx.lineTo(rx + 5, ry + 5);
+        ctx.moveTo(rx + 5, ry - 5);
+        ctx.lineTo(rx - 5, ry + 5);
+        ctx.stroke();
+
+        // Agents
+        for (const objectives of state.agents) {
+            this.drawPoint(objectives, 3, '#ef4444');
+        }
+
+        // Archive
+        for (const objectives of state.front) {
+            this.drawPoint(objectives, 4, '#fbbf24');
+        }
+
+        // Iteration, archive size and hypervolume label
+        const label = `Iteration: ${state.iteration}  Archive: ${state.front.length}  HV: ${state.hypervolume.toFixed(4)}`;
+        ctx.font = '14px Consolas, monospace';
+        ctx.fillStyle = 'rgba(0, 0, 0, 0.7)';
+        ctx.fillRect(10, 10, ctx.measureText(label).width + 20, 30);
+        ctx.fillStyle = '#f0f0f0';
+        ctx.textAlign = 'left';
+        ctx.fillText(label, 20, 30);
+    }
+
+    /**
+     * Axes with tick labels; names the projection for more than two objectives
+     */
+    private drawAxes(): void {
+        const ctx = this.ctx;
+        const { top, right, bottom, left } = this.margin;
+        const [ex, ey] = this.extents;
+
+        ctx.strokeStyle = '#3a3a5a';
+        ctx.lineWidth = 1;
+        ctx.fillStyle = '#a0a0b0';
+        ctx.font = '10px Consolas, monospace';
+
+        for (let i = 0; i <= 4; i++) {
+            const fx = ex.min + ((ex.max - ex.min) * i) / 4;
+            const fy = ey.min + ((ey.max - ey.min) * i) / 4;
+            const [x] = this.toScreen([fx, ey.min]);
+            const [, y] = this.toScreen([ex.min, fy]);
+
+            ctx.beginPath();
+            ctx.moveTo(x, top);
+            ctx.lineTo(x, this.height - bottom);
+            ctx.moveTo(left, y);
+            ctx.lineTo(this.width - right, y);
+            ctx.stroke();
+
+            ctx.textAlign = 'center';
+            ctx.fillText(formatTick(fx), x, this.height - bottom + 14);
+            ctx.textAlign = 'right';
+            ctx.fillText(formatTick(fy), left - 6, y + 3);
+        }
+
+        const others = this.referencePoint.length > 2 ? ` (of ${this.referencePoint.length} objectives)` : '';
+        ctx.fillStyle = '#f0f0f0';
+        ctx.font = '12px system-ui';
+        ctx.textAlign = 'center';
+        ctx.fillText(`f1${others}`, left + (this.width - left - right) / 2, this.height - 10);
+        ctx.save();
+        ctx.translate(14, top + (this.height - top - bottom) / 2);
+        ctx.rotate(-Math.PI / 2);
+        ctx.fillText('f2', 0, 0);
+        ctx.restore();
+    }
+
+    /**
+     * Staircase region dominated by the archive and bounded by the reference point
+     */
+    private shadeDominatedArea(front: number[][]): void {
+        const [rf1, rf2] = this.referencePoint;
+        const inside = front
+            .filter(p => p[0] < rf1 && p[1] < rf2)
+            .sort((a, b) => a[0] - b[0]);
+        if (inside.length === 0) return;
+
+        const ctx = this.ctx;
+        ctx.beginPath();
+        const start = this.toScreen([inside[0][0], rf2]);
+        ctx.moveTo(start[0], start[1]);
+        let previousF2 = rf2;
+        for (const [f1, f2] of inside) {
+            if (f2 >= previousF2) continue;
+            ctx.lineTo(...this.toScreen([f1, previousF2]));
+            ctx.lineTo(...this.toScreen([f1, f2]));
+            previousF2 = f2;
+        }
+        ctx.lineTo(...this.toScreen([rf1, previousF2]));
+        ctx.lineTo(...this.toScreen([rf1, rf2]));
+        ctx.closePath();
+        ctx.fillStyle = 'rgba(251, 191, 36, 0.12)';
+        ctx.fill();
+        ctx.strokeStyle = 'rgba(251, 191, 36, 0.5)';
+        ctx.lineWidth = 1;
+        ctx.stroke();
+    }
+
+    /**
+     * Filled dot inside the axes, hollow dot pinned to the edge outside them
+     */
+    private drawPoint(objectives: number[], radius: number, color: string): void {
+        const ctx = this.ctx;
+        const [ex, ey] = this.extents;
+        const outside = objectives[0] < ex.min || objectives[0] > ex.max
+            || objectives[1] < ey.min || objectives[1] > ey.max;
+        const [x, y] = this.toScreen([
+            Math.min(Math.max(objectives[0], ex.min), ex.max),
+            Math.min(Math.max(objectives[1], ey.min), ey.max)
+        ]);
+
+        ctx.beginPath();
+        ctx.arc(x, y, radius, 0, Math.PI * 2);
+        if (outside) {
+            ctx.strokeStyle = color;
+            ctx.lineWidth = 1;
+            ctx.stroke();
+        } else {
+            ctx.fillStyle = color;
+            ctx.fill();
+        }
+    }
+
+    /**
+     * Map (f1, f2) to canvas pixels (f2 grows upwards)
+     */
+    private toScreen(objectives: number[]): [number, number] {
+        const { top, right, bottom, left } = this.margin;
+        const [ex, ey] = this.extents;
+        return [
+            left + ((objectives[0] - ex.min) / (ex.max - ex.min)) * (this.width - left - right),
+            this.height - bottom - ((objectives[1] - ey.min) / (ey.max - ey.min)) * (this.height - top - bottom)
+        ];
+    }
+}
+
+function formatTick(value: number): string {
+    return Math.abs(value) >= 100 ? value.toFixed(0) : +value.toFixed(2) + '';
+}
@@ -3,6 +3,11 @@
  */
 
 import { rastrigin2D, ObjectiveFunction2D } from '../core/test-functions';
+import { constraintViolation } from '../core/constraints';
+import { Constraint } from '../core/types';
+
+/** Landscapes of a dynamic function kept for quick back-and-forth playback */
+const LANDSCAPE_CACHE_SIZE = 8;
 
 export class SwarmCanvas {
     private canvas: HTMLCanvasElement;
@@ -12,6 +17,12 @@ export class SwarmCanvas {
     private bounds: [number, number] = [-5.12, 5.12];
     private landscapeImage: ImageData | null = null;
     private func: ObjectiveFunction2D = rastrigin2D;
+    private constraints: Constraint[] = [];
+
+    // Dynamic functions: one landscape per environment
+    private landscapeAt: ((environment: number) => ObjectiveFunction2D) | null = null;
+    private environment = 0;
+    private landscapeCache = new Map<number, ImageData>();
 
     // Trail for global best
     private trailPoints: Array<{ x: number, y: number }> = [];
@@ -29,14 +40,51 @@ export class SwarmCanvas {
 
     /**
      * Update the test function and regenerate landscape
+     *
+     * @param constraints - Infeasible regions are hatched over the landscape
      */
-    public setFunction(func: ObjectiveFunction2D, bounds: { min: number; max: number }): void {
+    public setFunction(func: ObjectiveFunction2D, bounds: { min: number; max: number }, constraints: Constraint[] = []): void {
+        this.landscapeAt = null;
+        this.landscapeCache.clear();
         this.func = func;
         this.bounds = [bounds.min, bounds.max];
+        this.constraints = constraints;
         this.generateLandscape();
         this.clearTrail();
     }
 
+    /**
+     * Use a time-varying function, starting from environment 0;
+     * switch environments with setEnvironment()
+     */
+    public setDynamicFunction(landscapeAt: (environment: number) => ObjectiveFunction2D, bounds: { min: number; max: number }): void {
+        this.setFunction(landscapeAt(0), bounds);
+        this.landscapeAt = landscapeAt;
+        this.environment = 0;
+    }
+
+    /** Show the landscape of an environment of the dynamic function (no-op for static functions) */
+    public setEnvironment(environment: number): void {
+        if (!this.landscapeAt || environment === this.environment) return;
+
+        if (this.landscapeImage) {
+            if (this.landscapeCache.size >= LANDSCAPE_CACHE_SIZE) {
+                this.landscapeCache.delete(this.landscapeCache.keys().next().value as number);
+            }
+            this.landscapeCache.set(this.environment, this.landscapeImage);
+        }
+
+        this.environment = environment;
+        this.func = this.landscapeAt(environment);
+        const cached = this.landscapeCache.get(environment);
+        if (cached) {
+            this.landscapeCache.delete(environment);
+            this.landscapeImage = cached;
+        } else {
+            this.generateLandscape();
+        }
+    }
+
     private resize(): void {
         const rect = this.canvas.parentElement?.getBoundingClientRect();
         if (!rect) return;
@@ -47,7 +95,8 @@ export class SwarmCanvas {
         this.width = size;
         this.height = size;
 
-        // Regenerate landscape
+        // Regenerate landscape (cached ones have the old size)
+        this.landscapeCache.clear();
         this.generateLandscape();
     }
 
@@ -57,25 +106,46 @@ export class SwarmCanvas {
         const [min, max] = this.bounds;
         const range = max - min;
 
-        // Calculate min/max for normalization
-        let minVal = Infinity, maxVal = -Infinity;
-        const values: number[] = [];
+        // Sample the function (and feasibility), tracking the minimum
+        let rawMin = Infinity;
+        const raw: number[] = [];
+        const infeasible: boolean[] = [];
 
         for (let py = 0; py < this.height; py++) {
             for (let px = 0; px < this.width; px++) {
                 const x = min + (px / this.width) * range;
                 const y = min + ((this.height - py) / this.height) * range;
-                const val = Math.log1p(this.func(x, y));
-                values.push(val);
-                if (val < minVal) minVal = val;
-                if (val > maxVal) maxVal = val;
+                const val = this.func(x, y);
+                raw.push(val);
+                if (val < rawMin) rawMin = val;
+                infeasible.push(this.constraints.length > 0 && constraintViolation(this.constraints, [x, y]) > 0);
             }
         }
 
+        // Log scale above the minimum (so functions with negative values work too)
+        let minVal = Infinity, maxVal = -Infinity;
+        const values = raw.map(val => {
+            const scaled = Math.log1p(val - rawMin);
+            if (scaled < minVal) minVal = scaled;
+            if (scaled > maxVal) maxVal = scaled;
+            return scaled;
+        });
+
         // Create colorful gradient
         for (let i = 0; i < values.length; i++) {
             const normalized = (values[i] - minVal) / (maxVal - minVal);
-            const [r, g, b] = this.viridisColor(normalized);
+            let [r, g, b] = this.viridisColor(normalized);
+
+            // Infeasible region: washed out towards grey, with diagonal hatching
+            if (infeasible[i]) {
+                const px = i % this.width;
+                const py = Math.floor(i / this.width);
+                const grey = (px + py) % 10 < 2 ? 150 : 60;
+                r = Math.round(r * 0.3 + grey * 0.7);
+                g = Math.round(g * 0.3 + grey * 0.7);
+                b = Math.round(b * 0.3 + grey * 0.7);
+            }
+
             const idx = i * 4;
             data[idx] = r;
             data[idx + 1] = g;
@@ -223,11 +293,18 @@ export class SwarmCanvas {
      * Render an interpolated (tweened) state for smooth animation
      */
     public renderTweened(state: {
-        particles: Array<{ x: number; y: number; vx: number; vy: number }>;
+        /** Particles; `color` (RGB) overrides the default red (e.g. per-agent roles) */
+        particles: Array<{ x: number; y: number; vx: number; vy: number; color?: [number, number, number] }>;
         gbestX: number;
         gbestY: number;
         gbestFitness: number;
         iteration: number;
+        /** Event positions drawn as crosses (e.g. abandoned nests) */
+        markers?: Array<{ x: number; y: number }>;
+        /** Particle index pairs drawn as lines, flattened [a0, b0, a1, b1, ...] (e.g. attractions) */
+        links?: number[];
+        /** Labelled positions drawn as rings (e.g. the α, β, δ wolves) */
+        highlights?: Array<{ x: number; y: number; label: string }>;
     }, showVelocities: boolean = true): void {
         const ctx = this.ctx;
 
@@ -256,6 +333,23 @@ export class SwarmCanvas {
             ctx.stroke();
         }
 
+        // Links between particles
+        if (state.links && state.links.length > 0) {
+            ctx.beginPath();
+            for (let k = 0; k + 1 < state.links.length; k += 2) {
+                const a = state.particles[state.links[k]];
+                const b = state.particles[state.links[k + 1]];
+                if (!a || !b) continue;
+                const [ax, ay] = this.worldToScreen(a.x, a.y);
+                const [bx, by] = this.worldToScreen(b.x, b.y);
+                ctx.moveTo(ax, ay);
+                ctx.lineTo(bx, by);
+            }
+            ctx.strokeStyle = 'rgba(250, 204, 21, 0.15)';
+            ctx.lineWidth = 1;
+            ctx.stroke();
+        }
+
         // Draw particles with glow effect
         for (const p of state.particles) {
             const [sx, sy] = this.worldToScreen(p.x, p.y);
@@ -275,10 +369,11 @@ export class SwarmCanvas {
             }
 
             // Particle glow
+            const rgb = (p.color ?? [239, 68, 68]).join(', ');
             const gradient = ctx.createRadialGradient(sx, sy, 0, sx, sy, 12);
-            gradient.addColorStop(0, 'rgba(239, 68, 68, 0.8)');
-            gradient.addColorStop(0.5, 'rgba(239, 68, 68, 0.3)');
-            gradient.addColorStop(1, 'rgba(239, 68, 68, 0)');
+            gradient.addColorStop(0, `rgba(${rgb}, 0.8)`);
+            gradient.addColorStop(0.5, `rgba(${rgb}, 0.3)`);
+            gradient.addColorStop(1, `rgba(${rgb}, 0)`);
             ctx.beginPath();
             ctx.arc(sx, sy, 12, 0, Math.PI * 2);
             ctx.fillStyle = gradient;
@@ -287,13 +382,25 @@ export class SwarmCanvas {
             // Particle core
             ctx.beginPath();
             ctx.arc(sx, sy, 5, 0, Math.PI * 2);
-            ctx.fillStyle = '#ef4444';
+            ctx.fillStyle = `rgb(${rgb})`;
             ctx.fill();
-            ctx.strokeStyle = '#7f1d1d';
+            ctx.strokeStyle = p.color ? 'rgba(0, 0, 0, 0.6)' : '#7f1d1d';
             ctx.lineWidth = 1;
             ctx.stroke();
         }
 
+        // Event markers
+        for (const m of state.markers ?? []) {
+            const [sx, sy] = this.worldToScreen(m.x, m.y);
+            this.drawCross(sx, sy, 5);
+        }
+
+        // Highlighted positions
+        for (const h of state.highlights ?? []) {
+            const [sx, sy] = this.worldToScreen(h.x, h.y);
+            this.drawRing(sx, sy, 9, h.label);
+        }
+
         // Draw global best (star)
         const [gx, gy] = this.worldToScreen(state.gbestX, state.gbestY);
         this.drawStar(gx, gy, 5, 15, 7);
@@ -306,6 +413,31 @@ export class SwarmCanvas {
         ctx.fillText(`Iteration: ${state.iteration}`, 20, 30);
     }
 
+    private drawCross(cx: number, cy: number, r: number): void {
+        const ctx = this.ctx;
+        ctx.beginPath();
+        ctx.moveTo(cx - r, cy - r);
+        ctx.lineTo(cx + r, cy + r);
+        ctx.moveTo(cx + r, cy - r);
+        ctx.lineTo(cx - r, cy + r);
+        ctx.strokeStyle = 'rgba(255, 255, 255, 0.8)';
+        ctx.lineWidth = 2;
+        ctx.stroke();
+    }
+
+    private drawRing(cx: number, cy: number, r: number, label: string): void {
+        const ctx = this.ctx;
+        ctx.beginPath();
+        ctx.arc(cx, cy, r, 0, Math.PI * 2);
+        ctx.strokeStyle = 'rgba(255, 255, 255, 0.9)';
+        ctx.lineWidth = 2;
+        ctx.stroke();
+
+        ctx.fillStyle = '#f0f0f0';
+        ctx.font = 'bold 12px Consolas, monospace';
+        ctx.fillText(label, cx + r + 2, cy - r);
+    }
+
     /**
      * Add a point to the global best trail (call at frame boundaries only)
      */
@@ -0,0 +1,153 @@
+/**
+ * Tour Canvas - city map rendering for permutation (TSP) runs
+ *
+ * Draws the cities of a TSP instance, every agent's tour as a faint
+ * overlay and the global-best tour on top.
+ */
+
+import { TSPInstance, City } from '../core/tsp';
+
+export class TourCanvas {
+    private canvas: HTMLCanvasElement;
+    private ctx: CanvasRenderingContext2D;
+    private width: number = 0;
+    private height: number = 0;
+    private instance: TSPInstance | null = null;
+    /** City positions in screen coordinates */
+    private points: Array<[number, number]> = [];
+
+    constructor(canvas: HTMLCanvasElement) {
+        this.canvas = canvas;
+        const ctx = canvas.getContext('2d');
+        if (!ctx) throw new Error('Could not get 2D context');
+        this.ctx = ctx;
+
+        this.resize();
+        window.addEventListener('resize', () => this.resize());
+    }
+
+    /**
+     * Update the instance and recompute city positions
+     */
+    public setInstance(instance: TSPInstance): void {
+        this.instance = instance;
+        this.layoutCities();
+    }
+
+    private resize(): void {
+        const rect = this.canvas.parentElement?.getBoundingClientRect();
+        if (!rect) return;
+
+        const size = Math.min(rect.width - 32, rect.height - 32, 700);
+        this.canvas.width = size;
+        this.canvas.height = size;
+        this.width = size;
+        this.height = size;
+
+        this.layoutCities();
+    }
+
+    /**
+     * Fit the cities into the canvas, keeping their aspect ratio
+     */
+    private layoutCities(): void {
+        if (!this.instance) return;
+
+        const coords = this.instance.cities.map(city => this.mapCoordinates(city));
+        const xs = coords.map(([x]) => x);
+        const ys = coords.map(([, y]) => y);
+        const minX = Math.min(...xs), maxX = Math.max(...xs);
+        const minY = Math.min(...ys), maxY = Math.max(...ys);
+
+        const margin = 24;
+        const scale = Math.min(
+            (this.width - 2 * margin) / Math.max(maxX - minX, 1e-9),
+            (this.height - 2 * margin) / Math.max(maxY - minY, 1e-9)
+        );
+        const offsetX = (this.width - (maxX - minX) * scale) / 2;
+        const offsetY = (this.height - (maxY - minY) * scale) / 2;
+
+        this.points = coords.map(([x, y]) => [
+            offsetX + (x - minX) * scale,
+            this.height - (offsetY + (y - minY) * scale)
+        ]);
+    }
+
+    /**
+     * Map coordinates: GEO instances store (latitude, longitude), drawn as (longitude, latitude)
+     */
+    private mapCoordinates(city: City): [number, number] {
+        return this.instance?.distanceType === 'GEO' ? [city.y, city.x] : [city.x, city.y];
+    }
+
+    public render(state: {
+        /** Global-best tour */
+        best: number[];
+        bestLength: number;
+        /** One tour per agent */
+        tours: number[][];
+        iteration: number;
+    }): void {
+        const ctx = this.ctx;
+
+        ctx.fillStyle = '#0a0a1a';
+        ctx.fillRect(0, 0, this.width, this.height);
+
+        // Agent tours
+        ctx.strokeStyle = 'rgba(239, 68, 68, 0.08)';
+        ctx.lineWidth = 1;
+        for (const tour of state.tours) {
+            this.strokeTour(tour);
+        }
+
+        // Global-best tour
+        ctx.strokeStyle = 'rgba(56, 189, 248, 0.9)';
+        ctx.lineWidth = 2;
+        this.strokeTour(state.best);
+
+        // Cities
+        ctx.fillStyle = '#f0f0f0';
+        for (const [x, y] of this.points) {
+            ctx.beginPath();
+            ctx.arc(x, y, 3, 0, Math.PI * 2);
+            ctx.fill();
+        }
+
+        // Start city of the best tour
+        const start = this.points[state.best[0]];
+        if (start) {
+            ctx.beginPath();
+            ctx.arc(start[0], start[1], 6, 0, Math.PI * 2);
+            ctx.strokeStyle = '#facc15';
+            ctx.lineWidth = 2;
+            ctx.stroke();
+        }
+
+        // Iteration and tour length label
+        const optimum = this.instance?.optimum;
+        const label = `Iteration: ${state.iteration}  Length: ${state.bestLength}`
+            + (optimum ? ` (opt ${optimum})` : '');
+        ctx.font = '14px Consolas, monospace';
+        ctx.fillStyle = 'rgba(0, 0, 0, 0.7)';
+        ctx.fillRect(10, 10, ctx.measureText(label).width + 20, 30);
+        ctx.fillStyle = '#f0f0f0';
+        ctx.fillText(label, 20, 30);
+    }
+
+    /**
+     * Stroke a closed tour through the city positions
+     */
+    private strokeTour(tour: number[]): void {
+        if (tour.length < 2) return;
+
+        const ctx = this.ctx;
+        ctx.beginPath();
+        for (let i = 0; i <= tour.length; i++) {
+            const point = this.points[tour[i % tour.length]];
+            if (!point) return;
+            if (i === 0) ctx.moveTo(point[0], point[1]);
+            else ctx.lineTo(point[0], point[1]);
+        }
+        ctx.stroke();
+    }
+}
@@ -0,0 +1,37 @@
+/**
+ * Optimizer Worker Protocol
+ * 
+ * Messages exchanged between the UI thread and the optimizer worker.
+ * Everything here must survive structured cloning (no functions).
+ */
+
+import { IterationState, ContinuousSolution, StopReason } from '../core/types';
+import { RunSettings } from '../core/factory';
+
+/** Run settings that can be posted to a worker */
+export type WorkerRunSettings = Omit<RunSettings, 'stoppingCriteria'>;
+
+/** Final outcome of a streamed run */
+export interface StreamResult {
+    stopReason: StopReason | null;
+    evaluations: number;
+    cancelled: boolean;
+}
+
+/** UI thread → worker */
+export type WorkerRequest =
+    | {
+        type: 'start';
+        runId: number;
+        settings: WorkerRunSettings;
+        maxIterations: number;
+        /** Iterations per streamed batch */
+        batchSize: number;
+    }
+    | { type: 'cancel'; runId: number };
+
+/** Worker → UI thread */
+export type WorkerResponse =
+    | { type: 'batch'; runId: number; states: IterationState<ContinuousSolution>[] }
+    | { type: 'done'; runId: number; result: StreamResult }
+    | { type: 'error'; runId: number; message: string };
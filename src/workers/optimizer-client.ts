@@ -0,0 +1,113 @@
+/**
+ * Optimizer Worker Client
+ *
+ * UI-thread handle on the optimizer worker. Starts runs, forwards
+ * streamed batches to callbacks and ignores messages from superseded
+ * or cancelled runs. Falls back to running in-thread (still batched)
+ * where Web Workers are unavailable.
+ */
+
+import { IterationState, ContinuousSolution } from '../core/types';
+import { WorkerRunSettings, WorkerRequest, WorkerResponse, StreamResult } from './messages';
+import { streamRun } from './stream';
+
+/** Callbacks for a streamed run */
+export interface StreamCallbacks {
+    onBatch: (states: IterationState<ContinuousSolution>[]) => void;
+    onDone: (result: StreamResult) => void;
+    onError: (message: string) => void;
+}
+
+export class OptimizerWorkerClient {
+    private worker: Worker | null = null;
+    private runId = 0;
+    private callbacks: StreamCallbacks | null = null;
+
+    /**
+     * Start a run, superseding any run in progress
+     *
+     * @param batchSize - Iterations per streamed batch
+     */
+    public start(
+        settings: WorkerRunSettings,
+        maxIterations: number,
+        callbacks: StreamCallbacks,
+        batchSize: number = 10
+    ): void {
+        const runId = ++this.runId;
+        this.callbacks = callbacks;
+
+        const worker = this.getWorker();
+        if (worker) {
+            this.send(worker, { type: 'start', runId, settings, maxIterations, batchSize });
+            return;
+        }
+
+        // In-thread fallback
+        streamRun(
+            settings,
+            maxIterations,
+            batchSize,
+            (states) => this.handle({ type: 'batch', runId, states }),
+            () => runId !== this.runId
+        )
+            .then(result => this.handle({ type: 'done', runId, result }))
+            .catch(err => this.handle({
+                type: 'error',
+                runId,
+                message: err instanceof Error ? err.message : String(err)
+            }));
+    }
+
+    /** Cancel the run in progress (its remaining messages are dropped) */
+    public cancel(): void {
+        const runId = this.runId;
+        if (this.worker) this.send(this.worker, { type: 'cancel', runId });
+
+        const callbacks = this.callbacks;
+        this.runId++;
+        this.callbacks = null;
+        callbacks?.onDone({ stopReason: null, evaluations: 0, cancelled: true });
+    }
+
+    /** Terminate the worker */
+    public dispose(): void {
+        this.runId++;
+        this.callbacks = null;
+        this.worker?.terminate();
+        this.worker = null;
+    }
+
+    private getWorker(): Worker | null {
+        if (typeof Worker === 'undefined') return null;
+        if (!this.worker) {
+            this.worker = new Worker(new URL('./optimizer.worker.ts', import.meta.url), { type: 'module' });
+            this.worker.addEventListener('message', (event: MessageEvent<WorkerResponse>) => {
+                this.handle(event.data);
+            });
+        }
+        return this.worker;
+    }
+
+    private send(worker: Worker, request: WorkerRequest): void {
+        worker.postMessage(request);
+    }
+
+    private handle(message: WorkerResponse): void {
+        if (message.runId !== this.runId || !this.callbacks) return;
+
+        switch (message.type) {
+            case 'batch':
+                this.callbacks.onBatch(message.states);
+                break;
+            case 'done':
+                this.callbacks.onDone(message.result);
+                this.callbacks = null;
+                break;
+            case 'error':
+                this.callbacks.onError(message.message);
+                this.callbacks = null;
+                break;
+        }
+    }
+}
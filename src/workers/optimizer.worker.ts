@@ -0,0 +1,43 @@
+/**
+ * Optimizer Web Worker
+ * 
+ * Runs optimizations off the UI thread and streams IterationState
+ * batches back as they are produced. A new 'start' supersedes any
+ * run in progress; 'cancel' stops the current run at the next batch.
+ */
+
+import { WorkerRequest, WorkerResponse } from './messages';
+import { streamRun } from './stream';
+
+const ctx = self as unknown as Worker;
+
+let activeRunId = -1;
+
+function post(message: WorkerResponse): void {
+    ctx.postMessage(message);
+}
+
+ctx.addEventListener('message', async (event: MessageEvent<WorkerRequest>) => {
+    const request = event.data;
+
+    if (request.type === 'cancel') {
+        if (request.runId === activeRunId) activeRunId = -1;
+        return;
+    }
+
+    const runId = request.runId;
+    activeRunId = runId;
+
+    try {
+        const result = await streamRun(
+            request.settings,
+            request.maxIterations,
+            request.batchSize,
+            (states) => post({ type: 'batch', runId, states }),
+            () => activeRunId !== runId
+        );
+        post({ type: 'done', runId, result });
+    } catch (err) {
+        post({ type: 'error', runId, message: err instanceof Error ? err.message : String(err) });
+    }
+});
@@ -0,0 +1,70 @@
+/**
+ * Streamed Run Loop
+ * 
+ * Runs an optimizer in batches, handing each batch of new history
+ * entries to a callback and yielding between batches so that cancel
+ * requests (and, on the main thread, rendering) can get through.
+ * Shared by the worker and the in-thread fallback.
+ */
+
+import { IterationState, ContinuousSolution } from '../core/types';
+import { createOptimizer } from '../core/factory';
+import { WorkerRunSettings, StreamResult } from './messages';
+
+/** Give the event loop a chance to deliver pending messages */
+function yieldToEventLoop(): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, 0));
+}
+
+/**
+ * Run an optimization and stream its history
+ * 
+ * @param settings - Serializable run settings
+ * @param maxIterations - Iteration limit for the whole run
+ * @param batchSize - Iterations per batch
+ * @param onBatch - Receives the states recorded since the previous batch
+ * @param isCancelled - Polled between batches
+ */
+export async function streamRun(
+    settings: WorkerRunSettings,
+    maxIterations: number,
+    batchSize: number,
+    onBatch: (states: IterationState<ContinuousSolution>[]) => void,
+    isCancelled: () => boolean
+): Promise<StreamResult> {
+    const optimizer = createOptimizer({ ...settings, maxIterations });
+    const history = optimizer.getHistory();
+    let sent = 0;
+
+    const flush = () => {
+        if (history.length > sent) {
+            onBatch(history.slice(sent));
+            sent = history.length;
+        }
+    };
+
+    // Initial population
+    flush();
+
+    let remaining = maxIterations;
+    while (remaining > 0) {
+        await yieldToEventLoop();
+        if (isCancelled()) {
+            return { stopReason: null, evaluations: optimizer.getEvaluations(), cancelled: true };
+        }
+
+        const n = Math.min(batchSize, remaining);
+        remaining -= n;
+
+        // The last slice goes through run() so the final state is marked 'max-iterations'
+        const keepGoing = remaining > 0 ? optimizer.runBatch(n) : (optimizer.run(n), false);
+        flush();
+        if (!keepGoing) break;
+    }
+
+    return {
+        stopReason: optimizer.getStopReason(),
+        evaluations: optimizer.getEvaluations(),
+        cancelled: false
+    };
+}